@@ -0,0 +1,17 @@
+-- Add context fingerprint columns to annotations table
+-- The lines before and after an annotated range, used together with line_content
+-- to re-anchor annotations when collaborators edit the code
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS anchor_prefix TEXT;
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS anchor_suffix TEXT;
+
+COMMENT ON COLUMN public.annotations.anchor_prefix IS 'Lines immediately before the annotated range at the time it was last anchored. Used to relocate the annotation after edits.';
+COMMENT ON COLUMN public.annotations.anchor_suffix IS 'Lines immediately after the annotated range at the time it was last anchored. Used to relocate the annotation after edits.';
+
+-- Verify the columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'annotations' AND column_name IN ('anchor_prefix', 'anchor_suffix');
@@ -0,0 +1,52 @@
+-- Qualitative coding
+-- Each project keeps a hierarchical codebook, and annotations carry any number of its codes
+-- alongside their single type
+
+-- Ids of codes from the project's codebook
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS codes TEXT[];
+
+-- Stored in its own column rather than session_data, which is only written on a manual save,
+-- so collaborators see codebook changes straight away
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS codebook JSONB;
+
+COMMENT ON COLUMN public.annotations.codes IS 'Ids of codes from the project''s codebook applied to this annotation.';
+COMMENT ON COLUMN public.projects.codebook IS 'Array of codes ({id, name, parentId, color, description}); parentId nests a code under another. NULL means no codebook.';
+
+-- Editors as well as the owner change the codebook, but the UPDATE policy on projects is
+-- owner-only, so the change goes through this function, which checks the caller can edit the project
+CREATE OR REPLACE FUNCTION public.set_codebook(
+  p_project_id UUID,
+  p_codebook JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.projects p
+  SET codebook = p_codebook
+  WHERE p.id = p_project_id
+    AND (
+      p.owner_id = auth.uid()
+      OR p.id IN (
+        SELECT project_id FROM public.project_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the project owner and editors can change the codebook';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_codebook(UUID, JSONB) TO authenticated;
+
+-- Verify the changes
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'annotations' AND column_name = 'codes')
+   OR (table_name = 'projects' AND column_name = 'codebook');
@@ -0,0 +1,26 @@
+-- Add link columns to annotations table
+-- A link annotation belongs to one file (file_id, line_number) and also references a
+-- range in a second file, for comparative readings of two versions or implementations
+
+-- No foreign key: deleting the linked file clears the link in the client instead
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS linked_file_id UUID;
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS linked_line_number INTEGER;
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS linked_end_line_number INTEGER;
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS linked_line_content TEXT;
+
+COMMENT ON COLUMN public.annotations.linked_file_id IS 'Second file a link annotation connects to. NULL for ordinary annotations.';
+COMMENT ON COLUMN public.annotations.linked_line_number IS 'Start line of the linked range in linked_file_id.';
+COMMENT ON COLUMN public.annotations.linked_end_line_number IS 'End line of the linked range (NULL = single line).';
+COMMENT ON COLUMN public.annotations.linked_line_content IS 'Text of the linked range, used to re-anchor it after the linked file is edited.';
+
+-- Verify the columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'annotations' AND column_name LIKE 'linked_%';
@@ -0,0 +1,13 @@
+-- Add orphaned flag to annotations table
+-- Set when re-anchoring finds no confident position for an annotation after an edit, so the
+-- orphan review list survives a reload and reaches collaborators
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS orphaned BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.annotations.orphaned IS 'True when the annotated text could not be found after an edit. The annotation keeps its last position and re-attaches if the text returns.';
+
+-- Verify the column was added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'annotations' AND column_name = 'orphaned';
@@ -0,0 +1,18 @@
+-- Add provenance columns to annotations table
+-- Annotations saved from an assistant reply record the message and model they came from,
+-- so AI-derived annotations can be told apart from the analyst's own
+
+-- No foreign key: chat messages live in the project's session data, not a table
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS source_message_id TEXT;
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS source_model TEXT;
+
+COMMENT ON COLUMN public.annotations.source_message_id IS 'Assistant message the annotation text was saved from. NULL for annotations written by the analyst.';
+COMMENT ON COLUMN public.annotations.source_model IS 'Display name of the model that wrote the saved text.';
+
+-- Verify the columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'annotations' AND column_name LIKE 'source_%';
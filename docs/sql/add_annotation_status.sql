@@ -0,0 +1,55 @@
+-- Annotation status
+-- Annotations (questions especially) can be marked open, resolved or won't fix, so discussions
+-- in reply threads get closed
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS status TEXT CHECK (status IN ('open', 'resolved', 'wont-fix'));
+
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS status_changed_by TEXT;
+
+COMMENT ON COLUMN public.annotations.status IS 'Discussion status: open, resolved or wont-fix. NULL means no status (question annotations count as open).';
+COMMENT ON COLUMN public.annotations.status_changed_by IS 'Initials of the user who last set the status.';
+
+-- Any member of the project may resolve a question, not only its author, but the UPDATE policy
+-- only lets users change their own annotations. This function changes the status columns alone.
+CREATE OR REPLACE FUNCTION public.set_annotation_status(
+  p_annotation_id UUID,
+  p_status TEXT,
+  p_changed_by TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status IS NOT NULL AND p_status NOT IN ('open', 'resolved', 'wont-fix') THEN
+    RAISE EXCEPTION 'Unknown annotation status: %', p_status;
+  END IF;
+
+  UPDATE public.annotations a
+  SET status = p_status,
+      status_changed_by = p_changed_by,
+      updated_at = NOW()
+  WHERE a.id = p_annotation_id
+    AND (
+      a.project_id IN (SELECT id FROM public.projects WHERE owner_id = auth.uid())
+      OR a.project_id IN (
+        SELECT project_id FROM public.project_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Annotation not found or not editable';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_annotation_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Verify the changes
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'annotations' AND column_name IN ('status', 'status_changed_by');
@@ -0,0 +1,55 @@
+-- Project-defined annotation types
+-- Each project keeps its own taxonomy (label, inline prefix, colours, description per type),
+-- so annotation types are no longer limited to the six built-in values
+
+-- Annotation types become free-form ids from the project's taxonomy
+ALTER TABLE public.annotations
+ALTER COLUMN type TYPE TEXT USING type::text;
+
+-- The enum is no longer referenced once the column is TEXT
+DROP TYPE IF EXISTS annotation_type;
+
+-- Stored in its own column rather than session_data, which is only written on a manual save,
+-- so collaborators see type changes straight away
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS annotation_taxonomy JSONB;
+
+COMMENT ON COLUMN public.annotations.type IS 'Id of a type in the project''s annotation taxonomy.';
+COMMENT ON COLUMN public.projects.annotation_taxonomy IS 'Array of annotation type definitions ({id, label, prefix, color: {light, dark}, description}). NULL means the six default types.';
+
+-- Editors as well as the owner change the annotation types, but the UPDATE policy on projects is
+-- owner-only, so the change goes through this function, which checks the caller can edit the project
+CREATE OR REPLACE FUNCTION public.set_annotation_taxonomy(
+  p_project_id UUID,
+  p_taxonomy JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.projects p
+  SET annotation_taxonomy = p_taxonomy
+  WHERE p.id = p_project_id
+    AND (
+      p.owner_id = auth.uid()
+      OR p.id IN (
+        SELECT project_id FROM public.project_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the project owner and editors can change the annotation types';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_annotation_taxonomy(UUID, JSONB) TO authenticated;
+
+-- Verify the changes
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'annotations' AND column_name = 'type')
+   OR (table_name = 'projects' AND column_name = 'annotation_taxonomy');
@@ -0,0 +1,100 @@
+-- Blind annotation
+-- Members of a project annotate a file without seeing each other's annotations until each
+-- submits their own reading, so inter-annotator agreement can be measured on independent readings
+
+-- Stored in its own column rather than session_data, which is only written on a manual save,
+-- so submissions reach collaborators straight away
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS blind_annotation JSONB;
+
+COMMENT ON COLUMN public.projects.blind_annotation IS 'Blind annotation settings ({enabled, submissions: {file id: [initials]}}). NULL means blind annotation is off.';
+
+-- Only the owner may switch blind annotation on or off. The function changes the enabled flag
+-- alone, keeping the submissions, and returns the updated settings.
+CREATE OR REPLACE FUNCTION public.set_blind_annotation_enabled(
+  p_project_id UUID,
+  p_enabled BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+BEGIN
+  UPDATE public.projects p
+  SET blind_annotation = jsonb_build_object(
+        'enabled', COALESCE(p_enabled, false),
+        'submissions', COALESCE(p.blind_annotation -> 'submissions', '{}'::jsonb)
+      )
+  WHERE p.id = p_project_id
+    AND p.owner_id = auth.uid()
+  RETURNING p.blind_annotation INTO v_settings;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the project owner can switch blind annotation on or off';
+  END IF;
+
+  RETURN v_settings;
+END;
+$$;
+
+-- Members submit their own readings, but the UPDATE policy on projects is owner-only. This
+-- function adds one submission in a single UPDATE, so the row lock makes members submitting at
+-- the same time wait for each other rather than overwrite each other. Returns the updated settings.
+CREATE OR REPLACE FUNCTION public.submit_blind_reading(
+  p_project_id UUID,
+  p_file_id TEXT,
+  p_initials TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+BEGIN
+  IF COALESCE(p_file_id, '') = '' OR COALESCE(p_initials, '') = '' THEN
+    RAISE EXCEPTION 'A file and the member''s initials are required';
+  END IF;
+
+  UPDATE public.projects p
+  SET blind_annotation = CASE
+        WHEN COALESCE(p.blind_annotation -> 'submissions' -> p_file_id, '[]'::jsonb) ? p_initials
+          THEN p.blind_annotation
+        ELSE jsonb_set(
+          jsonb_build_object(
+            'enabled', COALESCE((p.blind_annotation ->> 'enabled')::boolean, false),
+            'submissions', COALESCE(p.blind_annotation -> 'submissions', '{}'::jsonb)
+          ),
+          ARRAY['submissions', p_file_id],
+          COALESCE(p.blind_annotation -> 'submissions' -> p_file_id, '[]'::jsonb) || to_jsonb(p_initials)
+        )
+      END
+  WHERE p.id = p_project_id
+    AND (
+      p.owner_id = auth.uid()
+      OR p.id IN (
+        SELECT project_id FROM public.project_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    )
+  RETURNING p.blind_annotation INTO v_settings;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only members who can annotate this project can submit a reading';
+  END IF;
+
+  RETURN v_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_blind_annotation_enabled(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_blind_reading(UUID, TEXT, TEXT) TO authenticated;
+
+-- Verify the change
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'projects' AND column_name = 'blind_annotation';
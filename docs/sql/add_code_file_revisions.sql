@@ -0,0 +1,77 @@
+-- Revision history for code files
+-- Every committed save of a code file is stored with its author and timestamp, so a
+-- reconstructed listing's evolution can be browsed, compared and restored.
+-- Annotations record the revision that was current when they were written.
+
+CREATE TABLE IF NOT EXISTS public.code_file_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES public.code_files(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  message TEXT,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS code_file_revisions_file_id_idx
+ON public.code_file_revisions (file_id, created_at);
+
+CREATE INDEX IF NOT EXISTS code_file_revisions_project_id_idx
+ON public.code_file_revisions (project_id);
+
+-- No foreign key: an annotation can reach the server before the revision it was written on
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS revision_id UUID;
+
+COMMENT ON TABLE public.code_file_revisions IS 'Committed versions of code files, oldest first by created_at. Revisions are never updated, only added.';
+COMMENT ON COLUMN public.annotations.revision_id IS 'File revision that was current when the annotation was written. NULL for annotations written before the file had any committed revision.';
+
+-- RLS: project owners and members can view and add revisions; revisions are immutable
+ALTER TABLE public.code_file_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions in their projects" ON public.code_file_revisions;
+DROP POLICY IF EXISTS "Users can insert revisions in their projects" ON public.code_file_revisions;
+
+CREATE POLICY "Users can view revisions in their projects"
+ON public.code_file_revisions
+FOR SELECT
+TO authenticated
+USING (
+  project_id IN (
+    SELECT id
+    FROM public.projects
+    WHERE owner_id = auth.uid()
+  )
+  OR project_id IN (
+    SELECT project_id
+    FROM public.project_members
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert revisions in their projects"
+ON public.code_file_revisions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (
+    project_id IN (
+      SELECT id
+      FROM public.projects
+      WHERE owner_id = auth.uid()
+    )
+    OR project_id IN (
+      SELECT project_id
+      FROM public.project_members
+      WHERE user_id = auth.uid()
+    )
+  )
+  AND author_id = auth.uid()
+);
+
+-- Verify the table and column were added
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'code_file_revisions')
+   OR (table_name = 'annotations' AND column_name = 'revision_id');
@@ -0,0 +1,12 @@
+const nextJest = require("next/jest");
+
+// Compiles TypeScript with Next's SWC transform and loads next.config.js and .env files
+const createJestConfig = nextJest({ dir: "./" });
+
+module.exports = createJestConfig({
+  testEnvironment: "node",
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+  testPathIgnorePatterns: ["/node_modules/", "/.next/"],
+});
@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { generateId, getCurrentTimestamp } from "@/lib/utils";
 import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rate-limit";
-import { extractAIConfig, validateAIConfig, generateAIResponse } from "@/lib/ai/client";
-import { getModelDisplayName } from "@/lib/ai/config";
+import { extractAIConfig, validateAIConfig, generateAIResponse, streamAIResponse } from "@/lib/ai/client";
+import { getModelDisplayName, getModelContextWindow, modelSupportsStreaming, modelSupportsTools } from "@/lib/ai/config";
+import { planChatContext } from "@/lib/ai/context-budget";
+import { createSessionTools, MAX_TOOL_STEPS, SESSION_TOOLS_PROMPT } from "@/lib/ai/session-tools";
 import { getMethodologyForPhase } from "@/lib/prompts/ccs-methodology";
-import type { ChatRequest, ChatResponse } from "@/types/api";
-import type { Message } from "@/types/session";
+import { describeAnnotationTaxonomy, normalizeAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import type { ChatRequest, ChatResponse, ChatStreamEvent, ChatToolContext, ContextBudgetReport } from "@/types/api";
+import type { AssistantToolCall, Message, MessageMetadata } from "@/types/session";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types/session";
+import type { AIFallbackAttempt, AIRequestConfig, AIRequestContext } from "@/types/ai-settings";
+
+// Reply length cap; also reserved out of the context window when budgeting the prompt
+const CHAT_MAX_OUTPUT_TOKENS = 1024;
 
 // Experience level guidance - affects how the assistant engages with the user
 function getExperienceLevelGuidance(experienceLevel?: string): string {
@@ -54,7 +62,8 @@ function buildSystemPrompt(
   experienceLevel?: string,
   mode?: string,
   createLanguage?: string,
-  defaultLanguage?: string
+  defaultLanguage?: string,
+  ccsMethodology: string = ""
 ): string {
   const experienceGuidance = getExperienceLevelGuidance(experienceLevel);
 
@@ -73,9 +82,6 @@ function buildSystemPrompt(
     ? `When discussing hermeneutic concepts (close reading, intentional fallacy, triadic structure, execution context), explain them briefly and offer to go deeper. Connect to critical code studies scholarship.`
     : `Guide through Socratic dialogue. Ask questions that prompt deeper engagement with the code rather than lecturing about methodology.`;
 
-  // Get the appropriate CCS methodology for this mode and phase
-  const ccsMethodology = getMethodologyForPhase(currentPhase, mode);
-
   return `You are a critical code studies assistant helping scholars engage in close reading and hermeneutic analysis of software. Your role is to facilitate rigorous interpretation of code as a cultural artefact, drawing on the methodological frameworks of David M. Berry and Mark C. Marino.
 
 ${experienceGuidance}
@@ -219,6 +225,21 @@ function getPhaseGuidance(phase: string): string {
   }
 }
 
+// Put the lines an "ask about selection" message is anchored to in front of its text,
+// numbered as in the editor
+function withAnchorQuote(message: Message): string {
+  const anchor = message.metadata?.anchor;
+  if (!anchor) return message.content;
+  const range = anchor.endLineNumber && anchor.endLineNumber !== anchor.lineNumber
+    ? `lines ${anchor.lineNumber}-${anchor.endLineNumber}`
+    : `line ${anchor.lineNumber}`;
+  const quoted = anchor.lineContent
+    .split("\n")
+    .map((line, i) => `${anchor.lineNumber + i} | ${line}`)
+    .join("\n");
+  return `About ${anchor.fileName}, ${range}:\n\`\`\`\n${quoted}\n\`\`\`\n\n${message.content}`;
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Check rate limit
@@ -246,7 +267,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: ChatRequest = await request.json();
-    const { messages, currentPhase, experienceLevel, analysisContext, literatureContext, mode, codeContext, createLanguage, defaultLanguage } = body;
+    const { messages, currentPhase, experienceLevel, analysisContext, literatureContext, mode, codeContext, createLanguage, defaultLanguage, selectedFileId, toolContext, annotationTypes, stream } = body;
 
     // Extract conversation style settings from headers (moved from session to AI settings)
     const beDirectMode = request.headers.get("X-AI-Be-Direct") === "true";
@@ -267,17 +288,17 @@ export async function POST(request: NextRequest) {
 
       // If annotations present, explain the annotation system
       if (hasAnnotations) {
+        // The project's own taxonomy, so categories like "Labour" or "Gender" are read as the analyst meant them
+        const taxonomy = normalizeAnnotationTaxonomy(annotationTypes) || DEFAULT_ANNOTATION_TAXONOMY;
         additionalContext += `**Analyst Annotations**: The code below includes inline annotations marked with \`// An:TYPE:\` where TYPE indicates the kind of observation:
-- **Obs** (Observation): A notable feature, pattern, or detail the analyst has identified
-- **Q** (Question): Something the analyst wants to explore or understand better
-- **Met** (Metaphor): A metaphorical or figurative interpretation of the code
-- **Pat** (Pattern): A recurring structure, idiom, or convention identified
-- **Ctx** (Context): Historical, cultural, or situational context relevant to this line
-- **Crit** (Critique): A critical observation or interpretive claim
+${describeAnnotationTaxonomy(taxonomy)}
 
 Engage with these annotations in your response. They represent the analyst's developing interpretation and are entry points for deeper discussion.\n\n`;
       }
 
+      // The listings themselves travel with the latest user message (line-numbered and fitted to the context budget)
+      additionalContext += "The code listings are included, with line numbers, in the analyst's latest message. Long files may be shown in part.\n\n";
+
       codeContext.forEach((code: { name: string; language?: string; content?: string; author?: string; date?: string; platform?: string; context?: string }) => {
         additionalContext += `### ${code.name}`;
         if (code.language) additionalContext += ` (${code.language})`;
@@ -286,9 +307,7 @@ Engage with these annotations in your response. They represent the analyst's dev
         if (code.date) additionalContext += `Date: ${code.date}\n`;
         if (code.platform) additionalContext += `Platform: ${code.platform}\n`;
         if (code.context) additionalContext += `Context: ${code.context}\n`;
-        if (code.content) {
-          additionalContext += "\n```\n" + code.content + "\n```\n\n";
-        }
+        additionalContext += "\n";
       });
     }
 
@@ -320,9 +339,6 @@ Engage with these annotations in your response. They represent the analyst's dev
       });
     }
 
-    // Build system prompt with experience level and mode context
-    const systemPrompt = buildSystemPrompt(settings, currentPhase, experienceLevel, mode, createLanguage, defaultLanguage) + additionalContext;
-
     // Extract and validate AI configuration from request headers
     const aiConfig = extractAIConfig(request);
     const validation = validateAIConfig(aiConfig);
@@ -344,66 +360,103 @@ Engage with these annotations in your response. They represent the analyst's dev
     const hasAnnotations = hasCode &&
       codeContext!.some((code: { content?: string }) => code.content?.includes("// An:"));
 
-    // Helper to add line numbers to code
-    const addLineNumbers = (code: string): string => {
-      const lines = code.split("\n");
-      return lines.map((line, i) => `${String(i + 1).padStart(3, " ")} | ${line}`).join("\n");
-    };
+    // Fit methodology, code and history into the model's context window
+    const plan = planChatContext({
+      contextWindow: aiConfig.contextWindow ?? getModelContextWindow(aiConfig.provider, aiConfig.model),
+      maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS,
+      basePrompt: buildSystemPrompt(settings, currentPhase, experienceLevel, mode, createLanguage, defaultLanguage) + additionalContext,
+      methodology: getMethodologyForPhase(currentPhase, mode),
+      codeFiles: hasCode ? codeContext! : [],
+      messages: messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({ role: m.role as "user" | "assistant", content: withAnchorQuote(m) })),
+      selectedFileId,
+    });
+    const contextReport: ContextBudgetReport | undefined = hasCode || messages.length > 1 ? plan.report : undefined;
+
+    // Offer session tools when the client sent the project and the model can call tools
+    const useTools = !!toolContext && toolContext.files.length > 0 &&
+      modelSupportsTools(aiConfig.provider, aiConfig.model);
+
+    // Build system prompt with experience level, mode context and the fitted methodology
+    const systemPrompt = buildSystemPrompt(settings, currentPhase, experienceLevel, mode, createLanguage, defaultLanguage, plan.methodology)
+      + additionalContext
+      + (useTools ? `\n\n${SESSION_TOOLS_PROMPT}\n` : "")
+      + plan.historySummary;
 
     // Convert messages to AI SDK format
-    const aiMessages = messages
-      .filter((m) => m.role !== "system")
-      .map((m, index, arr) => {
-        let content = m.content;
-
-        // For the last user message, include the code with line numbers
-        // This ensures the LLM can reference specific lines accurately
-        if (m.role === "user" && index === arr.length - 1 && hasCode) {
-          let codeBlock = hasAnnotations
-            ? "**Code with my annotations (line numbers shown):**\n\n"
-            : "**Code being analysed (line numbers shown):**\n\n";
-          codeContext!.forEach((code: { name: string; language?: string; content?: string }) => {
-            if (code.content) {
-              const numberedCode = addLineNumbers(code.content);
-              codeBlock += `File: ${code.name}\n\`\`\`\n${numberedCode}\n\`\`\`\n\n`;
-            }
-          });
-          if (hasAnnotations) {
-            codeBlock += "Please engage with my `// An:TYPE:` annotations above.\n\n";
-          } else {
-            codeBlock += "When suggesting annotations, use the exact line numbers shown above.\n\n";
-          }
-          content = codeBlock + content;
+    const aiMessages = plan.messages.map((m, index, arr) => {
+      // For the last user message, include the code with line numbers
+      // This ensures the LLM can reference specific lines accurately
+      if (m.role === "user" && index === arr.length - 1 && plan.codeBlock) {
+        let codeBlock = hasAnnotations
+          ? "**Code with my annotations (line numbers shown):**\n\n"
+          : "**Code being analysed (line numbers shown):**\n\n";
+        codeBlock += plan.codeBlock;
+        if (hasAnnotations) {
+          codeBlock += "Please engage with my `// An:TYPE:` annotations above.\n\n";
+        } else {
+          codeBlock += "When suggesting annotations, use the exact line numbers shown above.\n\n";
         }
+        return { ...m, content: codeBlock + m.content };
+      }
+      return m;
+    });
 
-        return {
-          role: m.role as "user" | "assistant",
-          content,
-        };
-      });
+    const modelName = getModelDisplayName(aiConfig.provider, aiConfig.model);
+    const metadata: MessageMetadata = {
+      phase: currentPhase as MessageMetadata["phase"],
+      model: modelName,
+    };
+
+    const requestContext: AIRequestContext = { task: "chat", mode, phase: currentPhase };
+
+    // Credit the model that actually answered, and note the ones that failed before it
+    const recordFallback = (answered: AIRequestConfig, failed: AIFallbackAttempt[]) => {
+      metadata.model = getModelDisplayName(answered.provider, answered.model);
+      metadata.fallback = {
+        requested: modelName,
+        failures: failed.map((f) => ({ model: getModelDisplayName(f.provider, f.model), error: f.error })),
+      };
+    };
+
+    // Stream the reply when asked to and the model supports it; otherwise fall
+    // through to a single JSON response
+    if (stream && modelSupportsStreaming(aiConfig.provider, aiConfig.model)) {
+      return streamChatResponse(aiConfig, systemPrompt, aiMessages, metadata, contextReport, request.signal, useTools ? toolContext : undefined, requestContext, recordFallback);
+    }
 
     // Call AI API using unified client
+    const toolCalls: AssistantToolCall[] = [];
     const responseContent = await generateAIResponse(aiConfig, {
       system: systemPrompt,
       messages: aiMessages,
-      maxTokens: 1024,
+      maxTokens: CHAT_MAX_OUTPUT_TOKENS,
+      context: requestContext,
+      onFallback: recordFallback,
+      // Tools run again on a retry or fallback; keep only the calls of the attempt that answered
+      onAttempt: () => {
+        toolCalls.length = 0;
+      },
+      ...(useTools && {
+        tools: createSessionTools(toolContext!, (call) => toolCalls.push(call)),
+        maxSteps: MAX_TOOL_STEPS,
+      }),
     });
+    if (toolCalls.length > 0) metadata.toolCalls = toolCalls;
 
     // Build response message
-    const modelName = getModelDisplayName(aiConfig.provider, aiConfig.model);
     const assistantMessage: Message = {
       id: generateId(),
       role: "assistant",
       content: responseContent,
       timestamp: getCurrentTimestamp(),
-      metadata: {
-        phase: currentPhase as NonNullable<Message["metadata"]>["phase"],
-        model: modelName,
-      },
+      metadata,
     };
 
     const chatResponse: ChatResponse = {
       message: assistantMessage,
+      context: contextReport,
     };
 
     return NextResponse.json(chatResponse);
@@ -424,3 +477,112 @@ Engage with these annotations in your response. They represent the analyst's dev
     );
   }
 }
+
+// Stream the assistant reply as newline-delimited JSON events (start, delta..., done | error).
+// Aborting the request (client cancel) stops generation upstream.
+function streamChatResponse(
+  aiConfig: ReturnType<typeof extractAIConfig>,
+  systemPrompt: string,
+  aiMessages: Array<{ role: "user" | "assistant"; content: string }>,
+  metadata: MessageMetadata,
+  context: ContextBudgetReport | undefined,
+  requestSignal: AbortSignal,
+  toolContext?: ChatToolContext,
+  requestContext?: AIRequestContext,
+  recordFallback?: (answered: AIRequestConfig, failed: AIFallbackAttempt[]) => void
+): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  requestSignal.addEventListener("abort", () => upstream.abort(), { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      let content = "";
+      // Tool calls are sent as they happen so the analyst can follow what the model reads.
+      // Until the first text arrives the attempt may still be retried or fall back, running
+      // the tools again, so calls made before then are held back and sent with that text.
+      const toolCalls: AssistantToolCall[] = [];
+      let pendingCalls: AssistantToolCall[] = [];
+      let answering = false;
+      const sendToolCall = (call: AssistantToolCall) => {
+        toolCalls.push(call);
+        send({ type: "tool", call });
+      };
+      const tools = toolContext && createSessionTools(toolContext, (call) => {
+        if (answering) sendToolCall(call);
+        else pendingCalls.push(call);
+      });
+      try {
+        send({ type: "start", metadata, context });
+
+        for await (const delta of streamAIResponse(aiConfig, {
+          system: systemPrompt,
+          messages: aiMessages,
+          maxTokens: CHAT_MAX_OUTPUT_TOKENS,
+          context: requestContext,
+          // Metadata is re-sent so the reply is credited to the fallback while it streams
+          onFallback: (answered, failed) => {
+            recordFallback?.(answered, failed);
+            send({ type: "start", metadata, context });
+          },
+          onAttempt: () => {
+            pendingCalls = [];
+          },
+          ...(tools && { tools, maxSteps: MAX_TOOL_STEPS }),
+          abortSignal: upstream.signal,
+        })) {
+          if (!answering) {
+            answering = true;
+            pendingCalls.forEach(sendToolCall);
+            pendingCalls = [];
+          }
+          content += delta;
+          send({ type: "delta", text: delta });
+        }
+
+        send({
+          type: "done",
+          message: {
+            id: generateId(),
+            role: "assistant",
+            content,
+            timestamp: getCurrentTimestamp(),
+            metadata: toolCalls.length > 0 ? { ...metadata, toolCalls } : metadata,
+          },
+        });
+      } catch (error) {
+        console.error("Chat stream error:", error);
+        send({
+          type: "error",
+          message: error instanceof Error
+            ? error.message
+            : "Failed to process chat message. Please try again.",
+        });
+      } finally {
+        // Close on every path, aborts included; a stream the client cancelled is already
+        // closed and throws, which is safe to ignore
+        try {
+          controller.close();
+        } catch {
+          // already closed or cancelled
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -190,6 +190,7 @@ export async function POST(request: NextRequest) {
       system: systemPrompts[outputType as keyof typeof systemPrompts],
       messages: [{ role: "user", content: context }],
       maxTokens: 4000,
+      context: { task: "generate", outputType },
     });
 
     const response: GenerateResponse = {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { extractAIConfig } from "@/lib/ai/client";
+import { discoverModels } from "@/lib/ai/model-discovery";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rate-limit";
+import type { ModelDiscoveryResponse } from "@/types/api";
+
+// List the models served by the configured Ollama or OpenAI-compatible endpoint.
+// An unreachable endpoint is reported in the body so the settings UI can fall
+// back to the models it already knows. The models are returned to the browser
+// that asked, which keeps them; nothing is stored on the server.
+export async function POST(request: NextRequest) {
+  const clientId = getClientIdentifier(request);
+  const rateLimitResult = checkRateLimit(clientId, RATE_LIMITS.models);
+
+  if (!rateLimitResult.allowed) {
+    const waitSeconds = Math.ceil(rateLimitResult.resetIn / 1000);
+    return NextResponse.json<ModelDiscoveryResponse>(
+      {
+        models: [],
+        error: `Too many model list requests. Please wait ${waitSeconds} seconds before trying again.`,
+      },
+      { status: 429, headers: { "Retry-After": waitSeconds.toString() } }
+    );
+  }
+
+  const config = extractAIConfig(request);
+
+  try {
+    const models = await discoverModels(config);
+    return NextResponse.json<ModelDiscoveryResponse>({ models });
+  } catch (error) {
+    console.error("Model discovery error:", error);
+    return NextResponse.json<ModelDiscoveryResponse>({
+      models: [],
+      error: error instanceof Error ? error.message : "Could not list models",
+    });
+  }
+}
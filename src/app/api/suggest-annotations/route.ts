@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rate-limit";
+import { extractAIConfig, validateAIConfig, generateAIResponse } from "@/lib/ai/client";
+import { extractJSONArray, validateAnnotationSuggestions } from "@/lib/ai/annotation-suggestions";
+import { normalizeAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import type { SuggestAnnotationsRequest, SuggestAnnotationsResponse } from "@/types/api";
+import { DEFAULT_ANNOTATION_TAXONOMY, type AnnotationTypeDefinition } from "@/types/session";
+
+// Cap on the code sent for suggestions - very long files are annotated from their opening lines
+const MAX_SUGGESTION_LINES = 800;
+
+// The type list comes from the project's taxonomy, so reading groups get suggestions in their own categories
+function buildSystemPrompt(taxonomy: AnnotationTypeDefinition[]): string {
+  const typeIds = taxonomy.map((t) => `"${t.id}"`).join(", ");
+  const typeNotes = taxonomy
+    .map((t) => `  - ${t.id}: ${t.description || t.label}`)
+    .join("\n");
+
+  return `You are an expert critical code studies assistant helping a scholar annotate source code.
+
+Read the numbered code and propose line annotations that a critical code studies scholar would find worth writing down.
+
+Each annotation must have:
+- "line": the 1-based line number the annotation starts on (use the numbers shown in the listing)
+- "endLine": optional 1-based end line when the annotation covers a block of lines
+- "type": one of ${typeIds}
+${typeNotes}
+- "content": one or two sentences of scholarly commentary (no line numbers, no type prefix)
+
+Propose between 3 and 12 annotations, favouring the most significant passages. Do not repeat existing annotations.
+
+Respond with ONLY a JSON array of annotation objects and nothing else.`;
+}
+
+function buildPrompt(body: SuggestAnnotationsRequest, lines: string[]): string {
+  const shown = lines.slice(0, MAX_SUGGESTION_LINES);
+  const width = String(shown.length).length;
+  let prompt = `File: ${body.fileName}`;
+  if (body.language) prompt += ` (${body.language})`;
+  prompt += "\n";
+  if (body.mode) prompt += `Mode: ${body.mode}\n`;
+  if (lines.length > shown.length) {
+    prompt += `Only the first ${shown.length} of ${lines.length} lines are shown.\n`;
+  }
+
+  prompt += "\n```\n" + shown.map((l, i) => `${String(i + 1).padStart(width, " ")} | ${l}`).join("\n") + "\n```\n";
+
+  if (body.existingAnnotations && body.existingAnnotations.length > 0) {
+    prompt += "\nExisting annotations (do not repeat these):\n";
+    for (const ann of body.existingAnnotations) {
+      const range = ann.endLine && ann.endLine !== ann.line ? `L${ann.line}-${ann.endLine}` : `L${ann.line}`;
+      prompt += `- ${range} [${ann.type}] ${ann.content}\n`;
+    }
+  }
+
+  const recent = (body.messages || []).slice(-6);
+  if (recent.length > 0) {
+    prompt += "\nRecent discussion (use it to focus your suggestions):\n";
+    for (const msg of recent) {
+      prompt += `${msg.role === "user" ? "ANALYST" : "ASSISTANT"}: ${msg.content.slice(0, 600)}\n`;
+    }
+  }
+
+  return prompt;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimitResult = checkRateLimit(clientId, RATE_LIMITS.generate);
+
+    if (!rateLimitResult.allowed) {
+      const waitSeconds = Math.ceil(rateLimitResult.resetIn / 1000);
+      return NextResponse.json(
+        {
+          error: "rate_limit",
+          message: `Too many suggestion requests. Please wait ${waitSeconds} seconds before trying again.`,
+          retryAfter: waitSeconds,
+        },
+        { status: 429, headers: { "Retry-After": waitSeconds.toString() } }
+      );
+    }
+
+    const body: SuggestAnnotationsRequest = await request.json();
+
+    if (!body.fileName || typeof body.content !== "string" || !body.content.trim()) {
+      return NextResponse.json(
+        { error: "validation_error", message: "A non-empty code file is required to suggest annotations." },
+        { status: 400 }
+      );
+    }
+
+    const aiConfig = extractAIConfig(request);
+    const validation = validateAIConfig(aiConfig);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: "configuration_error",
+          message: validation.error || "Invalid AI configuration. Please check your settings.",
+          requiresSetup: validation.requiresSetup,
+        },
+        { status: 503 }
+      );
+    }
+
+    const taxonomy = normalizeAnnotationTaxonomy(body.annotationTypes) || DEFAULT_ANNOTATION_TAXONOMY;
+    const lines = body.content.split("\n");
+    const text = await generateAIResponse(aiConfig, {
+      system: buildSystemPrompt(taxonomy),
+      messages: [{ role: "user", content: buildPrompt(body, lines) }],
+      maxTokens: 2000,
+      context: { task: "suggest-annotations", mode: body.mode },
+    });
+
+    const raw = extractJSONArray(text);
+    if (!raw) {
+      console.error("Suggest annotations: unparseable model output", text.slice(0, 500));
+      return NextResponse.json(
+        {
+          error: "parse_error",
+          message: "The model did not return annotations in the expected format. Please try again.",
+        },
+        { status: 502 }
+      );
+    }
+
+    const lineLimit = Math.min(lines.length, MAX_SUGGESTION_LINES);
+    const response: SuggestAnnotationsResponse = validateAnnotationSuggestions(raw, lineLimit, taxonomy);
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Suggest annotations API error:", error);
+    return NextResponse.json(
+      {
+        error: "suggestion_error",
+        message: error instanceof Error
+          ? error.message
+          : "Failed to suggest annotations. Please try again.",
+      },
+      { status: 500 }
+    );
+  }
+}
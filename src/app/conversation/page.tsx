@@ -5,7 +5,7 @@ import { useRouter } from "next/navigation";
 import { useSession } from "@/context/SessionContext";
 import { useAISettings } from "@/context/AISettingsContext";
 import { cn, formatTimestamp, fetchWithTimeout, retryWithBackoff, generateId, getCurrentTimestamp } from "@/lib/utils";
-import type { Message, AnalysisResult, ReferenceResult, CodeReference, CreateLanguage, ExperienceLevel } from "@/types";
+import type { Message, AnalysisResult, ReferenceResult, CodeReference, CreateLanguage, ExperienceLevel, ContextBudgetReport } from "@/types";
 import { CREATE_LANGUAGES, EXPERIENCE_LEVEL_LABELS, EXPERIENCE_LEVEL_DESCRIPTIONS } from "@/types";
 import {
   Send,
@@ -34,6 +34,7 @@ import {
   Check,
   Heart,
   ArrowUp,
+  Square,
   SlidersHorizontal,
   ChevronDown,
   Search,
@@ -46,8 +47,10 @@ import type { AppMode } from "@/types/app-settings";
 import { FONT_SIZE_MIN, FONT_SIZE_MAX, PROGRAMMING_LANGUAGES } from "@/types/app-settings";
 import { AnnotatedCodeViewer, generateAnnotatedCode } from "@/components/code";
 import { GuidedPrompts } from "@/components/prompts";
+import { ContextBudgetSummary, FallbackNotice, StoppedNotice } from "@/components/chat";
 import { CritiqueLayout, type CritiqueLayoutRef } from "@/components/layouts";
 import { PROVIDER_CONFIGS } from "@/lib/ai/config";
+import { readChatResponse } from "@/lib/ai/chat-stream";
 import { APP_VERSION, APP_NAME } from "@/lib/config";
 import { GUIDED_PROMPTS } from "@/types";
 import {
@@ -55,6 +58,8 @@ import {
   exportSessionLogJSON,
   exportSessionLogText,
   exportSessionLogPDF,
+  exportSessionLogTEI,
+  importSessionLogTEI,
   MODE_CODES,
   MODE_LABELS,
   CCS_SKILL_VERSION,
@@ -73,7 +78,7 @@ const openingPrompts: Record<string, string> = {
 export default function ConversationPage() {
   const router = useRouter();
   const { session, addMessage, updateMessage, updateSettings, addCode, removeCode, addReferences, clearReferences, addArtifact, importSession, setCreateLanguage, setLanguageOverride, setExperienceLevel, switchMode, clearModeSession, hasSavedSession } = useSession();
-  const { settings: aiSettings, getRequestHeaders, isConfigured: isAIConfigured, connectionStatus, isAiReady } = useAISettings();
+  const { settings: aiSettings, getTaskRequestHeaders, isConfigured: isAIConfigured, connectionStatus, isAiReady } = useAISettings();
   const { settings: appSettings, getFontSizes, setModeChatFontSize, getDisplayName, profile } = useAppSettings();
   const aiEnabled = aiSettings.aiEnabled;
   const [input, setInput] = useState("");
@@ -87,6 +92,10 @@ export default function ConversationPage() {
   const effectiveLanguage = session.languageOverride || appSettings.defaultLanguage || "";
   const languageName = PROGRAMMING_LANGUAGES.find(l => l.id === effectiveLanguage)?.name || "Not specified";
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // What the last chat request fitted into the model's context window
+  const [lastContextReport, setLastContextReport] = useState<ContextBudgetReport | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isContextPanelOpen, setIsContextPanelOpen] = useState(false); // Default closed on mobile
@@ -246,6 +255,14 @@ export default function ConversationPage() {
     prevMessageCount.current = session.messages.length;
   }, [session.messages.length]);
 
+  // Keep the bottom of the chat in view while a reply streams in
+  const lastMessageLength = session.messages[session.messages.length - 1]?.content.length ?? 0;
+  useEffect(() => {
+    if (isStreaming) {
+      messagesEndRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [isStreaming, lastMessageLength]);
+
   // Add opening prompt if no messages (only once)
   // Note: critique mode is handled by CritiqueLayout, so skip here
   useEffect(() => {
@@ -310,13 +327,20 @@ export default function ConversationPage() {
       content: userMessage,
     });
 
+    // Abort controller for the stop button - cancels both the wait and the stream
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let streamedMessageId: string | null = null;
+    let streamedText = "";
+    let streamedMetadata: Message["metadata"];
+
     try {
       // Use retry with exponential backoff for LLM calls
-      const data = await retryWithBackoff(
+      const response = await retryWithBackoff(
         async () => {
           const response = await fetchWithTimeout("/api/chat", {
             method: "POST",
-            headers: { "Content-Type": "application/json", ...getRequestHeaders() },
+            headers: { "Content-Type": "application/json", ...getTaskRequestHeaders("chat") },
             body: JSON.stringify({
               messages: [...session.messages, { role: "user", content: userMessage }],
               settings: session.settings,
@@ -331,8 +355,11 @@ export default function ConversationPage() {
               codeContext: (session.mode === "archaeology" || session.mode === "interpret")
                 ? buildAnnotatedCodeContext()
                 : session.codeFiles,
+              annotationTypes: session.annotationTaxonomy,
+              stream: true,
             }),
-            timeout: 60000, // 60 second timeout for LLM calls
+            timeout: 60000, // 60 second timeout until the response starts
+            signal: controller.signal,
           });
 
           // Handle rate limit error specifically
@@ -367,13 +394,17 @@ export default function ConversationPage() {
             }
           }
 
-          return response.json();
+          return response;
         },
         {
           maxRetries: 2,
           initialDelay: 1000,
           maxDelay: 5000,
           shouldRetry: (error) => {
+            // Don't retry when the user pressed stop
+            if (controller.signal.aborted) {
+              return false;
+            }
             // Don't retry rate limit errors
             if ((error as Error & { isRateLimit?: boolean }).isRateLimit) {
               return false;
@@ -387,8 +418,37 @@ export default function ConversationPage() {
         }
       );
 
-      addMessage(data.message);
+      // Render the reply incrementally; the bubble is created on the first chunk
+      const message = await readChatResponse(response, {
+        onStart: (metadata) => {
+          streamedMetadata = metadata;
+        },
+        onContext: setLastContextReport,
+        onText: (text) => {
+          streamedText = text;
+          if (streamedMessageId) {
+            updateMessage(streamedMessageId, { content: text });
+          } else {
+            streamedMessageId = addMessage({ role: "assistant", content: text, metadata: streamedMetadata });
+            setIsStreaming(true);
+          }
+        },
+      });
+
+      if (streamedMessageId) {
+        updateMessage(streamedMessageId, { content: message.content, metadata: message.metadata });
+      } else {
+        addMessage(message);
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user - keep whatever arrived
+        if (streamedMessageId) {
+          updateMessage(streamedMessageId, { content: streamedText, metadata: { ...streamedMetadata, stopped: true } });
+        }
+        return;
+      }
+
       console.error("Chat error:", error);
       // Determine error type for appropriate user message
       const isRateLimitError = (error as Error & { isRateLimit?: boolean }).isRateLimit;
@@ -424,10 +484,17 @@ export default function ConversationPage() {
         content: errorMessage,
       });
     } finally {
+      chatAbortRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
+  // Stop an in-flight chat request or stream
+  const handleStopGenerating = () => {
+    chatAbortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -543,11 +610,11 @@ export default function ConversationPage() {
       return {
         ...file,
         content: fileAnnotations.length > 0
-          ? generateAnnotatedCode(code, fileAnnotations)
+          ? generateAnnotatedCode(code, fileAnnotations, session.annotationTaxonomy)
           : code,
       };
     });
-  }, [session.codeFiles, session.lineAnnotations, findCodeContentForFile]);
+  }, [session.codeFiles, session.lineAnnotations, session.annotationTaxonomy, findCodeContentForFile]);
 
   // Generate context preview string for modal (archaeology/interpret modes)
   const contextPreviewText = useMemo(() => {
@@ -712,7 +779,7 @@ export default function ConversationPage() {
     try {
       const response = await fetch("/api/literature", {
         method: "POST",
-        headers: { "Content-Type": "application/json", ...getRequestHeaders() },
+        headers: { "Content-Type": "application/json", ...getTaskRequestHeaders("literature") },
         body: JSON.stringify({
           query: query.trim(),
           limit: 5,
@@ -783,7 +850,7 @@ export default function ConversationPage() {
     try {
       const response = await fetch("/api/generate", {
         method: "POST",
-        headers: { "Content-Type": "application/json", ...getRequestHeaders() },
+        headers: { "Content-Type": "application/json", ...getTaskRequestHeaders("generate") },
         body: JSON.stringify({
           outputType,
           messages: session.messages,
@@ -968,7 +1035,9 @@ export default function ConversationPage() {
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const importedData = JSON.parse(content);
+        // TEI P5 logs are XML; everything else is a JSON .ccs save
+        const isTEI = file.name.toLowerCase().endsWith(".xml") || content.trimStart().startsWith("<");
+        const importedData = isTEI ? importSessionLogTEI(content) : JSON.parse(content);
 
         // Validate required fields
         if (!importedData.id || !importedData.mode) {
@@ -1341,6 +1410,16 @@ export default function ConversationPage() {
     setSuccessMessage("Session log exported as text!");
   }, [session, projectName, profile]);
 
+  const handleExportSessionLogTEI = useCallback(() => {
+    // TEI carries the code itself so the log can be reloaded as a session
+    const codeContents = new Map(Object.entries(session.codeContents || {}));
+    const log = generateSessionLog(session, projectName, codeContents, undefined, profile);
+    const modeCode = MODE_CODES[session.mode] || "XX";
+    exportSessionLogTEI(log, projectName, modeCode);
+    setShowExportModal(false);
+    setSuccessMessage("Session log exported as TEI XML!");
+  }, [session, projectName, profile]);
+
   const handleExportSessionLogPDF = useCallback(() => {
     const log = generateSessionLog(session, projectName, undefined, undefined, profile);
     const modeCode = MODE_CODES[session.mode] || "XX";
@@ -1604,7 +1683,7 @@ export default function ConversationPage() {
             ref={sessionLoadInputRef}
             type="file"
             className="hidden"
-            accept=".ccs,.json"
+            accept=".ccs,.json,.xml"
             onChange={handleLoadSession}
           />
 
@@ -2018,6 +2097,15 @@ export default function ConversationPage() {
                   Plain text log. Human-readable format suitable for archiving or sharing.
                 </p>
               </button>
+              <button
+                onClick={handleExportSessionLogTEI}
+                className="w-full text-left p-3 border border-parchment rounded-sm hover:border-burgundy hover:bg-burgundy/5 transition-all duration-300"
+              >
+                <h4 className="font-display text-caption text-ink mb-0.5">TEI P5 XML</h4>
+                <p className="font-body text-[10px] text-slate">
+                  Digital humanities encoding with line-anchored notes. Can be reloaded as a session.
+                </p>
+              </button>
               <button
                 onClick={handleExportSessionLogPDF}
                 className="w-full text-left p-3 border border-parchment rounded-sm hover:border-burgundy hover:bg-burgundy/5 transition-all duration-300"
@@ -2473,6 +2561,11 @@ export default function ConversationPage() {
                   <li>• {contextPreviewText.length.toLocaleString()} characters total</li>
                 </ul>
               </div>
+              {lastContextReport && (
+                <div className="mb-3 p-2 bg-cream/50 rounded-sm border border-parchment">
+                  <ContextBudgetSummary report={lastContextReport} />
+                </div>
+              )}
               <div className="border border-parchment rounded-sm">
                 <div className="px-2 py-1.5 bg-cream/30 border-b border-parchment">
                   <span className="font-sans text-[9px] text-slate-muted uppercase tracking-wider">Context Sent to LLM</span>
@@ -2565,7 +2658,7 @@ export default function ConversationPage() {
               />
             ))}
 
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start pl-2 py-3">
                 <div className="flex items-center gap-1.5">
                   <div className="w-1.5 h-1.5 rounded-full bg-burgundy/70 thinking-dot" />
@@ -2797,24 +2890,31 @@ export default function ConversationPage() {
                     )}
                   </div>
 
-                  {/* Send button */}
-                  <button
-                    onClick={handleSend}
-                    disabled={!input.trim() || isLoading || !isAiReady}
-                    className={cn(
-                      "p-2 rounded-lg flex items-center justify-center transition-colors",
-                      input.trim() && !isLoading && isAiReady
-                        ? "bg-burgundy text-ivory hover:bg-burgundy-dark"
-                        : "bg-parchment text-slate-muted cursor-not-allowed"
-                    )}
-                    aria-label="Send message"
-                  >
-                    {isLoading ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
+                  {/* Send button (becomes stop while a reply is pending) */}
+                  {isLoading ? (
+                    <button
+                      onClick={handleStopGenerating}
+                      className="p-2 rounded-lg flex items-center justify-center transition-colors bg-burgundy text-ivory hover:bg-burgundy-dark"
+                      aria-label="Stop generating"
+                      title="Stop generating"
+                    >
+                      <Square className="h-4 w-4" strokeWidth={2} fill="currentColor" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSend}
+                      disabled={!input.trim() || !isAiReady}
+                      className={cn(
+                        "p-2 rounded-lg flex items-center justify-center transition-colors",
+                        input.trim() && isAiReady
+                          ? "bg-burgundy text-ivory hover:bg-burgundy-dark"
+                          : "bg-parchment text-slate-muted cursor-not-allowed"
+                      )}
+                      aria-label="Send message"
+                    >
                       <ArrowUp className="h-4 w-4" strokeWidth={2} />
-                    )}
-                  </button>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -3220,6 +3320,8 @@ function MessageBubble({
         <span className="font-sans text-[9px] text-slate-muted">
           {formatTimestamp(message.timestamp)}
         </span>
+        {!isUser && message.metadata?.fallback && <FallbackNotice fallback={message.metadata.fallback} />}
+        {!isUser && message.metadata?.stopped && <StoppedNotice />}
         {onCopy && onToggleFavourite && (
           <div className="flex items-center gap-0.5">
             <button
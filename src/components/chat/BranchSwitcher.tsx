@@ -0,0 +1,45 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Message } from "@/types";
+
+interface BranchSwitcherProps {
+  message: Message;
+  siblings: Message[]; // The message and its alternatives, oldest first (see getMessageSiblings)
+  onSwitch: (messageId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "‹ 2/3 ›" beside a message that has been edited or regenerated, stepping
+ * between the versions (and the conversation that followed each).
+ */
+export function BranchSwitcher({ message, siblings, onSwitch, disabled }: BranchSwitcherProps) {
+  if (siblings.length < 2) return null;
+  const index = siblings.findIndex((m) => m.id === message.id);
+  const previous = siblings[index - 1];
+  const next = siblings[index + 1];
+  const noun = message.role === "user" ? "version of this question" : "version of this reply";
+
+  return (
+    <div className="flex items-center font-sans text-[9px] text-slate-muted">
+      <button
+        onClick={() => previous && onSwitch(previous.id)}
+        disabled={disabled || !previous}
+        className="p-0.5 rounded-sm hover:text-ink disabled:opacity-40 disabled:hover:text-slate-muted transition-colors"
+        title={`Previous ${noun}`}
+      >
+        <ChevronLeft className="h-3 w-3" strokeWidth={1.5} />
+      </button>
+      <span className="tabular-nums">{index + 1}/{siblings.length}</span>
+      <button
+        onClick={() => next && onSwitch(next.id)}
+        disabled={disabled || !next}
+        className="p-0.5 rounded-sm hover:text-ink disabled:opacity-40 disabled:hover:text-slate-muted transition-colors"
+        title={`Next ${noun}`}
+      >
+        <ChevronRight className="h-3 w-3" strokeWidth={1.5} />
+      </button>
+    </div>
+  );
+}
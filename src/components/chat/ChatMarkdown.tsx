@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import { AlertTriangle } from "lucide-react";
+import { linkLineReferences, parseLineReferenceHref, type LineReferenceFile } from "@/lib/line-references";
+import type { AssistantNavigation } from "@/types";
+
+interface ChatMarkdownProps {
+  content: string;
+  // Session files for resolving line references; references stay plain text without them
+  lineReferenceFiles?: LineReferenceFile[];
+  // File a bare "line 42" refers to when the text names none (usually the file open in the editor)
+  defaultFileId?: string | null;
+  onNavigate?: (navigation: AssistantNavigation) => void;
+}
+
+function formatLines(lineNumber: number, endLineNumber?: number): string {
+  return endLineNumber ? `lines ${lineNumber}–${endLineNumber}` : `line ${lineNumber}`;
+}
+
+/**
+ * Markdown for a chat reply, with line references ("line 42", "eliza.bas:15-20")
+ * turned into links that show the passage in the editor. References outside the
+ * file are marked as likely hallucinated rather than linked.
+ */
+export function ChatMarkdown({ content, lineReferenceFiles, defaultFileId, onNavigate }: ChatMarkdownProps) {
+  const markdown = useMemo(
+    () => (lineReferenceFiles ? linkLineReferences(content, lineReferenceFiles, defaultFileId) : content),
+    [content, lineReferenceFiles, defaultFileId]
+  );
+
+  const components = useMemo<Components>(
+    () => ({
+      a: ({ href, children, node: _node, ...props }) => {
+        const ref = parseLineReferenceHref(href);
+        if (!ref) return <a href={href} {...props}>{children}</a>;
+
+        const file = lineReferenceFiles?.find((f) => f.id === ref.fileId);
+        if (!file) return <>{children}</>;
+
+        if (!ref.valid) {
+          return (
+            <span
+              className="underline decoration-wavy decoration-error/70 cursor-help"
+              title={`${file.name} has ${file.lineCount} lines; this reference points outside the file and may be hallucinated`}
+            >
+              {children}
+              <AlertTriangle className="inline h-3 w-3 ml-0.5 -mt-0.5 text-error" strokeWidth={1.5} />
+            </span>
+          );
+        }
+
+        return (
+          <button
+            type="button"
+            onClick={() =>
+              onNavigate?.({
+                fileId: file.id,
+                fileName: file.name,
+                lineNumber: ref.lineNumber,
+                endLineNumber: ref.endLineNumber,
+              })
+            }
+            disabled={!onNavigate}
+            className="text-burgundy underline decoration-dotted underline-offset-2 hover:decoration-solid disabled:no-underline disabled:text-inherit"
+            title={`Show ${formatLines(ref.lineNumber, ref.endLineNumber)} of ${file.name}`}
+          >
+            {children}
+          </button>
+        );
+      },
+    }),
+    [lineReferenceFiles, onNavigate]
+  );
+
+  return <ReactMarkdown components={components}>{markdown}</ReactMarkdown>;
+}
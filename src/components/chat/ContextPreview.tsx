@@ -2,21 +2,78 @@
 
 import { useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
-import { ChevronUp, ChevronDown, Eye, Code } from "lucide-react";
-import type { LineAnnotation, CodeReference } from "@/types";
+import { ChevronUp, ChevronDown, Eye, Code, Gauge } from "lucide-react";
+import type { AnnotationTypeDefinition, LineAnnotation, CodeReference, ContextBudgetReport } from "@/types";
 import { generateAnnotatedCode } from "@/components/code/CodeEditorPanel";
 
 interface ContextPreviewProps {
   codeFiles: CodeReference[];
   codeContents: Map<string, string>;
   annotations: LineAnnotation[];
+  annotationTypes?: AnnotationTypeDefinition[];  // Project's taxonomy, for the inline prefixes
+  budgetReport?: ContextBudgetReport | null; // What the last request actually sent
   className?: string;
 }
 
+function formatRanges(ranges: Array<[number, number]>): string {
+  return ranges.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`)).join(", ");
+}
+
+/**
+ * Summary of how the last prompt was fitted into the model's context window:
+ * which files were sent whole, in part or not at all, and what happened to older messages.
+ */
+export function ContextBudgetSummary({ report }: { report: ContextBudgetReport }) {
+  const { messages } = report;
+  const usage = Math.min(100, Math.round((report.estimatedTokens / report.promptBudget) * 100));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5">
+        <Gauge className="h-3 w-3 text-burgundy" strokeWidth={1.5} />
+        <span className="font-sans text-[9px] font-medium text-burgundy">
+          Last request: ~{report.estimatedTokens.toLocaleString()} of {report.promptBudget.toLocaleString()} tokens ({usage}%)
+        </span>
+      </div>
+      <ul className="font-mono text-[8px] leading-tight text-slate-600 space-y-0.5">
+        {report.files.map((file) => (
+          <li key={file.name}>
+            {file.status === "full" && <>✓ {file.name}: all {file.totalLines} lines</>}
+            {file.status === "partial" && (
+              <>
+                ◐ {file.name}: {file.includedLines} of {file.totalLines} lines
+                {file.includedRanges && ` (${formatRanges(file.includedRanges)})`}
+              </>
+            )}
+            {file.status === "omitted" && <span className="text-error">✗ {file.name}: omitted ({file.totalLines} lines)</span>}
+          </li>
+        ))}
+        {report.retrieval && (
+          <li>
+            Retrieved {report.retrieval.included} of {report.retrieval.matched} relevant chunks ({report.retrieval.chunks} indexed)
+          </li>
+        )}
+        {messages.total > 0 && (
+          <li>
+            Messages: {messages.included} of {messages.total} sent in full
+            {messages.summarised > 0 && `, ${messages.summarised} condensed`}
+            {messages.dropped > 0 && <span className="text-error">, {messages.dropped} dropped</span>}
+          </li>
+        )}
+        {report.methodology !== "full" && (
+          <li>Methodology guidance {report.methodology === "trimmed" ? "shortened" : "omitted"} to fit</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
 export function ContextPreview({
   codeFiles,
   codeContents,
   annotations,
+  annotationTypes,
+  budgetReport,
   className,
 }: ContextPreviewProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -32,7 +89,7 @@ export function ContextPreview({
       if (!code) return;
 
       const fileAnnotations = annotations.filter((a) => a.codeFileId === file.id);
-      const annotatedCode = generateAnnotatedCode(code, fileAnnotations);
+      const annotatedCode = generateAnnotatedCode(code, fileAnnotations, annotationTypes);
 
       parts.push(`## ${file.name}${file.language ? ` (${file.language})` : ""}`);
       parts.push("```" + (file.language || ""));
@@ -41,7 +98,7 @@ export function ContextPreview({
     });
 
     return parts.join("\n");
-  }, [codeFiles, codeContents, annotations]);
+  }, [codeFiles, codeContents, annotations, annotationTypes]);
 
   // Stats for the mini preview
   const stats = useMemo(() => {
@@ -73,6 +130,11 @@ export function ContextPreview({
           <span className="font-mono text-[9px] text-ink">
             {stats.totalFiles} file{stats.totalFiles !== 1 ? "s" : ""} · {stats.totalLines} lines · {stats.totalAnnotations} annotation{stats.totalAnnotations !== 1 ? "s" : ""}
           </span>
+          {budgetReport && budgetReport.files.some((f) => f.status !== "full") && (
+            <span className="font-sans text-[9px] text-error" title="Some code did not fit the model's context window">
+              · trimmed to fit
+            </span>
+          )}
         </div>
         {isExpanded ? (
           <ChevronDown className="h-3 w-3 text-slate-muted" strokeWidth={1.5} />
@@ -85,6 +147,11 @@ export function ContextPreview({
       {isExpanded && (
         <div className="border-t border-parchment/50 max-h-40 overflow-y-auto">
           <div className="px-3 py-2">
+            {budgetReport && (
+              <div className="mb-2">
+                <ContextBudgetSummary report={budgetReport} />
+              </div>
+            )}
             <div className="flex items-center gap-1.5 mb-1.5">
               <Code className="h-3 w-3 text-burgundy" strokeWidth={1.5} />
               <span className="font-sans text-[9px] font-medium text-burgundy">
@@ -0,0 +1,26 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { ModelFallback } from "@/types";
+
+interface FallbackNoticeProps {
+  fallback: ModelFallback;
+}
+
+/**
+ * Warning beside a reply that came from a fallback model, naming the model
+ * that was asked and why each one before the fallback failed.
+ */
+export function FallbackNotice({ fallback }: FallbackNoticeProps) {
+  const details = fallback.failures.map((f) => `${f.model}: ${f.error}`).join("\n");
+
+  return (
+    <span
+      className="inline-flex items-center gap-0.5 font-sans text-[9px] text-amber-600 dark:text-amber-400"
+      title={`${fallback.requested} could not answer, so a fallback model did.\n\n${details}`}
+    >
+      <AlertTriangle className="h-2.5 w-2.5" strokeWidth={1.5} />
+      Fallback for {fallback.requested}
+    </span>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { FileCode } from "lucide-react";
+import type { AssistantNavigation, MessageAnchor } from "@/types";
+
+interface MessageAnchorQuoteProps {
+  anchor: MessageAnchor;
+  onNavigate?: (navigation: AssistantNavigation) => void;
+  onRemove?: () => void; // Shown as a dismiss button on the composer's pending quote
+  maxLines?: number;
+}
+
+export function formatAnchorRange(anchor: Pick<MessageAnchor, "lineNumber" | "endLineNumber">): string {
+  return anchor.endLineNumber && anchor.endLineNumber !== anchor.lineNumber
+    ? `L${anchor.lineNumber}–${anchor.endLineNumber}`
+    : `L${anchor.lineNumber}`;
+}
+
+/**
+ * The lines a chat message asks about: file and range (which shows the passage in
+ * the editor) above the quoted code with its line numbers.
+ */
+export function MessageAnchorQuote({ anchor, onNavigate, onRemove, maxLines }: MessageAnchorQuoteProps) {
+  const lines = anchor.lineContent.split("\n");
+  const shown = maxLines ? lines.slice(0, maxLines) : lines;
+  const width = String(anchor.lineNumber + lines.length - 1).length;
+
+  return (
+    <div className="mb-2 rounded-sm border border-parchment bg-parchment/40 overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-parchment">
+        <FileCode className="h-3 w-3 text-slate-muted" strokeWidth={1.5} />
+        <button
+          type="button"
+          onClick={() =>
+            onNavigate?.({
+              fileId: anchor.codeFileId,
+              fileName: anchor.fileName,
+              lineNumber: anchor.lineNumber,
+              endLineNumber: anchor.endLineNumber,
+            })
+          }
+          disabled={!onNavigate}
+          className="font-sans text-[10px] text-slate-muted hover:text-burgundy disabled:hover:text-slate-muted transition-colors"
+          title={onNavigate ? "Show these lines in the editor" : undefined}
+        >
+          {anchor.fileName} · {formatAnchorRange(anchor)}
+        </button>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto font-sans text-[10px] text-slate-muted hover:text-ink"
+            title="Don't ask about these lines"
+          >
+            ×
+          </button>
+        )}
+      </div>
+      <pre className="px-2 py-1 max-h-40 overflow-auto font-mono text-[0.8em] leading-snug text-ink whitespace-pre">
+        {shown.map((line, i) => (
+          <div key={i}>
+            <span className="select-none text-slate-muted">{String(anchor.lineNumber + i).padStart(width)} </span>
+            {line}
+          </div>
+        ))}
+        {shown.length < lines.length && (
+          <div className="select-none text-slate-muted">… {lines.length - shown.length} more lines</div>
+        )}
+      </pre>
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 "use client";
 
+import { useState } from "react";
 import { cn, formatTimestamp } from "@/lib/utils";
-import { Copy, Check, Heart } from "lucide-react";
-import type { Message } from "@/types";
-import ReactMarkdown from "react-markdown";
+import { Copy, Check, Heart, NotebookPen, Pencil } from "lucide-react";
+import type { AssistantNavigation, Message } from "@/types";
+import type { LineReferenceFile } from "@/lib/line-references";
+import { BranchSwitcher } from "./BranchSwitcher";
+import { ChatMarkdown } from "./ChatMarkdown";
+import { FallbackNotice } from "./FallbackNotice";
+import { MessageEditForm } from "./MessageEditForm";
+import { MessageAnchorQuote } from "./MessageAnchorQuote";
+import { RegenerateMenu, type RegenerateModel } from "./RegenerateMenu";
+import { StoppedNotice } from "./StoppedNotice";
+import { ToolCallList } from "./ToolCallList";
 
 interface MessageBubbleProps {
   message: Message;
@@ -13,6 +22,17 @@ interface MessageBubbleProps {
   isFavourite?: boolean;
   onCopy?: (messageId: string, content: string) => void;
   onToggleFavourite?: (messageId: string) => void;
+  onNavigate?: (navigation: AssistantNavigation) => void; // Show a passage the assistant pointed to
+  lineReferenceFiles?: LineReferenceFile[]; // Link line references in assistant replies to these files
+  defaultFileId?: string | null; // File that bare line references refer to
+  onSaveAsAnnotation?: (message: Message) => void; // Offered on assistant replies
+  // Conversation branching
+  siblings?: Message[]; // This message and its alternatives, for the branch switcher
+  onSwitchBranch?: (messageId: string) => void;
+  onEditAndResend?: (message: Message, content: string) => void; // Offered on questions
+  currentModel?: RegenerateModel;
+  onRegenerate?: (message: Message, model?: RegenerateModel) => void; // Offered on replies (with currentModel)
+  isBusy?: boolean; // A reply is being generated
 }
 
 /**
@@ -20,6 +40,8 @@ interface MessageBubbleProps {
  * User messages appear on the right, assistant messages on the left with a border.
  * Timestamp and action buttons appear inline below the bubble.
  * Copy and favourite buttons available for all messages on hover.
+ * Assistant replies link their line references and list the session tools they used.
+ * Edited questions and regenerated replies show a switcher between their versions.
  */
 export function MessageBubble({
   message,
@@ -29,8 +51,19 @@ export function MessageBubble({
   isFavourite = false,
   onCopy,
   onToggleFavourite,
+  onNavigate,
+  lineReferenceFiles,
+  defaultFileId,
+  onSaveAsAnnotation,
+  siblings,
+  onSwitchBranch,
+  onEditAndResend,
+  currentModel,
+  onRegenerate,
+  isBusy = false,
 }: MessageBubbleProps) {
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
 
   return (
     <div
@@ -47,7 +80,20 @@ export function MessageBubble({
             : "bg-card border border-parchment text-foreground"
         )}
       >
-        {isUser ? (
+        {message.metadata?.anchor && (
+          <MessageAnchorQuote anchor={message.metadata.anchor} onNavigate={onNavigate} />
+        )}
+        {isUser && isEditing && onEditAndResend ? (
+          <MessageEditForm
+            initialContent={message.content}
+            onSubmit={(content) => {
+              setIsEditing(false);
+              onEditAndResend(message, content);
+            }}
+            onCancel={() => setIsEditing(false)}
+            disabled={isBusy}
+          />
+        ) : isUser ? (
           <p
             className="font-body whitespace-pre-wrap leading-relaxed"
             style={{ fontSize: `${fontSize}px` }}
@@ -68,9 +114,17 @@ export function MessageBubble({
               prose-a:text-burgundy prose-a:no-underline hover:prose-a:underline"
             style={{ fontSize: `${fontSize}px` }}
           >
-            <ReactMarkdown>{message.content}</ReactMarkdown>
+            <ChatMarkdown
+              content={message.content}
+              lineReferenceFiles={lineReferenceFiles}
+              defaultFileId={defaultFileId}
+              onNavigate={onNavigate}
+            />
           </div>
         )}
+        {!isUser && message.metadata?.toolCalls && message.metadata.toolCalls.length > 0 && (
+          <ToolCallList toolCalls={message.metadata.toolCalls} onNavigate={onNavigate} />
+        )}
       </div>
       {/* User/Model name, timestamp, and actions inline */}
       <div className={cn(
@@ -82,8 +136,13 @@ export function MessageBubble({
           {formatTimestamp(message.timestamp)}
           {isUser && userName && `, ${userName}`}
         </span>
+        {!isUser && message.metadata?.fallback && <FallbackNotice fallback={message.metadata.fallback} />}
+        {!isUser && message.metadata?.stopped && <StoppedNotice />}
         {onCopy && onToggleFavourite && (
           <div className="flex items-center gap-0.5">
+            {siblings && onSwitchBranch && (
+              <BranchSwitcher message={message} siblings={siblings} onSwitch={onSwitchBranch} disabled={isBusy} />
+            )}
             <button
               onClick={() => onCopy(message.id, message.content)}
               className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100"
@@ -95,6 +154,32 @@ export function MessageBubble({
                 <Copy className="h-3 w-3" strokeWidth={1.5} />
               )}
             </button>
+            {isUser && onEditAndResend && (
+              <button
+                onClick={() => setIsEditing(true)}
+                disabled={isBusy}
+                className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100 disabled:opacity-0"
+                title="Edit and resend"
+              >
+                <Pencil className="h-3 w-3" strokeWidth={1.5} />
+              </button>
+            )}
+            {!isUser && onRegenerate && currentModel && (
+              <RegenerateMenu
+                current={currentModel}
+                onRegenerate={(model) => onRegenerate(message, model)}
+                disabled={isBusy}
+              />
+            )}
+            {!isUser && onSaveAsAnnotation && (
+              <button
+                onClick={() => onSaveAsAnnotation(message)}
+                className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100"
+                title="Save as annotation"
+              >
+                <NotebookPen className="h-3 w-3" strokeWidth={1.5} />
+              </button>
+            )}
             <button
               onClick={() => onToggleFavourite(message.id)}
               className={cn(
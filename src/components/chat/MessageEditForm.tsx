@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface MessageEditFormProps {
+  initialContent: string;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+  disabled?: boolean; // e.g. while a reply is being generated
+}
+
+/**
+ * Edit a question in place. Sending keeps the original (and the replies to it)
+ * as another branch of the conversation.
+ */
+export function MessageEditForm({ initialContent, onSubmit, onCancel, disabled }: MessageEditFormProps) {
+  const [content, setContent] = useState(initialContent);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  const canSubmit = !disabled && content.trim().length > 0 && content.trim() !== initialContent.trim();
+
+  return (
+    <div className="space-y-1.5">
+      <textarea
+        ref={textareaRef}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            if (canSubmit) onSubmit(content.trim());
+          } else if (e.key === "Escape") {
+            onCancel();
+          }
+        }}
+        rows={Math.min(8, Math.max(2, content.split("\n").length))}
+        className="w-full px-2 py-1.5 font-body text-[1em] text-ink bg-card border border-parchment rounded-sm focus:outline-none focus:border-burgundy/40 resize-y"
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-2 py-0.5 font-sans text-[10px] text-slate hover:text-ink transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(content.trim())}
+          disabled={!canSubmit}
+          className="px-2 py-0.5 font-sans text-[10px] font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+        >
+          Send as new branch
+        </button>
+      </div>
+    </div>
+  );
+}
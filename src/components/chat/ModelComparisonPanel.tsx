@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Check, Columns3, Loader2, X } from "lucide-react";
+import { cn, countWords, formatTimestamp } from "@/lib/utils";
+import { getAllProvidersWithModels, getModelDisplayName } from "@/lib/ai/config";
+import type { LineReferenceFile } from "@/lib/line-references";
+import type { AssistantNavigation, MessageAnchor, ModelComparison, ModelComparisonResult } from "@/types";
+import type { AIProvider } from "@/types/ai-settings";
+import { ChatMarkdown } from "./ChatMarkdown";
+import { MessageAnchorQuote } from "./MessageAnchorQuote";
+import type { RegenerateModel } from "./RegenerateMenu";
+
+interface ModelComparisonPanelProps {
+  initialPrompt: string;
+  anchor?: MessageAnchor | null;
+  current: RegenerateModel; // The configured provider and model (selected to begin with)
+  comparisons: ModelComparison[]; // Earlier comparisons in the session
+  // Put the prompt to one model, with the same system prompt and code context as the chat
+  runModel: (prompt: string, anchor: MessageAnchor | undefined, model: RegenerateModel) => Promise<ModelComparisonResult>;
+  onComplete: (comparison: Omit<ModelComparison, "id" | "createdAt">) => string;
+  onKeep: (comparison: ModelComparison, resultIndex: number) => void;
+  lineReferenceFiles?: LineReferenceFile[];
+  defaultFileId?: string | null;
+  onNavigate?: (navigation: AssistantNavigation) => void;
+  onClose: () => void;
+}
+
+const modelKey = (model: RegenerateModel) => `${model.provider}:${model.model}`;
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Put one prompt to several models and read the answers side by side, with how
+ * long each took and how long it is. One answer can be kept into the conversation;
+ * every comparison is saved with the session and included in the session log.
+ */
+export function ModelComparisonPanel({
+  initialPrompt,
+  anchor,
+  current,
+  comparisons,
+  runModel,
+  onComplete,
+  onKeep,
+  lineReferenceFiles,
+  defaultFileId,
+  onNavigate,
+  onClose,
+}: ModelComparisonPanelProps) {
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [models, setModels] = useState<RegenerateModel[]>([current]);
+  // Answers of the comparison being run, in model order (null while waiting)
+  const [pending, setPending] = useState<(ModelComparisonResult | null)[] | null>(null);
+  const [shownId, setShownId] = useState<string | null>(null);
+
+  const providers = getAllProvidersWithModels();
+  const shown = comparisons.find((c) => c.id === shownId);
+  const isRunning = pending !== null;
+  const canRun = !isRunning && prompt.trim().length > 0 && models.length >= 2;
+
+  // Handle escape key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isRunning) onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isRunning, onClose]);
+
+  const addModel = (value: string) => {
+    const [provider, ...rest] = value.split(":");
+    const model = { provider: provider as AIProvider, model: rest.join(":") };
+    if (!model.model || models.some((m) => modelKey(m) === modelKey(model))) return;
+    setModels([...models, model]);
+  };
+
+  const handleRun = async () => {
+    if (!canRun) return;
+    const question = prompt.trim();
+    const chosen = models;
+    setShownId(null);
+    setPending(chosen.map(() => null));
+
+    // All models at once; each column fills in as its answer arrives
+    const results = await Promise.all(
+      chosen.map(async (model, i) => {
+        const result = await runModel(question, anchor ?? undefined, model);
+        setPending((prev) => prev && prev.map((r, j) => (j === i ? result : r)));
+        return result;
+      })
+    );
+
+    const id = onComplete({ prompt: question, anchor: anchor ?? undefined, results });
+    setPending(null);
+    setShownId(id);
+  };
+
+  const columns: (ModelComparisonResult | null)[] = pending ?? shown?.results ?? [];
+  const columnModels: RegenerateModel[] = pending
+    ? models
+    : (shown?.results ?? []).map((r) => ({ provider: r.provider as AIProvider, model: r.model }));
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={() => !isRunning && onClose()}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-6xl mx-4 h-[88vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2 px-6 py-3 border-b border-parchment">
+          <Columns3 className="h-4 w-4 text-slate-muted" strokeWidth={1.5} />
+          <h3 className="font-display text-caption text-ink">Compare models</h3>
+          <span className="font-sans text-[10px] text-slate-muted">
+            Same prompt, system prompt and code context for every model
+          </span>
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="ml-auto p-1 text-slate-muted hover:text-ink disabled:opacity-40 transition-colors"
+            title="Close"
+          >
+            <X className="h-4 w-4" strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {/* Prompt and models */}
+        <div className="px-6 py-3 border-b border-parchment space-y-2">
+          {anchor && <MessageAnchorQuote anchor={anchor} onNavigate={onNavigate} maxLines={4} />}
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            rows={2}
+            placeholder="What should the models read for?"
+            className="w-full px-2 py-1.5 font-body text-[12px] text-ink bg-card border border-parchment rounded-sm focus:outline-none focus:border-burgundy/40 resize-y"
+          />
+          <div className="flex flex-wrap items-center gap-1.5">
+            {models.map((model) => (
+              <span
+                key={modelKey(model)}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-sm border border-parchment bg-cream/50 font-sans text-[10px] text-ink"
+              >
+                {getModelDisplayName(model.provider, model.model)}
+                <button
+                  onClick={() => setModels(models.filter((m) => modelKey(m) !== modelKey(model)))}
+                  disabled={isRunning}
+                  className="text-slate-muted hover:text-ink"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <select
+              value=""
+              onChange={(e) => addModel(e.target.value)}
+              disabled={isRunning}
+              className="px-1.5 py-0.5 bg-card border border-parchment rounded-sm font-sans text-[10px] text-slate-muted"
+            >
+              <option value="">Add model…</option>
+              {providers.map((provider) => (
+                <optgroup key={provider.id} label={provider.name}>
+                  {provider.models
+                    .filter((m) => m.id !== "custom" || provider.id === current.provider)
+                    .map((m) => (
+                      <option key={m.id} value={`${provider.id}:${m.id}`}>{m.name}</option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            <button
+              onClick={handleRun}
+              disabled={!canRun}
+              className="ml-auto px-3 py-1 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+              title={models.length < 2 ? "Choose at least two models" : undefined}
+            >
+              {isRunning ? "Comparing…" : "Compare"}
+            </button>
+          </div>
+        </div>
+
+        {/* Answers in columns */}
+        <div className="flex-1 min-h-0 overflow-x-auto">
+          {columns.length === 0 ? (
+            <p className="px-6 py-8 font-sans text-[11px] text-slate-muted text-center">
+              Choose two or more models and compare their answers. Models from other providers use the server&apos;s API keys.
+            </p>
+          ) : (
+            <div
+              className="grid h-full divide-x divide-parchment"
+              style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(18rem, 1fr))` }}
+            >
+              {columns.map((result, i) => {
+                const model = columnModels[i];
+                const isKept = !pending && shown?.keptResultIndex === i;
+                return (
+                  <div key={i} className="flex flex-col min-h-0">
+                    <div className="px-4 py-2 border-b border-parchment bg-cream/50">
+                      <div className="font-sans text-[11px] font-medium text-ink">
+                        {result?.modelName ?? (model ? getModelDisplayName(model.provider, model.model) : "")}
+                      </div>
+                      <div className="font-sans text-[9px] text-slate-muted">
+                        {result
+                          ? result.error
+                            ? `Failed after ${formatLatency(result.latencyMs)}`
+                            : `${formatLatency(result.latencyMs)} · ${countWords(result.content)} words · ${result.content.length.toLocaleString()} characters`
+                          : "Waiting…"}
+                      </div>
+                    </div>
+                    <div className="flex-1 min-h-0 overflow-y-auto px-4 py-3 font-body text-[12px] leading-relaxed prose prose-sm prose-slate dark:prose-invert max-w-none prose-p:my-2 prose-pre:bg-parchment prose-pre:text-[0.85em] prose-code:before:content-none prose-code:after:content-none">
+                      {!result ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-slate-muted" strokeWidth={1.5} />
+                      ) : result.error ? (
+                        <p className="flex items-start gap-1 font-sans text-[11px] text-error">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" strokeWidth={1.5} />
+                          {result.error}
+                        </p>
+                      ) : (
+                        <ChatMarkdown
+                          content={result.content}
+                          lineReferenceFiles={lineReferenceFiles}
+                          defaultFileId={defaultFileId}
+                          onNavigate={onNavigate}
+                        />
+                      )}
+                    </div>
+                    {shown && result && !result.error && (
+                      <div className="px-4 py-2 border-t border-parchment">
+                        {isKept ? (
+                          <span className="inline-flex items-center gap-1 font-sans text-[10px] text-burgundy">
+                            <Check className="h-3 w-3" strokeWidth={1.5} />
+                            Kept in the conversation
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => onKeep(shown, i)}
+                            disabled={shown.keptResultIndex !== undefined}
+                            className="font-sans text-[10px] text-slate-muted hover:text-burgundy disabled:opacity-40 disabled:hover:text-slate-muted transition-colors"
+                          >
+                            Keep this answer
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Earlier comparisons */}
+        {comparisons.length > 0 && (
+          <div className="px-6 py-2 border-t border-parchment flex items-center gap-2 overflow-x-auto">
+            <span className="font-sans text-[10px] text-slate-muted shrink-0">Earlier:</span>
+            {[...comparisons].reverse().map((comparison) => (
+              <button
+                key={comparison.id}
+                onClick={() => setShownId(comparison.id)}
+                disabled={isRunning}
+                className={cn(
+                  "shrink-0 max-w-[14rem] truncate px-2 py-0.5 rounded-sm border font-sans text-[10px] transition-colors",
+                  comparison.id === shownId
+                    ? "border-burgundy/40 bg-burgundy/5 text-ink"
+                    : "border-parchment text-slate-muted hover:bg-cream/50"
+                )}
+                title={`${formatTimestamp(comparison.createdAt)}: ${comparison.results.map((r) => r.modelName).join(", ")}`}
+              >
+                {comparison.prompt}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
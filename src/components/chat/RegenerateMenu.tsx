@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getAllProvidersWithModels } from "@/lib/ai/config";
+import type { AIProvider } from "@/types/ai-settings";
+
+export interface RegenerateModel {
+  provider: AIProvider;
+  model: string;
+}
+
+interface RegenerateMenuProps {
+  current: RegenerateModel; // The configured provider and model
+  onRegenerate: (model?: RegenerateModel) => void; // No model: regenerate with the current one
+  disabled?: boolean;
+}
+
+/**
+ * Regenerate button for an assistant reply, with a menu for asking another model
+ * instead. The new reply becomes a branch beside the old one.
+ */
+export function RegenerateMenu({ current, onRegenerate, disabled }: RegenerateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => document.removeEventListener("mousedown", handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const choose = (model?: RegenerateModel) => {
+    setIsOpen(false);
+    onRegenerate(model);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className={cn(
+          "p-0.5 rounded-sm transition-colors disabled:opacity-40",
+          isOpen ? "text-ink" : "text-slate-muted hover:text-ink opacity-0 group-hover/message:opacity-100"
+        )}
+        title="Regenerate"
+      >
+        <RefreshCw className="h-3 w-3" strokeWidth={1.5} />
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-56 max-h-72 overflow-y-auto bg-popover border border-parchment rounded-sm shadow-lg z-30 py-1">
+          <button
+            onClick={() => choose()}
+            className="w-full text-left px-3 py-1.5 font-sans text-[11px] text-ink hover:bg-cream/50"
+          >
+            Regenerate
+          </button>
+          {getAllProvidersWithModels().map((provider) => {
+            // A custom model id is only known for the configured provider
+            const models = provider.models.filter(
+              (m) => m.id !== "custom" || provider.id === current.provider
+            );
+            if (models.length === 0) return null;
+            return (
+              <div key={provider.id} className="border-t border-parchment mt-1 pt-1">
+                <div className="px-3 py-0.5 font-sans text-[9px] uppercase tracking-wide text-slate-muted">
+                  {provider.name}
+                </div>
+                {models.map((model) => {
+                  const isCurrent = provider.id === current.provider && model.id === current.model;
+                  return (
+                    <button
+                      key={model.id}
+                      onClick={() => choose(isCurrent ? undefined : { provider: provider.id, model: model.id })}
+                      className={cn(
+                        "w-full text-left px-3 py-1 font-sans text-[11px] hover:bg-cream/50",
+                        isCurrent ? "text-burgundy" : "text-ink"
+                      )}
+                    >
+                      {model.name}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { findLineReferences, type LineReferenceFile } from "@/lib/line-references";
+import type { AnnotationTypeDefinition, LineAnnotation, LineAnnotationType, Message } from "@/types";
+
+interface SaveAsAnnotationDialogProps {
+  message: Message;
+  files: LineReferenceFile[];
+  codeContents: Map<string, string>;
+  annotationTypes: AnnotationTypeDefinition[];  // The project's taxonomy
+  // File to attach to when the paragraph names no lines (usually the file open in the editor)
+  defaultFileId?: string | null;
+  userInitials?: string;
+  onSave: (annotation: Omit<LineAnnotation, "id" | "createdAt">) => void;
+  onClose: () => void;
+}
+
+// Paragraphs of a reply, skipping code blocks and headings (which make poor annotations)
+function splitParagraphs(content: string): string[] {
+  return content
+    .replace(/```[\s\S]*?(?:```|$)/g, "")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0 && !/^#{1,6}\s/.test(p));
+}
+
+// Annotations are plain text, so drop the emphasis and list markers the reply was written in
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(?<![\w*])\*(?!\s)(.+?)\*(?!\w)/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/\[([^\]\n]+)\]\([^)\n]*\)/g, "$1")
+    .trim();
+}
+
+/**
+ * Turn a paragraph of an assistant reply into a line annotation. The range is taken
+ * from the first line reference in the paragraph where there is one, and can be
+ * changed by hand; the annotation records the message and model it came from.
+ */
+export function SaveAsAnnotationDialog({
+  message,
+  files,
+  codeContents,
+  annotationTypes,
+  defaultFileId,
+  userInitials,
+  onSave,
+  onClose,
+}: SaveAsAnnotationDialogProps) {
+  const paragraphs = useMemo(() => splitParagraphs(message.content), [message.content]);
+  const fallbackFileId = files.find((f) => f.id === defaultFileId)?.id ?? files[0]?.id ?? "";
+
+  const [paragraphIndex, setParagraphIndex] = useState(0);
+  const [content, setContent] = useState("");
+  const [type, setType] = useState<LineAnnotationType>(annotationTypes[0]?.id ?? "observation");
+  const [fileId, setFileId] = useState(fallbackFileId);
+  const [startLine, setStartLine] = useState(1);
+  const [endLine, setEndLine] = useState(1);
+  const [detected, setDetected] = useState(false);
+
+  // Choosing a paragraph refills the text and, where it names lines, the range
+  useEffect(() => {
+    const paragraph = paragraphs[paragraphIndex] ?? "";
+    setContent(stripMarkdown(paragraph));
+    const ref = findLineReferences(paragraph, files, defaultFileId).find((r) => r.valid);
+    setDetected(!!ref);
+    if (ref) {
+      setFileId(ref.fileId);
+      setStartLine(ref.lineNumber);
+      setEndLine(ref.endLineNumber ?? ref.lineNumber);
+    }
+  }, [paragraphIndex, paragraphs, files, defaultFileId]);
+
+  // Handle escape key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const file = files.find((f) => f.id === fileId);
+  const fileLines = useMemo(() => (codeContents.get(fileId) ?? "").split("\n"), [codeContents, fileId]);
+  const outOfRange = !file || startLine < 1 || endLine < startLine || endLine > file.lineCount;
+  const selectedLines = outOfRange ? [] : fileLines.slice(startLine - 1, endLine);
+  const canSave = !outOfRange && content.trim().length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      codeFileId: fileId,
+      lineNumber: startLine,
+      endLineNumber: endLine > startLine ? endLine : undefined,
+      lineContent: selectedLines.join("\n"),
+      type,
+      content: content.trim(),
+      addedBy: userInitials,
+      provenance: {
+        messageId: message.id,
+        model: message.metadata?.model,
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-lg mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment">
+          <h3 className="font-display text-caption text-ink">Save as annotation</h3>
+          <p className="mt-1 font-sans text-[10px] text-slate-muted">
+            Choose a paragraph of the reply and the lines it should be attached to.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {/* Paragraphs */}
+          {paragraphs.length > 1 && (
+            <div className="space-y-1.5 max-h-40 overflow-y-auto">
+              {paragraphs.map((paragraph, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => setParagraphIndex(i)}
+                  className={cn(
+                    "w-full text-left px-2 py-1.5 rounded-sm border font-body text-[11px] leading-snug line-clamp-3 transition-colors",
+                    i === paragraphIndex
+                      ? "border-burgundy/40 bg-burgundy/5 text-ink"
+                      : "border-parchment text-slate-muted hover:bg-cream/50"
+                  )}
+                >
+                  {stripMarkdown(paragraph)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Annotation text */}
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={4}
+            className="w-full px-2 py-1.5 font-body text-[12px] text-ink bg-card border border-parchment rounded-sm focus:outline-none focus:border-burgundy/40 resize-y"
+          />
+
+          {/* Type and range */}
+          <div className="flex flex-wrap items-center gap-2 font-sans text-[11px] text-slate-muted">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as LineAnnotationType)}
+              className="px-1.5 py-1 bg-card border border-parchment rounded-sm text-ink"
+            >
+              {annotationTypes.map((t) => (
+                <option key={t.id} value={t.id} title={t.description}>{t.label}</option>
+              ))}
+            </select>
+            <span>on</span>
+            <select
+              value={fileId}
+              onChange={(e) => setFileId(e.target.value)}
+              className="px-1.5 py-1 bg-card border border-parchment rounded-sm text-ink max-w-[10rem]"
+            >
+              {files.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <span>lines</span>
+            <input
+              type="number"
+              min={1}
+              value={startLine}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                setStartLine(value);
+                if (value > endLine) setEndLine(value);
+              }}
+              className="w-14 px-1.5 py-1 bg-card border border-parchment rounded-sm text-ink"
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={startLine}
+              value={endLine}
+              onChange={(e) => setEndLine(Number(e.target.value))}
+              className="w-14 px-1.5 py-1 bg-card border border-parchment rounded-sm text-ink"
+            />
+          </div>
+          <p className="font-sans text-[10px] text-slate-muted -mt-2">
+            {detected ? "Range taken from the paragraph's line reference." : "No line reference in this paragraph; choose the lines by hand."}
+          </p>
+
+          {/* Preview of the annotated lines */}
+          {outOfRange ? (
+            <p className="flex items-center gap-1 font-sans text-[10px] text-error">
+              <AlertTriangle className="h-3 w-3" strokeWidth={1.5} />
+              {file ? `${file.name} has ${file.lineCount} lines` : "Choose a file"}
+            </p>
+          ) : (
+            <pre className="px-2 py-1 max-h-32 overflow-auto rounded-sm border border-parchment bg-parchment/40 font-mono text-[10px] leading-snug text-ink whitespace-pre">
+              {selectedLines.map((line, i) => (
+                <div key={i}>
+                  <span className="select-none text-slate-muted">{String(startLine + i).padStart(String(endLine).length)} </span>
+                  {line}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          <span className="font-sans text-[10px] text-slate-muted">
+            Marked as AI-derived{message.metadata?.model ? ` (${message.metadata.model})` : ""}
+          </span>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-3 py-1.5 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+          >
+            Save annotation
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
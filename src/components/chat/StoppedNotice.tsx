@@ -0,0 +1,22 @@
+"use client";
+
+import { Square } from "lucide-react";
+
+// Shown beside replies the analyst stopped; kept out of the message content so it is
+// never sent back to the model as part of the conversation
+export const RESPONSE_STOPPED_LABEL = "Response stopped";
+
+/**
+ * Note beside a reply that was stopped before it finished
+ */
+export function StoppedNotice() {
+  return (
+    <span
+      className="inline-flex items-center gap-0.5 font-sans text-[9px] text-slate-muted italic"
+      title="The reply was stopped before it finished"
+    >
+      <Square className="h-2 w-2" strokeWidth={1.5} />
+      {RESPONSE_STOPPED_LABEL}
+    </span>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Eye, Wrench } from "lucide-react";
+import type { AssistantNavigation, AssistantToolCall } from "@/types";
+
+interface ToolCallListProps {
+  toolCalls: AssistantToolCall[];
+  onNavigate?: (navigation: AssistantNavigation) => void;
+}
+
+function formatRange(navigation: AssistantNavigation): string {
+  const { lineNumber, endLineNumber } = navigation;
+  return endLineNumber && endLineNumber > lineNumber ? `L${lineNumber}–${endLineNumber}` : `L${lineNumber}`;
+}
+
+/**
+ * The session tools an assistant reply used: a collapsible list of what the model
+ * read and searched, plus a button for each passage it proposed showing in the editor.
+ */
+export function ToolCallList({ toolCalls, onNavigate }: ToolCallListProps) {
+  const [expanded, setExpanded] = useState(false);
+  const lookups = toolCalls.filter((call) => !call.navigation);
+  const navigations = toolCalls.filter((call) => call.navigation);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-parchment space-y-1">
+      {lookups.length > 0 && (
+        <>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 font-sans text-[10px] text-slate-muted hover:text-ink transition-colors"
+          >
+            {expanded ? (
+              <ChevronDown className="h-3 w-3" strokeWidth={1.5} />
+            ) : (
+              <ChevronRight className="h-3 w-3" strokeWidth={1.5} />
+            )}
+            <Wrench className="h-3 w-3" strokeWidth={1.5} />
+            Looked at the project ({lookups.length} step{lookups.length === 1 ? "" : "s"})
+          </button>
+          {expanded && (
+            <ul className="pl-5 space-y-0.5">
+              {lookups.map((call) => (
+                <li key={call.id} className="font-sans text-[10px] text-slate-muted">
+                  {call.summary}
+                  {call.error && <span className="text-error" title={call.error}> (failed)</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+      {navigations.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {navigations.map((call) => {
+            const navigation = call.navigation!;
+            return (
+              <button
+                key={call.id}
+                onClick={() => onNavigate?.(navigation)}
+                disabled={!onNavigate}
+                title={navigation.reason || call.summary}
+                className="flex items-center gap-1 px-1.5 py-0.5 font-sans text-[10px] text-burgundy border border-burgundy/30 rounded-sm hover:bg-burgundy/10 disabled:opacity-50 disabled:cursor-default transition-colors"
+              >
+                <Eye className="h-3 w-3" strokeWidth={1.5} />
+                Show {formatRange(navigation)} of {navigation.fileName}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
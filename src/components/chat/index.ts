@@ -1,2 +1,12 @@
-export { ContextPreview } from "./ContextPreview";
+export { ContextPreview, ContextBudgetSummary } from "./ContextPreview";
 export { MessageBubble } from "./MessageBubble";
+export { ToolCallList } from "./ToolCallList";
+export { ChatMarkdown } from "./ChatMarkdown";
+export { MessageAnchorQuote, formatAnchorRange } from "./MessageAnchorQuote";
+export { SaveAsAnnotationDialog } from "./SaveAsAnnotationDialog";
+export { BranchSwitcher } from "./BranchSwitcher";
+export { RegenerateMenu, type RegenerateModel } from "./RegenerateMenu";
+export { MessageEditForm } from "./MessageEditForm";
+export { ModelComparisonPanel } from "./ModelComparisonPanel";
+export { FallbackNotice } from "./FallbackNotice";
+export { StoppedNotice, RESPONSE_STOPPED_LABEL } from "./StoppedNotice";
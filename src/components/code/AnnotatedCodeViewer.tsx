@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { useSession } from "@/context/SessionContext";
+import { useAppSettings } from "@/context/AppSettingsContext";
 import { cn } from "@/lib/utils";
 import {
   MessageSquarePlus,
@@ -12,11 +13,7 @@ import {
   ChevronUp,
 } from "lucide-react";
 import type { LineAnnotation, LineAnnotationType } from "@/types";
-import {
-  LINE_ANNOTATION_TYPES,
-  LINE_ANNOTATION_LABELS,
-  LINE_ANNOTATION_COLORS,
-} from "@/types";
+import { getAnnotationTaxonomy, getAnnotationTypeColor, getAnnotationTypeLabel } from "@/lib/annotation-taxonomy";
 
 interface AnnotatedCodeViewerProps {
   code: string;
@@ -41,9 +38,17 @@ export function AnnotatedCodeViewer({
     updateLineAnnotation,
     removeLineAnnotation,
   } = useSession();
+  const { effectiveTheme } = useAppSettings();
+
+  const annotationTaxonomy = getAnnotationTaxonomy(session);
+  // Tinted background, border and text in the type's colour
+  const typeStyle = (type: LineAnnotationType) => {
+    const color = getAnnotationTypeColor(annotationTaxonomy, type, effectiveTheme === "dark");
+    return { backgroundColor: `${color}1a`, borderColor: `${color}4d`, color };
+  };
 
   const [selectedLine, setSelectedLine] = useState<number | null>(null);
-  const [annotationType, setAnnotationType] = useState<LineAnnotationType>("observation");
+  const [annotationType, setAnnotationType] = useState<LineAnnotationType>(annotationTaxonomy[0].id);
   const [annotationContent, setAnnotationContent] = useState("");
   const [editingAnnotation, setEditingAnnotation] = useState<string | null>(null);
   const [editContent, setEditContent] = useState("");
@@ -74,7 +79,7 @@ export function AnnotatedCodeViewer({
     } else {
       setSelectedLine(lineNumber);
       setAnnotationContent("");
-      setAnnotationType("observation");
+      setAnnotationType(annotationTaxonomy[0].id);
     }
   };
 
@@ -213,10 +218,8 @@ export function AnnotatedCodeViewer({
                         {lineAnnotations.map((annotation) => (
                           <div
                             key={annotation.id}
-                            className={cn(
-                              "py-1.5 px-3 text-[10px] leading-relaxed border-b border-parchment/50 last:border-b-0",
-                              LINE_ANNOTATION_COLORS[annotation.type]
-                            )}
+                            className="py-1.5 px-3 text-[10px] leading-relaxed border-b border-parchment/50 last:border-b-0"
+                            style={typeStyle(annotation.type)}
                           >
                             {editingAnnotation === annotation.id ? (
                               <div className="space-y-2">
@@ -246,7 +249,7 @@ export function AnnotatedCodeViewer({
                               <div className="flex items-start justify-between gap-2">
                                 <div>
                                   <span className="font-sans font-semibold uppercase tracking-wide text-[8px]">
-                                    {LINE_ANNOTATION_LABELS[annotation.type]}:
+                                    {getAnnotationTypeLabel(annotationTaxonomy, annotation.type)}:
                                   </span>{" "}
                                   <span className="font-body">{annotation.content}</span>
                                   {annotation.addedBy && (
@@ -298,9 +301,9 @@ export function AnnotatedCodeViewer({
                             }
                             className="px-2 py-0.5 font-sans text-[10px] border border-parchment rounded-sm bg-card focus:outline-none focus:border-burgundy/50"
                           >
-                            {LINE_ANNOTATION_TYPES.map((type) => (
-                              <option key={type} value={type}>
-                                {LINE_ANNOTATION_LABELS[type]}
+                            {annotationTaxonomy.map((type) => (
+                              <option key={type.id} value={type.id}>
+                                {type.label}
                               </option>
                             ))}
                           </select>
@@ -342,21 +345,20 @@ export function AnnotatedCodeViewer({
       {fileAnnotations.length > 0 && (
         <div className="border-t border-parchment px-4 py-2 bg-cream/30">
           <div className="flex flex-wrap gap-2 text-[9px]">
-            {LINE_ANNOTATION_TYPES.map((type) => {
-              const count = fileAnnotations.filter((a) => a.type === type).length;
-              if (count === 0) return null;
-              return (
-                <span
-                  key={type}
-                  className={cn(
-                    "px-2 py-0.5 rounded-sm border",
-                    LINE_ANNOTATION_COLORS[type]
-                  )}
-                >
-                  {LINE_ANNOTATION_LABELS[type]}: {count}
-                </span>
-              );
-            })}
+            {[...new Set(fileAnnotations.map((a) => a.type))]
+              .sort((a, b) => annotationTaxonomy.findIndex((t) => t.id === a) - annotationTaxonomy.findIndex((t) => t.id === b))
+              .map((type) => {
+                const count = fileAnnotations.filter((a) => a.type === type).length;
+                return (
+                  <span
+                    key={type}
+                    className="px-2 py-0.5 rounded-sm border"
+                    style={typeStyle(type)}
+                  >
+                    {getAnnotationTypeLabel(annotationTaxonomy, type)}: {count}
+                  </span>
+                );
+              })}
           </div>
         </div>
       )}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { EyeOff, RefreshCw, Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AnnotationTypeDefinition, BlindAnnotationSettings, CodeReference, LineAnnotation } from "@/types";
+import { getAnnotationTypeDefinition } from "@/lib/annotation-taxonomy";
+import {
+  NOT_ANNOTATED,
+  computeAgreement,
+  describeAgreement,
+  getAnnotators,
+  isBlindReadingPending,
+} from "@/lib/annotation-agreement";
+
+// Range-overlap thresholds for matching annotations into units
+const OVERLAP_OPTIONS = [
+  { value: 0, label: "Any shared line" },
+  { value: 0.5, label: "At least half their lines" },
+  { value: 1, label: "Exactly the same lines" },
+];
+
+interface AnnotationAgreementPanelProps {
+  annotations: LineAnnotation[];   // Every annotation in the project the viewer may see (blind readings already filtered)
+  codeFiles: CodeReference[];
+  selectedFileId?: string | null;
+  annotationTypes: AnnotationTypeDefinition[];
+  isDark: boolean;
+  members?: Array<{ initials?: string; display_name?: string }>;
+  userInitials?: string;
+  blindAnnotation: BlindAnnotationSettings;
+  onSetBlindAnnotation: (settings: BlindAnnotationSettings) => void;
+  canSwitchBlindAnnotation?: boolean; // Only the project owner may switch blind annotation on or off
+  onRefreshBlindAnnotation?: () => void;
+  onJumpToRange: (codeFileId: string, lineNumber: number, endLineNumber?: number) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "n/a" : value.toFixed(3);
+}
+
+/**
+ * Inter-annotator agreement for team readings: how far members who annotated the same files
+ * agree on where annotations go and which type they are, the units they disagree on, and the
+ * blind annotation mode that keeps readings independent until each member submits.
+ */
+export function AnnotationAgreementPanel({
+  annotations,
+  codeFiles,
+  selectedFileId,
+  annotationTypes,
+  isDark,
+  members = [],
+  userInitials,
+  blindAnnotation,
+  onSetBlindAnnotation,
+  canSwitchBlindAnnotation = true,
+  onRefreshBlindAnnotation,
+  onJumpToRange,
+  onClose,
+  readOnly = false,
+}: AnnotationAgreementPanelProps) {
+  // "" = every file in the project
+  const [scopeFileId, setScopeFileId] = useState<string>(selectedFileId ?? "");
+  const [minOverlap, setMinOverlap] = useState(0);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    onRefreshBlindAnnotation?.();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const scopedAnnotations = useMemo(
+    () => (scopeFileId ? annotations.filter((a) => a.codeFileId === scopeFileId) : annotations),
+    [annotations, scopeFileId]
+  );
+  const scopedFiles = scopeFileId ? codeFiles.filter((f) => f.id === scopeFileId) : codeFiles;
+  const pendingFiles = scopedFiles.filter((f) => isBlindReadingPending(blindAnnotation, f.id, userInitials));
+  const canSwitchBlind = !readOnly && canSwitchBlindAnnotation;
+
+  const allAnnotators = useMemo(() => getAnnotators(scopedAnnotations), [scopedAnnotations]);
+  const annotators = useMemo(() => allAnnotators.filter((a) => !excluded.has(a)), [allAnnotators, excluded]);
+  const report = useMemo(
+    () => (annotators.length >= 2 ? computeAgreement(scopedAnnotations, annotators, minOverlap) : null),
+    [scopedAnnotations, annotators, minOverlap]
+  );
+
+  const memberName = (initials: string) =>
+    members.find((m) => m.initials === initials)?.display_name || initials;
+  const fileName = (id: string) => codeFiles.find((f) => f.id === id)?.name || "Unknown file";
+
+  const toggleAnnotator = (initials: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(initials)) next.delete(initials);
+      else next.add(initials);
+      return next;
+    });
+  };
+
+  const inputClass = "px-1.5 py-1 bg-card border border-parchment rounded-sm font-sans text-[11px] text-ink focus:outline-none focus:border-burgundy/40";
+
+  const typePill = (value: string) => {
+    if (value === NOT_ANNOTATED) {
+      return <span className="font-sans text-[10px] text-slate-muted">not annotated</span>;
+    }
+    const definition = getAnnotationTypeDefinition(annotationTypes, value);
+    const color = isDark ? definition.color.dark : definition.color.light;
+    return (
+      <span
+        className="px-1.5 py-0.5 rounded-full text-[8px] font-semibold uppercase"
+        style={{ backgroundColor: `${color}30`, color }}
+        title={definition.label}
+      >
+        {definition.prefix}
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment">
+          <h3 className="flex items-center gap-2 font-display text-caption text-ink">
+            <Scale className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            Annotator agreement
+          </h3>
+          <p className="mt-1 font-sans text-[10px] text-slate-muted">
+            Annotations by different members are matched where their line ranges overlap; each match is compared on type,
+            with &ldquo;not annotated&rdquo; counting as a choice.
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mt-3 font-sans text-[11px] text-slate-muted">
+            <span>Annotations in</span>
+            <select value={scopeFileId} onChange={(e) => setScopeFileId(e.target.value)} className={inputClass}>
+              <option value="">All files</option>
+              {codeFiles.map((file) => (
+                <option key={file.id} value={file.id}>{file.name}</option>
+              ))}
+            </select>
+            <span>matched on</span>
+            <select value={minOverlap} onChange={(e) => setMinOverlap(Number(e.target.value))} className={inputClass}>
+              {OVERLAP_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {/* Annotators */}
+          <div>
+            <div className="font-sans text-[9px] uppercase tracking-wider text-slate-muted mb-1">Annotators</div>
+            {allAnnotators.length === 0 ? (
+              <p className="font-sans text-[11px] text-slate-muted">No annotations carry author initials here.</p>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                {allAnnotators.map((initials) => (
+                  <label key={initials} className="flex items-center gap-1.5 font-sans text-[11px] text-ink cursor-pointer">
+                    <input type="checkbox" checked={!excluded.has(initials)} onChange={() => toggleAnnotator(initials)} />
+                    {memberName(initials)}
+                    <span className="text-slate-muted">
+                      ({scopedAnnotations.filter((a) => a.addedBy === initials).length})
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {pendingFiles.length > 0 && (
+              <p className="mt-1 font-sans text-[10px] text-slate-muted">
+                Other members&apos; annotations on {pendingFiles.length === 1 ? pendingFiles[0].name : `${pendingFiles.length} files`} are
+                left out until you submit your blind reading.
+              </p>
+            )}
+          </div>
+
+          {!report ? (
+            <p className="font-sans text-[11px] text-slate-muted">Agreement needs annotations from at least two annotators.</p>
+          ) : (
+            <>
+              {/* Overall agreement */}
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: "Observed agreement", value: report.observed, note: `${report.units.length} units` },
+                  { label: "Fleiss' kappa", value: report.fleissKappa, note: describeAgreement(report.fleissKappa) },
+                  { label: "Krippendorff's alpha", value: report.krippendorffAlpha, note: describeAgreement(report.krippendorffAlpha) },
+                ].map((metric) => (
+                  <div key={metric.label} className="p-2 border border-parchment rounded-sm">
+                    <div className="font-sans text-[9px] uppercase tracking-wider text-slate-muted">{metric.label}</div>
+                    <div className="font-mono text-sm text-ink">{formatMetric(metric.value)}</div>
+                    <div className="font-sans text-[10px] text-slate-muted">{metric.note}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Pairwise Cohen's kappa */}
+              <div>
+                <div className="font-sans text-[9px] uppercase tracking-wider text-slate-muted mb-1">Cohen&apos;s kappa by pair</div>
+                <table className="w-full font-sans text-[11px] text-ink">
+                  <thead>
+                    <tr className="text-[9px] uppercase tracking-wider text-slate-muted text-left">
+                      <th className="py-1 font-normal">Pair</th>
+                      <th className="py-1 font-normal text-right" title="Units at least one of the pair annotated">Units</th>
+                      <th className="py-1 font-normal text-right">Agreed</th>
+                      <th className="py-1 font-normal text-right">Kappa</th>
+                      <th className="py-1 pl-3 font-normal">Reading</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.pairwise.map((pair) => (
+                      <tr key={`${pair.a}-${pair.b}`} className="border-t border-parchment/50">
+                        <td className="py-1">{memberName(pair.a)} &amp; {memberName(pair.b)}</td>
+                        <td className="py-1 text-right font-mono text-[10px]">{pair.units}</td>
+                        <td className="py-1 text-right font-mono text-[10px]">{Math.round(pair.observed * 100)}%</td>
+                        <td className="py-1 text-right font-mono text-[10px]">{formatMetric(pair.kappa)}</td>
+                        <td className="py-1 pl-3 text-slate-muted">{describeAgreement(pair.kappa)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Disagreements */}
+              <div>
+                <div className="font-sans text-[9px] uppercase tracking-wider text-slate-muted mb-1">
+                  Disagreements ({report.disagreements.length})
+                </div>
+                {report.disagreements.length === 0 ? (
+                  <p className="font-sans text-[11px] text-slate-muted">Every annotator agrees on every unit.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {report.disagreements.map((unit) => (
+                      <li key={unit.id}>
+                        <button
+                          onClick={() => {
+                            onJumpToRange(unit.codeFileId, unit.lineNumber, unit.endLineNumber);
+                            onClose();
+                          }}
+                          className="w-full p-2 text-left border border-parchment rounded-sm hover:bg-cream/60 transition-colors"
+                          title="Show these lines in the editor"
+                        >
+                          <div className="font-sans text-[10px] text-slate-muted">
+                            {!scopeFileId && `${fileName(unit.codeFileId)}, `}
+                            L{unit.lineNumber}{unit.endLineNumber !== unit.lineNumber ? `-${unit.endLineNumber}` : ""}
+                          </div>
+                          <div className="mt-1 space-y-0.5">
+                            {annotators.map((initials) => (
+                              <div key={initials} className="flex items-center gap-2 font-sans text-[11px]">
+                                <span className="w-20 flex-shrink-0 truncate text-slate">{memberName(initials)}</span>
+                                {typePill(unit.values[initials])}
+                                {unit.annotations[initials] && (
+                                  <span className="truncate text-ink">{unit.annotations[initials].content}</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Blind annotation */}
+          <div className="pt-3 border-t border-parchment">
+            <label
+              className={cn("flex items-center gap-2 font-sans text-[11px] text-ink", canSwitchBlind && "cursor-pointer")}
+              title={!readOnly && !canSwitchBlindAnnotation ? "Only the project owner can switch blind annotation" : undefined}
+            >
+              <input
+                type="checkbox"
+                checked={blindAnnotation.enabled}
+                onChange={(e) => onSetBlindAnnotation({ ...blindAnnotation, enabled: e.target.checked })}
+                disabled={!canSwitchBlind}
+              />
+              <EyeOff className="h-3.5 w-3.5 text-slate-muted" strokeWidth={1.5} />
+              Blind annotation
+            </label>
+            <p className="mt-1 ml-5 font-sans text-[10px] text-slate-muted">
+              Each member sees only their own annotations on a file until they submit their reading of it.
+            </p>
+            {blindAnnotation.enabled && (
+              <div className="mt-2 ml-5 space-y-0.5">
+                {scopedFiles.map((file) => {
+                  const submitted = blindAnnotation.submissions[file.id] || [];
+                  return (
+                    <div key={file.id} className="flex items-center gap-2 font-sans text-[10px] text-slate-muted">
+                      <span className="truncate text-ink">{file.name}</span>
+                      <span>
+                        {submitted.length > 0 ? `submitted by ${submitted.map(memberName).join(", ")}` : "no submissions yet"}
+                      </span>
+                    </div>
+                  );
+                })}
+                {onRefreshBlindAnnotation && (
+                  <button
+                    onClick={onRefreshBlindAnnotation}
+                    className="flex items-center gap-1 mt-1 font-sans text-[10px] text-slate-muted hover:text-ink transition-colors"
+                  >
+                    <RefreshCw className="h-3 w-3" strokeWidth={1.5} />
+                    Check for new submissions
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ListTree, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CodebookCode, LineAnnotation } from "@/types";
+import { createCodebookCode, flattenCodebook, getCodeColor } from "@/lib/codebook";
+
+interface AnnotationCodesDialogProps {
+  annotation: LineAnnotation;
+  codebook: CodebookCode[];
+  onSave: (codes: string[]) => void;
+  onSetCodebook: (codebook: CodebookCode[]) => void;  // Quick-added codes go straight into the codebook
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Apply codes from the project's codebook to one annotation. Codes can be added to the
+ * codebook from here while coding, at the top level or under a chosen parent.
+ */
+export function AnnotationCodesDialog({
+  annotation,
+  codebook,
+  onSave,
+  onSetCodebook,
+  onClose,
+  readOnly = false,
+}: AnnotationCodesDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(annotation.codes || []));
+  const [newName, setNewName] = useState("");
+  const [newParentId, setNewParentId] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const rows = flattenCodebook(codebook);
+  const nameTaken = codebook.some(
+    (c) => (c.parentId ?? "") === newParentId && c.name.toLowerCase() === newName.trim().toLowerCase()
+  );
+
+  const toggleCode = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const addCode = () => {
+    if (!newName.trim() || nameTaken) return;
+    const code = createCodebookCode(newName, codebook, newParentId || undefined);
+    onSetCodebook([...codebook, code]);
+    setSelected((prev) => new Set(prev).add(code.id));
+    setNewName("");
+  };
+
+  const handleSave = () => {
+    // Keep the codebook's order so chips read the same way on every annotation
+    onSave(rows.map((r) => r.code.id).filter((id) => selected.has(id)));
+    onClose();
+  };
+
+  const inputClass = "px-1.5 py-1 bg-card border border-parchment rounded-sm font-sans text-[11px] text-ink focus:outline-none focus:border-burgundy/40";
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-md mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment">
+          <h3 className="flex items-center gap-2 font-display text-caption text-ink">
+            <ListTree className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            Codes
+          </h3>
+          <p className="mt-1 font-sans text-[10px] text-slate-muted line-clamp-2" title={annotation.content}>
+            L{annotation.lineNumber}
+            {annotation.endLineNumber && annotation.endLineNumber !== annotation.lineNumber ? `-${annotation.endLineNumber}` : ""}
+            : {annotation.content}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-0.5 overflow-y-auto">
+          {rows.length === 0 && (
+            <p className="font-sans text-[11px] text-slate-muted">
+              The codebook is empty. Add a code below to start coding.
+            </p>
+          )}
+          {rows.map(({ code, depth }) => (
+            <label
+              key={code.id}
+              className="flex items-center gap-2 py-0.5 font-sans text-[11px] text-ink cursor-pointer"
+              style={{ paddingLeft: depth * 14 }}
+              title={code.description}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(code.id)}
+                onChange={() => toggleCode(code.id)}
+                disabled={readOnly}
+              />
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getCodeColor(codebook, code.id) }} />
+              {code.name}
+            </label>
+          ))}
+
+          {!readOnly && (
+            <div className="flex items-center gap-2 pt-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addCode();
+                }}
+                placeholder="New code"
+                className={cn(inputClass, "flex-1 min-w-0")}
+              />
+              <select
+                value={newParentId}
+                onChange={(e) => setNewParentId(e.target.value)}
+                className={cn(inputClass, "max-w-[8rem]")}
+                title="Parent code"
+              >
+                <option value="">Top level</option>
+                {rows.map(({ code, depth }) => (
+                  <option key={code.id} value={code.id}>{"\u00a0\u00a0".repeat(depth)}{code.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={addCode}
+                disabled={!newName.trim() || nameTaken}
+                className="flex items-center gap-1 px-2 py-1 font-sans text-[11px] text-slate hover:text-ink disabled:opacity-50 transition-colors"
+                title={nameTaken ? "A code with this name already exists there" : "Add to the codebook"}
+              >
+                <Plus className="h-3 w-3" strokeWidth={1.5} />
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          <span className="font-sans text-[10px] text-slate-muted">
+            {selected.size} code{selected.size !== 1 ? "s" : ""} applied
+          </span>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            {readOnly ? "Close" : "Cancel"}
+          </button>
+          {!readOnly && (
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+            >
+              Apply codes
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { AtSign, Download, MessageSquare, RotateCcw, Search, Unlink } from "lucide-react";
+import { cn, formatDate } from "@/lib/utils";
+import type { AnnotationStatus, AnnotationTypeDefinition, CodebookCode, CodeReference, LineAnnotation } from "@/types";
+import { getAnnotationTypeDefinition } from "@/lib/annotation-taxonomy";
+import {
+  ANNOTATION_SORT_LABELS,
+  DEFAULT_ANNOTATION_SEARCH,
+  UNKNOWN_AUTHOR,
+  hasActiveAnnotationFilters,
+  searchAnnotations,
+  type AnnotationOrphanFilter,
+  type AnnotationSearchFilters,
+  type AnnotationSortOrder,
+} from "@/lib/annotation-search";
+import { getAnnotators } from "@/lib/annotation-agreement";
+import { ANNOTATION_STATUSES, ANNOTATION_STATUS_LABELS, getAnnotationStatus, isAnnotationClosed } from "@/lib/annotation-status";
+import { exportAnnotationsCSV } from "@/lib/export/annotation-csv";
+
+interface AnnotationSearchPanelProps {
+  annotations: LineAnnotation[];   // Every annotation the user can see
+  codeFiles: CodeReference[];
+  annotationTypes: AnnotationTypeDefinition[];
+  codebook: CodebookCode[];
+  isDark: boolean;
+  userInitials?: string;           // Current user, for the needs-my-attention filter
+  filters: AnnotationSearchFilters;  // Kept by the caller so a search survives jumping to a result
+  onFiltersChange: (filters: AnnotationSearchFilters) => void;
+  onJumpToAnnotation: (annotation: LineAnnotation) => void;
+  onClose: () => void;
+}
+
+/**
+ * Search and filter every annotation in the project, jump to one in the editor,
+ * or export the results as CSV.
+ */
+export function AnnotationSearchPanel({
+  annotations,
+  codeFiles,
+  annotationTypes,
+  codebook,
+  isDark,
+  userInitials,
+  filters,
+  onFiltersChange,
+  onJumpToAnnotation,
+  onClose,
+}: AnnotationSearchPanelProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const results = useMemo(
+    () => searchAnnotations(annotations, filters, codeFiles, userInitials),
+    [annotations, filters, codeFiles, userInitials]
+  );
+
+  // Types in the taxonomy, then any that annotations still use after being removed from it
+  const typeIds = useMemo(
+    () => [
+      ...annotationTypes.map((t) => t.id),
+      ...Array.from(new Set(annotations.map((a) => a.type))).filter((id) => !annotationTypes.some((t) => t.id === id)),
+    ],
+    [annotationTypes, annotations]
+  );
+  const authors = useMemo(() => {
+    const known = getAnnotators(annotations);
+    return annotations.some((a) => !a.addedBy) ? [...known, UNKNOWN_AUTHOR] : known;
+  }, [annotations]);
+  const fileName = (id: string) => codeFiles.find((f) => f.id === id)?.name || "Unknown file";
+
+  const update = (updates: Partial<AnnotationSearchFilters>) => onFiltersChange({ ...filters, ...updates });
+  const toggle = (key: "types" | "authors", value: string) => {
+    const current = filters[key];
+    update({ [key]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value] });
+  };
+  const toggleStatus = (status: AnnotationStatus) =>
+    update({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    });
+
+  const handleExport = () => {
+    const scope = filters.fileIds.length === 1 ? fileName(filters.fileIds[0]).replace(/\.[^.]+$/, "") : "project";
+    exportAnnotationsCSV(results.map((r) => r.annotation), codeFiles, annotationTypes, codebook, `${scope}-annotations`);
+  };
+
+  const canReset = !!filters.query || hasActiveAnnotationFilters(filters) || filters.sort !== DEFAULT_ANNOTATION_SEARCH.sort;
+
+  const inputClass = "px-1.5 py-1 bg-card border border-parchment rounded-sm font-sans text-[11px] text-ink focus:outline-none focus:border-burgundy/40";
+  const chipClass = (active: boolean) =>
+    cn(
+      "px-2 py-0.5 rounded-sm font-sans text-[10px] transition-colors",
+      active ? "bg-burgundy text-white" : "bg-burgundy/10 text-burgundy hover:bg-burgundy/20"
+    );
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment space-y-2">
+          <h3 className="flex items-center gap-2 font-display text-caption text-ink">
+            <Search className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            Search annotations
+          </h3>
+          <input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search annotation text and replies"
+            className={cn(inputClass, "w-full")}
+            autoFocus
+          />
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-12 font-sans text-[9px] uppercase tracking-wider text-slate-muted">Type</span>
+            {typeIds.map((id) => (
+              <button key={id} onClick={() => toggle("types", id)} className={chipClass(filters.types.includes(id))}>
+                {getAnnotationTypeDefinition(annotationTypes, id).label}
+              </button>
+            ))}
+          </div>
+          {authors.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="w-12 font-sans text-[9px] uppercase tracking-wider text-slate-muted">Author</span>
+              {authors.map((initials) => (
+                <button key={initials || "unknown"} onClick={() => toggle("authors", initials)} className={chipClass(filters.authors.includes(initials))}>
+                  {initials || "No initials"}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-12 font-sans text-[9px] uppercase tracking-wider text-slate-muted">Status</span>
+            {ANNOTATION_STATUSES.map((status) => (
+              <button key={status} onClick={() => toggleStatus(status)} className={chipClass(filters.statuses.includes(status))}>
+                {ANNOTATION_STATUS_LABELS[status]}
+              </button>
+            ))}
+            {userInitials && (
+              <button
+                onClick={() => update({ needsAttention: !filters.needsAttention })}
+                className={cn(chipClass(filters.needsAttention), "flex items-center gap-0.5 ml-2")}
+                title="Open annotations that mention you, or yours with a reply from someone else"
+              >
+                <AtSign className="h-3 w-3" strokeWidth={1.5} />
+                Needs my attention
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 font-sans text-[11px] text-slate-muted">
+            <select
+              value={filters.fileIds[0] ?? ""}
+              onChange={(e) => update({ fileIds: e.target.value ? [e.target.value] : [] })}
+              className={inputClass}
+            >
+              <option value="">All files</option>
+              {codeFiles.map((file) => (
+                <option key={file.id} value={file.id}>{file.name}</option>
+              ))}
+            </select>
+            <select
+              value={filters.orphaned}
+              onChange={(e) => update({ orphaned: e.target.value as AnnotationOrphanFilter })}
+              className={inputClass}
+            >
+              <option value="all">Attached and orphaned</option>
+              <option value="anchored">Attached only</option>
+              <option value="orphaned">Orphaned only</option>
+            </select>
+            <span>from</span>
+            <input
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => update({ from: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => update({ to: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <select
+              value={filters.sort}
+              onChange={(e) => update({ sort: e.target.value as AnnotationSortOrder })}
+              className={cn(inputClass, "ml-auto")}
+              title="Sort results"
+            >
+              {(Object.keys(ANNOTATION_SORT_LABELS) as AnnotationSortOrder[]).map((order) => (
+                <option key={order} value={order}>{ANNOTATION_SORT_LABELS[order]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="font-sans text-[11px] text-slate-muted">
+              {annotations.length === 0 ? "This project has no annotations yet." : "No annotations match."}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {results.map(({ annotation, matchedReplies }) => {
+                const definition = getAnnotationTypeDefinition(annotationTypes, annotation.type);
+                const color = isDark ? definition.color.dark : definition.color.light;
+                const replies = annotation.replies || [];
+                const status = getAnnotationStatus(annotation);
+                return (
+                  <li key={annotation.id}>
+                    <button
+                      onClick={() => {
+                        onJumpToAnnotation(annotation);
+                        onClose();
+                      }}
+                      className="w-full p-2 text-left border border-parchment rounded-sm hover:bg-cream/60 transition-colors"
+                      title={annotation.orphaned ? "Open this file's orphaned annotations" : "Show this annotation in the editor"}
+                    >
+                      <div className="flex items-center gap-2 font-sans text-[10px] text-slate-muted">
+                        <span
+                          className="px-1.5 py-0.5 rounded-full text-[8px] font-semibold uppercase"
+                          style={{ backgroundColor: `${color}30`, color }}
+                          title={definition.label}
+                        >
+                          {definition.prefix}
+                        </span>
+                        <span className="truncate text-ink">{fileName(annotation.codeFileId)}</span>
+                        <span>
+                          L{annotation.lineNumber}
+                          {annotation.endLineNumber && annotation.endLineNumber !== annotation.lineNumber ? `-${annotation.endLineNumber}` : ""}
+                        </span>
+                        {annotation.orphaned && (
+                          <span className="flex items-center gap-0.5 text-error" title="Orphaned: no confident position after an edit">
+                            <Unlink className="h-3 w-3" strokeWidth={1.5} />
+                            orphaned
+                          </span>
+                        )}
+                        {status && (
+                          <span
+                            className={cn(
+                              "px-1 rounded-sm text-[9px]",
+                              isAnnotationClosed(annotation) ? "bg-slate-muted/15 text-slate-muted" : "bg-burgundy/10 text-burgundy"
+                            )}
+                            title={annotation.statusChangedBy ? `Set by ${annotation.statusChangedBy}` : undefined}
+                          >
+                            {ANNOTATION_STATUS_LABELS[status]}
+                          </span>
+                        )}
+                        <span className="ml-auto flex items-center gap-2 flex-shrink-0">
+                          {replies.length > 0 && (
+                            <span className="flex items-center gap-0.5">
+                              <MessageSquare className="h-3 w-3" strokeWidth={1.5} />
+                              {replies.length}
+                            </span>
+                          )}
+                          {annotation.addedBy && <span>{annotation.addedBy}</span>}
+                          <span>{formatDate(annotation.createdAt)}</span>
+                        </span>
+                      </div>
+                      <div className="mt-1 font-sans text-[11px] text-ink line-clamp-2">{annotation.content}</div>
+                      {replies
+                        .filter((r) => matchedReplies.includes(r.id))
+                        .map((r) => (
+                          <div key={r.id} className="mt-0.5 pl-3 font-sans text-[10px] text-slate line-clamp-1">
+                            {r.addedBy && <span className="font-medium">{r.addedBy}: </span>}
+                            {r.content}
+                          </div>
+                        ))}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          <span className="font-sans text-[10px] text-slate-muted">
+            {results.length} of {annotations.length} annotation{annotations.length !== 1 ? "s" : ""}
+          </span>
+          {canReset && (
+            <button
+              onClick={() => onFiltersChange(DEFAULT_ANNOTATION_SEARCH)}
+              className="flex items-center gap-1 font-sans text-[10px] text-slate-muted hover:text-ink transition-colors"
+            >
+              <RotateCcw className="h-3 w-3" strokeWidth={1.5} />
+              Clear search
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={results.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+            title="Download the results as CSV"
+          >
+            <Download className="h-3.5 w-3.5" strokeWidth={1.5} />
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
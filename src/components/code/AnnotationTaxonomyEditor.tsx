@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, Plus, RotateCcw, Tags, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types";
+import type { AnnotationTypeDefinition, LineAnnotation } from "@/types";
+import { createAnnotationTypeDefinition, validateAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+
+interface AnnotationTaxonomyEditorProps {
+  taxonomy: AnnotationTypeDefinition[];
+  annotations: LineAnnotation[];   // Every annotation in the project, to count type usage
+  onSave: (taxonomy: AnnotationTypeDefinition[], reassign?: Record<string, string>) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Edit the project's annotation types: label, inline prefix, light and dark colours and a
+ * description for each. Removing a type that annotations still use asks which type they move to.
+ */
+export function AnnotationTaxonomyEditor({
+  taxonomy,
+  annotations,
+  onSave,
+  onClose,
+  readOnly = false,
+}: AnnotationTaxonomyEditorProps) {
+  const [types, setTypes] = useState<AnnotationTypeDefinition[]>(() => taxonomy.map((t) => ({ ...t, color: { ...t.color } })));
+  // Removed type id -> type its annotations move to
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+  const [newLabel, setNewLabel] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const ann of annotations) counts.set(ann.type, (counts.get(ann.type) || 0) + 1);
+    return counts;
+  }, [annotations]);
+
+  // Removed types that annotations still use; each needs a replacement from the remaining types
+  const removedInUse = useMemo(
+    () => taxonomy.filter((t) => (usage.get(t.id) || 0) > 0 && !types.some((k) => k.id === t.id)),
+    [taxonomy, types, usage]
+  );
+
+  const problems = useMemo(() => {
+    const found = validateAnnotationTaxonomy(types);
+    for (const removed of removedInUse) {
+      if (!types.some((t) => t.id === reassign[removed.id])) {
+        found.push(`Choose a type for the ${usage.get(removed.id)} "${removed.label}" annotation${usage.get(removed.id) !== 1 ? "s" : ""}.`);
+      }
+    }
+    return found;
+  }, [types, removedInUse, reassign, usage]);
+
+  const updateType = (id: string, updates: Partial<AnnotationTypeDefinition>) => {
+    setTypes((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t)));
+  };
+
+  const moveType = (index: number, direction: -1 | 1) => {
+    setTypes((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + direction, 0, moved);
+      return next;
+    });
+  };
+
+  const removeType = (id: string) => {
+    const remaining = types.filter((t) => t.id !== id);
+    setTypes(remaining);
+    if ((usage.get(id) || 0) > 0 && remaining.length > 0) {
+      setReassign((prev) => ({ ...prev, [id]: remaining[0].id }));
+    }
+  };
+
+  const addType = () => {
+    if (!newLabel.trim()) return;
+    // Ids of removed types stay reserved so a reassignment cannot point at a new namesake
+    const added = createAnnotationTypeDefinition(newLabel, [...types, ...taxonomy]);
+    setTypes((prev) => [...prev, added]);
+    setNewLabel("");
+  };
+
+  const resetToDefaults = () => {
+    setTypes(DEFAULT_ANNOTATION_TAXONOMY.map((t) => ({ ...t, color: { ...t.color } })));
+    setReassign({});
+  };
+
+  const handleSave = () => {
+    if (problems.length > 0) return;
+    const moves: Record<string, string> = {};
+    for (const removed of removedInUse) moves[removed.id] = reassign[removed.id];
+    onSave(types, Object.keys(moves).length > 0 ? moves : undefined);
+    onClose();
+  };
+
+  const inputClass = "px-1.5 py-1 bg-card border border-parchment rounded-sm font-sans text-[11px] text-ink focus:outline-none focus:border-burgundy/40 disabled:opacity-60";
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment">
+          <h3 className="flex items-center gap-2 font-display text-caption text-ink">
+            <Tags className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            Annotation types
+          </h3>
+          <p className="mt-1 font-sans text-[10px] text-slate-muted">
+            The types this project&apos;s annotations are sorted into. The prefix marks them inline (// An:Obs:).
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-2 overflow-y-auto">
+          {types.map((type, index) => {
+            const count = usage.get(type.id) || 0;
+            return (
+              <div key={type.id} className="p-2 border border-parchment rounded-sm space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: type.color.light }} />
+                  <input
+                    value={type.label}
+                    onChange={(e) => updateType(type.id, { label: e.target.value })}
+                    disabled={readOnly}
+                    placeholder="Label"
+                    className={cn(inputClass, "flex-1 min-w-0")}
+                  />
+                  <input
+                    value={type.prefix}
+                    onChange={(e) => updateType(type.id, { prefix: e.target.value.trim() })}
+                    disabled={readOnly}
+                    placeholder="Prefix"
+                    title="Inline prefix"
+                    className={cn(inputClass, "w-16 font-mono")}
+                  />
+                  <input
+                    type="color"
+                    value={type.color.light}
+                    onChange={(e) => updateType(type.id, { color: { ...type.color, light: e.target.value } })}
+                    disabled={readOnly}
+                    title="Colour in light mode"
+                    className="w-6 h-6 p-0 border border-parchment rounded-sm bg-transparent cursor-pointer disabled:cursor-default"
+                  />
+                  <input
+                    type="color"
+                    value={type.color.dark}
+                    onChange={(e) => updateType(type.id, { color: { ...type.color, dark: e.target.value } })}
+                    disabled={readOnly}
+                    title="Colour in dark mode"
+                    className="w-6 h-6 p-0 border border-parchment rounded-sm bg-ink cursor-pointer disabled:cursor-default"
+                  />
+                  <span className="w-16 font-sans text-[9px] text-slate-muted text-right" title="Annotations of this type">
+                    {count} in use
+                  </span>
+                  {!readOnly && (
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => moveType(index, -1)}
+                        disabled={index === 0}
+                        className="p-0.5 text-slate-muted hover:text-ink disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ChevronUp className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                      <button
+                        onClick={() => moveType(index, 1)}
+                        disabled={index === types.length - 1}
+                        className="p-0.5 text-slate-muted hover:text-ink disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ChevronDown className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                      <button
+                        onClick={() => removeType(type.id)}
+                        disabled={types.length === 1}
+                        className="p-0.5 text-slate-muted hover:text-burgundy disabled:opacity-30"
+                        title="Remove type"
+                      >
+                        <Trash2 className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <input
+                  value={type.description ?? ""}
+                  onChange={(e) => updateType(type.id, { description: e.target.value || undefined })}
+                  disabled={readOnly}
+                  placeholder="Description (shown in help and given to the assistant)"
+                  className={cn(inputClass, "w-full")}
+                />
+              </div>
+            );
+          })}
+
+          {!readOnly && (
+            <div className="flex items-center gap-2 pt-1">
+              <input
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addType();
+                }}
+                placeholder="New type label"
+                className={cn(inputClass, "flex-1")}
+              />
+              <button
+                onClick={addType}
+                disabled={!newLabel.trim()}
+                className="flex items-center gap-1 px-2 py-1 font-sans text-[11px] text-slate hover:text-ink disabled:opacity-50 transition-colors"
+              >
+                <Plus className="h-3 w-3" strokeWidth={1.5} />
+                Add type
+              </button>
+            </div>
+          )}
+
+          {/* Annotations whose type is being removed */}
+          {removedInUse.map((removed) => (
+            <div key={removed.id} className="flex flex-wrap items-center gap-2 font-sans text-[11px] text-slate-muted">
+              <span>
+                Move the {usage.get(removed.id)} &ldquo;{removed.label}&rdquo; annotation{usage.get(removed.id) !== 1 ? "s" : ""} to
+              </span>
+              <select
+                value={reassign[removed.id] ?? ""}
+                onChange={(e) => setReassign((prev) => ({ ...prev, [removed.id]: e.target.value }))}
+                className={inputClass}
+              >
+                {!types.some((t) => t.id === reassign[removed.id]) && <option value="">Choose a type</option>}
+                {types.map((t) => (
+                  <option key={t.id} value={t.id}>{t.label || t.id}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {problems.length > 0 && (
+            <ul className="space-y-0.5">
+              {problems.map((problem) => (
+                <li key={problem} className="flex items-center gap-1 font-sans text-[10px] text-error">
+                  <AlertTriangle className="h-3 w-3 flex-shrink-0" strokeWidth={1.5} />
+                  {problem}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          {!readOnly && (
+            <button
+              onClick={resetToDefaults}
+              className="flex items-center gap-1 font-sans text-[10px] text-slate-muted hover:text-ink transition-colors"
+              title="Restore the six default types"
+            >
+              <RotateCcw className="h-3 w-3" strokeWidth={1.5} />
+              Reset to defaults
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            {readOnly ? "Close" : "Cancel"}
+          </button>
+          {!readOnly && (
+            <button
+              onClick={handleSave}
+              disabled={problems.length > 0}
+              className="px-3 py-1.5 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+            >
+              Save types
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
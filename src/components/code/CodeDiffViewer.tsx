@@ -2,7 +2,24 @@
 
 import { useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
-import { GitCompare, X, Columns, Rows } from "lucide-react";
+import { GitCompare, X, Columns, Rows, ChevronsUpDown } from "lucide-react";
+import type { AnnotationTypeDefinition, LineAnnotation } from "@/types";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types/session";
+import { getAnnotationTypeLabel } from "@/lib/annotation-taxonomy";
+import {
+  diffLines,
+  diffInline,
+  collapseUnchanged,
+  type DiffLine,
+  type DiffOptions,
+  type InlineSegment,
+} from "@/lib/diff";
+
+// A selected line range on one side of the comparison
+export interface DiffLineRange {
+  start: number;
+  end: number;
+}
 
 interface CodeDiffViewerProps {
   codeA: string;
@@ -11,116 +28,27 @@ interface CodeDiffViewerProps {
   labelB?: string;
   languageA?: string;
   languageB?: string;
+  annotationsA?: LineAnnotation[];  // Annotations positioned against codeA, marked in its gutter
+  annotationsB?: LineAnnotation[];  // Annotations positioned against codeB, marked in its gutter
+  annotationTypes?: AnnotationTypeDefinition[];  // Taxonomy for the gutter tooltips
+  defaultIgnoreSequenceColumns?: boolean;  // Start with card columns 73-80 ignored (punch-card sources)
+  selectionA?: DiffLineRange | null;  // Highlighted range on side A
+  selectionB?: DiffLineRange | null;  // Highlighted range on side B
+  onLineSelect?: (side: "a" | "b", lineNumber: number, extend: boolean) => void;  // Line number clicked (extend = shift-click)
+  title?: string;
   onClose?: () => void;
 }
 
-type DiffLine = {
-  type: "unchanged" | "added" | "removed" | "modified";
-  lineNumberA: number | null;
-  lineNumberB: number | null;
-  contentA: string;
-  contentB: string;
-};
-
-// Simple diff algorithm using longest common subsequence approach
-function computeDiff(linesA: string[], linesB: string[]): DiffLine[] {
-  const result: DiffLine[] = [];
-  let indexA = 0;
-  let indexB = 0;
-
-  // Build a map of lines in B for quick lookup
-  const linesToIndexB = new Map<string, number[]>();
-  linesB.forEach((line, i) => {
-    const existing = linesToIndexB.get(line) || [];
-    linesToIndexB.set(line, [...existing, i]);
-  });
-
-  while (indexA < linesA.length || indexB < linesB.length) {
-    const lineA = linesA[indexA];
-    const lineB = linesB[indexB];
-
-    if (indexA >= linesA.length) {
-      // Only B has lines left (additions)
-      result.push({
-        type: "added",
-        lineNumberA: null,
-        lineNumberB: indexB + 1,
-        contentA: "",
-        contentB: lineB,
-      });
-      indexB++;
-    } else if (indexB >= linesB.length) {
-      // Only A has lines left (removals)
-      result.push({
-        type: "removed",
-        lineNumberA: indexA + 1,
-        lineNumberB: null,
-        contentA: lineA,
-        contentB: "",
-      });
-      indexA++;
-    } else if (lineA === lineB) {
-      // Lines match
-      result.push({
-        type: "unchanged",
-        lineNumberA: indexA + 1,
-        lineNumberB: indexB + 1,
-        contentA: lineA,
-        contentB: lineB,
-      });
-      indexA++;
-      indexB++;
-    } else {
-      // Lines differ - look ahead to find best match
-      const matchesInB = linesToIndexB.get(lineA) || [];
-      const nextMatchInB = matchesInB.find((i) => i >= indexB);
-
-      if (nextMatchInB !== undefined && nextMatchInB - indexB <= 3) {
-        // Line A appears soon in B - treat intermediate B lines as additions
-        while (indexB < nextMatchInB) {
-          result.push({
-            type: "added",
-            lineNumberA: null,
-            lineNumberB: indexB + 1,
-            contentA: "",
-            contentB: linesB[indexB],
-          });
-          indexB++;
-        }
-      } else {
-        // Look for lineB in upcoming A lines
-        const lookAheadA = linesA.slice(indexA, indexA + 4);
-        const matchInA = lookAheadA.indexOf(lineB);
-
-        if (matchInA !== -1 && matchInA > 0) {
-          // Line B appears soon in A - treat intermediate A lines as removals
-          for (let i = 0; i < matchInA; i++) {
-            result.push({
-              type: "removed",
-              lineNumberA: indexA + 1,
-              lineNumberB: null,
-              contentA: linesA[indexA],
-              contentB: "",
-            });
-            indexA++;
-          }
-        } else {
-          // No good match found - treat as modification
-          result.push({
-            type: "modified",
-            lineNumberA: indexA + 1,
-            lineNumberB: indexB + 1,
-            contentA: lineA,
-            contentB: lineB,
-          });
-          indexA++;
-          indexB++;
-        }
-      }
+// Map each line number to the (placed) annotations covering it
+function annotationsByLine(annotations: LineAnnotation[] | undefined): Map<number, LineAnnotation[]> {
+  const byLine = new Map<number, LineAnnotation[]>();
+  for (const ann of annotations || []) {
+    if (ann.orphaned) continue;
+    for (let line = ann.lineNumber; line <= (ann.endLineNumber ?? ann.lineNumber); line++) {
+      byLine.set(line, [...(byLine.get(line) || []), ann]);
     }
   }
-
-  return result;
+  return byLine;
 }
 
 export function CodeDiffViewer({
@@ -130,13 +58,108 @@ export function CodeDiffViewer({
   labelB = "Version B",
   languageA,
   languageB,
+  annotationsA,
+  annotationsB,
+  annotationTypes = DEFAULT_ANNOTATION_TAXONOMY,
+  defaultIgnoreSequenceColumns = false,
+  selectionA,
+  selectionB,
+  onLineSelect,
+  title = "Code Comparison",
   onClose,
 }: CodeDiffViewerProps) {
   const [viewMode, setViewMode] = useState<"side-by-side" | "unified">("side-by-side");
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false);
+  const [ignoreSequenceColumns, setIgnoreSequenceColumns] = useState(defaultIgnoreSequenceColumns);
+  // Collapsed runs of unchanged lines the user has opened, keyed by their start index in the diff
+  const [expandedGaps, setExpandedGaps] = useState<Set<number>>(new Set());
+
+  const options: DiffOptions = useMemo(
+    () => ({ ignoreWhitespace, ignoreSequenceColumns }),
+    [ignoreWhitespace, ignoreSequenceColumns]
+  );
+  const diff = useMemo(() => diffLines(codeA, codeB, options), [codeA, codeB, options]);
+  // Only changes and their context are rendered, so large files stay responsive
+  const rows = useMemo(() => collapseUnchanged(diff, undefined, expandedGaps), [diff, expandedGaps]);
+
+  // Word-level highlights, computed only for modified lines that are actually rendered
+  const inlineDiffs = useMemo(() => {
+    const byIndex = new Map<number, { a: InlineSegment[]; b: InlineSegment[] }>();
+    for (const row of rows) {
+      if (row.kind !== "line" || diff[row.index].type !== "modified") continue;
+      const line = diff[row.index];
+      byIndex.set(row.index, diffInline(line.contentA, line.contentB, options));
+    }
+    return byIndex;
+  }, [rows, diff, options]);
 
-  const linesA = useMemo(() => codeA.split("\n"), [codeA]);
-  const linesB = useMemo(() => codeB.split("\n"), [codeB]);
-  const diff = useMemo(() => computeDiff(linesA, linesB), [linesA, linesB]);
+  const annotatedA = useMemo(() => annotationsByLine(annotationsA), [annotationsA]);
+  const annotatedB = useMemo(() => annotationsByLine(annotationsB), [annotationsB]);
+  const showMarkers = !!annotationsA || !!annotationsB;
+
+  const toggleOption = (setter: (value: boolean) => void, value: boolean) => {
+    setter(value);
+    // Gap positions change with the diff, so start collapsed again
+    setExpandedGaps(new Set());
+  };
+
+  // Gutter marker for annotated lines; the tooltip lists the annotations
+  const renderMarker = (lineNumber: number | null, annotated: Map<number, LineAnnotation[]>) => {
+    if (!showMarkers) return null;
+    const anns = lineNumber ? annotated.get(lineNumber) : undefined;
+    return (
+      <span
+        className="w-2 flex-shrink-0 select-none flex items-center"
+        title={anns?.map((a) => `${getAnnotationTypeLabel(annotationTypes, a.type)}: ${a.content}`).join("\n")}
+      >
+        {anns && (
+          <span
+            className={cn(
+              "h-1.5 w-1.5 rounded-full",
+              anns.some((a) => a.link) ? "border border-burgundy" : "bg-burgundy"
+            )}
+          />
+        )}
+      </span>
+    );
+  };
+
+  const isSelected = (lineNumber: number | null, selection: DiffLineRange | null | undefined) =>
+    !!lineNumber && !!selection && lineNumber >= selection.start && lineNumber <= selection.end;
+
+  // Line number, clickable when lines can be selected
+  const renderLineNumber = (lineNumber: number | null, side: "a" | "b", className: string) => {
+    if (!onLineSelect || !lineNumber) {
+      return <span className={className}>{lineNumber || ""}</span>;
+    }
+    return (
+      <span
+        className={cn(className, "cursor-pointer hover:text-burgundy")}
+        onClick={(e) => onLineSelect(side, lineNumber, e.shiftKey)}
+        title="Select line (shift-click to extend)"
+      >
+        {lineNumber}
+      </span>
+    );
+  };
+
+  // Line text, with changed words highlighted on modified lines
+  const renderContent = (index: number, side: "a" | "b") => {
+    const line = diff[index];
+    const text = side === "a" ? line.contentA : line.contentB;
+    if (line.type !== "modified") return text || " ";
+    const segments = inlineDiffs.get(index)?.[side];
+    if (!segments || segments.length === 0) return text || " ";
+    return segments.map((segment, i) =>
+      segment.changed ? (
+        <span key={i} className={cn("rounded-sm", side === "a" ? "bg-red-200/70" : "bg-green-200/70")}>
+          {segment.text}
+        </span>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    );
+  };
 
   // Statistics
   const stats = useMemo(() => {
@@ -144,11 +167,15 @@ export function CodeDiffViewer({
     const removed = diff.filter((d) => d.type === "removed").length;
     const modified = diff.filter((d) => d.type === "modified").length;
     const unchanged = diff.filter((d) => d.type === "unchanged").length;
-    return { added, removed, modified, unchanged };
+    const moved = diff.filter((d) => d.moved).length;
+    return { added, removed, modified, unchanged, moved };
   }, [diff]);
 
-  const getLineClassName = (type: DiffLine["type"], side: "a" | "b") => {
-    switch (type) {
+  const getLineClassName = (line: DiffLine, side: "a" | "b") => {
+    if (line.moved && ((line.type === "removed" && side === "a") || (line.type === "added" && side === "b"))) {
+      return "bg-purple-50 text-purple-800";
+    }
+    switch (line.type) {
       case "added":
         return side === "b" ? "bg-green-50 text-green-800" : "bg-slate-50 text-slate-300";
       case "removed":
@@ -162,15 +189,49 @@ export function CodeDiffViewer({
     }
   };
 
+  const renderGap = (start: number, end: number) => (
+    <button
+      key={`gap-${start}`}
+      onClick={() => setExpandedGaps((prev) => new Set(prev).add(start))}
+      className="w-full flex items-center gap-2 px-3 py-0.5 bg-cream/60 text-slate-muted hover:text-ink hover:bg-cream font-sans text-[10px] border-y border-parchment/50 transition-colors"
+      title="Show these lines"
+    >
+      <ChevronsUpDown className="h-3 w-3" strokeWidth={1.5} />
+      {(end - start).toLocaleString()} unchanged line{end - start !== 1 ? "s" : ""}
+    </button>
+  );
+
+  const toggleButtonClass = (active: boolean) => cn(
+    "px-1.5 py-0.5 rounded-sm font-sans text-[10px] transition-colors",
+    active ? "bg-card text-foreground shadow-sm" : "text-slate-muted hover:text-ink"
+  );
+
   return (
     <div className="flex flex-col h-full bg-card rounded-sm border border-parchment overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-3 border-b border-parchment bg-cream/50">
         <div className="flex items-center gap-3">
           <GitCompare className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
-          <h3 className="font-display text-sm text-ink">Code Comparison</h3>
+          <h3 className="font-display text-sm text-ink">{title}</h3>
         </div>
         <div className="flex items-center gap-2">
+          {/* Comparison options */}
+          <div className="flex items-center gap-1 bg-parchment/50 rounded-sm p-0.5">
+            <button
+              onClick={() => toggleOption(setIgnoreWhitespace, !ignoreWhitespace)}
+              className={toggleButtonClass(ignoreWhitespace)}
+              title="Ignore differences in whitespace"
+            >
+              Ignore whitespace
+            </button>
+            <button
+              onClick={() => toggleOption(setIgnoreSequenceColumns, !ignoreSequenceColumns)}
+              className={toggleButtonClass(ignoreSequenceColumns)}
+              title="Ignore punch-card sequence numbers in columns 73-80"
+            >
+              Ignore cols 73-80
+            </button>
+          </div>
           {/* View mode toggle */}
           <div className="flex items-center gap-1 bg-parchment/50 rounded-sm p-0.5">
             <button
@@ -214,16 +275,18 @@ export function CodeDiffViewer({
         <span className="text-green-600 font-mono">+{stats.added} added</span>
         <span className="text-red-600 font-mono">-{stats.removed} removed</span>
         <span className="text-amber-600 font-mono">~{stats.modified} modified</span>
+        {stats.moved > 0 && (
+          <span className="text-purple-600 font-mono">{stats.moved} moved</span>
+        )}
         <span className="text-slate-muted font-mono">{stats.unchanged} unchanged</span>
       </div>
 
-      {/* Diff content */}
+      {/* Diff content - one scroll area so both sides stay aligned */}
       <div className="flex-1 overflow-auto">
         {viewMode === "side-by-side" ? (
-          <div className="flex h-full">
-            {/* Left side (A) */}
-            <div className="flex-1 border-r border-parchment overflow-auto">
-              <div className="sticky top-0 bg-cream px-3 py-1.5 border-b border-parchment flex items-center gap-2">
+          <div>
+            <div className="sticky top-0 z-10 flex bg-cream border-b border-parchment">
+              <div className="w-1/2 px-3 py-1.5 border-r border-parchment flex items-center gap-2">
                 <span className="font-display text-[11px] text-ink">{labelA}</span>
                 {languageA && (
                   <span className="font-mono text-[9px] text-slate-muted">
@@ -231,29 +294,7 @@ export function CodeDiffViewer({
                   </span>
                 )}
               </div>
-              <pre className="font-mono text-[11px] leading-5">
-                {diff.map((line, i) => (
-                  <div
-                    key={`a-${i}`}
-                    className={cn(
-                      "px-3 py-0 min-h-[20px] flex",
-                      getLineClassName(line.type, "a")
-                    )}
-                  >
-                    <span className="w-8 text-right pr-3 text-slate-muted select-none flex-shrink-0">
-                      {line.lineNumberA || ""}
-                    </span>
-                    <span className="flex-1 whitespace-pre">
-                      {line.type === "added" ? "" : line.contentA || " "}
-                    </span>
-                  </div>
-                ))}
-              </pre>
-            </div>
-
-            {/* Right side (B) */}
-            <div className="flex-1 overflow-auto">
-              <div className="sticky top-0 bg-cream px-3 py-1.5 border-b border-parchment flex items-center gap-2">
+              <div className="w-1/2 px-3 py-1.5 flex items-center gap-2">
                 <span className="font-display text-[11px] text-ink">{labelB}</span>
                 {languageB && (
                   <span className="font-mono text-[9px] text-slate-muted">
@@ -261,30 +302,48 @@ export function CodeDiffViewer({
                   </span>
                 )}
               </div>
-              <pre className="font-mono text-[11px] leading-5">
-                {diff.map((line, i) => (
-                  <div
-                    key={`b-${i}`}
-                    className={cn(
-                      "px-3 py-0 min-h-[20px] flex",
-                      getLineClassName(line.type, "b")
-                    )}
-                  >
-                    <span className="w-8 text-right pr-3 text-slate-muted select-none flex-shrink-0">
-                      {line.lineNumberB || ""}
-                    </span>
-                    <span className="flex-1 whitespace-pre">
-                      {line.type === "removed" ? "" : line.contentB || " "}
-                    </span>
+            </div>
+            <div className="font-mono text-[11px] leading-5">
+              {rows.map((row) => {
+                if (row.kind === "gap") return renderGap(row.start, row.end);
+                const line = diff[row.index];
+                return (
+                  <div key={row.index} className="flex" title={line.moved ? "Moved line" : undefined}>
+                    <div
+                      className={cn(
+                        "w-1/2 px-3 py-0 min-h-[20px] flex border-r border-parchment",
+                        getLineClassName(line, "a"),
+                        isSelected(line.lineNumberA, selectionA) && "ring-1 ring-inset ring-burgundy/40 bg-burgundy/10"
+                      )}
+                    >
+                      {renderMarker(line.lineNumberA, annotatedA)}
+                      {renderLineNumber(line.lineNumberA, "a", "w-10 text-right pr-3 text-slate-muted select-none flex-shrink-0")}
+                      <span className="flex-1 min-w-0 whitespace-pre-wrap break-all">
+                        {line.type === "added" ? "" : renderContent(row.index, "a")}
+                      </span>
+                    </div>
+                    <div
+                      className={cn(
+                        "w-1/2 px-3 py-0 min-h-[20px] flex",
+                        getLineClassName(line, "b"),
+                        isSelected(line.lineNumberB, selectionB) && "ring-1 ring-inset ring-burgundy/40 bg-burgundy/10"
+                      )}
+                    >
+                      {renderMarker(line.lineNumberB, annotatedB)}
+                      {renderLineNumber(line.lineNumberB, "b", "w-10 text-right pr-3 text-slate-muted select-none flex-shrink-0")}
+                      <span className="flex-1 min-w-0 whitespace-pre-wrap break-all">
+                        {line.type === "removed" ? "" : renderContent(row.index, "b")}
+                      </span>
+                    </div>
                   </div>
-                ))}
-              </pre>
+                );
+              })}
             </div>
           </div>
         ) : (
           /* Unified view */
           <div>
-            <div className="sticky top-0 bg-cream px-3 py-1.5 border-b border-parchment flex items-center gap-4">
+            <div className="sticky top-0 z-10 bg-cream px-3 py-1.5 border-b border-parchment flex items-center gap-4">
               <span className="font-display text-[11px] text-red-600">
                 − {labelA}
               </span>
@@ -293,81 +352,65 @@ export function CodeDiffViewer({
               </span>
             </div>
             <pre className="font-mono text-[11px] leading-5">
-              {diff.map((line, i) => {
+              {rows.map((row) => {
+                if (row.kind === "gap") return renderGap(row.start, row.end);
+                const line = diff[row.index];
+                const i = row.index;
+
                 if (line.type === "unchanged") {
                   return (
                     <div
                       key={i}
-                      className="px-3 py-0 min-h-[20px] flex text-ink"
+                      className={cn(
+                        "px-3 py-0 min-h-[20px] flex text-ink",
+                        (isSelected(line.lineNumberA, selectionA) || isSelected(line.lineNumberB, selectionB)) &&
+                          "ring-1 ring-inset ring-burgundy/40 bg-burgundy/10"
+                      )}
                     >
-                      <span className="w-8 text-right pr-2 text-slate-muted select-none flex-shrink-0">
-                        {line.lineNumberA}
-                      </span>
-                      <span className="w-8 text-right pr-3 text-slate-muted select-none flex-shrink-0">
-                        {line.lineNumberB}
-                      </span>
+                      {renderMarker(line.lineNumberB, annotatedB)}
+                      {renderLineNumber(line.lineNumberA, "a", "w-10 text-right pr-2 text-slate-muted select-none flex-shrink-0")}
+                      {renderLineNumber(line.lineNumberB, "b", "w-10 text-right pr-3 text-slate-muted select-none flex-shrink-0")}
                       <span className="w-4 text-slate-muted select-none"> </span>
                       <span className="flex-1 whitespace-pre">{line.contentA || " "}</span>
                     </div>
                   );
                 }
 
-                if (line.type === "modified") {
-                  return (
-                    <div key={i}>
-                      <div className="px-3 py-0 min-h-[20px] flex bg-red-50 text-red-800">
-                        <span className="w-8 text-right pr-2 text-red-400 select-none flex-shrink-0">
-                          {line.lineNumberA}
-                        </span>
-                        <span className="w-8 text-right pr-3 text-slate-muted select-none flex-shrink-0"></span>
-                        <span className="w-4 text-red-600 select-none">−</span>
-                        <span className="flex-1 whitespace-pre">{line.contentA || " "}</span>
-                      </div>
-                      <div className="px-3 py-0 min-h-[20px] flex bg-green-50 text-green-800">
-                        <span className="w-8 text-right pr-2 text-slate-muted select-none flex-shrink-0"></span>
-                        <span className="w-8 text-right pr-3 text-green-400 select-none flex-shrink-0">
-                          {line.lineNumberB}
-                        </span>
-                        <span className="w-4 text-green-600 select-none">+</span>
-                        <span className="flex-1 whitespace-pre">{line.contentB || " "}</span>
-                      </div>
-                    </div>
-                  );
-                }
-
-                if (line.type === "removed") {
-                  return (
-                    <div
-                      key={i}
-                      className="px-3 py-0 min-h-[20px] flex bg-red-50 text-red-800"
-                    >
-                      <span className="w-8 text-right pr-2 text-red-400 select-none flex-shrink-0">
-                        {line.lineNumberA}
-                      </span>
-                      <span className="w-8 text-right pr-3 text-slate-muted select-none flex-shrink-0"></span>
-                      <span className="w-4 text-red-600 select-none">−</span>
-                      <span className="flex-1 whitespace-pre">{line.contentA || " "}</span>
-                    </div>
-                  );
-                }
-
-                if (line.type === "added") {
-                  return (
-                    <div
-                      key={i}
-                      className="px-3 py-0 min-h-[20px] flex bg-green-50 text-green-800"
-                    >
-                      <span className="w-8 text-right pr-2 text-slate-muted select-none flex-shrink-0"></span>
-                      <span className="w-8 text-right pr-3 text-green-400 select-none flex-shrink-0">
-                        {line.lineNumberB}
-                      </span>
-                      <span className="w-4 text-green-600 select-none">+</span>
-                      <span className="flex-1 whitespace-pre">{line.contentB || " "}</span>
-                    </div>
-                  );
-                }
-
-                return null;
+                const removedRow = line.type !== "added" && (
+                  <div
+                    key={`${i}-a`}
+                    className={cn(
+                      "px-3 py-0 min-h-[20px] flex",
+                      getLineClassName(line, "a"),
+                      isSelected(line.lineNumberA, selectionA) && "ring-1 ring-inset ring-burgundy/40 bg-burgundy/10"
+                    )}
+                    title={line.moved ? "Moved line" : undefined}
+                  >
+                    {renderMarker(line.lineNumberA, annotatedA)}
+                    {renderLineNumber(line.lineNumberA, "a", "w-10 text-right pr-2 text-red-400 select-none flex-shrink-0")}
+                    <span className="w-10 text-right pr-3 text-slate-muted select-none flex-shrink-0"></span>
+                    <span className="w-4 text-red-600 select-none">−</span>
+                    <span className="flex-1 whitespace-pre">{renderContent(i, "a")}</span>
+                  </div>
+                );
+                const addedRow = line.type !== "removed" && (
+                  <div
+                    key={`${i}-b`}
+                    className={cn(
+                      "px-3 py-0 min-h-[20px] flex",
+                      getLineClassName(line, "b"),
+                      isSelected(line.lineNumberB, selectionB) && "ring-1 ring-inset ring-burgundy/40 bg-burgundy/10"
+                    )}
+                    title={line.moved ? "Moved line" : undefined}
+                  >
+                    {renderMarker(line.lineNumberB, annotatedB)}
+                    <span className="w-10 text-right pr-2 text-slate-muted select-none flex-shrink-0"></span>
+                    {renderLineNumber(line.lineNumberB, "b", "w-10 text-right pr-3 text-green-400 select-none flex-shrink-0")}
+                    <span className="w-4 text-green-600 select-none">+</span>
+                    <span className="flex-1 whitespace-pre">{renderContent(i, "b")}</span>
+                  </div>
+                );
+                return [removedRow, addedRow];
               })}
             </pre>
           </div>
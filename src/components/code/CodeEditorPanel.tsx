@@ -2,7 +2,9 @@
 
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useSession } from "@/context/SessionContext";
-import { cn } from "@/lib/utils";
+import { useAISettings } from "@/context/AISettingsContext";
+import { cn, generateId } from "@/lib/utils";
+import { validateAnnotationSuggestions } from "@/lib/ai/annotation-suggestions";
 import {
   X,
   Download,
@@ -35,15 +37,33 @@ import {
   Cloud,
   FilePlus,
   HardDrive,
+  Sparkles,
+  Loader2,
+  FileJson,
+  History,
+  GitCompare,
+  MessageSquareQuote,
+  Tags,
+  ListTree,
+  Scale,
+  Search,
+  AtSign,
 } from "lucide-react";
 import { fetchSampleProject, fetchSampleProjectsManifest, type SampleProject } from "@/data/sample-projects";
 import type {
   LineAnnotation,
   LineAnnotationType,
+  AnnotationTypeDefinition,
+  CodebookCode,
+  BlindAnnotationSettings,
+  AnnotationStatus,
   CodeReference,
   AnnotationDisplaySettings as SessionAnnotationDisplaySettings,
   AnnotationBrightness,
   LineHighlightIntensity,
+  SuggestAnnotationsRequest,
+  SuggestAnnotationsResponse,
+  MessageAnchor,
 } from "@/types";
 import {
   PROGRAMMING_LANGUAGES,
@@ -55,10 +75,28 @@ import {
   type CodeFontId,
 } from "@/types/app-settings";
 import { useAppSettings } from "@/context/AppSettingsContext";
-import { DEFAULT_ANNOTATION_DISPLAY_SETTINGS } from "@/types/session";
+import { DEFAULT_ANNOTATION_DISPLAY_SETTINGS, DEFAULT_ANNOTATION_TAXONOMY } from "@/types/session";
 import { CodeMirrorEditor } from "./CodeMirrorEditor";
-import type { InlineEditState, InlineEditCallbacks } from "./cm-annotations";
+import type { InlineEditState, InlineEditCallbacks, DraftAnnotation, DraftAnnotationCallbacks } from "./cm-annotations";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { exportWebAnnotations } from "@/lib/export/web-annotation";
+import { createAnchor } from "@/lib/annotation-anchoring";
+import {
+  getAnnotationTaxonomy,
+  getAnnotationTypeDefinition,
+  getAnnotationTypePrefix,
+  normalizeAnnotationTaxonomy,
+} from "@/lib/annotation-taxonomy";
+import { annotationHasCode, flattenCodebook, getCodebook, getCodeDescendantIds } from "@/lib/codebook";
+import { filterBlindAnnotations, getBlindAnnotation, isBlindReadingPending } from "@/lib/annotation-agreement";
+import { DEFAULT_ANNOTATION_SEARCH, hasActiveAnnotationFilters, type AnnotationSearchFilters } from "@/lib/annotation-search";
+import { needsAttention, type MentionCandidate } from "@/lib/annotation-status";
+import { OrphanedAnnotationsPanel } from "./OrphanedAnnotationsPanel";
+import { AnnotationTaxonomyEditor } from "./AnnotationTaxonomyEditor";
+import { CodebookPanel } from "./CodebookPanel";
+import { AnnotationAgreementPanel } from "./AnnotationAgreementPanel";
+import { AnnotationSearchPanel } from "./AnnotationSearchPanel";
+import { AnnotationCodesDialog } from "./AnnotationCodesDialog";
 
 interface CodeEditorPanelProps {
   codeFiles: CodeReference[];
@@ -71,6 +109,8 @@ interface CodeEditorPanelProps {
   onDuplicateFile?: (fileId: string) => void;
   onRevertFile?: (fileId: string) => void; // Revert file to original content
   onCommitFile?: (fileId: string) => void; // Commit current content as new base version
+  onShowFileHistory?: (fileId: string) => void; // Open the file's revision history
+  onCompareFile?: (fileId: string) => void; // Open a comparative reading of this file against another
   onLoadCode?: () => void; // Trigger file upload from sidebar
   onLoadSampleProject?: (projectData: Record<string, unknown>) => void; // Load a sample project
   onAddNewFile?: () => void; // Create a new blank file
@@ -85,6 +125,21 @@ interface CodeEditorPanelProps {
   onUpdateLineAnnotation?: (id: string, updates: Partial<Omit<LineAnnotation, "id" | "codeFileId" | "createdAt">>) => void;
   onRemoveLineAnnotation?: (id: string) => void;
   onClearLineAnnotations?: (codeFileId: string) => void;
+  // Replace the project's annotation types (reassign maps removed type ids to replacements)
+  onSetAnnotationTaxonomy?: (taxonomy: AnnotationTypeDefinition[], reassign?: Record<string, string>) => void;
+  // Replace the project's codebook (codes no longer in it are removed from annotations)
+  onSetCodebook?: (codebook: CodebookCode[]) => void;
+  // Blind annotation settings, and submitting the user's reading of a file
+  onSetBlindAnnotation?: (settings: BlindAnnotationSettings) => void;
+  onSubmitBlindReading?: (codeFileId: string, initials: string) => void;
+  onRefreshBlindAnnotation?: () => void;
+  // Whether this user may switch blind annotation on or off (the project owner)
+  canSwitchBlindAnnotation?: boolean;
+  // A project setting (annotation types, codebook, blind annotation) the server refused to save
+  projectSettingsError?: string | null;
+  onDismissProjectSettingsError?: () => void;
+  // Set an annotation's discussion status (any project member may resolve a question)
+  onSetAnnotationStatus?: (id: string, status: AnnotationStatus | undefined) => void;
   // Remote annotation IDs for animation (yellow flash when collaborator adds annotation)
   newRemoteAnnotationIds?: Set<string>;
   // Annotation replies
@@ -110,6 +165,12 @@ interface CodeEditorPanelProps {
   onRestoreFile?: (fileId: string) => Promise<{ error: Error | null }>;
   onPermanentlyDeleteFile?: (fileId: string) => Promise<{ error: Error | null }>;
   onEmptyFileTrash?: () => Promise<{ error: Error | null }>;
+  // Notified when the file shown in the editor changes (used to prioritise it in the chat context)
+  onSelectedFileChange?: (fileId: string | null) => void;
+  // Open a file and show a line range (e.g. a passage the assistant pointed to); key repeats a request
+  revealRequest?: { fileId: string; lineNumber: number; endLineNumber?: number; key: number } | null;
+  // Start a chat message about the selected lines (shown as an action on the selection when provided)
+  onAskAboutSelection?: (anchor: MessageAnchor) => void;
 }
 
 // Historical punch card languages that typically used 80-column format
@@ -235,48 +296,6 @@ type AnnotationDisplaySettings = SessionAnnotationDisplaySettings;
 const MIN_FONT_SIZE = 8;
 const MAX_FONT_SIZE = 24;
 
-// Annotation type prefixes for inline display
-const ANNOTATION_PREFIXES: Record<LineAnnotationType, string> = {
-  observation: "Obs",
-  question: "Q",
-  metaphor: "Met",
-  pattern: "Pat",
-  context: "Ctx",
-  critique: "Crit",
-};
-
-// Reverse mapping: prefix -> type
-const PREFIX_TO_TYPE: Record<string, LineAnnotationType> = {
-  Obs: "observation",
-  Q: "question",
-  Met: "metaphor",
-  Pat: "pattern",
-  Ctx: "context",
-  Crit: "critique",
-};
-
-// Regex to match annotation lines: // An:Type: content (with optional leading whitespace)
-const ANNOTATION_LINE_REGEX = /^\s*\/\/\s*An:(Obs|Q|Met|Pat|Ctx|Crit):\s*(.*)$/;
-
-const ANNOTATION_COLORS: Record<LineAnnotationType, string> = {
-  observation: "text-blue-600 dark:text-blue-400",
-  question: "text-amber-600 dark:text-amber-400",
-  metaphor: "text-purple-600 dark:text-purple-400",
-  pattern: "text-green-600 dark:text-green-400",
-  context: "text-slate-500 dark:text-slate-400",
-  critique: "text-burgundy",
-};
-
-// Pill background colors for annotation panel (muted/subtle)
-const ANNOTATION_PILL_COLORS: Record<LineAnnotationType, string> = {
-  observation: "bg-blue-400/35 dark:bg-blue-500/30",
-  question: "bg-amber-400/35 dark:bg-amber-500/30",
-  metaphor: "bg-purple-400/35 dark:bg-purple-500/30",
-  pattern: "bg-green-400/35 dark:bg-green-500/30",
-  context: "bg-slate-400/35 dark:bg-slate-500/30",
-  critique: "bg-burgundy/35 dark:bg-burgundy/30",
-};
-
 // File type categories for colour coding
 type FileCategory = "code" | "web" | "data" | "text" | "shell" | "other";
 
@@ -385,6 +404,8 @@ export function CodeEditorPanel({
   onDuplicateFile,
   onRevertFile,
   onCommitFile,
+  onShowFileHistory,
+  onCompareFile,
   onLoadCode,
   onLoadSampleProject,
   onAddNewFile,
@@ -398,6 +419,15 @@ export function CodeEditorPanel({
   onUpdateLineAnnotation,
   onRemoveLineAnnotation,
   onClearLineAnnotations,
+  onSetAnnotationTaxonomy,
+  onSetCodebook,
+  onSetBlindAnnotation,
+  onSubmitBlindReading,
+  onRefreshBlindAnnotation,
+  canSwitchBlindAnnotation = true,
+  projectSettingsError,
+  onDismissProjectSettingsError,
+  onSetAnnotationStatus,
   newRemoteAnnotationIds,
   expandedAnnotationId,
   onToggleReplies,
@@ -417,6 +447,9 @@ export function CodeEditorPanel({
   onRestoreFile,
   onPermanentlyDeleteFile,
   onEmptyFileTrash,
+  onSelectedFileChange,
+  revealRequest,
+  onAskAboutSelection,
 }: CodeEditorPanelProps) {
   const {
     session,
@@ -424,11 +457,17 @@ export function CodeEditorPanel({
     updateLineAnnotation: sessionUpdateLineAnnotation,
     removeLineAnnotation: sessionRemoveLineAnnotation,
     clearLineAnnotations: sessionClearLineAnnotations,
+    setAnnotationTaxonomy: sessionSetAnnotationTaxonomy,
+    setCodebook: sessionSetCodebook,
+    setBlindAnnotation: sessionSetBlindAnnotation,
     updateAnnotationDisplaySettings,
   } = useSession();
 
   // Get app settings for code font
-  const { settings: appSettings, setCodeFont } = useAppSettings();
+  const { settings: appSettings, setCodeFont, effectiveTheme } = useAppSettings();
+  const isDark = effectiveTheme === "dark";
+  // AI settings for annotation suggestions
+  const { getTaskRequestHeaders, isAiReady } = useAISettings();
 
   // Get annotation display settings from session (per-project)
   // Use defaults as fallback for old sessions that don't have displaySettings
@@ -448,11 +487,28 @@ export function CodeEditorPanel({
   const updateLineAnnotation = onUpdateLineAnnotation ?? sessionUpdateLineAnnotation;
   const removeLineAnnotation = onRemoveLineAnnotation ?? sessionRemoveLineAnnotation;
   const clearLineAnnotations = onClearLineAnnotations ?? sessionClearLineAnnotations;
+  const setAnnotationTaxonomy = onSetAnnotationTaxonomy ?? sessionSetAnnotationTaxonomy;
+  const setCodebook = onSetCodebook ?? sessionSetCodebook;
+  const setBlindAnnotation = onSetBlindAnnotation ?? sessionSetBlindAnnotation;
+
+  // The project's annotation types; new annotations start as the first one
+  const annotationTaxonomy = getAnnotationTaxonomy(session);
+  const defaultAnnotationType = annotationTaxonomy[0].id;
+  const codebook = getCodebook(session);
+  const blindAnnotation = getBlindAnnotation(session);
 
   const [selectedFileId, setSelectedFileId] = useState<string | null>(
     codeFiles.length > 0 ? codeFiles[0].id : null
   );
   const [editorMode, setEditorMode] = useState<EditorMode>("annotate");
+  // Lines selected in the editor, for "Ask about selection"
+  const [editorSelection, setEditorSelection] = useState<{ lineNumber: number; endLineNumber: number } | null>(null);
+
+  // A selection belongs to the file and mode it was made in
+  useEffect(() => {
+    setEditorSelection(null);
+  }, [selectedFileId, editorMode]);
+
   // Store the "clean" code (without embedded annotations) for edit mode
   const [editModeCode, setEditModeCode] = useState<string>("");
   // Track previous file IDs to detect which files were newly added
@@ -493,14 +549,49 @@ export function CodeEditorPanel({
     }
   }, [codeFiles]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Report the open file to the parent
+  useEffect(() => {
+    onSelectedFileChange?.(selectedFileId);
+  }, [selectedFileId, onSelectedFileChange]);
+
+  // Switch to the file of a reveal request; the editor scrolls once that file is shown
+  useEffect(() => {
+    if (revealRequest && codeFiles.some((f) => f.id === revealRequest.fileId)) {
+      setSelectedFileId(revealRequest.fileId);
+    }
+  }, [revealRequest]); // eslint-disable-line react-hooks/exhaustive-deps
+  // Reveals from within the panel (e.g. the agreement panel's disagreements); the newer request wins
+  const [localReveal, setLocalReveal] = useState<{ fileId: string; lineNumber: number; endLineNumber?: number; key: number } | null>(null);
+  const latestReveal = localReveal && (!revealRequest || localReveal.key > revealRequest.key) ? localReveal : revealRequest;
+  const revealRange = latestReveal?.fileId === selectedFileId ? latestReveal : null;
+  const revealLines = useCallback((fileId: string, lineNumber: number, endLineNumber?: number) => {
+    setSelectedFileId(fileId);
+    setLocalReveal({ fileId, lineNumber, endLineNumber, key: Date.now() });
+  }, []);
+
   const [editingLine, setEditingLine] = useState<number | null>(null);
   const [editingEndLine, setEditingEndLine] = useState<number | null>(null); // For block annotations
-  const [annotationType, setAnnotationType] = useState<LineAnnotationType>("observation");
+  const [annotationType, setAnnotationType] = useState<LineAnnotationType>(defaultAnnotationType);
   const [annotationContent, setAnnotationContent] = useState("");
   const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState("");
-  const [editType, setEditType] = useState<LineAnnotationType>("observation");
+  const [editType, setEditType] = useState<LineAnnotationType>(defaultAnnotationType);
+  // Suggested annotations awaiting review (never persisted until accepted)
+  const [draftAnnotations, setDraftAnnotations] = useState<DraftAnnotation[]>([]);
+  const [editingDraftId, setEditingDraftId] = useState<string | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
   const [showAnnotationHelp, setShowAnnotationHelp] = useState(false);
+  const [showTaxonomyEditor, setShowTaxonomyEditor] = useState(false);
+  const [showCodebook, setShowCodebook] = useState(false);
+  const [showAgreement, setShowAgreement] = useState(false);
+  const [showAnnotationSearch, setShowAnnotationSearch] = useState(false);
+  // Kept here so the search is still there after jumping to a result and reopening
+  const [annotationSearch, setAnnotationSearch] = useState<AnnotationSearchFilters>(DEFAULT_ANNOTATION_SEARCH);
+  // Annotation whose codes are being edited
+  const [codingAnnotationId, setCodingAnnotationId] = useState<string | null>(null);
+  // Show only annotations carrying this code (or one nested beneath it)
+  const [codeFilter, setCodeFilter] = useState<string | null>(null);
   const [showMembersDropdown, setShowMembersDropdown] = useState(false);
   const [fileMenuOpen, setFileMenuOpen] = useState<string | null>(null);
   const [deleteConfirmFile, setDeleteConfirmFile] = useState<{ id: string; name: string } | null>(null);
@@ -515,6 +606,7 @@ export function CodeEditorPanel({
   const panelContainerRef = useRef<HTMLDivElement>(null);
   const [codeCopied, setCodeCopied] = useState(false);
   const [showAnnotationPanel, setShowAnnotationPanel] = useState(true); // Annotation list in files pane
+  const [showOrphanReview, setShowOrphanReview] = useState(false); // Orphaned annotation review list
   const [showDiscoveryAnimation, setShowDiscoveryAnimation] = useState(false); // Triggered when file loads
   const [animationTriggerKey, setAnimationTriggerKey] = useState(0); // Increments to force animation restart
   const [fileSortOrder, setFileSortOrder] = useState<FileSortOrder>("manual");
@@ -731,6 +823,7 @@ export function CodeEditorPanel({
         type: ann.type,
         content: ann.content,
         addedBy: ann.addedBy,
+        provenance: ann.provenance,
       });
     });
 
@@ -764,6 +857,7 @@ export function CodeEditorPanel({
         type: ann.type,
         content: ann.content,
         addedBy: ann.addedBy,
+        provenance: ann.provenance,
       });
     });
 
@@ -825,26 +919,135 @@ export function CodeEditorPanel({
     [selectedFileId, codeContents]
   );
 
+  // Start a chat message about the selected lines, quoting them as shown
+  const handleAskAboutSelection = useCallback(() => {
+    if (!editorSelection || !selectedFileId || !onAskAboutSelection) return;
+    const file = codeFiles.find((f) => f.id === selectedFileId);
+    const shownCode = editorMode === "edit" ? editModeCode : currentCode;
+    const { lineNumber, endLineNumber } = editorSelection;
+    onAskAboutSelection({
+      codeFileId: selectedFileId,
+      fileName: file?.name ?? selectedFileId,
+      lineNumber,
+      endLineNumber: endLineNumber > lineNumber ? endLineNumber : undefined,
+      lineContent: shownCode.split("\n").slice(lineNumber - 1, endLineNumber).join("\n"),
+    });
+  }, [editorSelection, selectedFileId, onAskAboutSelection, codeFiles, editorMode, editModeCode, currentCode]);
+
   const lines = useMemo(() => currentCode.split("\n"), [currentCode]);
 
+  // Under blind annotation, other members' annotations stay hidden on files the user has not submitted
+  const visibleAnnotations = useMemo(
+    () => filterBlindAnnotations(session.lineAnnotations, blindAnnotation, userInitials),
+    [session.lineAnnotations, blindAnnotation, userInitials]
+  );
+  const blindReadingPending = isBlindReadingPending(blindAnnotation, selectedFileId, userInitials);
+
   // Get annotations for current file
   const fileAnnotations = useMemo(
     () =>
       selectedFileId
-        ? session.lineAnnotations.filter((a) => a.codeFileId === selectedFileId)
+        ? visibleAnnotations.filter((a) => a.codeFileId === selectedFileId)
         : [],
-    [session.lineAnnotations, selectedFileId]
+    [visibleAnnotations, selectedFileId]
+  );
+
+  // Mark the user's reading of the open file as done, revealing everyone's annotations on it
+  const submitBlindReading = useCallback(() => {
+    if (!selectedFileId || !userInitials) return;
+    if (onSubmitBlindReading) {
+      onSubmitBlindReading(selectedFileId, userInitials);
+      return;
+    }
+    const submitted = blindAnnotation.submissions[selectedFileId] || [];
+    setBlindAnnotation({
+      ...blindAnnotation,
+      submissions: { ...blindAnnotation.submissions, [selectedFileId]: [...submitted, userInitials] },
+    });
+  }, [selectedFileId, userInitials, onSubmitBlindReading, blindAnnotation, setBlindAnnotation]);
+
+  const setAnnotationStatus = useCallback((id: string, status: AnnotationStatus | undefined) => {
+    if (onSetAnnotationStatus) {
+      onSetAnnotationStatus(id, status);
+      return;
+    }
+    updateLineAnnotation(id, { status, statusChangedBy: userInitials || undefined });
+  }, [onSetAnnotationStatus, updateLineAnnotation, userInitials]);
+
+  // Other project members, offered when typing @ in annotations and replies
+  const mentionCandidates = useMemo<MentionCandidate[]>(
+    () =>
+      sharedProjectMembers
+        .filter((m) => m.initials && m.initials.toUpperCase() !== userInitials?.toUpperCase())
+        .map((m) => ({ initials: m.initials!, name: m.display_name })),
+    [sharedProjectMembers, userInitials]
+  );
+
+  // Open annotations that mention the user, or theirs with a reply from someone else
+  const attentionCount = useMemo(
+    () => visibleAnnotations.filter((a) => needsAttention(a, userInitials)).length,
+    [visibleAnnotations, userInitials]
+  );
+
+  // Orphaned annotations have no confident position in the current content, so they are
+  // kept out of the editor and listed in the orphan review panel instead
+  const anchoredAnnotations = useMemo(
+    () => fileAnnotations.filter((a) => !a.orphaned),
+    [fileAnnotations]
+  );
+  const orphanedAnnotations = useMemo(
+    () => fileAnnotations.filter((a) => a.orphaned),
+    [fileAnnotations]
+  );
+
+  // A filter on a code that has since been removed from the codebook no longer applies
+  const activeCodeFilter = codeFilter && codebook.some((c) => c.id === codeFilter) ? codeFilter : null;
+  const editorAnnotations = useMemo(() => {
+    if (!activeCodeFilter) return anchoredAnnotations;
+    const codeIds = getCodeDescendantIds(codebook, activeCodeFilter);
+    return anchoredAnnotations.filter((a) => annotationHasCode(a, codeIds));
+  }, [anchoredAnnotations, activeCodeFilter, codebook]);
+
+  const codingAnnotation = useMemo(
+    () => (codingAnnotationId ? session.lineAnnotations.find((a) => a.id === codingAnnotationId) : undefined),
+    [codingAnnotationId, session.lineAnnotations]
+  );
+
+  // Drafts for the current file whose range still fits the file (content may have changed since suggesting)
+  const fileDrafts = useMemo(
+    () =>
+      selectedFileId
+        ? draftAnnotations.filter(
+            (d) => d.codeFileId === selectedFileId && (d.endLineNumber ?? d.lineNumber) <= lines.length
+          )
+        : [],
+    [draftAnnotations, selectedFileId, lines.length]
+  );
+
+  const editingDraft = useMemo(
+    () => (editingDraftId ? fileDrafts.find((d) => d.id === editingDraftId) : undefined),
+    [editingDraftId, fileDrafts]
   );
 
   // Inline editing state for annotations - only tracks identity, widget manages content
   const inlineEditState = useMemo((): InlineEditState | undefined => {
+    if (editingDraft) {
+      // Editing a suggestion before accepting it - behaves like a new annotation prefilled with the draft
+      return {
+        lineNumber: editingDraft.endLineNumber ?? editingDraft.lineNumber,
+        startLineNumber: editingDraft.endLineNumber ? editingDraft.lineNumber : undefined,
+        annotationId: null,
+        initialType: editingDraft.type,
+        initialContent: editingDraft.content,
+      };
+    }
     if (editingAnnotationId) {
       // Editing existing annotation
       const annotation = fileAnnotations.find(a => a.id === editingAnnotationId);
       return {
         lineNumber: annotation?.lineNumber || null,
         annotationId: editingAnnotationId,
-        initialType: annotation?.type || "observation",
+        initialType: annotation?.type || defaultAnnotationType,
         initialContent: annotation?.content || "",
       };
     }
@@ -855,23 +1058,39 @@ export function CodeEditorPanel({
         lineNumber: editingEndLine ?? editingLine,
         startLineNumber: editingEndLine ? editingLine : undefined, // Store start for block annotations
         annotationId: null,
-        initialType: "observation",
+        initialType: defaultAnnotationType,
         initialContent: "",
       };
     }
     return undefined;
-  }, [editingAnnotationId, editingLine, editingEndLine, fileAnnotations]);
+  }, [editingDraft, editingAnnotationId, editingLine, editingEndLine, fileAnnotations, defaultAnnotationType]);
 
   // Callbacks for inline editing - widget passes final values on submit
   const inlineEditCallbacks = useMemo((): InlineEditCallbacks | undefined => {
-    if (!editingAnnotationId && !editingLine) return undefined;
+    if (!editingDraft && !editingAnnotationId && !editingLine) return undefined;
 
     return {
       onSubmit: (type, content) => {
         // Take snapshot before modifying annotations (for undo)
         takeAnnotationSnapshot();
 
-        if (editingAnnotationId) {
+        if (editingDraft) {
+          // Accept the edited suggestion as a real annotation
+          if (content.trim()) {
+            const lineContent = lines.slice(editingDraft.lineNumber - 1, editingDraft.endLineNumber ?? editingDraft.lineNumber).join('\n');
+            addLineAnnotation({
+              codeFileId: editingDraft.codeFileId,
+              lineNumber: editingDraft.lineNumber,
+              endLineNumber: editingDraft.endLineNumber,
+              lineContent,
+              type,
+              content: content.trim(),
+              addedBy: userInitials || undefined,
+            });
+            setDraftAnnotations(prev => prev.filter(d => d.id !== editingDraft.id));
+          }
+          setEditingDraftId(null);
+        } else if (editingAnnotationId) {
           // Save edited annotation with type and content from widget
           if (content.trim()) {
             updateLineAnnotation(editingAnnotationId, { content: content.trim(), type });
@@ -899,7 +1118,10 @@ export function CodeEditorPanel({
         }
       },
       onCancel: () => {
-        if (editingAnnotationId) {
+        if (editingDraft) {
+          // Leave the suggestion in place for a later decision
+          setEditingDraftId(null);
+        } else if (editingAnnotationId) {
           setEditingAnnotationId(null);
           setEditContent("");
         } else {
@@ -909,7 +1131,7 @@ export function CodeEditorPanel({
         }
       },
     };
-  }, [editingAnnotationId, editingLine, editingEndLine, selectedFileId, lines, updateLineAnnotation, addLineAnnotation, takeAnnotationSnapshot]);
+  }, [editingDraft, editingAnnotationId, editingLine, editingEndLine, selectedFileId, lines, updateLineAnnotation, addLineAnnotation, takeAnnotationSnapshot, userInitials]);
 
   const handleLineClick = useCallback((startLine: number, endLine?: number) => {
     // Don't allow adding annotations in read-only mode
@@ -919,11 +1141,12 @@ export function CodeEditorPanel({
     // Ensure annotations are visible when adding a new one
     // (otherwise the inline editor won't show)
     setAnnotationDisplaySettings(prev => prev.visible ? prev : { ...prev, visible: true });
+    setEditingDraftId(null);
     setEditingLine(startLine);
     setEditingEndLine(endLine ?? null); // null for single-line, number for block
     setAnnotationContent("");
-    setAnnotationType("observation");
-  }, [readOnly]);
+    setAnnotationType(defaultAnnotationType);
+  }, [readOnly, defaultAnnotationType]);
 
   const handleStartEditAnnotation = useCallback((annotationId: string) => {
     // Don't allow editing annotations in read-only mode
@@ -935,6 +1158,7 @@ export function CodeEditorPanel({
       setEditType(annotation.type);
       // Clear new annotation state to avoid conflicts
       setEditingLine(null);
+      setEditingDraftId(null);
     }
   }, [fileAnnotations, readOnly]);
 
@@ -969,56 +1193,19 @@ export function CodeEditorPanel({
     setShowAnnotationPanel(false); // Hide annotation panel in edit mode
   }, [selectedFileId, currentCode]);
 
-  // Switch to Annotate mode: relocate annotations based on line content
+  // Switch to Annotate mode: saving the edited content re-anchors its annotations
   const handleSwitchToAnnotate = useCallback(() => {
     if (!selectedFileId || !onCodeContentChange) return;
 
     // Update the code content with the edited version
     onCodeContentChange(selectedFileId, editModeCode);
 
-    // Relocate existing annotations based on their lineContent
-    const newLines = editModeCode.split("\n");
-
-    // For each annotation, find where its lineContent now appears
-    fileAnnotations.forEach(ann => {
-      const trimmedTarget = ann.lineContent.trim();
-
-      // Find all lines that match this content
-      const matches: number[] = [];
-      newLines.forEach((line, idx) => {
-        if (line.trim() === trimmedTarget) {
-          matches.push(idx + 1); // 1-indexed line numbers
-        }
-      });
-
-      if (matches.length === 0) {
-        // Line was deleted - mark as orphaned
-        if (!ann.orphaned) {
-          updateLineAnnotation(ann.id, { orphaned: true });
-        }
-      } else {
-        // Find closest match to original position
-        const closest = matches.reduce((prev, curr) =>
-          Math.abs(curr - ann.lineNumber) < Math.abs(prev - ann.lineNumber) ? curr : prev
-        );
-
-        // Update if position changed or was previously orphaned
-        if (ann.lineNumber !== closest || ann.orphaned) {
-          updateLineAnnotation(ann.id, {
-            lineNumber: closest,
-            orphaned: false,
-            lineContent: newLines[closest - 1] // Update to current content
-          });
-        }
-      }
-    });
-
     // Trigger discovery animation when entering annotate mode
     setShowDiscoveryAnimation(true);
     setAnimationTriggerKey(k => k + 1);
     setShowAnnotationPanel(true);
     setEditorMode("annotate");
-  }, [selectedFileId, editModeCode, onCodeContentChange, fileAnnotations, updateLineAnnotation]);
+  }, [selectedFileId, editModeCode, onCodeContentChange]);
 
   // Download annotated code as markdown with metadata
   const handleDownloadCode = useCallback(() => {
@@ -1032,7 +1219,8 @@ export function CodeEditorPanel({
       currentCode,
       fileAnnotations,
       baseName,
-      language
+      language,
+      annotationTaxonomy
     );
 
     const blob = new Blob([annotatedMarkdown], { type: "text/markdown" });
@@ -1048,17 +1236,23 @@ export function CodeEditorPanel({
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [selectedFileId, currentCode, fileAnnotations, selectedFile]);
+  }, [selectedFileId, currentCode, fileAnnotations, selectedFile, annotationTaxonomy]);
+
+  // Download the file's annotations as W3C Web Annotation JSON-LD
+  const handleDownloadWebAnnotations = useCallback(() => {
+    if (!selectedFile || !currentCode) return;
+    exportWebAnnotations(selectedFile, currentCode, fileAnnotations);
+  }, [selectedFile, currentCode, fileAnnotations]);
 
   // Handle copy code to clipboard
   const handleCopyCode = useCallback(() => {
     if (!currentCode) return;
-    const annotatedCode = generateAnnotatedCode(currentCode, fileAnnotations);
+    const annotatedCode = generateAnnotatedCode(currentCode, fileAnnotations, annotationTaxonomy);
     navigator.clipboard.writeText(annotatedCode).then(() => {
       setCodeCopied(true);
       setTimeout(() => setCodeCopied(false), 2000);
     });
-  }, [currentCode, fileAnnotations]);
+  }, [currentCode, fileAnnotations, annotationTaxonomy]);
 
   // Keyboard shortcut for copy (Cmd/Ctrl+Shift+C)
   useEffect(() => {
@@ -1136,6 +1330,24 @@ export function CodeEditorPanel({
     }
   }, [showDiscoveryAnimation, editorMode, selectedFile]);
 
+  // Re-attach an orphaned annotation at a chosen line, keeping the length of its original range
+  const handleReattachOrphan = useCallback((annotationId: string, lineNumber: number) => {
+    if (readOnly) return;
+    const ann = fileAnnotations.find((a) => a.id === annotationId);
+    if (!ann) return;
+    const span = (ann.endLineNumber ?? ann.lineNumber) - ann.lineNumber;
+    const end = Math.min(lines.length, lineNumber + span);
+    const endLineNumber = end > lineNumber ? end : undefined;
+    takeAnnotationSnapshot();
+    updateLineAnnotation(annotationId, {
+      lineNumber,
+      endLineNumber,
+      lineContent: lines.slice(lineNumber - 1, end).join("\n"),
+      anchor: createAnchor(lines, lineNumber, endLineNumber),
+      orphaned: false,
+    });
+  }, [fileAnnotations, lines, readOnly, takeAnnotationSnapshot, updateLineAnnotation]);
+
   // Handle delete annotation from CodeMirror widget
   const handleDeleteAnnotation = useCallback((annotationId: string) => {
     // Don't allow deleting annotations in read-only mode
@@ -1145,6 +1357,121 @@ export function CodeEditorPanel({
     removeLineAnnotation(annotationId);
   }, [removeLineAnnotation, takeAnnotationSnapshot, readOnly]);
 
+  // Ask the model for annotation suggestions on the current file - results land as drafts
+  const handleSuggestAnnotations = useCallback(async () => {
+    if (!selectedFile || !currentCode.trim() || isSuggesting || readOnly) return;
+    const fileId = selectedFile.id;
+    setIsSuggesting(true);
+    setSuggestionError(null);
+
+    try {
+      const body: SuggestAnnotationsRequest = {
+        fileName: selectedFile.name,
+        language: selectedFile.language,
+        content: currentCode,
+        mode: session.mode,
+        existingAnnotations: fileAnnotations.map(a => ({
+          line: a.lineNumber,
+          endLine: a.endLineNumber,
+          type: a.type,
+          content: a.content,
+        })),
+        messages: session.messages.slice(-6),
+        annotationTypes: annotationTaxonomy,
+      };
+      const response = await fetch("/api/suggest-annotations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getTaskRequestHeaders("suggest-annotations") },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to suggest annotations");
+      }
+
+      // Re-validate against the file as it is now (it may have been edited while waiting)
+      const latestLineCount = (codeContents.get(fileId) || "").split("\n").length;
+      const { suggestions } = validateAnnotationSuggestions(
+        (data as SuggestAnnotationsResponse).suggestions,
+        latestLineCount,
+        annotationTaxonomy
+      );
+      if (suggestions.length === 0) {
+        setSuggestionError("No usable suggestions were returned for this file.");
+        return;
+      }
+
+      // Make sure drafts are visible
+      if (!annotationDisplaySettings.visible) updateAnnotationDisplaySettings({ visible: true });
+      setDraftAnnotations(prev => [
+        ...prev.filter(d => d.codeFileId !== fileId),
+        ...suggestions.map(s => ({
+          id: generateId(),
+          codeFileId: fileId,
+          lineNumber: s.line,
+          endLineNumber: s.endLine,
+          type: s.type,
+          content: s.content,
+        })),
+      ]);
+    } catch (error) {
+      console.error("Annotation suggestion error:", error);
+      setSuggestionError(error instanceof Error ? error.message : "Failed to suggest annotations");
+    } finally {
+      setIsSuggesting(false);
+    }
+  }, [selectedFile, currentCode, isSuggesting, readOnly, session.mode, session.messages, fileAnnotations, codeContents, getTaskRequestHeaders, annotationTaxonomy, annotationDisplaySettings.visible, updateAnnotationDisplaySettings]);
+
+  // Accept a draft as a real annotation (synced like any other annotation)
+  const acceptDraft = useCallback((draft: DraftAnnotation) => {
+    addLineAnnotation({
+      codeFileId: draft.codeFileId,
+      lineNumber: draft.lineNumber,
+      endLineNumber: draft.endLineNumber,
+      lineContent: lines.slice(draft.lineNumber - 1, draft.endLineNumber ?? draft.lineNumber).join("\n"),
+      type: draft.type,
+      content: draft.content,
+      addedBy: userInitials || undefined,
+    });
+  }, [addLineAnnotation, lines, userInitials]);
+
+  const draftCallbacks = useMemo((): DraftAnnotationCallbacks | undefined => {
+    if (readOnly) return undefined;
+    return {
+      onAccept: (id) => {
+        const draft = fileDrafts.find(d => d.id === id);
+        if (!draft) return;
+        takeAnnotationSnapshot();
+        acceptDraft(draft);
+        setDraftAnnotations(prev => prev.filter(d => d.id !== id));
+      },
+      onEdit: (id) => {
+        setEditingLine(null);
+        setEditingEndLine(null);
+        setEditingAnnotationId(null);
+        setEditingDraftId(id);
+      },
+      onReject: (id) => {
+        setDraftAnnotations(prev => prev.filter(d => d.id !== id));
+        if (editingDraftId === id) setEditingDraftId(null);
+      },
+    };
+  }, [readOnly, fileDrafts, acceptDraft, takeAnnotationSnapshot, editingDraftId]);
+
+  const handleAcceptAllDrafts = useCallback(() => {
+    if (fileDrafts.length === 0) return;
+    takeAnnotationSnapshot();
+    fileDrafts.forEach(acceptDraft);
+    const accepted = new Set(fileDrafts.map(d => d.id));
+    setDraftAnnotations(prev => prev.filter(d => !accepted.has(d.id)));
+    setEditingDraftId(null);
+  }, [fileDrafts, acceptDraft, takeAnnotationSnapshot]);
+
+  const handleRejectAllDrafts = useCallback(() => {
+    setDraftAnnotations(prev => prev.filter(d => d.codeFileId !== selectedFileId));
+    setEditingDraftId(null);
+  }, [selectedFileId]);
+
   // Handle clicking on an annotation type pill to highlight annotations of that type
   const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const displaySettingsRef = useRef<HTMLDivElement>(null);
@@ -1379,6 +1706,15 @@ export function CodeEditorPanel({
                 >
                   <Download className="h-3.5 w-3.5" strokeWidth={1.5} />
                 </button>
+                {/* Download annotations as W3C Web Annotation JSON-LD */}
+                <button
+                  onClick={handleDownloadWebAnnotations}
+                  disabled={!currentCode || !selectedFileId || fileAnnotations.length === 0}
+                  className="p-1 text-slate-muted hover:text-burgundy transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Download annotations (W3C Web Annotation JSON-LD)"
+                >
+                  <FileJson className="h-3.5 w-3.5" strokeWidth={1.5} />
+                </button>
                 {/* Sort toggle button */}
                 <button
                   onClick={() => {
@@ -1544,6 +1880,32 @@ export function CodeEditorPanel({
                                 Commit changes
                               </button>
                             )}
+                            {onShowFileHistory && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onShowFileHistory(file.id);
+                                  setFileMenuOpen(null);
+                                }}
+                                className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream"
+                              >
+                                <History className="h-3 w-3" strokeWidth={1.5} />
+                                History
+                              </button>
+                            )}
+                            {onCompareFile && codeFiles.length > 1 && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onCompareFile(file.id);
+                                  setFileMenuOpen(null);
+                                }}
+                                className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream"
+                              >
+                                <GitCompare className="h-3 w-3" strokeWidth={1.5} />
+                                Compare with...
+                              </button>
+                            )}
                             {/* Revert option - only show if file is modified */}
                             {isFileModified(file.id) && onRevertFile && (
                               <button
@@ -1604,7 +1966,7 @@ export function CodeEditorPanel({
                         {/* File status indicators */}
                         <span className="flex items-center gap-1 flex-shrink-0">
                           {/* Annotated indicator - clickable to highlight annotations */}
-                          {session.lineAnnotations.some(a => a.codeFileId === file.id) && (
+                          {visibleAnnotations.some(a => a.codeFileId === file.id) && (
                             <span
                               role="button"
                               tabIndex={0}
@@ -1729,17 +2091,67 @@ export function CodeEditorPanel({
               acc[ann.type].push(ann);
               return acc;
             }, {} as Record<LineAnnotationType, typeof fileAnnotations>);
-
-            // Check for orphaned annotations
-            const orphaned = fileAnnotations.filter(a => a.orphaned);
+            // Project types first, then any types annotations still use that were removed
+            const summaryTypes = [
+              ...annotationTaxonomy.map(t => t.id),
+              ...Object.keys(grouped).filter(type => !annotationTaxonomy.some(t => t.id === type)),
+            ];
 
             return (
               <div className="mt-auto border-t border-parchment bg-cream/50 px-2 py-1.5 max-h-24 overflow-y-auto">
-                <div className="font-sans text-[9px] uppercase tracking-wider text-slate-muted pb-1 mb-1.5 border-b border-parchment/50">
-                  Annotations ({fileAnnotations.length})
+                <div className="flex items-center gap-2 font-sans text-[9px] uppercase tracking-wider text-slate-muted pb-1 mb-1.5 border-b border-parchment/50">
+                  Annotations ({activeCodeFilter ? `${editorAnnotations.length} of ${fileAnnotations.length}` : fileAnnotations.length})
+                  {attentionCount > 0 && (
+                    <button
+                      onClick={() => {
+                        setAnnotationSearch({ ...DEFAULT_ANNOTATION_SEARCH, needsAttention: true });
+                        setShowAnnotationSearch(true);
+                      }}
+                      className="flex items-center gap-0.5 normal-case tracking-normal text-burgundy hover:text-burgundy-dark transition-colors"
+                      title="Open annotations that mention you, or yours with a reply from someone else"
+                    >
+                      <AtSign className="h-2.5 w-2.5" strokeWidth={1.5} />
+                      {attentionCount} need{attentionCount === 1 ? "s" : ""} your attention
+                    </button>
+                  )}
+                  {codebook.length > 0 && (
+                    <select
+                      value={activeCodeFilter ?? ""}
+                      onChange={(e) => setCodeFilter(e.target.value || null)}
+                      className={cn(
+                        "ml-auto max-w-[50%] bg-transparent normal-case tracking-normal text-[9px] focus:outline-none cursor-pointer",
+                        activeCodeFilter ? "text-burgundy" : "text-slate-muted"
+                      )}
+                      title="Show only annotations with this code (including codes nested beneath it)"
+                    >
+                      <option value="">All codes</option>
+                      {flattenCodebook(codebook).map(({ code, depth }) => (
+                        <option key={code.id} value={code.id}>{"\u00a0\u00a0".repeat(depth)}{code.name}</option>
+                      ))}
+                    </select>
+                  )}
                 </div>
+                {blindReadingPending && (
+                  <div className="flex items-center gap-1.5 mb-1.5 font-sans text-[9px] text-slate-muted">
+                    <EyeOff className="h-3 w-3 flex-shrink-0" strokeWidth={1.5} />
+                    <span className="truncate">
+                      Blind reading: others&apos; annotations hidden
+                      {selectedFileId && ` · ${(blindAnnotation.submissions[selectedFileId] || []).length} submitted`}
+                    </span>
+                    {!readOnly && (
+                      <button
+                        onClick={submitBlindReading}
+                        className="ml-auto flex-shrink-0 text-burgundy hover:text-burgundy-dark transition-colors"
+                        title="Mark your reading of this file as done and show everyone's annotations"
+                      >
+                        Submit my reading
+                      </button>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-[8px]">
-                  {(Object.keys(ANNOTATION_PREFIXES) as LineAnnotationType[]).map(type => {
+                  {summaryTypes.map(type => {
+                    const definition = getAnnotationTypeDefinition(annotationTaxonomy, type);
                     const anns = grouped[type];
                     const validAnns = anns ? anns.filter(a => !a.orphaned) : [];
                     const count = validAnns.length;
@@ -1753,13 +2165,13 @@ export function CodeEditorPanel({
                           count === 0 ? "opacity-35 cursor-default" : "cursor-pointer hover:opacity-80",
                           highlightedType === type && "ring-1 ring-burgundy rounded-sm"
                         )}
-                        title={count > 0 ? `Click to highlight ${ANNOTATION_PREFIXES[type]} annotations` : undefined}
+                        title={count > 0 ? `Click to highlight ${definition.label} annotations` : definition.label}
                       >
-                        <span className={cn(
-                          "px-1.5 py-0.5 rounded-full text-[7px] font-semibold uppercase text-white min-w-[28px] text-center",
-                          ANNOTATION_PILL_COLORS[type]
-                        )}>
-                          {ANNOTATION_PREFIXES[type]}
+                        <span
+                          className="px-1.5 py-0.5 rounded-full text-[7px] font-semibold uppercase text-white min-w-[28px] text-center"
+                          style={{ backgroundColor: `${isDark ? definition.color.dark : definition.color.light}99` }}
+                        >
+                          {definition.prefix}
                         </span>
                         <span className="text-slate-muted font-mono text-[7px]">
                           {count}
@@ -1768,17 +2180,32 @@ export function CodeEditorPanel({
                     );
                   })}
                 </div>
-                {orphaned.length > 0 && (
-                  <div className="flex items-center gap-1 mt-1 opacity-50">
+                {orphanedAnnotations.length > 0 && (
+                  <button
+                    onClick={() => setShowOrphanReview(prev => !prev)}
+                    className="flex items-center gap-1 mt-1 cursor-pointer hover:opacity-80"
+                    title="Review annotations that lost their place after an edit"
+                  >
                     <span className="px-1.5 py-0.5 rounded-full text-[7px] font-semibold uppercase bg-error/40 text-white">?</span>
                     <span className="text-slate-muted font-mono text-[7px]">
-                      {orphaned.length} orphaned
+                      {orphanedAnnotations.length} orphaned
                     </span>
-                  </div>
+                  </button>
                 )}
               </div>
             );
           })()}
+          {editorMode === "annotate" && showOrphanReview && orphanedAnnotations.length > 0 && (
+            <OrphanedAnnotationsPanel
+              annotations={orphanedAnnotations}
+              lineCount={lines.length}
+              annotationTypes={annotationTaxonomy}
+              onReattach={handleReattachOrphan}
+              onDelete={handleDeleteAnnotation}
+              onClose={() => setShowOrphanReview(false)}
+              readOnly={readOnly}
+            />
+          )}
           </>
         )}
       </div>
@@ -2037,6 +2464,54 @@ export function CodeEditorPanel({
                           )}
                         </button>
                       )}
+                      {/* Suggest annotations */}
+                      {!readOnly && (
+                        <button
+                          onClick={handleSuggestAnnotations}
+                          disabled={!isAiReady || isSuggesting || !currentCode.trim()}
+                          className="p-1 text-slate-muted hover:text-ink transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                          title={isAiReady ? "Suggest annotations for this file" : "Connect an AI provider to suggest annotations"}
+                        >
+                          {isSuggesting ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" strokeWidth={1.5} />
+                          ) : (
+                            <Sparkles className="h-3.5 w-3.5" strokeWidth={1.5} />
+                          )}
+                        </button>
+                      )}
+                      {/* Search annotations */}
+                      <button
+                        onClick={() => setShowAnnotationSearch(true)}
+                        className={cn(
+                          "p-1 transition-colors",
+                          annotationSearch.query || hasActiveAnnotationFilters(annotationSearch) ? "text-burgundy" : "text-slate-muted hover:text-ink"
+                        )}
+                        title="Search annotations across all files"
+                      >
+                        <Search className="h-3.5 w-3.5" strokeWidth={1.5} />
+                      </button>
+                      {/* Codebook */}
+                      <button
+                        onClick={() => setShowCodebook(true)}
+                        className={cn(
+                          "p-1 transition-colors",
+                          activeCodeFilter ? "text-burgundy" : "text-slate-muted hover:text-ink"
+                        )}
+                        title={activeCodeFilter ? "Codebook (filtering by code)" : "Codebook, code frequencies and co-occurrence"}
+                      >
+                        <ListTree className="h-3.5 w-3.5" strokeWidth={1.5} />
+                      </button>
+                      {/* Inter-annotator agreement */}
+                      <button
+                        onClick={() => setShowAgreement(true)}
+                        className={cn(
+                          "p-1 transition-colors",
+                          blindAnnotation.enabled ? "text-burgundy" : "text-slate-muted hover:text-ink"
+                        )}
+                        title={blindAnnotation.enabled ? "Annotator agreement (blind annotation on)" : "Annotator agreement and blind annotation"}
+                      >
+                        <Scale className="h-3.5 w-3.5" strokeWidth={1.5} />
+                      </button>
                       {/* Undo/Redo buttons */}
                       <div className="h-4 w-px bg-parchment mx-1" />
                       <button
@@ -2154,6 +2629,49 @@ export function CodeEditorPanel({
                               {isFullScreen ? "Exit full screen" : "Full screen"}
                             </button>
                           )}
+                          {!readOnly && (
+                            <button
+                              onClick={() => {
+                                handleSuggestAnnotations();
+                                setShowToolbarMenu(false);
+                              }}
+                              disabled={!isAiReady || isSuggesting || !currentCode.trim()}
+                              className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream disabled:opacity-30"
+                            >
+                              <Sparkles className="h-3 w-3" strokeWidth={1.5} />
+                              {isSuggesting ? "Suggesting..." : "Suggest annotations"}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => {
+                              setShowAnnotationSearch(true);
+                              setShowToolbarMenu(false);
+                            }}
+                            className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream"
+                          >
+                            <Search className="h-3 w-3" strokeWidth={1.5} />
+                            Search annotations
+                          </button>
+                          <button
+                            onClick={() => {
+                              setShowCodebook(true);
+                              setShowToolbarMenu(false);
+                            }}
+                            className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream"
+                          >
+                            <ListTree className="h-3 w-3" strokeWidth={1.5} />
+                            Codebook
+                          </button>
+                          <button
+                            onClick={() => {
+                              setShowAgreement(true);
+                              setShowToolbarMenu(false);
+                            }}
+                            className="w-full flex items-center gap-2 px-3 py-1.5 text-[10px] text-slate hover:bg-cream"
+                          >
+                            <Scale className="h-3 w-3" strokeWidth={1.5} />
+                            Annotator agreement
+                          </button>
                           {/* Undo/Redo in menu */}
                           <button
                             onClick={() => {
@@ -2304,32 +2822,29 @@ export function CodeEditorPanel({
 
                     {/* Annotation types */}
                     <div className="font-sans text-[8px] uppercase tracking-wider text-slate-muted mb-1">Types</div>
-                    <ul className="space-y-0.5 mb-3">
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.observation)}>Obs</span>
-                        <span className="font-body text-[10px] text-slate">Notable feature or detail</span>
-                      </li>
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.question)}>Q</span>
-                        <span className="font-body text-[10px] text-slate">Something to explore</span>
-                      </li>
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.metaphor)}>Met</span>
-                        <span className="font-body text-[10px] text-slate">Figurative interpretation</span>
-                      </li>
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.pattern)}>Pat</span>
-                        <span className="font-body text-[10px] text-slate">Recurring structure</span>
-                      </li>
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.context)}>Ctx</span>
-                        <span className="font-body text-[10px] text-slate">Historical/cultural context</span>
-                      </li>
-                      <li className="flex items-start gap-2">
-                        <span className={cn("font-mono text-[9px] font-semibold w-8", ANNOTATION_COLORS.critique)}>Crit</span>
-                        <span className="font-body text-[10px] text-slate">Critical claim</span>
-                      </li>
+                    <ul className="space-y-0.5 mb-1">
+                      {annotationTaxonomy.map(type => (
+                        <li key={type.id} className="flex items-start gap-2">
+                          <span
+                            className="font-mono text-[9px] font-semibold w-8 flex-shrink-0"
+                            style={{ color: isDark ? type.color.dark : type.color.light }}
+                          >
+                            {type.prefix}
+                          </span>
+                          <span className="font-body text-[10px] text-slate">{type.description || type.label}</span>
+                        </li>
+                      ))}
                     </ul>
+                    <button
+                      onClick={() => {
+                        setShowAnnotationHelp(false);
+                        setShowTaxonomyEditor(true);
+                      }}
+                      className="flex items-center gap-1 mb-3 font-sans text-[9px] text-slate-muted hover:text-burgundy transition-colors"
+                    >
+                      <Tags className="h-3 w-3" strokeWidth={1.5} />
+                      {readOnly ? "View types" : "Edit types…"}
+                    </button>
 
                     {/* Display controls */}
                     <div className="font-sans text-[8px] uppercase tracking-wider text-slate-muted mb-1">Display</div>
@@ -2546,8 +3061,61 @@ export function CodeEditorPanel({
           </div>
         )}
 
+        {/* Project setting the server refused to save */}
+        {projectSettingsError && (
+          <div className="flex items-center gap-2 px-4 py-1 border-b border-parchment bg-cream/40 font-sans text-[10px]">
+            <span className="flex-1 text-error">{projectSettingsError}</span>
+            {onDismissProjectSettingsError && (
+              <button onClick={onDismissProjectSettingsError} className="text-slate-muted hover:text-ink" title="Dismiss">
+                <X className="h-3 w-3" strokeWidth={1.5} />
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Suggested annotations review bar */}
+        {editorMode === "annotate" && selectedFile && (fileDrafts.length > 0 || suggestionError) && (
+          <div className="flex items-center gap-2 px-4 py-1 border-b border-parchment bg-cream/40 font-sans text-[10px] text-slate">
+            <Sparkles className="h-3 w-3 text-slate-muted flex-shrink-0" strokeWidth={1.5} />
+            {fileDrafts.length > 0 ? (
+              <>
+                <span className="flex-1">
+                  {fileDrafts.length} suggested {fileDrafts.length === 1 ? "annotation" : "annotations"} to review
+                </span>
+                <button onClick={handleAcceptAllDrafts} className="text-burgundy hover:underline">
+                  Accept all
+                </button>
+                <button onClick={handleRejectAllDrafts} className="text-slate-muted hover:text-ink">
+                  Discard all
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 text-error">{suggestionError}</span>
+                <button onClick={() => setSuggestionError(null)} className="text-slate-muted hover:text-ink" title="Dismiss">
+                  <X className="h-3 w-3" strokeWidth={1.5} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Code editor content */}
-        <div className="flex-1 overflow-hidden flex flex-col">
+        <div className="flex-1 overflow-hidden flex flex-col relative">
+          {/* Ask the assistant about the selected lines */}
+          {selectedFile && editorSelection && onAskAboutSelection && (
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={handleAskAboutSelection}
+              className="absolute bottom-3 right-4 z-10 flex items-center gap-1 px-2 py-1 font-sans text-[10px] bg-popover text-ink border border-parchment rounded-sm shadow-md hover:border-burgundy hover:text-burgundy transition-colors"
+              title="Start a chat message about the selected lines"
+            >
+              <MessageSquareQuote className="h-3 w-3" strokeWidth={1.5} />
+              Ask about {editorSelection.endLineNumber > editorSelection.lineNumber
+                ? `L${editorSelection.lineNumber}–${editorSelection.endLineNumber}`
+                : `L${editorSelection.lineNumber}`}
+            </button>
+          )}
           {!selectedFile ? (
             <div className="flex items-center justify-center h-full text-slate-muted">
               <p className="font-body text-sm">Select or upload a code file to begin analysis</p>
@@ -2561,6 +3129,8 @@ export function CodeEditorPanel({
               readOnly={false}
               fontSize={displaySettings.fontSize}
               onCursorPositionChange={isPunchCardFormat ? handleCursorPositionChange : undefined}
+              onSelectionChange={onAskAboutSelection ? setEditorSelection : undefined}
+              revealRange={revealRange}
               className="flex-1"
             />
           ) : (
@@ -2570,7 +3140,8 @@ export function CodeEditorPanel({
               language={selectedFile.language}
               readOnly={true}
               fontSize={displaySettings.fontSize}
-              annotations={fileAnnotations}
+              annotations={editorAnnotations}
+              annotationTaxonomy={annotationTaxonomy}
               onLineClick={handleLineClick}
               onEditAnnotation={handleStartEditAnnotation}
               onDeleteAnnotation={handleDeleteAnnotation}
@@ -2591,6 +3162,15 @@ export function CodeEditorPanel({
               onOpenReplyInput={onOpenReplyInput}
               onCloseReplyInput={onCloseReplyInput}
               isInProject={isInProject}
+              codebook={codebook}
+              onEditAnnotationCodes={readOnly ? undefined : setCodingAnnotationId}
+              mentionCandidates={mentionCandidates}
+              onSetAnnotationStatus={readOnly ? undefined : setAnnotationStatus}
+              draftAnnotations={fileDrafts}
+              draftCallbacks={draftCallbacks}
+              editingDraftId={editingDraftId}
+              onSelectionChange={onAskAboutSelection ? setEditorSelection : undefined}
+              revealRange={revealRange}
               className="flex-1"
             />
           )}
@@ -2627,7 +3207,83 @@ export function CodeEditorPanel({
         </div>
       )}
 
+      {showTaxonomyEditor && (
+        <AnnotationTaxonomyEditor
+          taxonomy={annotationTaxonomy}
+          annotations={visibleAnnotations}
+          onSave={setAnnotationTaxonomy}
+          onClose={() => setShowTaxonomyEditor(false)}
+          readOnly={readOnly}
+        />
+      )}
+
+      {showCodebook && (
+        <CodebookPanel
+          codebook={codebook}
+          annotations={visibleAnnotations}
+          codeFiles={codeFiles}
+          selectedFileId={selectedFileId}
+          onSave={setCodebook}
+          onClose={() => setShowCodebook(false)}
+          readOnly={readOnly}
+        />
+      )}
+
+      {showAnnotationSearch && (
+        <AnnotationSearchPanel
+          annotations={visibleAnnotations}
+          codeFiles={codeFiles}
+          annotationTypes={annotationTaxonomy}
+          codebook={codebook}
+          isDark={isDark}
+          userInitials={userInitials}
+          filters={annotationSearch}
+          onFiltersChange={setAnnotationSearch}
+          onJumpToAnnotation={(annotation) => {
+            // Orphaned annotations have no place in the editor; open the file's review list instead
+            if (annotation.orphaned) {
+              setSelectedFileId(annotation.codeFileId);
+              setShowOrphanReview(true);
+            } else {
+              revealLines(annotation.codeFileId, annotation.lineNumber, annotation.endLineNumber);
+            }
+          }}
+          onClose={() => setShowAnnotationSearch(false)}
+        />
+      )}
+
+      {showAgreement && (
+        <AnnotationAgreementPanel
+          annotations={visibleAnnotations}
+          codeFiles={codeFiles}
+          selectedFileId={selectedFileId}
+          annotationTypes={annotationTaxonomy}
+          isDark={isDark}
+          members={sharedProjectMembers}
+          userInitials={userInitials}
+          blindAnnotation={blindAnnotation}
+          onSetBlindAnnotation={setBlindAnnotation}
+          canSwitchBlindAnnotation={canSwitchBlindAnnotation}
+          onRefreshBlindAnnotation={onRefreshBlindAnnotation}
+          onJumpToRange={revealLines}
+          onClose={() => setShowAgreement(false)}
+          readOnly={readOnly}
+        />
+      )}
+
+      {codingAnnotation && (
+        <AnnotationCodesDialog
+          annotation={codingAnnotation}
+          codebook={codebook}
+          onSave={(codes) => updateLineAnnotation(codingAnnotation.id, { codes: codes.length > 0 ? codes : undefined })}
+          onSetCodebook={setCodebook}
+          onClose={() => setCodingAnnotationId(null)}
+          readOnly={readOnly}
+        />
+      )}
+
       {/* Delete file confirmation dialog */}
+
       <ConfirmDialog
         isOpen={deleteConfirmFile !== null}
         title={`Delete "${deleteConfirmFile?.name}"?`}
@@ -2651,7 +3307,8 @@ export function CodeEditorPanel({
 // Helper function to generate annotated code string for LLM context
 export function generateAnnotatedCode(
   code: string,
-  annotations: LineAnnotation[]
+  annotations: LineAnnotation[],
+  taxonomy: AnnotationTypeDefinition[] = DEFAULT_ANNOTATION_TAXONOMY
 ): string {
   const lines = code.split("\n");
   const annotationsByLine = new Map<number, LineAnnotation[]>();
@@ -2671,10 +3328,11 @@ export function generateAnnotatedCode(
     lineAnnotations.forEach((ann) => {
       // Indent annotations with two tabs for readability in edit mode
       // For block annotations, include line range: // An:Type[L5-12]: content
+      const prefix = getAnnotationTypePrefix(taxonomy, ann.type);
       if (ann.endLineNumber && ann.endLineNumber !== ann.lineNumber) {
-        result.push(`\t\t// An:${ANNOTATION_PREFIXES[ann.type]}[L${ann.lineNumber}-${ann.endLineNumber}]: ${ann.content}`);
+        result.push(`\t\t// An:${prefix}[L${ann.lineNumber}-${ann.endLineNumber}]: ${ann.content}`);
       } else {
-        result.push(`\t\t// An:${ANNOTATION_PREFIXES[ann.type]}: ${ann.content}`);
+        result.push(`\t\t// An:${prefix}: ${ann.content}`);
       }
     });
   });
@@ -2689,12 +3347,14 @@ export interface AnnotatedMarkdownMetadata {
   filename: string;
   language: string;
   exportedAt: string;
+  annotationTypes?: AnnotationTypeDefinition[]; // Definitions of the types the annotations use
   annotations: Array<{
     line: number;
     endLine?: number; // For block annotations
     type: LineAnnotationType;
     content: string;
     addedBy?: string; // User initials who added this annotation
+    sourceModel?: string; // Set when the text was saved from an assistant reply
   }>;
 }
 
@@ -2711,7 +3371,8 @@ export function generateAnnotatedMarkdown(
   code: string,
   annotations: LineAnnotation[],
   filename: string,
-  language: string
+  language: string,
+  taxonomy: AnnotationTypeDefinition[] = DEFAULT_ANNOTATION_TAXONOMY
 ): string {
   // Build annotation list for YAML
   const annotationList = annotations.map((ann) => ({
@@ -2720,6 +3381,7 @@ export function generateAnnotatedMarkdown(
     type: ann.type,
     content: ann.content,
     addedBy: ann.addedBy,
+    sourceModel: ann.provenance ? ann.provenance.model || "AI assistant" : undefined,
   }));
 
   // Escape special characters in YAML strings
@@ -2740,6 +3402,22 @@ export function generateAnnotatedMarkdown(
     `exported-at: "${new Date().toISOString()}"`,
   ];
 
+  // Definitions of the types used, so another project can import them with their labels and colours
+  const usedTypes = [...new Set(annotations.map((ann) => ann.type))].map((id) => getAnnotationTypeDefinition(taxonomy, id));
+  if (usedTypes.length > 0) {
+    yamlLines.push("annotation-types:");
+    usedTypes.forEach((type) => {
+      yamlLines.push(`  - id: ${escapeYaml(type.id)}`);
+      yamlLines.push(`    label: ${escapeYaml(type.label)}`);
+      yamlLines.push(`    prefix: ${type.prefix}`);
+      yamlLines.push(`    color: "${type.color.light}"`);
+      yamlLines.push(`    darkColor: "${type.color.dark}"`);
+      if (type.description) {
+        yamlLines.push(`    description: ${escapeYaml(type.description)}`);
+      }
+    });
+  }
+
   if (annotationList.length > 0) {
     yamlLines.push("annotations:");
     annotationList.forEach((ann) => {
@@ -2752,6 +3430,9 @@ export function generateAnnotatedMarkdown(
       if (ann.addedBy) {
         yamlLines.push(`    addedBy: ${escapeYaml(ann.addedBy)}`);
       }
+      if (ann.sourceModel) {
+        yamlLines.push(`    sourceModel: ${escapeYaml(ann.sourceModel)}`);
+      }
     });
   }
 
@@ -2799,14 +3480,42 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
   let filename = "";
   let language = "";
   let exportedAt = "";
-  const annotations: Array<{ line: number; endLine?: number; type: LineAnnotationType; content: string; addedBy?: string }> = [];
+  const annotations: Array<{ line: number; endLine?: number; type: LineAnnotationType; content: string; addedBy?: string; sourceModel?: string }> = [];
+
+  let currentAnnotation: { line?: number; endLine?: number; type?: LineAnnotationType; content?: string; addedBy?: string; sourceModel?: string } | null = null;
+  // Raw annotation-types entries, normalised once parsed
+  const typeEntries: Array<{ id: string; label?: string; prefix?: string; color: { light?: string; dark?: string }; description?: string }> = [];
+  let inTypes = false;
 
-  let currentAnnotation: { line?: number; endLine?: number; type?: LineAnnotationType; content?: string; addedBy?: string } | null = null;
+  const unquote = (value: string) =>
+    value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\"/g, '"') : value;
+  const fieldValue = (trimmed: string, key: string) => unquote(trimmed.slice(key.length + 1).trim());
 
   for (const line of lines) {
     const trimmed = line.trim();
     if (!trimmed) continue;
 
+    if (trimmed === "annotation-types:") {
+      inTypes = true;
+      continue;
+    }
+    if (inTypes) {
+      const entry = typeEntries[typeEntries.length - 1];
+      if (trimmed.startsWith("- id:")) {
+        typeEntries.push({ id: unquote(trimmed.replace("- id:", "").trim()), color: {} });
+        continue;
+      }
+      if (entry && line.startsWith("    ")) {
+        if (trimmed.startsWith("label:")) entry.label = fieldValue(trimmed, "label");
+        else if (trimmed.startsWith("prefix:")) entry.prefix = fieldValue(trimmed, "prefix");
+        else if (trimmed.startsWith("color:")) entry.color.light = fieldValue(trimmed, "color");
+        else if (trimmed.startsWith("darkColor:")) entry.color.dark = fieldValue(trimmed, "darkColor");
+        else if (trimmed.startsWith("description:")) entry.description = fieldValue(trimmed, "description");
+        continue;
+      }
+      inTypes = false;
+    }
+
     // Check for annotation list item
     if (trimmed.startsWith("- line:")) {
       // Save previous annotation
@@ -2817,6 +3526,7 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
           type: currentAnnotation.type,
           content: currentAnnotation.content,
           addedBy: currentAnnotation.addedBy,
+          sourceModel: currentAnnotation.sourceModel,
         });
       }
       currentAnnotation = { line: parseInt(trimmed.replace("- line:", "").trim(), 10) };
@@ -2829,8 +3539,8 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
         continue;
       }
       if (trimmed.startsWith("type:")) {
-        const typeValue = trimmed.replace("type:", "").trim() as LineAnnotationType;
-        if (["observation", "question", "metaphor", "pattern", "context", "critique"].includes(typeValue)) {
+        const typeValue = unquote(trimmed.replace("type:", "").trim());
+        if (typeValue) {
           currentAnnotation.type = typeValue;
         }
         continue;
@@ -2853,6 +3563,14 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
         currentAnnotation.addedBy = addedByValue;
         continue;
       }
+      if (trimmed.startsWith("sourceModel:")) {
+        let sourceModelValue = trimmed.replace("sourceModel:", "").trim();
+        if (sourceModelValue.startsWith('"') && sourceModelValue.endsWith('"')) {
+          sourceModelValue = sourceModelValue.slice(1, -1).replace(/\\"/g, '"');
+        }
+        currentAnnotation.sourceModel = sourceModelValue;
+        continue;
+      }
     }
 
     // Parse top-level fields
@@ -2877,6 +3595,7 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
       type: currentAnnotation.type,
       content: currentAnnotation.content,
       addedBy: currentAnnotation.addedBy,
+      sourceModel: currentAnnotation.sourceModel,
     });
   }
 
@@ -2895,6 +3614,7 @@ export function parseAnnotatedMarkdown(content: string): ParsedAnnotatedMarkdown
       filename,
       language,
       exportedAt,
+      annotationTypes: normalizeAnnotationTaxonomy(typeEntries),
       annotations,
     },
     code,
@@ -24,8 +24,14 @@ import { useAppSettings } from "@/context/AppSettingsContext";
 import { CODE_FONT_OPTIONS } from "@/types/app-settings";
 import { getCCSTheme, getFontSizeTheme, getFontFamilyTheme } from "./cm-theme";
 import { loadLanguage, normaliseLanguage, getLanguageColor } from "./cm-languages";
-import { createSimpleAnnotationsExtension, createAnnotateGutter, createHighlightAnnotatedLinesExtension, createSubtleAnnotationHighlightExtension, InlineEditState, InlineEditCallbacks } from "./cm-annotations";
-import type { LineAnnotation, LineAnnotationType, AnnotationDisplaySettings } from "@/types";
+import { createSimpleAnnotationsExtension, createDraftAnnotationsExtension, createAnnotateGutter, createHighlightAnnotatedLinesExtension, createSubtleAnnotationHighlightExtension, InlineEditState, InlineEditCallbacks, DraftAnnotation, DraftAnnotationCallbacks } from "./cm-annotations";
+import type { LineAnnotation, LineAnnotationType, AnnotationDisplaySettings, AnnotationTypeDefinition, AnnotationStatus, CodebookCode } from "@/types";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types";
+import type { MentionCandidate } from "@/lib/annotation-status";
+
+// Shared defaults so annotation widgets compare equal between renders
+const EMPTY_CODEBOOK: CodebookCode[] = [];
+const EMPTY_MENTION_CANDIDATES: MentionCandidate[] = [];
 
 export interface CodeMirrorEditorProps {
   /** The code content to display */
@@ -56,6 +62,8 @@ export interface CodeMirrorEditorProps {
   showDiscoveryAnimation?: boolean;
   /** Key that increments to force animation restart (for same-type file switching) */
   animationTriggerKey?: number;
+  /** Project's annotation types (labels, prefixes, colours) */
+  annotationTaxonomy?: AnnotationTypeDefinition[];
   /** Annotation type to highlight (briefly increases brightness of matching annotations) */
   highlightedAnnotationType?: LineAnnotationType | null;
   /** Annotation display settings (brightness, badge visibility, etc.) */
@@ -82,6 +90,24 @@ export interface CodeMirrorEditorProps {
   onCloseReplyInput?: () => void;
   /** Whether we're in a cloud project (enables reply functionality) */
   isInProject?: boolean;
+  /** The project's codebook, for the code chips on annotations */
+  codebook?: CodebookCode[];
+  /** Callback to apply codes to an annotation */
+  onEditAnnotationCodes?: (id: string) => void;
+  /** Project members who can be @mentioned in annotations and replies */
+  mentionCandidates?: MentionCandidate[];
+  /** Callback to set an annotation's discussion status */
+  onSetAnnotationStatus?: (id: string, status: AnnotationStatus | undefined) => void;
+  /** Suggested annotations awaiting accept/edit/reject */
+  draftAnnotations?: DraftAnnotation[];
+  /** Callbacks for reviewing suggested annotations */
+  draftCallbacks?: DraftAnnotationCallbacks;
+  /** ID of the draft currently open in the inline editor (hidden while editing) */
+  editingDraftId?: string | null;
+  /** Callback when the selected line range changes (null when nothing is selected) */
+  onSelectionChange?: (range: { lineNumber: number; endLineNumber: number } | null) => void;
+  /** Line range to scroll to and select; a new key repeats the reveal for the same range */
+  revealRange?: { lineNumber: number; endLineNumber?: number; key: number } | null;
   /** CSS class for the container */
   className?: string;
 }
@@ -100,9 +126,11 @@ export function CodeMirrorEditor({
   inlineEditCallbacks,
   showDiscoveryAnimation = false,
   animationTriggerKey = 0,
+  annotationTaxonomy = DEFAULT_ANNOTATION_TAXONOMY,
   highlightedAnnotationType,
   annotationDisplaySettings,
   onCursorPositionChange,
+  onSelectionChange,
   newRemoteAnnotationIds,
   userInitials,
   expandedAnnotationId,
@@ -113,6 +141,14 @@ export function CodeMirrorEditor({
   onOpenReplyInput,
   onCloseReplyInput,
   isInProject,
+  codebook = EMPTY_CODEBOOK,
+  onEditAnnotationCodes,
+  mentionCandidates = EMPTY_MENTION_CANDIDATES,
+  onSetAnnotationStatus,
+  draftAnnotations = [],
+  draftCallbacks,
+  editingDraftId,
+  revealRange,
   className,
 }: CodeMirrorEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -135,6 +171,7 @@ export function CodeMirrorEditor({
   const gutterCompartment = useRef(new Compartment());
   const highlightLinesCompartment = useRef(new Compartment());
   const subtleHighlightCompartment = useRef(new Compartment());
+  const draftsCompartment = useRef(new Compartment());
 
   // Track if this is the initial mount to prevent double updates
   const isInitialMount = useRef(true);
@@ -147,6 +184,7 @@ export function CodeMirrorEditor({
   const readOnlyRef = useRef(readOnly);
   const onChangeRef = useRef(onChange);
   const onCursorPositionChangeRef = useRef(onCursorPositionChange);
+  const onSelectionChangeRef = useRef(onSelectionChange);
 
   // Keep refs in sync with props
   useEffect(() => {
@@ -161,6 +199,10 @@ export function CodeMirrorEditor({
     onCursorPositionChangeRef.current = onCursorPositionChange;
   }, [onCursorPositionChange]);
 
+  useEffect(() => {
+    onSelectionChangeRef.current = onSelectionChange;
+  }, [onSelectionChange]);
+
   // Memoize handlers to prevent recreation
   const stableOnEdit = useCallback(
     (id: string) => onEditAnnotation?.(id),
@@ -231,6 +273,7 @@ export function CodeMirrorEditor({
               stableOnEdit,
               stableOnDelete,
               isDark,
+              annotationTaxonomy,
               inlineEditState,
               inlineEditCallbacks,
               highlightedAnnotationType,
@@ -244,20 +287,30 @@ export function CodeMirrorEditor({
               replyInputOpenFor,
               onOpenReplyInput,
               onCloseReplyInput,
-              isInProject
+              isInProject,
+              codebook,
+              onEditAnnotationCodes,
+              mentionCandidates,
+              onSetAnnotationStatus
             )
           : []
       ),
+      // Suggested annotations awaiting review (annotate mode only)
+      draftsCompartment.current.of(
+        readOnly
+          ? createDraftAnnotationsExtension(draftAnnotations, draftCallbacks, isDark, annotationTaxonomy, editingDraftId)
+          : []
+      ),
       // Highlight annotated lines extension (dims non-annotated lines, colours annotated lines by type)
       highlightLinesCompartment.current.of(
         annotationDisplaySettings?.highlightAnnotatedLines
-          ? createHighlightAnnotatedLinesExtension(annotations, true, isDark)
+          ? createHighlightAnnotatedLinesExtension(annotations, annotationTaxonomy, true, isDark)
           : []
       ),
       // Subtle permanent highlight for annotated lines (controlled by lineHighlightIntensity setting)
       subtleHighlightCompartment.current.of(
         readOnly && annotationDisplaySettings?.visible && annotationDisplaySettings?.lineHighlightIntensity && annotationDisplaySettings.lineHighlightIntensity !== "off"
-          ? createSubtleAnnotationHighlightExtension(annotations, isDark, annotationDisplaySettings.lineHighlightIntensity)
+          ? createSubtleAnnotationHighlightExtension(annotations, annotationTaxonomy, isDark, annotationDisplaySettings.lineHighlightIntensity)
           : []
       ),
       // Update listener for content changes
@@ -279,6 +332,19 @@ export function CodeMirrorEditor({
           const column = pos - line.from + 1; // 1-based column
           onCursorPositionChangeRef.current(lineNumber, column);
         }
+        // Report the lines covered by a non-empty selection
+        if (update.selectionSet && onSelectionChangeRef.current) {
+          const { from, to, empty } = update.state.selection.main;
+          onSelectionChangeRef.current(
+            empty
+              ? null
+              : {
+                  lineNumber: update.state.doc.lineAt(from).number,
+                  // A selection ending at the start of a line doesn't include that line
+                  endLineNumber: update.state.doc.lineAt(to > from && update.state.doc.lineAt(to).from === to ? to - 1 : to).number,
+                }
+          );
+        }
       }),
       // Mouse move handler for real-time position tracking on hover
       EditorView.domEventHandlers({
@@ -354,6 +420,20 @@ export function CodeMirrorEditor({
     }
   }, [value]);
 
+  // Scroll a requested line range into view and select it (runs after the value sync above)
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !revealRange) return;
+    const doc = view.state.doc;
+    if (revealRange.lineNumber > doc.lines) return;
+    const from = doc.line(revealRange.lineNumber).from;
+    const to = doc.line(Math.min(revealRange.endLineNumber ?? revealRange.lineNumber, doc.lines)).to;
+    view.dispatch({
+      selection: { anchor: from, head: to },
+      effects: EditorView.scrollIntoView(from, { y: "center" }),
+    });
+  }, [revealRange]);
+
   // Update theme when effectiveTheme changes
   useEffect(() => {
     if (isInitialMount.current) return;
@@ -431,6 +511,7 @@ export function CodeMirrorEditor({
               stableOnEdit,
               stableOnDelete,
               isDark,
+              annotationTaxonomy,
               inlineEditState,
               inlineEditCallbacks,
               highlightedAnnotationType,
@@ -444,12 +525,28 @@ export function CodeMirrorEditor({
               replyInputOpenFor,
               onOpenReplyInput,
               onCloseReplyInput,
-              isInProject
+              isInProject,
+              codebook,
+              onEditAnnotationCodes,
+              mentionCandidates,
+              onSetAnnotationStatus
             )
           : []
       ),
     });
-  }, [annotations, readOnly, stableOnEdit, stableOnDelete, isDark, inlineEditState, inlineEditCallbacks, highlightedAnnotationType, annotationDisplaySettings, newRemoteAnnotationIds, userInitials, expandedAnnotationId, onToggleReplies, onAddReply, onDeleteReply, replyInputOpenFor, onOpenReplyInput, onCloseReplyInput]);
+  }, [annotations, readOnly, stableOnEdit, stableOnDelete, isDark, annotationTaxonomy, inlineEditState, inlineEditCallbacks, highlightedAnnotationType, annotationDisplaySettings, newRemoteAnnotationIds, userInitials, expandedAnnotationId, onToggleReplies, onAddReply, onDeleteReply, replyInputOpenFor, onOpenReplyInput, onCloseReplyInput, codebook, onEditAnnotationCodes, mentionCandidates, onSetAnnotationStatus]);
+
+  // Update suggested annotations when drafts change
+  useEffect(() => {
+    if (isInitialMount.current) return;
+    viewRef.current?.dispatch({
+      effects: draftsCompartment.current.reconfigure(
+        readOnly
+          ? createDraftAnnotationsExtension(draftAnnotations, draftCallbacks, isDark, annotationTaxonomy, editingDraftId)
+          : []
+      ),
+    });
+  }, [draftAnnotations, draftCallbacks, readOnly, isDark, annotationTaxonomy, editingDraftId]);
 
   // Update highlight annotated lines extension when setting or annotations change
   useEffect(() => {
@@ -457,11 +554,11 @@ export function CodeMirrorEditor({
     viewRef.current?.dispatch({
       effects: highlightLinesCompartment.current.reconfigure(
         annotationDisplaySettings?.highlightAnnotatedLines
-          ? createHighlightAnnotatedLinesExtension(annotations, true, isDark)
+          ? createHighlightAnnotatedLinesExtension(annotations, annotationTaxonomy, true, isDark)
           : []
       ),
     });
-  }, [annotations, annotationDisplaySettings?.highlightAnnotatedLines, isDark]);
+  }, [annotations, annotationTaxonomy, annotationDisplaySettings?.highlightAnnotatedLines, isDark]);
 
   // Update subtle highlight extension when annotations or visibility/intensity changes
   useEffect(() => {
@@ -469,11 +566,11 @@ export function CodeMirrorEditor({
     viewRef.current?.dispatch({
       effects: subtleHighlightCompartment.current.reconfigure(
         readOnly && annotationDisplaySettings?.visible && annotationDisplaySettings?.lineHighlightIntensity && annotationDisplaySettings.lineHighlightIntensity !== "off"
-          ? createSubtleAnnotationHighlightExtension(annotations, isDark, annotationDisplaySettings.lineHighlightIntensity)
+          ? createSubtleAnnotationHighlightExtension(annotations, annotationTaxonomy, isDark, annotationDisplaySettings.lineHighlightIntensity)
           : []
       ),
     });
-  }, [annotations, readOnly, annotationDisplaySettings?.visible, annotationDisplaySettings?.lineHighlightIntensity, isDark]);
+  }, [annotations, annotationTaxonomy, readOnly, annotationDisplaySettings?.visible, annotationDisplaySettings?.lineHighlightIntensity, isDark]);
 
   return (
     <div
@@ -0,0 +1,406 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CornerDownRight, ListTree, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CodebookCode, CodeReference, LineAnnotation } from "@/types";
+import {
+  codeCooccurrence,
+  codeFrequencies,
+  createCodebookCode,
+  flattenCodebook,
+  getCodeColor,
+  removeCodebookCode,
+  validateCodebook,
+  wouldCreateCodeCycle,
+} from "@/lib/codebook";
+
+type CodebookTab = "codes" | "frequencies" | "cooccurrence";
+
+interface CodebookPanelProps {
+  codebook: CodebookCode[];
+  annotations: LineAnnotation[];   // Every annotation in the project
+  codeFiles: CodeReference[];
+  selectedFileId?: string | null;  // File the frequency and co-occurrence views open on
+  onSave: (codebook: CodebookCode[]) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * The project's codebook: manage the code tree, and see how often each code is applied
+ * and which codes are applied together, for one file or the whole project.
+ */
+export function CodebookPanel({
+  codebook,
+  annotations,
+  codeFiles,
+  selectedFileId,
+  onSave,
+  onClose,
+  readOnly = false,
+}: CodebookPanelProps) {
+  const [activeTab, setActiveTab] = useState<CodebookTab>("codes");
+  const [codes, setCodes] = useState<CodebookCode[]>(() => codebook.map((c) => ({ ...c })));
+  const [newName, setNewName] = useState("");
+  // "" = every file in the project
+  const [scopeFileId, setScopeFileId] = useState<string>(selectedFileId ?? "");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const rows = useMemo(() => flattenCodebook(codes), [codes]);
+  const problems = useMemo(() => validateCodebook(codes), [codes]);
+  const isDirty = JSON.stringify(codes) !== JSON.stringify(codebook);
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const ann of annotations) {
+      for (const id of ann.codes || []) counts.set(id, (counts.get(id) || 0) + 1);
+    }
+    return counts;
+  }, [annotations]);
+
+  // Codes removed from the draft that annotations still carry
+  const removedInUse = useMemo(
+    () => codebook.filter((c) => (usage.get(c.id) || 0) > 0 && !codes.some((k) => k.id === c.id)),
+    [codebook, codes, usage]
+  );
+
+  // The saved codebook drives the statistics, so they match what is on the annotations
+  const scopedAnnotations = useMemo(
+    () => (scopeFileId ? annotations.filter((a) => a.codeFileId === scopeFileId) : annotations),
+    [annotations, scopeFileId]
+  );
+  const frequencies = useMemo(() => codeFrequencies(scopedAnnotations, codebook), [scopedAnnotations, codebook]);
+  const codedCount = useMemo(
+    () => scopedAnnotations.filter((a) => a.codes && a.codes.length > 0).length,
+    [scopedAnnotations]
+  );
+  // Only codes applied in scope get a row and column, so the matrix stays readable
+  const matrixCodes = useMemo(() => frequencies.filter((f) => f.direct > 0), [frequencies]);
+  const matrix = useMemo(
+    () => codeCooccurrence(scopedAnnotations, matrixCodes.map((f) => f.code.id)),
+    [scopedAnnotations, matrixCodes]
+  );
+  const matrixMax = Math.max(1, ...matrix.flatMap((row, i) => row.filter((_, j) => j !== i)));
+
+  const updateCode = (id: string, updates: Partial<CodebookCode>) => {
+    setCodes((prev) => prev.map((c) => (c.id === id ? { ...c, ...updates } : c)));
+  };
+
+  const addCode = (parentId?: string) => {
+    const name = parentId ? "New code" : newName;
+    if (!name.trim()) return;
+    setCodes((prev) => [...prev, createCodebookCode(name, [...prev, ...codebook], parentId)]);
+    if (!parentId) setNewName("");
+  };
+
+  const handleSave = () => {
+    if (problems.length > 0) return;
+    onSave(codes.map((c) => ({ ...c, name: c.name.trim() })));
+    onClose();
+  };
+
+  const inputClass = "px-1.5 py-1 bg-card border border-parchment rounded-sm font-sans text-[11px] text-ink focus:outline-none focus:border-burgundy/40 disabled:opacity-60";
+  const tabClass = (tab: CodebookTab) =>
+    cn(
+      "px-3 py-1 rounded-sm font-sans text-[11px] font-medium transition-colors",
+      activeTab === tab ? "bg-burgundy text-white" : "bg-burgundy/10 text-burgundy hover:bg-burgundy/20"
+    );
+
+  const scopeSelect = (
+    <div className="flex items-center gap-2 font-sans text-[11px] text-slate-muted">
+      <span>Annotations in</span>
+      <select value={scopeFileId} onChange={(e) => setScopeFileId(e.target.value)} className={inputClass}>
+        <option value="">All files</option>
+        {codeFiles.map((file) => (
+          <option key={file.id} value={file.id}>{file.name}</option>
+        ))}
+      </select>
+      <span className="ml-auto">
+        {codedCount} of {scopedAnnotations.length} coded
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover rounded-sm shadow-lg w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-parchment">
+          <h3 className="flex items-center gap-2 font-display text-caption text-ink">
+            <ListTree className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            Codebook
+          </h3>
+          <p className="mt-1 font-sans text-[10px] text-slate-muted">
+            Codes for qualitative coding. An annotation can carry several; counts for a code include the codes nested beneath it.
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button onClick={() => setActiveTab("codes")} className={tabClass("codes")}>Codes</button>
+            <button onClick={() => setActiveTab("frequencies")} className={tabClass("frequencies")}>Frequencies</button>
+            <button onClick={() => setActiveTab("cooccurrence")} className={tabClass("cooccurrence")}>Co-occurrence</button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 space-y-2 overflow-auto">
+          {activeTab === "codes" && (
+            <>
+              {rows.length === 0 && (
+                <p className="font-sans text-[11px] text-slate-muted">
+                  No codes yet. Add top-level codes below, then nest more specific codes beneath them.
+                </p>
+              )}
+              {rows.map(({ code, depth }) => (
+                <div
+                  key={code.id}
+                  className="p-2 border border-parchment rounded-sm space-y-1.5"
+                  style={{ marginLeft: depth * 16 }}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={getCodeColor(codes, code.id)}
+                      onChange={(e) => updateCode(code.id, { color: e.target.value })}
+                      disabled={readOnly}
+                      title={code.color ? "Colour" : "Colour (inherited from the parent code)"}
+                      className="w-6 h-6 p-0 border border-parchment rounded-sm bg-transparent cursor-pointer disabled:cursor-default"
+                    />
+                    <input
+                      value={code.name}
+                      onChange={(e) => updateCode(code.id, { name: e.target.value })}
+                      disabled={readOnly}
+                      placeholder="Name"
+                      className={cn(inputClass, "flex-1 min-w-0")}
+                    />
+                    <select
+                      value={code.parentId ?? ""}
+                      onChange={(e) => updateCode(code.id, { parentId: e.target.value || undefined })}
+                      disabled={readOnly}
+                      title="Parent code"
+                      className={cn(inputClass, "max-w-[9rem]")}
+                    >
+                      <option value="">Top level</option>
+                      {rows
+                        .filter((r) => !wouldCreateCodeCycle(codes, code.id, r.code.id))
+                        .map((r) => (
+                          <option key={r.code.id} value={r.code.id}>{"\u00a0\u00a0".repeat(r.depth)}{r.code.name}</option>
+                        ))}
+                    </select>
+                    <span className="w-14 font-sans text-[9px] text-slate-muted text-right" title="Annotations with this code">
+                      {usage.get(code.id) || 0} in use
+                    </span>
+                    {!readOnly && (
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => addCode(code.id)}
+                          className="p-0.5 text-slate-muted hover:text-ink"
+                          title="Add a code beneath this one"
+                        >
+                          <CornerDownRight className="h-3 w-3" strokeWidth={1.5} />
+                        </button>
+                        <button
+                          onClick={() => setCodes((prev) => removeCodebookCode(prev, code.id))}
+                          className="p-0.5 text-slate-muted hover:text-burgundy"
+                          title="Remove code (codes beneath it move up a level)"
+                        >
+                          <Trash2 className="h-3 w-3" strokeWidth={1.5} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <input
+                    value={code.description ?? ""}
+                    onChange={(e) => updateCode(code.id, { description: e.target.value || undefined })}
+                    disabled={readOnly}
+                    placeholder="When to apply this code"
+                    className={cn(inputClass, "w-full")}
+                  />
+                </div>
+              ))}
+
+              {!readOnly && (
+                <div className="flex items-center gap-2 pt-1">
+                  <input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") addCode();
+                    }}
+                    placeholder="New top-level code"
+                    className={cn(inputClass, "flex-1")}
+                  />
+                  <button
+                    onClick={() => addCode()}
+                    disabled={!newName.trim()}
+                    className="flex items-center gap-1 px-2 py-1 font-sans text-[11px] text-slate hover:text-ink disabled:opacity-50 transition-colors"
+                  >
+                    <Plus className="h-3 w-3" strokeWidth={1.5} />
+                    Add code
+                  </button>
+                </div>
+              )}
+
+              {removedInUse.map((removed) => (
+                <p key={removed.id} className="font-sans text-[11px] text-slate-muted">
+                  &ldquo;{removed.name}&rdquo; will be removed from {usage.get(removed.id)} annotation{usage.get(removed.id) !== 1 ? "s" : ""}.
+                </p>
+              ))}
+
+              {problems.length > 0 && (
+                <ul className="space-y-0.5">
+                  {problems.map((problem) => (
+                    <li key={problem} className="flex items-center gap-1 font-sans text-[10px] text-error">
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" strokeWidth={1.5} />
+                      {problem}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+
+          {activeTab === "frequencies" && (
+            <>
+              {scopeSelect}
+              {isDirty && (
+                <p className="font-sans text-[10px] text-slate-muted">Unsaved codebook changes are not counted yet.</p>
+              )}
+              {frequencies.length === 0 ? (
+                <p className="font-sans text-[11px] text-slate-muted">The codebook is empty.</p>
+              ) : (
+                <table className="w-full font-sans text-[11px] text-ink">
+                  <thead>
+                    <tr className="text-[9px] uppercase tracking-wider text-slate-muted text-left">
+                      <th className="py-1 font-normal">Code</th>
+                      <th className="py-1 font-normal text-right w-14" title="Annotations coded with exactly this code">Direct</th>
+                      <th className="py-1 font-normal text-right w-14" title="Including the codes nested beneath it">Total</th>
+                      <th className="py-1 w-1/3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {frequencies.map(({ code, depth, direct, total }) => {
+                      const color = getCodeColor(codebook, code.id);
+                      return (
+                        <tr key={code.id} className="border-t border-parchment/50">
+                          <td className="py-1" style={{ paddingLeft: depth * 14 }} title={code.description}>
+                            <span className="inline-block w-2 h-2 mr-1.5 rounded-full" style={{ backgroundColor: color }} />
+                            {code.name}
+                          </td>
+                          <td className="py-1 text-right font-mono text-[10px]">{direct}</td>
+                          <td className="py-1 text-right font-mono text-[10px]">{total}</td>
+                          <td className="py-1 pl-3">
+                            <div
+                              className="h-1.5 rounded-full"
+                              style={{
+                                width: `${scopedAnnotations.length > 0 ? (total / scopedAnnotations.length) * 100 : 0}%`,
+                                backgroundColor: color,
+                              }}
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+
+          {activeTab === "cooccurrence" && (
+            <>
+              {scopeSelect}
+              {matrixCodes.length < 2 ? (
+                <p className="font-sans text-[11px] text-slate-muted">
+                  Co-occurrence needs at least two codes applied in these annotations.
+                </p>
+              ) : (
+                <div className="overflow-auto">
+                  <table className="font-sans text-[10px] text-ink border-collapse">
+                    <thead>
+                      <tr>
+                        <th />
+                        {matrixCodes.map(({ code }) => (
+                          <th
+                            key={code.id}
+                            className="px-1 pb-1 font-normal text-slate-muted align-bottom"
+                            title={code.name}
+                          >
+                            <span className="block max-w-[4rem] truncate [writing-mode:vertical-rl] rotate-180">{code.name}</span>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {matrixCodes.map(({ code }, i) => (
+                        <tr key={code.id}>
+                          <th className="pr-2 font-normal text-left text-slate-muted whitespace-nowrap max-w-[10rem] truncate" title={code.name}>
+                            {code.name}
+                          </th>
+                          {matrix[i].map((count, j) => {
+                            const isDiagonal = i === j;
+                            const color = getCodeColor(codebook, code.id);
+                            return (
+                              <td
+                                key={matrixCodes[j].code.id}
+                                className={cn(
+                                  "w-7 h-7 text-center font-mono border border-parchment/60",
+                                  isDiagonal && "text-slate-muted italic"
+                                )}
+                                style={
+                                  !isDiagonal && count > 0
+                                    ? { backgroundColor: `${color}${Math.round(20 + (count / matrixMax) * 60).toString(16).padStart(2, "0")}` }
+                                    : undefined
+                                }
+                                title={
+                                  isDiagonal
+                                    ? `${count} annotation${count !== 1 ? "s" : ""} coded ${code.name}`
+                                    : `${count} annotation${count !== 1 ? "s" : ""} coded both ${code.name} and ${matrixCodes[j].code.name}`
+                                }
+                              >
+                                {count > 0 ? count : ""}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 font-sans text-[10px] text-slate-muted">
+                    Each cell counts annotations carrying both codes; the diagonal is each code&apos;s own count.
+                    {codebook.some((c) => c.parentId) && " Parent codes count only annotations coded with them directly."}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-parchment">
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1.5 font-sans text-caption text-slate hover:text-ink transition-colors"
+          >
+            {readOnly || !isDirty ? "Close" : "Cancel"}
+          </button>
+          {!readOnly && (
+            <button
+              onClick={handleSave}
+              disabled={problems.length > 0 || !isDirty}
+              className="px-3 py-1.5 font-sans text-caption font-medium rounded-sm border text-accent border-accent/30 hover:bg-accent/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+            >
+              Save codebook
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Link2, Trash2 } from "lucide-react";
+import type { AnnotationTypeDefinition, CodeReference, LineAnnotation, LineAnnotationType } from "@/types";
+import { getAnnotationTypeLabel } from "@/lib/annotation-taxonomy";
+import { linkedRangeAsAnnotation } from "@/lib/annotation-anchoring";
+import { CodeDiffViewer, type DiffLineRange } from "./CodeDiffViewer";
+
+interface ComparativeReadingPanelProps {
+  files: CodeReference[];
+  codeContents: Map<string, string>;
+  annotations: LineAnnotation[];
+  annotationTypes: AnnotationTypeDefinition[];
+  initialFileIdA: string;
+  onAddLinkAnnotation: (annotation: Omit<LineAnnotation, "id" | "createdAt">) => void;
+  onRemoveAnnotation: (id: string) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+function formatRange(start: number, end?: number): string {
+  return end && end !== start ? `L${start}-${end}` : `L${start}`;
+}
+
+function sliceLines(content: string, range: DiffLineRange): string {
+  return content.split("\n").slice(range.start - 1, range.end).join("\n");
+}
+
+// A file's own annotations plus the linked ranges of link annotations from other files
+function fileAnnotations(annotations: LineAnnotation[], fileId: string): LineAnnotation[] {
+  return [
+    ...annotations.filter((a) => a.codeFileId === fileId),
+    ...annotations
+      .filter((a) => a.link?.codeFileId === fileId && !a.link.orphaned)
+      .map((a) => linkedRangeAsAnnotation(a)),
+  ];
+}
+
+/**
+ * Comparative reading of two session files, e.g. two ELIZA variants or two AGC builds.
+ * The files are aligned in a diff with each one's annotations in its gutter, and a
+ * link annotation can connect a range in one file to a range in the other.
+ */
+export function ComparativeReadingPanel({
+  files,
+  codeContents,
+  annotations,
+  annotationTypes,
+  initialFileIdA,
+  onAddLinkAnnotation,
+  onRemoveAnnotation,
+  onClose,
+  readOnly = false,
+}: ComparativeReadingPanelProps) {
+  const [fileIdA, setFileIdA] = useState(initialFileIdA);
+  const [fileIdB, setFileIdB] = useState(
+    () => files.find((f) => f.id !== initialFileIdA)?.id ?? initialFileIdA
+  );
+  const [selectionA, setSelectionA] = useState<DiffLineRange | null>(null);
+  const [selectionB, setSelectionB] = useState<DiffLineRange | null>(null);
+  const [linkType, setLinkType] = useState<LineAnnotationType>(annotationTypes[0]?.id ?? "observation");
+  const [linkContent, setLinkContent] = useState("");
+
+  // Close on escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // Selections refer to line numbers of the files they were made in
+  useEffect(() => {
+    setSelectionA(null);
+    setSelectionB(null);
+  }, [fileIdA, fileIdB]);
+
+  const fileA = files.find((f) => f.id === fileIdA);
+  const fileB = files.find((f) => f.id === fileIdB);
+  const contentA = codeContents.get(fileIdA) ?? "";
+  const contentB = codeContents.get(fileIdB) ?? "";
+
+  const annotationsA = useMemo(() => fileAnnotations(annotations, fileIdA), [annotations, fileIdA]);
+  const annotationsB = useMemo(() => fileAnnotations(annotations, fileIdB), [annotations, fileIdB]);
+
+  // Link annotations between these two files, in either direction
+  const links = useMemo(
+    () =>
+      annotations
+        .filter(
+          (a) =>
+            a.link &&
+            ((a.codeFileId === fileIdA && a.link.codeFileId === fileIdB) ||
+              (a.codeFileId === fileIdB && a.link.codeFileId === fileIdA))
+        )
+        .sort((x, y) => x.createdAt.localeCompare(y.createdAt)),
+    [annotations, fileIdA, fileIdB]
+  );
+
+  const handleLineSelect = (side: "a" | "b", lineNumber: number, extend: boolean) => {
+    const setSelection = side === "a" ? setSelectionA : setSelectionB;
+    setSelection((prev) =>
+      extend && prev
+        ? { start: Math.min(prev.start, lineNumber), end: Math.max(prev.end, lineNumber) }
+        : { start: lineNumber, end: lineNumber }
+    );
+  };
+
+  // Select both ranges of an existing link
+  const handleSelectLink = (ann: LineAnnotation) => {
+    if (!ann.link) return;
+    const own = { start: ann.lineNumber, end: ann.endLineNumber ?? ann.lineNumber };
+    const linked = { start: ann.link.lineNumber, end: ann.link.endLineNumber ?? ann.link.lineNumber };
+    const ownIsA = ann.codeFileId === fileIdA;
+    setSelectionA(ownIsA ? own : linked);
+    setSelectionB(ownIsA ? linked : own);
+  };
+
+  const canAddLink = !readOnly && !!selectionA && !!selectionB && !!linkContent.trim() && fileIdA !== fileIdB;
+
+  const handleAddLink = () => {
+    if (!canAddLink || !selectionA || !selectionB) return;
+    onAddLinkAnnotation({
+      codeFileId: fileIdA,
+      lineNumber: selectionA.start,
+      endLineNumber: selectionA.end > selectionA.start ? selectionA.end : undefined,
+      lineContent: sliceLines(contentA, selectionA),
+      type: linkType,
+      content: linkContent.trim(),
+      link: {
+        codeFileId: fileIdB,
+        lineNumber: selectionB.start,
+        endLineNumber: selectionB.end > selectionB.start ? selectionB.end : undefined,
+        lineContent: sliceLines(contentB, selectionB),
+      },
+    });
+    setLinkContent("");
+    setSelectionA(null);
+    setSelectionB(null);
+  };
+
+  const fileSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="block">
+      <span className="font-sans text-[9px] uppercase tracking-wider text-slate-muted">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-0.5 w-full px-2 py-1 font-sans text-[11px] text-ink bg-card border border-parchment rounded-sm focus:outline-none focus:ring-1 focus:ring-burgundy"
+      >
+        {files.map((f) => (
+          <option key={f.id} value={f.id}>{f.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-popover rounded-sm shadow-lg w-[92vw] h-[85vh] flex overflow-hidden modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Files and links */}
+        <div className="w-64 flex-shrink-0 border-r border-parchment flex flex-col">
+          <div className="flex items-center gap-2 px-3 py-3 border-b border-parchment bg-cream/50">
+            <Link2 className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            <h3 className="font-display text-sm text-ink">Comparative Reading</h3>
+          </div>
+          <div className="px-3 py-2 space-y-2 border-b border-parchment">
+            {fileSelect(fileIdA, setFileIdA, "Left")}
+            {fileSelect(fileIdB, setFileIdB, "Right")}
+          </div>
+
+          {/* New link */}
+          {!readOnly && (
+            <div className="px-3 py-2 space-y-1.5 border-b border-parchment">
+              <p className="font-sans text-[10px] text-slate-muted">
+                Click line numbers on both sides to choose the ranges to link (shift-click to extend).
+              </p>
+              <p className="font-mono text-[10px] text-ink">
+                {selectionA ? formatRange(selectionA.start, selectionA.end) : "—"}
+                {" ↔ "}
+                {selectionB ? formatRange(selectionB.start, selectionB.end) : "—"}
+              </p>
+              <select
+                value={linkType}
+                onChange={(e) => setLinkType(e.target.value as LineAnnotationType)}
+                className="w-full px-2 py-1 font-sans text-[11px] text-ink bg-card border border-parchment rounded-sm focus:outline-none focus:ring-1 focus:ring-burgundy"
+              >
+                {annotationTypes.map((type) => (
+                  <option key={type.id} value={type.id}>{type.label}</option>
+                ))}
+              </select>
+              <textarea
+                value={linkContent}
+                onChange={(e) => setLinkContent(e.target.value)}
+                placeholder="What connects these passages?"
+                rows={3}
+                className="w-full px-2 py-1 font-sans text-[11px] text-ink bg-card border border-parchment rounded-sm resize-none focus:outline-none focus:ring-1 focus:ring-burgundy"
+              />
+              <button
+                onClick={handleAddLink}
+                disabled={!canAddLink}
+                className="w-full px-2 py-1 font-sans text-[11px] rounded-sm bg-burgundy text-white hover:bg-burgundy/90 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Add link annotation
+              </button>
+            </div>
+          )}
+
+          {/* Existing links between the two files */}
+          <div className="flex-1 overflow-y-auto">
+            {links.length === 0 ? (
+              <p className="px-3 py-3 font-sans text-[10px] text-slate-muted">
+                No link annotations between these files yet.
+              </p>
+            ) : (
+              links.map((ann) => {
+                const link = ann.link!;
+                const ownIsA = ann.codeFileId === fileIdA;
+                const ownRange = formatRange(ann.lineNumber, ann.endLineNumber);
+                const linkedRange = formatRange(link.lineNumber, link.endLineNumber);
+                return (
+                  <div
+                    key={ann.id}
+                    onClick={() => handleSelectLink(ann)}
+                    className="px-3 py-2 border-b border-parchment/50 group cursor-pointer hover:bg-cream/50"
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-mono text-[10px] text-ink">
+                        {ownIsA ? ownRange : linkedRange} ↔ {ownIsA ? linkedRange : ownRange}
+                      </span>
+                      <span className="font-sans text-[8px] uppercase tracking-wider text-slate-muted">
+                        {getAnnotationTypeLabel(annotationTypes, ann.type)}
+                      </span>
+                      {!readOnly && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRemoveAnnotation(ann.id);
+                          }}
+                          className="ml-auto p-0.5 text-slate-muted hover:text-error opacity-0 group-hover:opacity-100 transition-all"
+                          title="Delete link annotation"
+                        >
+                          <Trash2 className="h-3 w-3" strokeWidth={1.5} />
+                        </button>
+                      )}
+                    </div>
+                    <p className="mt-0.5 font-sans text-[10px] text-slate">{ann.content}</p>
+                    {(ann.orphaned || link.orphaned) && (
+                      <p className="font-sans text-[9px] text-amber-600">
+                        A linked range could not be found after an edit
+                      </p>
+                    )}
+                    {ann.addedBy && (
+                      <p className="font-sans text-[9px] text-slate-muted">{ann.addedBy}</p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {/* Aligned files */}
+        <div className="flex-1 min-w-0 p-3">
+          {fileA && fileB && fileIdA !== fileIdB ? (
+            <CodeDiffViewer
+              codeA={contentA}
+              codeB={contentB}
+              labelA={fileA.name}
+              labelB={fileB.name}
+              languageA={fileA.language}
+              languageB={fileB.language}
+              annotationsA={annotationsA}
+              annotationsB={annotationsB}
+              annotationTypes={annotationTypes}
+              selectionA={selectionA}
+              selectionB={selectionB}
+              onLineSelect={handleLineSelect}
+              title="Comparative Reading"
+              onClose={onClose}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center font-sans text-[11px] text-slate-muted">
+              Choose two different files to compare
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { cn, formatDate, formatTimestamp } from "@/lib/utils";
+import { History, RotateCcw } from "lucide-react";
+import type { AnnotationTypeDefinition, CodeReference, FileRevision, LineAnnotation } from "@/types";
+import { getRevisionAnnotations } from "@/lib/file-revisions";
+import { CodeDiffViewer } from "./CodeDiffViewer";
+import { ConfirmDialog } from "../shared/ConfirmDialog";
+
+// Timeline id for the uncommitted working copy
+const WORKING_COPY = "working";
+
+// Fixed-form languages whose card images may carry sequence numbers in columns 73-80
+const PUNCH_CARD_LANGUAGES = ["fortran", "cobol"];
+
+interface FileHistoryPanelProps {
+  file: CodeReference;
+  currentContent: string;
+  revisions: FileRevision[];       // This file's revisions, oldest first
+  annotations: LineAnnotation[];   // This file's annotations
+  annotationTypes?: AnnotationTypeDefinition[];
+  onRestore: (revision: FileRevision) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Revision history for one code file: a timeline of committed revisions, a diff of any
+ * two of them (or the working copy), and restoring an old revision. Each revision's diff
+ * gutter marks the annotations that were written on it.
+ */
+export function FileHistoryPanel({
+  file,
+  currentContent,
+  revisions,
+  annotations,
+  annotationTypes,
+  onRestore,
+  onClose,
+  readOnly = false,
+}: FileHistoryPanelProps) {
+  const head = revisions[revisions.length - 1];
+  const hasWorkingChanges = !head || head.content !== currentContent;
+
+  // Default comparison: head against the working copy, or the last two revisions
+  const [selectedA, setSelectedA] = useState<string | undefined>(() =>
+    hasWorkingChanges ? head?.id : revisions[revisions.length - 2]?.id ?? head?.id
+  );
+  const [selectedB, setSelectedB] = useState<string>(() =>
+    hasWorkingChanges ? WORKING_COPY : head?.id ?? WORKING_COPY
+  );
+  const [restoreTarget, setRestoreTarget] = useState<FileRevision | null>(null);
+
+  // Close on escape (unless the restore confirmation is handling it)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !restoreTarget) onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose, restoreTarget]);
+
+  // Number of annotations written on each revision (those from before the first commit count towards it)
+  const writtenCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const ann of annotations) {
+      const revisionId = ann.revisionId ?? revisions[0]?.id;
+      if (revisionId) counts.set(revisionId, (counts.get(revisionId) || 0) + 1);
+    }
+    return counts;
+  }, [annotations, revisions]);
+
+  const describe = useCallback((id: string | undefined) => {
+    if (id === WORKING_COPY) {
+      return {
+        label: "Working copy",
+        content: currentContent,
+        annotations: annotations.filter((a) => !a.orphaned),
+      };
+    }
+    const index = revisions.findIndex((r) => r.id === id);
+    if (index === -1) return null;
+    const revision = revisions[index];
+    return {
+      label: `Revision ${index + 1}`,
+      content: revision.content,
+      annotations: getRevisionAnnotations(annotations, revisions, revision),
+    };
+  }, [revisions, annotations, currentContent]);
+
+  const sideA = useMemo(() => describe(selectedA), [describe, selectedA]);
+  const sideB = useMemo(() => describe(selectedB), [describe, selectedB]);
+
+  // Timeline entries, newest first
+  const entries = [...revisions].map((revision, i) => ({ revision, number: i + 1 })).reverse();
+
+  const selectButton = (id: string, side: "A" | "B") => {
+    const selected = side === "A" ? selectedA === id : selectedB === id;
+    return (
+      <button
+        onClick={() => (side === "A" ? setSelectedA(id) : setSelectedB(id))}
+        className={cn(
+          "w-4 h-4 rounded-sm font-mono text-[8px] transition-colors",
+          selected
+            ? side === "A" ? "bg-red-600 text-white" : "bg-green-600 text-white"
+            : "text-slate-muted border border-parchment hover:text-ink"
+        )}
+        title={`Compare as ${side === "A" ? "left (old)" : "right (new)"} side`}
+      >
+        {side}
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-ink/40 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-popover rounded-sm shadow-lg w-[92vw] h-[85vh] flex overflow-hidden modal-content"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Timeline */}
+        <div className="w-64 flex-shrink-0 border-r border-parchment flex flex-col">
+          <div className="flex items-center gap-2 px-3 py-3 border-b border-parchment bg-cream/50">
+            <History className="h-4 w-4 text-burgundy" strokeWidth={1.5} />
+            <h3 className="font-display text-sm text-ink truncate" title={file.name}>
+              {file.name}
+            </h3>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {hasWorkingChanges && (
+              <div className="px-3 py-2 border-b border-parchment/50">
+                <div className="flex items-center gap-1.5">
+                  {selectButton(WORKING_COPY, "A")}
+                  {selectButton(WORKING_COPY, "B")}
+                  <span className="font-sans text-[11px] text-ink">Working copy</span>
+                </div>
+                <p className="mt-0.5 font-sans text-[9px] text-slate-muted">Uncommitted changes</p>
+              </div>
+            )}
+            {entries.length === 0 ? (
+              <p className="px-3 py-3 font-sans text-[10px] text-slate-muted">
+                No revisions yet. Use Commit changes in the file menu to record one.
+              </p>
+            ) : (
+              entries.map(({ revision, number }) => {
+                const written = writtenCounts.get(revision.id) || 0;
+                return (
+                  <div key={revision.id} className="px-3 py-2 border-b border-parchment/50 group">
+                    <div className="flex items-center gap-1.5">
+                      {selectButton(revision.id, "A")}
+                      {selectButton(revision.id, "B")}
+                      <span className="font-sans text-[11px] text-ink">Revision {number}</span>
+                      {revision.id === head?.id && (
+                        <span className="font-sans text-[8px] uppercase tracking-wider text-slate-muted">latest</span>
+                      )}
+                      {!readOnly && revision.content !== currentContent && (
+                        <button
+                          onClick={() => setRestoreTarget(revision)}
+                          className="ml-auto p-0.5 text-slate-muted hover:text-burgundy opacity-0 group-hover:opacity-100 transition-all"
+                          title="Restore this revision"
+                        >
+                          <RotateCcw className="h-3 w-3" strokeWidth={1.5} />
+                        </button>
+                      )}
+                    </div>
+                    <p className="mt-0.5 font-sans text-[9px] text-slate-muted">
+                      {revision.author ? `${revision.author} · ` : ""}
+                      {formatDate(revision.createdAt)} {formatTimestamp(revision.createdAt)}
+                    </p>
+                    {revision.message && (
+                      <p className="font-sans text-[9px] text-slate italic">{revision.message}</p>
+                    )}
+                    {written > 0 && (
+                      <p className="font-sans text-[9px] text-burgundy">
+                        {written} annotation{written !== 1 ? "s" : ""} written on this revision
+                      </p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {/* Comparison */}
+        <div className="flex-1 min-w-0 p-3">
+          {sideA && sideB ? (
+            <CodeDiffViewer
+              codeA={sideA.content}
+              codeB={sideB.content}
+              labelA={sideA.label}
+              labelB={sideB.label}
+              languageA={file.language}
+              languageB={file.language}
+              annotationsA={sideA.annotations}
+              annotationsB={sideB.annotations}
+              annotationTypes={annotationTypes}
+              defaultIgnoreSequenceColumns={PUNCH_CARD_LANGUAGES.includes(file.language?.toLowerCase() ?? "")}
+              onClose={onClose}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center font-sans text-[11px] text-slate-muted">
+              Choose two versions to compare
+            </div>
+          )}
+        </div>
+
+        <ConfirmDialog
+          isOpen={!!restoreTarget}
+          title="Restore this revision?"
+          message={hasWorkingChanges
+            ? "Uncommitted changes will be replaced. The restored content is recorded as a new revision."
+            : "The restored content is recorded as a new revision."}
+          confirmLabel="Restore"
+          onConfirm={() => {
+            if (restoreTarget) onRestore(restoreTarget);
+            setRestoreTarget(null);
+          }}
+          onCancel={() => setRestoreTarget(null)}
+        />
+      </div>
+    </div>
+  );
+}
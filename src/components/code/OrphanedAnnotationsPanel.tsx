@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Link2, Trash2, X } from "lucide-react";
+import type { AnnotationTypeDefinition, LineAnnotation } from "@/types";
+import { getAnnotationTypeLabel } from "@/lib/annotation-taxonomy";
+
+interface OrphanedAnnotationsPanelProps {
+  annotations: LineAnnotation[];   // Orphaned annotations for the current file
+  lineCount: number;
+  annotationTypes: AnnotationTypeDefinition[];
+  onReattach: (id: string, lineNumber: number) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Review list for annotations that could not be re-anchored after an edit.
+ * Each shows the text it was attached to, and can be re-attached to a line or deleted.
+ */
+export function OrphanedAnnotationsPanel({
+  annotations,
+  lineCount,
+  annotationTypes,
+  onReattach,
+  onDelete,
+  onClose,
+  readOnly = false,
+}: OrphanedAnnotationsPanelProps) {
+  // Line number typed for each annotation, keyed by annotation id
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  return (
+    <div className="border-t border-parchment bg-cream/50 px-2 py-1.5 max-h-48 overflow-y-auto">
+      <div className="flex items-center justify-between font-sans text-[9px] uppercase tracking-wider text-slate-muted pb-1 mb-1.5 border-b border-parchment/50">
+        <span>Orphaned annotations ({annotations.length})</span>
+        <button onClick={onClose} className="hover:text-ink transition-colors" title="Close">
+          <X className="h-3 w-3" strokeWidth={1.5} />
+        </button>
+      </div>
+      {annotations.length === 0 ? (
+        <p className="font-body text-[10px] text-slate-muted">All annotations are attached.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {annotations.map((ann) => {
+            const target = Number(targets[ann.id]);
+            const valid = Number.isInteger(target) && target >= 1 && target <= lineCount;
+            const range = ann.endLineNumber && ann.endLineNumber !== ann.lineNumber
+              ? `L${ann.lineNumber}-${ann.endLineNumber}`
+              : `L${ann.lineNumber}`;
+            return (
+              <li key={ann.id} className="text-[10px]">
+                <div className="flex items-start gap-1.5">
+                  <span className="font-semibold text-ink flex-shrink-0">{getAnnotationTypeLabel(annotationTypes, ann.type)}</span>
+                  <span className="text-slate flex-1 min-w-0 break-words">{ann.content}</span>
+                </div>
+                <div className="font-mono text-[9px] text-slate-muted truncate" title={ann.lineContent}>
+                  was {range}: {ann.lineContent.split("\n")[0] || "(blank line)"}
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center gap-1 mt-0.5">
+                    <input
+                      type="number"
+                      min={1}
+                      max={lineCount}
+                      value={targets[ann.id] ?? ""}
+                      onChange={(e) => setTargets((prev) => ({ ...prev, [ann.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && valid) onReattach(ann.id, target);
+                      }}
+                      placeholder="Line"
+                      className="w-14 px-1 py-0.5 text-[9px] font-mono bg-card border border-parchment rounded-sm focus:outline-none focus:border-burgundy"
+                    />
+                    <button
+                      onClick={() => valid && onReattach(ann.id, target)}
+                      disabled={!valid}
+                      className={cn(
+                        "flex items-center gap-0.5 px-1.5 py-0.5 text-[9px] rounded-sm transition-colors",
+                        valid ? "text-burgundy hover:bg-burgundy/10" : "text-slate-muted opacity-50 cursor-not-allowed"
+                      )}
+                      title="Attach to this line"
+                    >
+                      <Link2 className="h-2.5 w-2.5" strokeWidth={1.5} />
+                      Attach
+                    </button>
+                    <button
+                      onClick={() => onDelete(ann.id)}
+                      className="ml-auto p-0.5 text-slate-muted hover:text-error transition-colors"
+                      title="Delete annotation"
+                    >
+                      <Trash2 className="h-2.5 w-2.5" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * Configuration, constants, and types for CodeMirror annotations
  */
 
-import type { LineAnnotation, LineAnnotationType } from "@/types";
+import type { AnnotationTypeDefinition, LineAnnotation, LineAnnotationType } from "@/types";
+import { getAnnotationTypeColor, getAnnotationTypePrefix } from "@/lib/annotation-taxonomy";
 
 // ============================================================================
 // Display Settings Types
@@ -37,6 +38,25 @@ export interface InlineEditCallbacks {
   onCancel: () => void;
 }
 
+// ============================================================================
+// Draft (Suggested) Annotation Types
+// ============================================================================
+
+export interface DraftAnnotation {
+  id: string;
+  codeFileId: string;
+  lineNumber: number;
+  endLineNumber?: number;
+  type: LineAnnotationType;
+  content: string;
+}
+
+export interface DraftAnnotationCallbacks {
+  onAccept: (id: string) => void;
+  onEdit: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -57,46 +77,6 @@ export const LINE_HIGHLIGHT_INTENSITY: Record<Exclude<LineHighlightIntensity, "o
   full: "1A",
 };
 
-// Annotation type prefixes
-export const ANNOTATION_PREFIXES: Record<LineAnnotationType, string> = {
-  observation: "Obs",
-  question: "Q",
-  metaphor: "Met",
-  pattern: "Pat",
-  context: "Ctx",
-  critique: "Crit",
-};
-
-// Annotation type labels
-export const ANNOTATION_TYPE_LABELS: Record<LineAnnotationType, string> = {
-  observation: "Observation",
-  question: "Question",
-  metaphor: "Metaphor",
-  pattern: "Pattern",
-  context: "Context",
-  critique: "Critique",
-};
-
-// Annotation types array
-export const ANNOTATION_TYPES: LineAnnotationType[] = [
-  "observation",
-  "question",
-  "metaphor",
-  "pattern",
-  "context",
-  "critique",
-];
-
-// Annotation colors (using inline styles for widget DOM)
-export const ANNOTATION_COLORS: Record<LineAnnotationType, { light: string; dark: string }> = {
-  observation: { light: "#2563eb", dark: "#60a5fa" },
-  question: { light: "#d97706", dark: "#fbbf24" },
-  metaphor: { light: "#9333ea", dark: "#c084fc" },
-  pattern: { light: "#16a34a", dark: "#4ade80" },
-  context: { light: "#64748b", dark: "#94a3b8" },
-  critique: { light: "#8b2942", dark: "#c55a75" },
-};
-
 // Default display settings
 export const DEFAULT_ANNOTATION_DISPLAY_SETTINGS: AnnotationDisplaySettings = {
   visible: true,
@@ -114,8 +94,19 @@ export const DEFAULT_ANNOTATION_DISPLAY_SETTINGS: AnnotationDisplaySettings = {
 /**
  * Get the color for an annotation type based on theme
  */
-export function getAnnotationColor(type: LineAnnotationType, isDark: boolean): string {
-  return isDark ? ANNOTATION_COLORS[type].dark : ANNOTATION_COLORS[type].light;
+export function getAnnotationColor(
+  type: LineAnnotationType,
+  isDark: boolean,
+  taxonomy: AnnotationTypeDefinition[]
+): string {
+  return getAnnotationTypeColor(taxonomy, type, isDark);
+}
+
+/**
+ * Get the short inline prefix for an annotation type (e.g. "Obs")
+ */
+export function getAnnotationPrefix(type: LineAnnotationType, taxonomy: AnnotationTypeDefinition[]): string {
+  return getAnnotationTypePrefix(taxonomy, type);
 }
 
 /**
@@ -4,7 +4,8 @@
 
 import { Extension, Range } from "@codemirror/state";
 import { EditorView, Decoration, gutter } from "@codemirror/view";
-import type { LineAnnotation, LineAnnotationType } from "@/types";
+import type { AnnotationStatus, AnnotationTypeDefinition, CodebookCode, LineAnnotation, LineAnnotationType } from "@/types";
+import type { MentionCandidate } from "@/lib/annotation-status";
 import {
   DEFAULT_ANNOTATION_DISPLAY_SETTINGS,
   getAnnotationColor,
@@ -12,11 +13,14 @@ import {
   type AnnotationDisplaySettings,
   type InlineEditState,
   type InlineEditCallbacks,
+  type DraftAnnotation,
+  type DraftAnnotationCallbacks,
   type LineHighlightIntensity,
 } from "./cm-annotations-config";
 import {
   InlineAnnotationEditor,
   AnnotationWidget,
+  DraftAnnotationWidget,
   AnnotateLineMarker,
 } from "./cm-annotations-widgets";
 
@@ -32,6 +36,7 @@ export function createSimpleAnnotationsExtension(
   onEdit: ((id: string) => void) | undefined,
   onDelete: ((id: string) => void) | undefined,
   isDark: boolean,
+  taxonomy: AnnotationTypeDefinition[],
   editState?: InlineEditState,
   editCallbacks?: InlineEditCallbacks,
   highlightedType?: LineAnnotationType | null,
@@ -45,7 +50,11 @@ export function createSimpleAnnotationsExtension(
   replyInputOpenFor?: string | null,
   onOpenReplyInput?: (id: string) => void,
   onCloseReplyInput?: () => void,
-  isInProject?: boolean // Enable reply functionality (cloud projects only for now)
+  isInProject?: boolean, // Enable reply functionality (cloud projects only for now)
+  codebook: CodebookCode[] = [],
+  onEditCodes?: (id: string) => void,
+  mentionCandidates: MentionCandidate[] = [],
+  onSetStatus?: (id: string, status: AnnotationStatus | undefined) => void
 ): Extension {
   const settings = displaySettings || DEFAULT_ANNOTATION_DISPLAY_SETTINGS;
 
@@ -74,7 +83,7 @@ export function createSimpleAnnotationsExtension(
         // Check if this annotation is being edited
         if (editState?.annotationId === ann.id && editCallbacks) {
           const widget = Decoration.widget({
-            widget: new InlineAnnotationEditor(editState, editCallbacks, isDark, false, userInitials),
+            widget: new InlineAnnotationEditor(editState, editCallbacks, isDark, taxonomy, false, userInitials, mentionCandidates),
             block: true,
             side: 1,
           });
@@ -89,6 +98,7 @@ export function createSimpleAnnotationsExtension(
               onEdit,
               onDelete,
               isDark,
+              taxonomy,
               isHighlighted,
               settings,
               isRemoteNew,
@@ -99,7 +109,11 @@ export function createSimpleAnnotationsExtension(
               replyInputOpenFor === ann.id, // Only this annotation cares if it has input open
               onOpenReplyInput,
               onCloseReplyInput,
-              isInProject ?? true // Enable replies for cloud projects, disable for local files
+              isInProject ?? true, // Enable replies for cloud projects, disable for local files
+              codebook,
+              onEditCodes,
+              mentionCandidates,
+              onSetStatus
             ),
             block: true,
             side: 1,
@@ -115,7 +129,7 @@ export function createSimpleAnnotationsExtension(
       if (lineNumber >= 1 && lineNumber <= state.doc.lines) {
         const line = state.doc.line(lineNumber);
         const widget = Decoration.widget({
-          widget: new InlineAnnotationEditor(editState, editCallbacks, isDark, true, userInitials),
+          widget: new InlineAnnotationEditor(editState, editCallbacks, isDark, taxonomy, true, userInitials, mentionCandidates),
           block: true,
           side: 1,
         });
@@ -128,6 +142,47 @@ export function createSimpleAnnotationsExtension(
   });
 }
 
+// ============================================================================
+// Draft Annotations Extension
+// ============================================================================
+
+/**
+ * Create an extension that shows suggested (draft) annotations awaiting review
+ * The draft being edited is skipped - the inline editor takes its place
+ */
+export function createDraftAnnotationsExtension(
+  drafts: DraftAnnotation[],
+  callbacks: DraftAnnotationCallbacks | undefined,
+  isDark: boolean,
+  taxonomy: AnnotationTypeDefinition[],
+  editingDraftId?: string | null
+): Extension {
+  if (drafts.length === 0 || !callbacks) {
+    return [];
+  }
+
+  return EditorView.decorations.compute(["doc"], (state) => {
+    const decorations: { pos: number; widget: Decoration }[] = [];
+
+    for (const draft of drafts) {
+      if (draft.id === editingDraftId) continue;
+      const displayLine = draft.endLineNumber ?? draft.lineNumber;
+      if (displayLine < 1 || displayLine > state.doc.lines) continue;
+
+      const line = state.doc.line(displayLine);
+      const widget = Decoration.widget({
+        widget: new DraftAnnotationWidget(draft, callbacks, isDark, taxonomy),
+        block: true,
+        side: 2, // After real annotations on the same line
+      });
+      decorations.push({ pos: line.to, widget });
+    }
+
+    decorations.sort((a, b) => a.pos - b.pos);
+    return Decoration.set(decorations.map((d) => d.widget.range(d.pos)));
+  });
+}
+
 // ============================================================================
 // Annotate Gutter Extension
 // ============================================================================
@@ -183,6 +238,7 @@ export function createAnnotateGutter(
  */
 export function createSubtleAnnotationHighlightExtension(
   annotations: LineAnnotation[],
+  taxonomy: AnnotationTypeDefinition[],
   isDark: boolean = false,
   intensity: Exclude<LineHighlightIntensity, "off"> = "medium"
 ): Extension {
@@ -209,7 +265,7 @@ export function createSubtleAnnotationHighlightExtension(
       const annotationType = lineToType.get(i);
       if (annotationType) {
         const line = state.doc.line(i);
-        const color = getAnnotationColor(annotationType, isDark);
+        const color = getAnnotationColor(annotationType, isDark, taxonomy);
         decorations.push(
           Decoration.line({
             class: "cm-line-subtle-annotated",
@@ -230,6 +286,7 @@ export function createSubtleAnnotationHighlightExtension(
  */
 export function createHighlightAnnotatedLinesExtension(
   annotations: LineAnnotation[],
+  taxonomy: AnnotationTypeDefinition[],
   enabled: boolean,
   isDark: boolean = false
 ): Extension {
@@ -267,7 +324,7 @@ export function createHighlightAnnotatedLinesExtension(
         Decoration.line({ class: "cm-line-dimmed" }).range(d.from)
       ),
       ...highlightedDecorations.map((d) => {
-        const color = getAnnotationColor(d.type, isDark);
+        const color = getAnnotationColor(d.type, isDark, taxonomy);
         return Decoration.line({
           class: "cm-line-annotated",
           attributes: {
@@ -3,17 +3,28 @@
  */
 
 import { WidgetType, GutterMarker } from "@codemirror/view";
-import type { LineAnnotation, LineAnnotationType } from "@/types";
+import type { AnnotationStatus, AnnotationTypeDefinition, CodebookCode, LineAnnotation, LineAnnotationType } from "@/types";
+import { formatCodePath, getCodeColor } from "@/lib/codebook";
+import {
+  ANNOTATION_STATUSES,
+  ANNOTATION_STATUS_LABELS,
+  getAnnotationStatus,
+  getMentionQuery,
+  isAnnotationClosed,
+  matchMentionCandidates,
+  splitMentions,
+  type MentionCandidate,
+} from "@/lib/annotation-status";
 import {
-  ANNOTATION_COLORS,
-  ANNOTATION_PREFIXES,
-  ANNOTATION_TYPES,
   BRIGHTNESS_OPACITY,
   getAnnotationColor,
+  getAnnotationPrefix,
   getBrightnessOpacity,
   type AnnotationDisplaySettings,
   type InlineEditState,
   type InlineEditCallbacks,
+  type DraftAnnotation,
+  type DraftAnnotationCallbacks,
   DEFAULT_ANNOTATION_DISPLAY_SETTINGS,
 } from "./cm-annotations-config";
 
@@ -21,11 +32,31 @@ import {
 // Utility Functions
 // ============================================================================
 
+/**
+ * Appends text to the fragment, with @mentions of known members in bold
+ */
+function appendTextWithMentions(fragment: DocumentFragment, text: string, mentionInitials: string[]): void {
+  for (const part of splitMentions(text, mentionInitials)) {
+    if (!part.mention) {
+      fragment.appendChild(document.createTextNode(part.text));
+      continue;
+    }
+    const mention = document.createElement("span");
+    mention.className = "cm-annotation-mention";
+    mention.textContent = part.text;
+    mention.style.cssText = `
+      font-style: normal;
+      font-weight: 600;
+    `;
+    fragment.appendChild(mention);
+  }
+}
+
 /**
  * Converts URLs in text to clickable links and styles quoted original text
  * Returns a DocumentFragment with text nodes, styled spans, and link elements
  */
-function createContentWithLinks(text: string): DocumentFragment {
+function createContentWithLinks(text: string, mentionInitials: string[] = []): DocumentFragment {
   const fragment = document.createDocumentFragment();
 
   // Check if text starts with [original text] pattern (edit history)
@@ -59,7 +90,7 @@ function createContentWithLinks(text: string): DocumentFragment {
   while ((match = urlRegex.exec(textToProcess)) !== null) {
     // Add text before the URL
     if (match.index > lastIndex) {
-      fragment.appendChild(document.createTextNode(textToProcess.slice(lastIndex, match.index)));
+      appendTextWithMentions(fragment, textToProcess.slice(lastIndex, match.index), mentionInitials);
     }
 
     // Create clickable link
@@ -93,12 +124,123 @@ function createContentWithLinks(text: string): DocumentFragment {
 
   // Add remaining text after last URL
   if (lastIndex < textToProcess.length) {
-    fragment.appendChild(document.createTextNode(textToProcess.slice(lastIndex)));
+    appendTextWithMentions(fragment, textToProcess.slice(lastIndex), mentionInitials);
   }
 
   return fragment;
 }
 
+/**
+ * Suggests project members while an @mention is typed into the input, which must already be
+ * in the DOM. Returns a keydown handler to call first: it returns true when it used the key
+ * (choosing or dismissing a suggestion), so the caller should not act on it.
+ */
+function attachMentionAutocomplete(
+  input: HTMLInputElement,
+  candidates: MentionCandidate[],
+  isDark: boolean
+): (e: KeyboardEvent) => boolean {
+  const container = input.parentElement;
+  if (candidates.length === 0 || !container) return () => false;
+  if (!container.style.position) container.style.position = "relative";
+
+  const menu = document.createElement("div");
+  menu.className = "cm-annotation-mention-menu";
+  menu.style.cssText = `
+    position: absolute;
+    top: 100%;
+    left: 0;
+    z-index: 20;
+    display: none;
+    min-width: 160px;
+    margin-top: 2px;
+    padding: 2px 0;
+    border-radius: 4px;
+    border: 1px solid ${isDark ? "rgba(255,255,255,0.15)" : "rgba(0,0,0,0.15)"};
+    background: ${isDark ? "hsl(0 0% 14%)" : "hsl(0 0% 100%)"};
+    box-shadow: 0 2px 8px rgba(0,0,0,0.15);
+    font-family: system-ui, sans-serif;
+    font-size: 11px;
+    font-style: normal;
+  `;
+  container.appendChild(menu);
+
+  let matches: MentionCandidate[] = [];
+  let active = 0;
+  let start = 0;
+
+  const close = () => {
+    matches = [];
+    menu.style.display = "none";
+  };
+
+  const choose = (candidate: MentionCandidate) => {
+    const cursor = input.selectionStart ?? input.value.length;
+    const inserted = `@${candidate.initials} `;
+    input.value = input.value.slice(0, start) + inserted + input.value.slice(cursor);
+    input.setSelectionRange(start + inserted.length, start + inserted.length);
+    // Let the owner see the new value (the inserted space also closes the menu)
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+    input.focus();
+  };
+
+  const render = () => {
+    menu.replaceChildren();
+    matches.forEach((candidate, i) => {
+      const item = document.createElement("div");
+      item.textContent = candidate.name ? `${candidate.initials} · ${candidate.name}` : candidate.initials;
+      item.style.cssText = `
+        padding: 3px 8px;
+        cursor: pointer;
+        white-space: nowrap;
+        background: ${i === active ? (isDark ? "rgba(255,255,255,0.1)" : "rgba(0,0,0,0.06)") : "transparent"};
+      `;
+      item.onmousedown = (e) => {
+        // Keep focus in the input and the click away from CodeMirror
+        e.preventDefault();
+        e.stopPropagation();
+        choose(candidate);
+      };
+      menu.appendChild(item);
+    });
+    menu.style.display = matches.length > 0 ? "block" : "none";
+  };
+
+  input.addEventListener("input", () => {
+    const mention = getMentionQuery(input.value, input.selectionStart ?? input.value.length);
+    if (!mention) {
+      close();
+      return;
+    }
+    start = mention.start;
+    matches = matchMentionCandidates(candidates, mention.query);
+    active = 0;
+    render();
+  });
+  input.addEventListener("blur", close);
+
+  return (e: KeyboardEvent) => {
+    if (matches.length === 0) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      active = (active + (e.key === "ArrowDown" ? 1 : matches.length - 1)) % matches.length;
+      render();
+      return true;
+    }
+    if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      choose(matches[active]);
+      return true;
+    }
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+      return true;
+    }
+    return false;
+  };
+}
+
 // ============================================================================
 // InlineAnnotationEditor Widget
 // ============================================================================
@@ -115,8 +257,10 @@ export class InlineAnnotationEditor extends WidgetType {
     readonly editState: InlineEditState,
     readonly callbacks: InlineEditCallbacks,
     readonly isDark: boolean,
+    readonly taxonomy: AnnotationTypeDefinition[],
     readonly isNew: boolean,
-    readonly userInitials?: string
+    readonly userInitials?: string,
+    readonly mentionCandidates: MentionCandidate[] = []
   ) {
     super();
     this.currentType = editState.initialType;
@@ -129,8 +273,10 @@ export class InlineAnnotationEditor extends WidgetType {
       this.editState.startLineNumber === other.editState.startLineNumber &&
       this.editState.annotationId === other.editState.annotationId &&
       this.isDark === other.isDark &&
+      this.taxonomy === other.taxonomy &&
       this.isNew === other.isNew &&
-      this.userInitials === other.userInitials
+      this.userInitials === other.userInitials &&
+      this.mentionCandidates === other.mentionCandidates
     );
   }
 
@@ -150,11 +296,21 @@ export class InlineAnnotationEditor extends WidgetType {
     const typeSelect = document.createElement("select");
     typeSelect.className = "cm-annotation-type-select";
 
-    for (const type of ANNOTATION_TYPES) {
+    for (const type of this.taxonomy) {
+      const option = document.createElement("option");
+      option.value = type.id;
+      option.textContent = type.prefix;
+      option.title = type.description ? `${type.label}: ${type.description}` : type.label;
+      option.selected = type.id === this.currentType;
+      typeSelect.appendChild(option);
+    }
+
+    // An annotation whose type was removed from the taxonomy keeps it until changed
+    if (!this.taxonomy.some((t) => t.id === this.currentType)) {
       const option = document.createElement("option");
-      option.value = type;
-      option.textContent = ANNOTATION_PREFIXES[type];
-      option.selected = type === this.currentType;
+      option.value = this.currentType;
+      option.textContent = getAnnotationPrefix(this.currentType, this.taxonomy);
+      option.selected = true;
       typeSelect.appendChild(option);
     }
 
@@ -183,7 +339,7 @@ export class InlineAnnotationEditor extends WidgetType {
 
     // Helper to update colors based on type
     const updateColors = (type: LineAnnotationType) => {
-      const color = getAnnotationColor(type, this.isDark);
+      const color = getAnnotationColor(type, this.isDark, this.taxonomy);
       prefixLabel.style.color = color;
       typeSelect.style.color = color;
       colonLabel.style.color = color;
@@ -211,6 +367,7 @@ export class InlineAnnotationEditor extends WidgetType {
       // Always stop propagation to prevent CodeMirror from intercepting input
       e.stopPropagation();
 
+      if (handleMentionKey(e)) return;
       if (e.key === "Enter" && this.currentContent.trim()) {
         e.preventDefault();
         this.callbacks.onSubmit(this.currentType, this.currentContent.trim());
@@ -221,7 +378,16 @@ export class InlineAnnotationEditor extends WidgetType {
       }
     };
 
-    wrapper.appendChild(input);
+    // Wrapped so the mention suggestions can sit beneath the input
+    const inputContainer = document.createElement("div");
+    inputContainer.style.cssText = `
+      display: flex;
+      flex: 1;
+      min-width: 0;
+    `;
+    inputContainer.appendChild(input);
+    wrapper.appendChild(inputContainer);
+    const handleMentionKey = attachMentionAutocomplete(input, this.mentionCandidates, this.isDark);
 
     // Actions
     const actions = document.createElement("div");
@@ -334,6 +500,7 @@ export class AnnotationWidget extends WidgetType {
     readonly onEdit: ((id: string) => void) | undefined,
     readonly onDelete: ((id: string) => void) | undefined,
     readonly isDark: boolean,
+    readonly taxonomy: AnnotationTypeDefinition[],
     readonly isHighlighted: boolean = false,
     readonly displaySettings: AnnotationDisplaySettings = DEFAULT_ANNOTATION_DISPLAY_SETTINGS,
     readonly isRemoteNew: boolean = false,
@@ -345,7 +512,11 @@ export class AnnotationWidget extends WidgetType {
     readonly onOpenReplyInput: ((id: string) => void) | undefined = undefined,
     readonly onCloseReplyInput: (() => void) | undefined = undefined,
     // Feature flag for reply functionality (cloud projects only for now, can enable for local files later)
-    readonly repliesEnabled: boolean = true
+    readonly repliesEnabled: boolean = true,
+    readonly codebook: CodebookCode[] = [],
+    readonly onEditCodes: ((id: string) => void) | undefined = undefined,
+    readonly mentionCandidates: MentionCandidate[] = [],
+    readonly onSetStatus: ((id: string, status: AnnotationStatus | undefined) => void) | undefined = undefined
   ) {
     super();
   }
@@ -363,7 +534,11 @@ export class AnnotationWidget extends WidgetType {
       this.annotation.content === other.annotation.content &&
       this.annotation.type === other.annotation.type &&
       this.annotation.addedBy === other.annotation.addedBy &&
+      this.annotation.link?.lineNumber === other.annotation.link?.lineNumber &&
+      this.annotation.link?.endLineNumber === other.annotation.link?.endLineNumber &&
+      this.annotation.link?.orphaned === other.annotation.link?.orphaned &&
       this.isDark === other.isDark &&
+      this.taxonomy === other.taxonomy &&
       this.isHighlighted === other.isHighlighted &&
       this.displaySettings.brightness === other.displaySettings.brightness &&
       this.displaySettings.showBadge === other.displaySettings.showBadge &&
@@ -372,6 +547,12 @@ export class AnnotationWidget extends WidgetType {
       this.expandedAnnotationId === other.expandedAnnotationId &&
       this.hasReplyInputOpen === other.hasReplyInputOpen &&
       this.repliesEnabled === other.repliesEnabled &&
+      this.codebook === other.codebook &&
+      (this.annotation.codes || []).join() === (other.annotation.codes || []).join() &&
+      this.annotation.status === other.annotation.status &&
+      this.annotation.statusChangedBy === other.annotation.statusChangedBy &&
+      this.mentionCandidates === other.mentionCandidates &&
+      !!this.onSetStatus === !!other.onSetStatus &&
       repliesEqual
     );
   }
@@ -387,7 +568,8 @@ export class AnnotationWidget extends WidgetType {
 
     const { brightness, showBadge, showPillBackground } = this.displaySettings;
     const baseOpacity = getBrightnessOpacity(brightness);
-    const color = getAnnotationColor(this.annotation.type, this.isDark);
+    const color = getAnnotationColor(this.annotation.type, this.isDark, this.taxonomy);
+    const prefix = getAnnotationPrefix(this.annotation.type, this.taxonomy);
 
     wrapper.style.borderRightColor = color;
 
@@ -410,7 +592,9 @@ export class AnnotationWidget extends WidgetType {
       }
     }
 
-    wrapper.style.setProperty("--annotation-opacity", String(baseOpacity));
+    // Resolved and won't-fix annotations recede so open questions stand out
+    const isClosed = isAnnotationClosed(this.annotation);
+    wrapper.style.setProperty("--annotation-opacity", String(isClosed ? baseOpacity * 0.6 : baseOpacity));
     if (this.isHighlighted) {
       wrapper.style.setProperty("--annotation-opacity", "1");
     }
@@ -421,9 +605,9 @@ export class AnnotationWidget extends WidgetType {
       badge.className = "cm-annotation-type-badge";
 
       if (this.annotation.endLineNumber && this.annotation.endLineNumber !== this.annotation.lineNumber) {
-        badge.textContent = `↑L${this.annotation.lineNumber}-${this.annotation.endLineNumber} ${ANNOTATION_PREFIXES[this.annotation.type]}`;
+        badge.textContent = `↑L${this.annotation.lineNumber}-${this.annotation.endLineNumber} ${prefix}`;
       } else {
-        badge.textContent = `↑ ${ANNOTATION_PREFIXES[this.annotation.type]}`;
+        badge.textContent = `↑ ${prefix}`;
       }
 
       badge.style.backgroundColor = color;
@@ -444,10 +628,27 @@ export class AnnotationWidget extends WidgetType {
     if (!showBadge) {
       const isBlock = this.annotation.endLineNumber && this.annotation.endLineNumber !== this.annotation.lineNumber;
       const lineRange = isBlock ? `L${this.annotation.lineNumber}-${this.annotation.endLineNumber} ` : "";
-      contentText = `[${lineRange}${ANNOTATION_PREFIXES[this.annotation.type]}] ${this.annotation.content}`;
+      contentText = `[${lineRange}${prefix}] ${this.annotation.content}`;
     }
 
-    content.appendChild(createContentWithLinks(contentText));
+    const mentionInitials = this.mentionCandidates.map((c) => c.initials);
+    content.appendChild(createContentWithLinks(contentText, mentionInitials));
+
+    // Link annotations: the range they connect to in the other file, quoted in the tooltip
+    const link = this.annotation.link;
+    if (link) {
+      const linked = document.createElement("span");
+      linked.className = "cm-annotation-link";
+      const isBlock = link.endLineNumber && link.endLineNumber !== link.lineNumber;
+      linked.textContent = ` ↔ L${link.lineNumber}${isBlock ? `-${link.endLineNumber}` : ""}${link.orphaned ? " (not found)" : ""}`;
+      linked.title = `Linked range in another file:\n${link.lineContent}`;
+      linked.style.cssText = `
+        font-size: 0.75em;
+        opacity: 0.7;
+        white-space: nowrap;
+      `;
+      content.appendChild(linked);
+    }
 
     // Author initials
     if (this.annotation.addedBy) {
@@ -464,6 +665,55 @@ export class AnnotationWidget extends WidgetType {
       content.appendChild(initials);
     }
 
+    // Codes from the project's codebook
+    if (this.annotation.codes && this.annotation.codes.length > 0) {
+      const codes = document.createElement("span");
+      codes.className = "cm-annotation-codes";
+      for (const codeId of this.annotation.codes) {
+        const codeColor = getCodeColor(this.codebook, codeId);
+        const path = formatCodePath(this.codebook, codeId);
+        const chip = document.createElement("span");
+        chip.className = "cm-annotation-code";
+        chip.textContent = path.split(" › ").pop() || path;
+        chip.title = path;
+        chip.style.cssText = `
+          margin-left: 4px;
+          padding: 0 4px;
+          border-radius: 2px;
+          font-size: 0.7em;
+          white-space: nowrap;
+          color: ${codeColor};
+          border: 1px solid ${codeColor}60;
+          background: ${codeColor}${this.isDark ? "20" : "12"};
+        `;
+        codes.appendChild(chip);
+      }
+      content.appendChild(codes);
+    }
+
+    // Discussion status
+    const status = getAnnotationStatus(this.annotation);
+    if (status) {
+      const statusTag = document.createElement("span");
+      statusTag.className = "cm-annotation-status";
+      statusTag.textContent = ANNOTATION_STATUS_LABELS[status].toLowerCase();
+      statusTag.title = this.annotation.statusChangedBy
+        ? `${ANNOTATION_STATUS_LABELS[status]} (set by ${this.annotation.statusChangedBy})`
+        : ANNOTATION_STATUS_LABELS[status];
+      statusTag.style.cssText = `
+        margin-left: 4px;
+        padding: 0 4px;
+        border-radius: 2px;
+        font-size: 0.7em;
+        font-style: normal;
+        white-space: nowrap;
+        border: 1px solid currentColor;
+        opacity: ${status === "open" ? 0.9 : 0.6};
+        ${status === "open" ? `color: ${color};` : ""}
+      `;
+      content.appendChild(statusTag);
+    }
+
     bar.appendChild(content);
     wrapper.appendChild(bar);
 
@@ -471,6 +721,29 @@ export class AnnotationWidget extends WidgetType {
     const actions = document.createElement("div");
     actions.className = "cm-annotation-actions";
 
+    // Status selector
+    if (this.onSetStatus) {
+      const statusSelect = document.createElement("select");
+      statusSelect.className = "cm-annotation-btn cm-annotation-status-select";
+      statusSelect.title = "Discussion status";
+      // Questions are open until set otherwise, so they have no "no status" choice
+      const options: Array<AnnotationStatus | ""> = this.annotation.type === "question" ? ANNOTATION_STATUSES : ["", ...ANNOTATION_STATUSES];
+      for (const value of options) {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = value ? ANNOTATION_STATUS_LABELS[value].toLowerCase() : "status";
+        option.selected = value === (status ?? "");
+        statusSelect.appendChild(option);
+      }
+      statusSelect.onclick = (e) => e.stopPropagation();
+      statusSelect.onchange = (e) => {
+        e.stopPropagation();
+        const value = (e.target as HTMLSelectElement).value as AnnotationStatus | "";
+        this.onSetStatus?.(this.annotation.id, value || undefined);
+      };
+      actions.appendChild(statusSelect);
+    }
+
     // Reply button (only in cloud projects for now)
     if (this.repliesEnabled && this.onToggleReplies) {
       const replyCount = this.annotation.replies?.length || 0;
@@ -485,6 +758,19 @@ export class AnnotationWidget extends WidgetType {
       actions.appendChild(replyBtn);
     }
 
+    // Codes button
+    if (this.onEditCodes) {
+      const codesBtn = document.createElement("button");
+      codesBtn.className = "cm-annotation-btn";
+      codesBtn.textContent = "codes";
+      codesBtn.title = "Apply codes from the codebook";
+      codesBtn.onclick = (e) => {
+        e.stopPropagation();
+        this.onEditCodes?.(this.annotation.id);
+      };
+      actions.appendChild(codesBtn);
+    }
+
     // Edit button
     if (this.onEdit) {
       const editBtn = document.createElement("button");
@@ -545,7 +831,7 @@ export class AnnotationWidget extends WidgetType {
           `;
 
           const replyContent = document.createElement("span");
-          replyContent.appendChild(createContentWithLinks(reply.content));
+          replyContent.appendChild(createContentWithLinks(reply.content, mentionInitials));
           replyDiv.appendChild(replyContent);
 
           // Reply author initials (colored to match left border)
@@ -609,7 +895,7 @@ export class AnnotationWidget extends WidgetType {
 
           const replyInput = document.createElement("input");
           replyInput.type = "text";
-          replyInput.placeholder = "Add a reply...";
+          replyInput.placeholder = this.mentionCandidates.length > 0 ? "Add a reply (@ to mention)..." : "Add a reply...";
           replyInput.className = "cm-annotation-reply-input";
           replyInput.style.cssText = `
             flex: 1;
@@ -652,6 +938,7 @@ export class AnnotationWidget extends WidgetType {
             // Always stop propagation to prevent CodeMirror from intercepting input
             e.stopPropagation();
 
+            if (handleMentionKey(e)) return;
             if (e.key === "Enter") {
               handleSubmit();
             } else if (e.key === "Escape") {
@@ -659,9 +946,17 @@ export class AnnotationWidget extends WidgetType {
             }
           };
 
-          replyForm.appendChild(replyInput);
+          // Wrapped so the mention suggestions can sit beneath the input
+          const replyInputContainer = document.createElement("div");
+          replyInputContainer.style.cssText = `
+            display: flex;
+            flex: 1;
+          `;
+          replyInputContainer.appendChild(replyInput);
+          replyForm.appendChild(replyInputContainer);
           replyForm.appendChild(submitBtn);
           repliesSection.appendChild(replyForm);
+          const handleMentionKey = attachMentionAutocomplete(replyInput, this.mentionCandidates, this.isDark);
 
           // Auto-focus the input immediately
           requestAnimationFrame(() => replyInput.focus());
@@ -732,6 +1027,98 @@ export class AnnotationWidget extends WidgetType {
     return wrapper;
   }
 
+  ignoreEvent(event: Event): boolean {
+    // Let the status selector open without CodeMirror taking the click
+    const tagName = (event.target as HTMLElement).tagName;
+    return tagName === "SELECT" || tagName === "OPTION";
+  }
+}
+
+// ============================================================================
+// DraftAnnotationWidget
+// ============================================================================
+
+/**
+ * Widget for a suggested annotation that has not been accepted yet
+ * Rendered with a dashed outline and "suggested" badge so it cannot be mistaken for a real annotation
+ */
+export class DraftAnnotationWidget extends WidgetType {
+  constructor(
+    readonly draft: DraftAnnotation,
+    readonly callbacks: DraftAnnotationCallbacks,
+    readonly isDark: boolean,
+    readonly taxonomy: AnnotationTypeDefinition[]
+  ) {
+    super();
+  }
+
+  eq(other: DraftAnnotationWidget): boolean {
+    return (
+      this.draft.id === other.draft.id &&
+      this.draft.content === other.draft.content &&
+      this.draft.type === other.draft.type &&
+      this.isDark === other.isDark &&
+      this.taxonomy === other.taxonomy
+    );
+  }
+
+  toDOM(): HTMLElement {
+    const wrapper = document.createElement("div");
+    wrapper.className = "cm-annotation-widget cm-annotation-draft";
+
+    const color = getAnnotationColor(this.draft.type, this.isDark, this.taxonomy);
+    const prefix = getAnnotationPrefix(this.draft.type, this.taxonomy);
+    wrapper.style.borderRightColor = color;
+
+    const bar = document.createElement("div");
+    bar.className = "cm-annotation-bar cm-annotation-draft-bar";
+    bar.style.borderColor = color;
+
+    const badge = document.createElement("span");
+    badge.className = "cm-annotation-type-badge";
+    const isBlock = this.draft.endLineNumber && this.draft.endLineNumber !== this.draft.lineNumber;
+    badge.textContent = isBlock
+      ? `↑L${this.draft.lineNumber}-${this.draft.endLineNumber} ${prefix}`
+      : `↑ ${prefix}`;
+    badge.style.color = color;
+    badge.style.border = `1px dashed ${color}`;
+    bar.appendChild(badge);
+
+    const label = document.createElement("span");
+    label.className = "cm-annotation-draft-label";
+    label.textContent = "suggested";
+    bar.appendChild(label);
+
+    const content = document.createElement("span");
+    content.className = "cm-annotation-content";
+    content.appendChild(createContentWithLinks(this.draft.content));
+    bar.appendChild(content);
+    wrapper.appendChild(bar);
+
+    // Draft actions are always visible - the user has to decide on each one
+    const actions = document.createElement("div");
+    actions.className = "cm-annotation-actions cm-annotation-draft-actions";
+
+    const addAction = (text: string, title: string, className: string, handler: (id: string) => void) => {
+      const btn = document.createElement("button");
+      btn.className = `cm-annotation-btn ${className}`;
+      btn.textContent = text;
+      btn.title = title;
+      btn.onclick = (e) => {
+        e.stopPropagation();
+        handler(this.draft.id);
+      };
+      actions.appendChild(btn);
+    };
+
+    addAction("accept", "Accept this suggestion as an annotation", "cm-annotation-btn-accept", this.callbacks.onAccept);
+    addAction("edit", "Edit before accepting", "", this.callbacks.onEdit);
+    addAction("reject", "Discard this suggestion", "cm-annotation-btn-delete", this.callbacks.onReject);
+
+    wrapper.appendChild(actions);
+    return wrapper;
+  }
+
   ignoreEvent(): boolean {
     return false;
   }
@@ -15,17 +15,16 @@ export type {
   AnnotationDisplaySettings,
   InlineEditState,
   InlineEditCallbacks,
+  DraftAnnotation,
+  DraftAnnotationCallbacks,
 } from "./cm-annotations-config";
 
 export {
   BRIGHTNESS_OPACITY,
   LINE_HIGHLIGHT_INTENSITY,
-  ANNOTATION_PREFIXES,
-  ANNOTATION_TYPE_LABELS,
-  ANNOTATION_TYPES,
-  ANNOTATION_COLORS,
   DEFAULT_ANNOTATION_DISPLAY_SETTINGS,
   getAnnotationColor,
+  getAnnotationPrefix,
   getBrightnessOpacity,
   getLineHighlightOpacity,
 } from "./cm-annotations-config";
@@ -34,12 +33,14 @@ export {
 export {
   InlineAnnotationEditor,
   AnnotationWidget,
+  DraftAnnotationWidget,
   AnnotateLineMarker,
 } from "./cm-annotations-widgets";
 
 // Re-export extension functions (main API)
 export {
   createSimpleAnnotationsExtension,
+  createDraftAnnotationsExtension,
   createAnnotateGutter,
   createSubtleAnnotationHighlightExtension,
   createHighlightAnnotatedLinesExtension,
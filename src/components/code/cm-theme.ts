@@ -251,6 +251,26 @@ const ccsLightTheme = EditorView.theme(
     ".cm-line-dimmed:hover": {
       opacity: "0.4",
     },
+    // Suggested (draft) annotations - dashed outline, faded until reviewed
+    ".cm-annotation-draft .cm-annotation-bar": {
+      border: "1px dashed",
+      backgroundColor: "transparent",
+      opacity: "0.75",
+    },
+    ".cm-annotation-draft-label": {
+      fontFamily: "system-ui, sans-serif",
+      fontSize: "8px",
+      textTransform: "uppercase",
+      letterSpacing: "0.3px",
+      color: "hsl(var(--muted-foreground))",
+      flexShrink: "0",
+    },
+    ".cm-annotation-draft .cm-annotation-actions": {
+      opacity: "1",
+    },
+    ".cm-annotation-btn-accept:hover": {
+      color: "hsl(142 70% 35%)",
+    },
     // Remote annotation arrival animation - yellow flash
     ".cm-annotation-remote-new": {
       animation: "remote-annotation-flash 1.5s ease-out",
@@ -525,6 +545,26 @@ const ccsDarkTheme = EditorView.theme(
     ".cm-line-dimmed:hover": {
       opacity: "0.35",
     },
+    // Suggested (draft) annotations - dashed outline, faded until reviewed
+    ".cm-annotation-draft .cm-annotation-bar": {
+      border: "1px dashed",
+      backgroundColor: "transparent",
+      opacity: "0.75",
+    },
+    ".cm-annotation-draft-label": {
+      fontFamily: "system-ui, sans-serif",
+      fontSize: "8px",
+      textTransform: "uppercase",
+      letterSpacing: "0.3px",
+      color: "hsl(var(--muted-foreground))",
+      flexShrink: "0",
+    },
+    ".cm-annotation-draft .cm-annotation-actions": {
+      opacity: "1",
+    },
+    ".cm-annotation-btn-accept:hover": {
+      color: "hsl(142 60% 55%)",
+    },
     // Remote annotation arrival animation - yellow flash (dark mode)
     ".cm-annotation-remote-new": {
       animation: "remote-annotation-flash-dark 1.5s ease-out",
@@ -1,4 +1,7 @@
 export { AnnotatedCodeViewer } from "./AnnotatedCodeViewer";
 export { CodeDiffViewer } from "./CodeDiffViewer";
+export { ComparativeReadingPanel } from "./ComparativeReadingPanel";
+export { FileHistoryPanel } from "./FileHistoryPanel";
+export { OrphanedAnnotationsPanel } from "./OrphanedAnnotationsPanel";
 export { CodeEditorPanel, generateAnnotatedCode, generateAnnotatedMarkdown, parseAnnotatedMarkdown } from "./CodeEditorPanel";
 export type { AnnotatedMarkdownMetadata, ParsedAnnotatedMarkdown } from "./CodeEditorPanel";
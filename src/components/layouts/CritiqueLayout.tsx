@@ -5,7 +5,9 @@ import { useRouter } from "next/navigation";
 import { useCollaborativeSession } from "@/hooks/useCollaborativeSession";
 import { useAISettings } from "@/context/AISettingsContext";
 import { cn, formatTimestamp, fetchWithTimeout, retryWithBackoff, generateId, getCurrentTimestamp } from "@/lib/utils";
-import type { Message, CodeReference, ExperienceLevel, Session } from "@/types";
+import { getAnnotationTaxonomy, mergeAnnotationTypes } from "@/lib/annotation-taxonomy";
+import { filterBlindAnnotations } from "@/lib/annotation-agreement";
+import type { Message, CodeReference, ExperienceLevel, Session, ContextBudgetReport, FileRevision, AssistantNavigation, MessageAnchor, ModelComparison, ModelComparisonResult, ChatResponse } from "@/types";
 import { EXPERIENCE_LEVEL_LABELS, EXPERIENCE_LEVEL_DESCRIPTIONS, GUIDED_PROMPTS } from "@/types";
 import {
   Send,
@@ -58,9 +60,12 @@ import {
   Library,
   Pencil,
   HardDrive,
+  Square,
+  NotebookPen,
+  Columns3,
 } from "lucide-react";
-import { CodeEditorPanel, generateAnnotatedCode, parseAnnotatedMarkdown } from "@/components/code";
-import { ContextPreview } from "@/components/chat";
+import { CodeEditorPanel, ComparativeReadingPanel, FileHistoryPanel, generateAnnotatedCode, parseAnnotatedMarkdown } from "@/components/code";
+import { BranchSwitcher, ChatMarkdown, ContextPreview, FallbackNotice, MessageAnchorQuote, MessageEditForm, ModelComparisonPanel, RegenerateMenu, SaveAsAnnotationDialog, StoppedNotice, ToolCallList, type RegenerateModel } from "@/components/chat";
 import { GuidedPrompts } from "@/components/prompts";
 import { SettingsModal } from "@/components/settings/SettingsModal";
 import { UserMenu } from "@/components/auth/UserMenu";
@@ -70,15 +75,27 @@ import { useAuth } from "@/context/AuthContext";
 import { useProjects } from "@/context/ProjectsContext";
 import { useProjectSync } from "@/hooks/useProjectSync";
 import { FONT_SIZE_MIN, FONT_SIZE_MAX } from "@/types/app-settings";
-import { PROVIDER_CONFIGS } from "@/lib/ai/config";
+import { PROVIDER_CONFIGS, getModelDisplayName } from "@/lib/ai/config";
+import { readChatResponse } from "@/lib/ai/chat-stream";
 import {
   generateSessionLog,
   exportSessionLogJSON,
   exportSessionLogText,
   exportSessionLogPDF,
+  exportSessionLogTEI,
+  importSessionLogTEI,
+  isWebAnnotationDocument,
+  isDuplicateWebAnnotation,
+  getWebAnnotationSource,
+  parseWebAnnotations,
+  webAnnotationSource,
   MODE_CODES,
   MODE_LABELS,
+  type ImportedWebAnnotation,
 } from "@/lib/export";
+import { getFileRevisions, getHeadRevision } from "@/lib/file-revisions";
+import type { LineReferenceFile } from "@/lib/line-references";
+import { getMessageSiblings } from "@/lib/message-tree";
 import ReactMarkdown from "react-markdown";
 import JSZip from "jszip";
 
@@ -148,6 +165,10 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     session,
     addMessage,
     updateMessage,
+    branchAtMessage,
+    switchMessageBranch,
+    addModelComparison,
+    updateModelComparison,
     addCode,
     removeCode,
     updateCode,
@@ -165,8 +186,17 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     updateLineAnnotation,
     removeLineAnnotation,
     clearLineAnnotations,
+    setAnnotationTaxonomy,
+    setCodebook,
+    setBlindAnnotation,
+    submitBlindReading,
+    refreshBlindAnnotation,
+    setAnnotationStatus,
     pushReply,
     deleteReply,
+    // File revisions
+    addFileRevision,
+    refreshFileRevisions,
     // Display settings
     updatePanelLayoutSettings,
     // Collaborative features
@@ -183,10 +213,23 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     restoreFileFromTrash,
     permanentlyDeleteFileFromTrash,
     emptyAllFileTrash,
+    // Project settings the server refused to save
+    projectSettingsError,
+    dismissProjectSettingsError,
+    // Initials annotations are recorded under (blind readings are keyed by them)
+    userInitials,
   } = useCollaborativeSession();
-  const { settings: aiSettings, getRequestHeaders, isConfigured: isAIConfigured, connectionStatus, isAiReady } = useAISettings();
+  const annotationTaxonomy = getAnnotationTaxonomy(session);
+  const { settings: aiSettings, getRequestHeaders, getTaskModel, getTaskRequestHeaders, isConfigured: isAIConfigured, connectionStatus, isAiReady } = useAISettings();
   const { settings: appSettings, getFontSizes, setModeCodeFontSize, setModeChatFontSize, getDisplayName, profile } = useAppSettings();
   const { isAuthenticated, setShowLoginModal, profile: authProfile, user, isAdmin } = useAuth();
+  // Under blind annotation, other members' readings of files the user has not submitted stay hidden
+  // from everything built here: the chat context, context preview, history, comparisons and exports
+  const visibleSession = useMemo(() => {
+    const lineAnnotations = filterBlindAnnotations(session.lineAnnotations, session.blindAnnotation, userInitials);
+    return lineAnnotations === session.lineAnnotations ? session : { ...session, lineAnnotations };
+  }, [session, userInitials]);
+  const visibleAnnotations = visibleSession.lineAnnotations;
   const {
     currentProjectId,
     projects,
@@ -228,6 +271,12 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
   // State
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // What the last chat request fitted into the model's context window
+  const [lastContextReport, setLastContextReport] = useState<ContextBudgetReport | null>(null);
+  // File open in the code editor - prioritised when code has to be trimmed
+  const [editorSelectedFileId, setEditorSelectedFileId] = useState<string | null>(null);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [settingsTab, setSettingsTab] = useState<"profile" | "code" | "appearance" | "ai" | "about">("appearance");
   const [showAIPanel, setShowAIPanel] = useState(false);
@@ -308,6 +357,8 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
 
   // Message interaction state
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  // Assistant reply being turned into an annotation
+  const [annotationSourceMessage, setAnnotationSourceMessage] = useState<Message | null>(null);
   const [favouriteMessages, setFavouriteMessages] = useState<Set<string>>(new Set());
 
   // Chat search state
@@ -395,19 +446,78 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     }
   }, [originalContents, setCodeContent, clearLineAnnotations]);
 
-  // Commit current changes as the new base version
+  // Commit current changes as the new base version, recording a revision in the file's history
   const handleCommitFile = useCallback((fileId: string) => {
     const current = codeContents.get(fileId);
-    if (current !== undefined) {
-      commitOriginalContent(fileId, current);
+    if (current === undefined) return;
+
+    // First commit: record the version the file started from so the history has a baseline
+    const original = originalContents.get(fileId);
+    if (getFileRevisions(session.fileRevisions, fileId).length === 0 && original !== undefined && original !== current) {
+      const file = session.codeFiles.find((f) => f.id === fileId);
+      addFileRevision({ codeFileId: fileId, content: original, message: "Original version", createdAt: file?.uploadedAt });
     }
-  }, [codeContents, commitOriginalContent]);
+    addFileRevision({ codeFileId: fileId, content: current });
+    commitOriginalContent(fileId, current);
+  }, [codeContents, originalContents, session.fileRevisions, session.codeFiles, addFileRevision, commitOriginalContent]);
+
+  // File whose revision history is open
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+
+  const handleShowFileHistory = useCallback((fileId: string) => {
+    setHistoryFileId(fileId);
+    // Pick up revisions committed by collaborators
+    refreshFileRevisions(fileId);
+  }, [refreshFileRevisions]);
+
+  // File a comparative reading was opened from (shown on the left)
+  const [compareFileId, setCompareFileId] = useState<string | null>(null);
+  // Passage the editor should show (from an assistant's "Show lines" button)
+  const [revealRequest, setRevealRequest] = useState<{ fileId: string; lineNumber: number; endLineNumber?: number; key: number } | null>(null);
+  const handleNavigate = useCallback((navigation: AssistantNavigation) => {
+    setRevealRequest({
+      fileId: navigation.fileId,
+      lineNumber: navigation.lineNumber,
+      endLineNumber: navigation.endLineNumber,
+      key: Date.now(),
+    });
+  }, []);
+
+  // Restore an old revision: its content becomes the working copy and is committed as a new revision.
+  // Annotations follow the text they annotate (see SET_CODE_CONTENT), so nothing is cleared.
+  const handleRestoreRevision = useCallback((revision: FileRevision) => {
+    const number = getFileRevisions(session.fileRevisions, revision.codeFileId)
+      .findIndex((r) => r.id === revision.id) + 1;
+    setCodeContent(revision.codeFileId, revision.content);
+    addFileRevision({
+      codeFileId: revision.codeFileId,
+      content: revision.content,
+      message: `Restored revision ${number}`,
+    });
+    commitOriginalContent(revision.codeFileId, revision.content);
+  }, [session.fileRevisions, setCodeContent, addFileRevision, commitOriginalContent]);
 
   // Reset layout to defaults when session changes (clear or load new session)
   const prevSessionIdRef = useRef(session.id);
   // Store codeContents in a ref so we can access the current value without adding to dependencies
   const sessionCodeContentsRef = useRef(session.codeContents);
   sessionCodeContentsRef.current = session.codeContents;
+  const sessionFileRevisionsRef = useRef(session.fileRevisions);
+  sessionFileRevisionsRef.current = session.fileRevisions;
+
+  // Files for linking (and checking) line references in replies. Rebuilt only when files are
+  // added, removed or renamed, not on every edit; line counts are read from the current code when asked.
+  const lineReferenceFileKey = JSON.stringify(session.codeFiles.map((file) => [file.id, file.name]));
+  const lineReferenceFiles = useMemo<LineReferenceFile[]>(
+    () => (JSON.parse(lineReferenceFileKey) as Array<[string, string]>).map(([id, name]) => ({
+      id,
+      name,
+      get lineCount() {
+        return (sessionCodeContentsRef.current[id] ?? "").split("\n").length;
+      },
+    })),
+    [lineReferenceFileKey]
+  );
 
   useEffect(() => {
     if (session.id !== prevSessionIdRef.current) {
@@ -415,9 +525,15 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
       setCodePanelWidth(DEFAULT_CODE_PANEL_WIDTH);
       setProjectName("");
       setFavouriteMessages(new Set());
-      // Initialize originalContents from the loaded session's codeContents
+      // Initialize originalContents from the latest committed revision of each file,
+      // falling back to the loaded session's codeContents for files without history
       // This allows modification detection to work after session restore
-      const loadedContents = new Map(Object.entries(sessionCodeContentsRef.current));
+      const loadedContents = new Map(
+        Object.entries(sessionCodeContentsRef.current).map(([fileId, content]) => [
+          fileId,
+          getHeadRevision(sessionFileRevisionsRef.current, fileId)?.content ?? content,
+        ])
+      );
       setOriginalContents(loadedContents);
       hasAddedOpeningMessage.current = false;
       prevSessionIdRef.current = session.id;
@@ -442,6 +558,14 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     prevMessageCount.current = session.messages.length;
   }, [session.messages.length]);
 
+  // Keep the bottom of the chat in view while a reply streams in
+  const lastMessageLength = session.messages[session.messages.length - 1]?.content.length ?? 0;
+  useEffect(() => {
+    if (isStreaming) {
+      messagesEndRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [isStreaming, lastMessageLength]);
+
   // Add opening message
   useEffect(() => {
     if (session.messages.length === 0 && !hasAddedOpeningMessage.current) {
@@ -549,10 +673,10 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
       const code = codeContents.get(file.id);
       if (!code) return;
 
-      const fileAnnotations = session.lineAnnotations.filter(
+      const fileAnnotations = visibleAnnotations.filter(
         (a) => a.codeFileId === file.id
       );
-      const annotatedCode = generateAnnotatedCode(code, fileAnnotations);
+      const annotatedCode = generateAnnotatedCode(code, fileAnnotations, annotationTaxonomy);
 
       parts.push(`### ${file.name}${file.language ? ` (${file.language})` : ""}`);
       if (file.author) parts.push(`Author: ${file.author}`);
@@ -563,12 +687,12 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
       parts.push("```\n");
     });
 
-    if (session.lineAnnotations.length > 0) {
+    if (visibleAnnotations.length > 0) {
       parts.push("\n*Note: Lines marked with `// An:` are analyst annotations for close reading.*");
     }
 
     return parts.join("\n");
-  }, [session.codeFiles, session.lineAnnotations, codeContents]);
+  }, [session.codeFiles, visibleAnnotations, codeContents, annotationTaxonomy]);
 
   // Handle copy message
   const handleCopyMessage = useCallback(async (messageId: string, content: string) => {
@@ -600,44 +724,97 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     }
   }, [session.messages, updateMessage]);
 
-  // Handle send message
-  const handleSend = useCallback(async () => {
-    if (!input.trim() || isLoading || !isAiReady) return;
-
-    const userMessage = input.trim();
-    setInput("");
+  // Lines the next message asks about ("Ask about selection" in the editor)
+  const [pendingAnchor, setPendingAnchor] = useState<MessageAnchor | null>(null);
+  const handleAskAboutSelection = useCallback((anchor: MessageAnchor) => {
+    setPendingAnchor(anchor);
+    // Open the chat beside the editor
+    updatePanelLayoutSettings({ chatCollapsed: false, annotationFullScreen: false });
+    inputRef.current?.focus();
+  }, [updatePanelLayoutSettings]);
+
+  // Chat goes to the model routed for chat; another model (regenerate, compare)
+  // uses the main credentials when it shares their provider
+  const chatModel = getTaskModel("chat");
+  const getChatHeaders = useCallback((model?: RegenerateModel) => {
+    if (!model || (model.provider === chatModel.provider && model.model === chatModel.model)) {
+      return getTaskRequestHeaders("chat");
+    }
+    return getRequestHeaders(model);
+  }, [chatModel.provider, chatModel.model, getTaskRequestHeaders, getRequestHeaders]);
+
+  // The chat request for a thread: the same system prompt inputs and code context
+  // whether the reply is streamed into the chat or collected for a model comparison
+  const buildChatRequestBody = useCallback((messages: Array<Pick<Message, "role" | "content" | "metadata">>) => ({
+    messages,
+    settings: session.settings,
+    currentPhase: session.currentPhase,
+    experienceLevel: session.experienceLevel,
+    mode: "critique",
+    defaultLanguage: effectiveLanguage || undefined,
+    analysisContext: session.analysisResults,
+    literatureContext: session.references,
+    // Include annotated code context
+    selectedFileId: editorSelectedFileId || undefined,
+    annotationTypes: annotationTaxonomy,
+    codeContext: session.codeFiles.map((file) => {
+      const code = codeContents.get(file.id);
+      const fileAnnotations = visibleAnnotations.filter((a) => a.codeFileId === file.id);
+      return {
+        ...file,
+        content: code
+          ? generateAnnotatedCode(code, fileAnnotations, annotationTaxonomy)
+          : undefined,
+      };
+    }),
+    // Raw listings and annotations for the assistant's tools (line numbers match the editor)
+    toolContext: {
+      files: session.codeFiles.map((file) => ({
+        id: file.id,
+        name: file.name,
+        language: file.language,
+        content: codeContents.get(file.id) ?? "",
+      })),
+      annotations: visibleAnnotations.map(({ id, codeFileId, lineNumber, endLineNumber, type, content, addedBy }) => ({
+        id, codeFileId, lineNumber, endLineNumber, type, content, addedBy,
+      })),
+      annotationTypes: annotationTaxonomy,
+    },
+  }), [session, visibleAnnotations, codeContents, editorSelectedFileId, effectiveLanguage, annotationTaxonomy]);
+
+  // Ask for a reply to `history`, streamed into a new assistant message. A question
+  // is added (and sent) first when given; without one the thread is answered again,
+  // as when regenerating. `model` overrides the configured provider and model.
+  const requestReply = useCallback(async (
+    history: Message[],
+    question?: { content: string; metadata?: Message["metadata"] },
+    model?: RegenerateModel
+  ) => {
     setIsLoading(true);
 
-    addMessage({ role: "user", content: userMessage });
+    if (question) {
+      addMessage({ role: "user", content: question.content, metadata: question.metadata });
+    }
+
+    // Abort controller for the stop button - cancels both the wait and the stream
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let streamedMessageId: string | null = null;
+    let streamedText = "";
+    let streamedMetadata: Message["metadata"];
 
     try {
-      const data = await retryWithBackoff(
+      const response = await retryWithBackoff(
         async () => {
           const response = await fetchWithTimeout("/api/chat", {
             method: "POST",
-            headers: { "Content-Type": "application/json", ...getRequestHeaders() },
+            headers: { "Content-Type": "application/json", ...getChatHeaders(model) },
             body: JSON.stringify({
-              messages: [...session.messages, { role: "user", content: userMessage }],
-              settings: session.settings,
-              currentPhase: session.currentPhase,
-              experienceLevel: session.experienceLevel,
-              mode: "critique",
-              defaultLanguage: effectiveLanguage || undefined,
-              analysisContext: session.analysisResults,
-              literatureContext: session.references,
-              // Include annotated code context
-              codeContext: session.codeFiles.map((file) => {
-                const code = codeContents.get(file.id);
-                const fileAnnotations = session.lineAnnotations.filter((a) => a.codeFileId === file.id);
-                return {
-                  ...file,
-                  content: code
-                    ? generateAnnotatedCode(code, fileAnnotations)
-                    : undefined,
-                };
-              }),
+              ...buildChatRequestBody(question ? [...history, { role: "user", ...question }] : history),
+              stream: true,
             }),
             timeout: 60000,
+            signal: controller.signal,
           });
 
           if (response.status === 429) {
@@ -656,13 +833,14 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
           }
 
           if (!response.ok) throw new Error("Failed to get response");
-          return response.json();
+          return response;
         },
         {
           maxRetries: 2,
           initialDelay: 1000,
           maxDelay: 5000,
           shouldRetry: (error) => {
+            if (controller.signal.aborted) return false;
             if ((error as Error & { isRateLimit?: boolean }).isRateLimit) return false;
             if (error instanceof Error) {
               return error.name === "AbortError" || error.message.includes("timeout");
@@ -672,8 +850,41 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
         }
       );
 
-      addMessage(data.message);
+      // Render the reply incrementally; the bubble is created on the first chunk
+      const message = await readChatResponse(response, {
+        onStart: (metadata) => {
+          streamedMetadata = metadata;
+        },
+        onContext: setLastContextReport,
+        onToolCalls: (toolCalls) => {
+          streamedMetadata = { ...streamedMetadata, toolCalls };
+          if (streamedMessageId) updateMessage(streamedMessageId, { metadata: streamedMetadata });
+        },
+        onText: (text) => {
+          streamedText = text;
+          if (streamedMessageId) {
+            updateMessage(streamedMessageId, { content: text });
+          } else {
+            streamedMessageId = addMessage({ role: "assistant", content: text, metadata: streamedMetadata });
+            setIsStreaming(true);
+          }
+        },
+      });
+
+      if (streamedMessageId) {
+        updateMessage(streamedMessageId, { content: message.content, metadata: message.metadata });
+      } else {
+        addMessage(message);
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user - keep whatever arrived
+        if (streamedMessageId) {
+          updateMessage(streamedMessageId, { content: streamedText, metadata: { ...streamedMetadata, stopped: true } });
+        }
+        return;
+      }
+
       console.error("Chat error:", error);
       const isConfigError = (error as Error & { isConfigError?: boolean }).isConfigError;
       if (isConfigError) { setSettingsTab("ai"); setShowSettingsModal(true); };
@@ -685,9 +896,109 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
           : "I encountered an error. Please try again.",
       });
     } finally {
+      chatAbortRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
-  }, [input, isLoading, isAiReady, session, addMessage, getRequestHeaders, codeContents]);
+  }, [addMessage, updateMessage, getChatHeaders, buildChatRequestBody]);
+
+  // Handle send message
+  const handleSend = useCallback(() => {
+    if (!input.trim() || isLoading || !isAiReady) return;
+
+    const metadata = pendingAnchor ? { anchor: pendingAnchor } : undefined;
+    setInput("");
+    setPendingAnchor(null);
+    requestReply(session.messages, { content: input.trim(), metadata });
+  }, [input, isLoading, isAiReady, pendingAnchor, session.messages, requestReply]);
+
+  // Model comparison: one prompt answered side by side by several models
+  const [showModelComparison, setShowModelComparison] = useState(false);
+
+  const runComparisonModel = useCallback(async (
+    prompt: string,
+    anchor: MessageAnchor | undefined,
+    model: RegenerateModel
+  ): Promise<ModelComparisonResult> => {
+    const metadata = anchor ? { anchor } : undefined;
+    const base = { provider: model.provider, model: model.model, modelName: getModelDisplayName(model.provider, model.model) };
+    const startedAt = performance.now();
+    try {
+      const response = await fetchWithTimeout("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getChatHeaders(model) },
+        body: JSON.stringify({
+          ...buildChatRequestBody([...session.messages, { role: "user", content: prompt, metadata }]),
+          stream: false,
+        }),
+        timeout: 120000,
+      });
+      const data = await response.json();
+      const latencyMs = performance.now() - startedAt;
+      if (!response.ok) {
+        return { ...base, content: "", error: data.message || data.error || `Request failed (${response.status})`, latencyMs };
+      }
+      const reply = (data as ChatResponse).message;
+      return { ...base, modelName: reply.metadata?.model || base.modelName, content: reply.content, latencyMs };
+    } catch (error) {
+      return {
+        ...base,
+        content: "",
+        error: error instanceof Error ? error.message : "Request failed",
+        latencyMs: performance.now() - startedAt,
+      };
+    }
+  }, [session.messages, getChatHeaders, buildChatRequestBody]);
+
+  // Keep one compared answer: the prompt and that answer join the conversation
+  const handleKeepComparisonResult = useCallback((comparison: ModelComparison, index: number) => {
+    const result = comparison.results[index];
+    if (!result || result.error) return;
+    addMessage({ role: "user", content: comparison.prompt, metadata: comparison.anchor ? { anchor: comparison.anchor } : undefined });
+    addMessage({ role: "assistant", content: result.content, metadata: { model: result.modelName } });
+    updateModelComparison(comparison.id, { keptResultIndex: index });
+    // The prompt came from the composer; it has been asked now
+    if (input.trim() === comparison.prompt) {
+      setInput("");
+      setPendingAnchor(null);
+    }
+  }, [addMessage, updateModelComparison, input]);
+
+  // Question being edited in place (edit-and-resend)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+
+  // Send an edited question; the original and the replies to it stay as another branch
+  const handleEditAndResend = useCallback((message: Message, content: string) => {
+    const index = session.messages.findIndex((m) => m.id === message.id);
+    if (index === -1 || isLoading || !isAiReady) return;
+    setEditingMessageId(null);
+    branchAtMessage(message.id);
+    requestReply(session.messages.slice(0, index), { content, metadata: message.metadata });
+  }, [session.messages, isLoading, isAiReady, branchAtMessage, requestReply]);
+
+  // Answer the question before a reply again, keeping the old reply as another branch
+  const handleRegenerate = useCallback((message: Message, model?: RegenerateModel) => {
+    const index = session.messages.findIndex((m) => m.id === message.id);
+    if (index < 1 || session.messages[index - 1].role !== "user" || isLoading || !isAiReady) return;
+    branchAtMessage(message.id);
+    requestReply(session.messages.slice(0, index), undefined, model);
+  }, [session.messages, isLoading, isAiReady, branchAtMessage, requestReply]);
+
+  // The versions of each shown message (for the branch switcher)
+  const messageSiblings = useMemo(() => {
+    const siblings = new Map<string, Message[]>();
+    if (!session.branchMessages?.length) return siblings;
+    const branches = { messages: session.messages, branchMessages: session.branchMessages };
+    for (const message of session.messages) {
+      siblings.set(message.id, getMessageSiblings(branches, message.id));
+    }
+    return siblings;
+  }, [session.messages, session.branchMessages]);
+
+  // Stop an in-flight chat request or stream
+  const handleStopGenerating = useCallback(() => {
+    chatAbortRef.current?.abort();
+  }, []);
 
   // Handle key down
   const handleKeyDown = useCallback(
@@ -747,6 +1058,16 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
             setCodeContent(fileId, code);
             storeOriginalContent(fileId, code);
 
+            // Bring in any annotation types this project does not have yet
+            const mergedTaxonomy = mergeAnnotationTypes(
+              annotationTaxonomy,
+              metadata.annotationTypes,
+              metadata.annotations.map((ann) => ann.type)
+            );
+            if (mergedTaxonomy !== annotationTaxonomy) {
+              setAnnotationTaxonomy(mergedTaxonomy);
+            }
+
             // Restore annotations
             for (const ann of metadata.annotations) {
               // Get the line content from the code
@@ -760,6 +1081,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                 type: ann.type,
                 content: ann.content,
                 addedBy: ann.addedBy,
+                provenance: ann.sourceModel ? { model: ann.sourceModel } : undefined,
               });
             }
 
@@ -774,6 +1096,47 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
           }
         }
 
+        // Check if this is a W3C Web Annotation document - attach its annotations to the file it targets
+        if (extension === "jsonld" || (extension === "json" && text.includes("Annotation"))) {
+          let data: unknown = null;
+          try {
+            data = JSON.parse(text);
+          } catch {
+            data = null;
+          }
+          if (data && isWebAnnotationDocument(data)) {
+            const source = getWebAnnotationSource(data);
+            const targetFile =
+              session.codeFiles.find((f) => webAnnotationSource(f) === source) ||
+              session.codeFiles.find((f) => f.id === editorSelectedFileId);
+            const targetCode = targetFile ? codeContents.get(targetFile.id) : undefined;
+            if (!targetFile || targetCode === undefined) {
+              alert("These annotations don't match a loaded file. Open the annotated code file first, select it in the editor, then import the annotations.");
+              return;
+            }
+
+            const { annotations, skipped } = parseWebAnnotations(data, targetCode, annotationTaxonomy);
+            // Re-importing a document should not add its annotations to the file a second time
+            const onFile: ImportedWebAnnotation[] = session.lineAnnotations.filter((a) => a.codeFileId === targetFile.id);
+            let duplicates = 0;
+            for (const ann of annotations) {
+              if (isDuplicateWebAnnotation(ann, onFile)) {
+                duplicates++;
+                continue;
+              }
+              onFile.push(ann);
+              addLineAnnotation({ ...ann, codeFileId: targetFile.id });
+            }
+
+            const imported = annotations.length - duplicates;
+            addMessage({
+              role: "user",
+              content: `I've imported ${imported} annotation${imported !== 1 ? "s" : ""} onto **${targetFile.name}** from ${file.name}.${duplicates > 0 ? ` ${duplicates} already on the file ${duplicates !== 1 ? "were" : "was"} skipped.` : ""}${skipped > 0 ? ` ${skipped} could not be anchored in the code and were skipped.` : ""}`,
+            });
+            return;
+          }
+        }
+
         // Regular file upload - not CCS annotated
         const languageMap: Record<string, string> = {
           js: "javascript", ts: "typescript", py: "python", rb: "ruby",
@@ -813,7 +1176,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
         if (fileInputRef.current) fileInputRef.current.value = "";
       }
     },
-    [addCode, addMessage, setCodeContent, storeOriginalContent, addLineAnnotation]
+    [addCode, addMessage, setCodeContent, storeOriginalContent, addLineAnnotation, session.codeFiles, session.lineAnnotations, codeContents, editorSelectedFileId, annotationTaxonomy, setAnnotationTaxonomy]
   );
 
   // Handle paste code
@@ -923,10 +1286,10 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
       }
 
       // Create annotations summary as markdown
-      if (session.lineAnnotations && session.lineAnnotations.length > 0) {
-        const annotationsByFile = new Map<string, typeof session.lineAnnotations>();
+      if (visibleAnnotations && visibleAnnotations.length > 0) {
+        const annotationsByFile = new Map<string, typeof visibleAnnotations>();
 
-        for (const annotation of session.lineAnnotations) {
+        for (const annotation of visibleAnnotations) {
           const existing = annotationsByFile.get(annotation.codeFileId) || [];
           existing.push(annotation);
           annotationsByFile.set(annotation.codeFileId, existing);
@@ -960,7 +1323,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
         updated_at: currentProject.updated_at,
         exported_at: new Date().toISOString(),
         files: session.codeFiles.length,
-        annotations: session.lineAnnotations?.length || 0,
+        annotations: visibleAnnotations?.length || 0,
       };
       zip.file("project.json", JSON.stringify(metadata, null, 2));
 
@@ -981,7 +1344,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     } finally {
       setIsDownloadingZip(false);
     }
-  }, [currentProject, session.codeFiles, session.lineAnnotations, codeContents]);
+  }, [currentProject, session.codeFiles, visibleAnnotations, codeContents]);
 
   // Start renaming project
   const handleStartRename = useCallback(() => {
@@ -1457,7 +1820,9 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const importedData = JSON.parse(content);
+        // TEI P5 logs are XML; everything else is a JSON .ccs save
+        const isTEI = file.name.toLowerCase().endsWith(".xml") || content.trimStart().startsWith("<");
+        const importedData = isTEI ? importSessionLogTEI(content) : JSON.parse(content);
 
         // Validate required fields
         if (!importedData.id || !importedData.mode) {
@@ -1497,7 +1862,8 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
 
         // Restore favourite messages from session
         const favourites = new Set<string>(
-          importedData.messages?.filter((m: { isFavourite?: boolean }) => m.isFavourite).map((m: { id: string }) => m.id) || []
+          [...(importedData.messages || []), ...(importedData.branchMessages || [])]
+            .filter((m: { isFavourite?: boolean }) => m.isFavourite).map((m: { id: string }) => m.id)
         );
         setFavouriteMessages(favourites);
 
@@ -1527,26 +1893,33 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
 
   // Export handlers using shared utilities
   const handleExportJSON = useCallback(() => {
-    const log = generateSessionLog(session, projectName, codeContents, generateAnnotatedCode, profile);
+    const log = generateSessionLog(visibleSession, projectName, codeContents, generateAnnotatedCode, profile);
     const modeCode = MODE_CODES[session.mode] || "XX";
     exportSessionLogJSON(log, projectName, modeCode);
     setShowExportModal(false);
-  }, [session, projectName, codeContents, profile]);
+  }, [visibleSession, projectName, codeContents, profile]);
 
   const handleExportText = useCallback(() => {
-    const log = generateSessionLog(session, projectName, codeContents, generateAnnotatedCode, profile);
+    const log = generateSessionLog(visibleSession, projectName, codeContents, generateAnnotatedCode, profile);
     const modeCode = MODE_CODES[session.mode] || "XX";
     exportSessionLogText(log, projectName, modeCode);
     setShowExportModal(false);
-  }, [session, projectName, codeContents, profile]);
+  }, [visibleSession, projectName, codeContents, profile]);
+
+  const handleExportTEI = useCallback(() => {
+    const log = generateSessionLog(visibleSession, projectName, codeContents, generateAnnotatedCode, profile);
+    const modeCode = MODE_CODES[session.mode] || "XX";
+    exportSessionLogTEI(log, projectName, modeCode);
+    setShowExportModal(false);
+  }, [visibleSession, projectName, codeContents, profile]);
 
   const handleExportPDF = useCallback(() => {
-    const log = generateSessionLog(session, projectName, codeContents, generateAnnotatedCode, profile);
+    const log = generateSessionLog(visibleSession, projectName, codeContents, generateAnnotatedCode, profile);
     const modeCode = MODE_CODES[session.mode] || "XX";
     const annotationIndent = session.displaySettings?.annotations?.indent ?? 56;  // Use user's indent setting
     exportSessionLogPDF(log, projectName, modeCode, annotationIndent);
     setShowExportModal(false);
-  }, [session, projectName, codeContents, profile]);
+  }, [session, visibleSession, projectName, codeContents, profile]);
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -1720,7 +2093,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                   </span>
                   <span className="flex items-center gap-1">
                     <MessageSquareText className="h-3 w-3" />
-                    {session.lineAnnotations?.length || 0} annotations
+                    {visibleAnnotations?.length || 0} annotations
                   </span>
                   <span className={cn(
                     "inline-flex items-center px-1.5 py-0.5 rounded-full text-[9px] font-medium",
@@ -1883,7 +2256,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
             ref={sessionLoadInputRef}
             type="file"
             className="hidden"
-            accept=".ccs,.json"
+            accept=".ccs,.json,.xml"
             onChange={handleLoadSession}
           />
           <button
@@ -2524,6 +2897,9 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
         >
           <CodeEditorPanel
             codeFiles={session.codeFiles}
+            onSelectedFileChange={setEditorSelectedFileId}
+            revealRequest={revealRequest}
+            onAskAboutSelection={aiEnabled ? handleAskAboutSelection : undefined}
             codeContents={codeContents}
             originalContents={originalContents}
             onCodeContentChange={(fileId, content) => {
@@ -2534,6 +2910,8 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
             onDuplicateFile={handleDuplicateFile}
             onRevertFile={handleRevertFile}
             onCommitFile={handleCommitFile}
+            onShowFileHistory={handleShowFileHistory}
+            onCompareFile={setCompareFileId}
             onLoadCode={() => fileInputRef.current?.click()}
             onLoadSampleProject={(projectData) => {
               // Import the sample project as the current session
@@ -2574,11 +2952,20 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                 setCodePanelWidth(Math.min(85, minWidth));
               }
             }}
-            userInitials={profile.initials}
+            userInitials={userInitials}
             onAddLineAnnotation={addLineAnnotation}
             onUpdateLineAnnotation={updateLineAnnotation}
             onRemoveLineAnnotation={handleDeleteAnnotation}
             onClearLineAnnotations={clearLineAnnotations}
+            onSetAnnotationTaxonomy={setAnnotationTaxonomy}
+            onSetCodebook={setCodebook}
+            onSetBlindAnnotation={setBlindAnnotation}
+            onSubmitBlindReading={submitBlindReading}
+            onRefreshBlindAnnotation={refreshBlindAnnotation}
+            canSwitchBlindAnnotation={!currentProjectId || currentProject?.owner_id === user?.id}
+            projectSettingsError={projectSettingsError}
+            onDismissProjectSettingsError={dismissProjectSettingsError}
+            onSetAnnotationStatus={setAnnotationStatus}
             newRemoteAnnotationIds={newRemoteAnnotationIds}
             expandedAnnotationId={expandedAnnotationId}
             onToggleReplies={handleToggleReplies}
@@ -2710,6 +3097,9 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                       : "bg-card border border-parchment"
                   )}
                 >
+                  {message.metadata?.anchor && (
+                    <MessageAnchorQuote anchor={message.metadata.anchor} onNavigate={handleNavigate} />
+                  )}
                   <div
                     className="font-body leading-relaxed prose prose-sm prose-slate dark:prose-invert max-w-none
                       prose-p:my-2 prose-p:leading-relaxed prose-p:text-[1em]
@@ -2723,8 +3113,27 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                       prose-a:text-burgundy prose-a:no-underline hover:prose-a:underline"
                     style={{ fontSize: `${chatFontSize}px` }}
                   >
-                    <ReactMarkdown>{message.content}</ReactMarkdown>
+                    {message.role === "assistant" ? (
+                      <ChatMarkdown
+                        content={message.content}
+                        lineReferenceFiles={lineReferenceFiles}
+                        defaultFileId={editorSelectedFileId}
+                        onNavigate={handleNavigate}
+                      />
+                    ) : editingMessageId === message.id ? (
+                      <MessageEditForm
+                        initialContent={message.content}
+                        onSubmit={(content) => handleEditAndResend(message, content)}
+                        onCancel={() => setEditingMessageId(null)}
+                        disabled={isLoading || !isAiReady}
+                      />
+                    ) : (
+                      <ReactMarkdown>{message.content}</ReactMarkdown>
+                    )}
                   </div>
+                  {message.role === "assistant" && message.metadata?.toolCalls && message.metadata.toolCalls.length > 0 && (
+                    <ToolCallList toolCalls={message.metadata.toolCalls} onNavigate={handleNavigate} />
+                  )}
                 </div>
                 {/* User/Model name, timestamp, and actions inline */}
                 <div className={cn(
@@ -2736,7 +3145,17 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                     {formatTimestamp(message.timestamp)}
                     {message.role === "user" && getDisplayName() && `, ${getDisplayName()}`}
                   </span>
+                  {message.role === "assistant" && message.metadata?.fallback && (
+                    <FallbackNotice fallback={message.metadata.fallback} />
+                  )}
+                  {message.role === "assistant" && message.metadata?.stopped && <StoppedNotice />}
                   <div className="flex items-center gap-0.5">
+                    <BranchSwitcher
+                      message={message}
+                      siblings={messageSiblings.get(message.id) ?? []}
+                      onSwitch={switchMessageBranch}
+                      disabled={isLoading}
+                    />
                     <button
                       onClick={() => handleCopyMessage(message.id, message.content)}
                       className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100"
@@ -2748,6 +3167,33 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                         <Copy className="h-3 w-3" strokeWidth={1.5} />
                       )}
                     </button>
+                    {message.role === "user" && aiEnabled && !viewingLibraryProjectId && (
+                      <button
+                        onClick={() => setEditingMessageId(message.id)}
+                        disabled={isLoading}
+                        className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100 disabled:opacity-0"
+                        title="Edit and resend"
+                      >
+                        <Pencil className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                    )}
+                    {message.role === "assistant" && aiEnabled && !viewingLibraryProjectId &&
+                      session.messages[session.messages.indexOf(message) - 1]?.role === "user" && (
+                      <RegenerateMenu
+                        current={{ provider: chatModel.provider, model: chatModel.model }}
+                        onRegenerate={(model) => handleRegenerate(message, model)}
+                        disabled={isLoading || !isAiReady}
+                      />
+                    )}
+                    {message.role === "assistant" && session.codeFiles.length > 0 && !viewingLibraryProjectId && (
+                      <button
+                        onClick={() => setAnnotationSourceMessage(message)}
+                        className="p-0.5 text-slate-muted hover:text-ink rounded-sm transition-colors opacity-0 group-hover/message:opacity-100"
+                        title="Save as annotation"
+                      >
+                        <NotebookPen className="h-3 w-3" strokeWidth={1.5} />
+                      </button>
+                    )}
                     <button
                       onClick={() => handleToggleFavourite(message.id)}
                       className={cn(
@@ -2769,7 +3215,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
               </div>
             ))}
 
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start pl-2 py-2">
                 <div className="flex items-center gap-1.5">
                   <div className="w-1.5 h-1.5 rounded-full bg-burgundy/70 thinking-dot" />
@@ -2786,7 +3232,9 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
           <ContextPreview
             codeFiles={session.codeFiles}
             codeContents={codeContents}
-            annotations={session.lineAnnotations}
+            annotations={visibleAnnotations}
+            annotationTypes={annotationTaxonomy}
+            budgetReport={lastContextReport}
           />
 
           {/* Guided Prompts */}
@@ -2806,6 +3254,17 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
           <div className="w-full md:w-[80%]">
             {/* Claude-style input container */}
             <div className="bg-card rounded-2xl border border-parchment shadow-sm">
+              {/* Lines this message asks about */}
+              {pendingAnchor && (
+                <div className="px-3 pt-3">
+                  <MessageAnchorQuote
+                    anchor={pendingAnchor}
+                    onNavigate={handleNavigate}
+                    onRemove={() => setPendingAnchor(null)}
+                    maxLines={6}
+                  />
+                </div>
+              )}
               {/* Textarea */}
               <textarea
                 ref={inputRef}
@@ -2877,8 +3336,18 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                   )}
                 </div>
 
-                {/* Right side: font size + send button */}
+                {/* Right side: compare, font size + send button */}
                 <div className="flex items-center gap-1">
+                  {aiEnabled && (
+                    <button
+                      onClick={() => setShowModelComparison(true)}
+                      disabled={isLoading || !isAiReady}
+                      className="p-1.5 rounded-md transition-colors text-slate hover:text-ink disabled:opacity-40 disabled:hover:text-slate"
+                      title="Compare models"
+                    >
+                      <Columns3 className="h-4 w-4" strokeWidth={1.5} />
+                    </button>
+                  )}
                   {/* Font size popover */}
                   <div className="relative" data-dropdown>
                     <button
@@ -2916,23 +3385,30 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                     )}
                   </div>
 
-                  {/* Send button */}
-                  <button
-                    onClick={handleSend}
-                    disabled={!input.trim() || isLoading || !isAiReady}
-                    className={cn(
-                      "p-2 rounded-lg flex items-center justify-center transition-colors",
-                      input.trim() && !isLoading && isAiReady
-                        ? "bg-burgundy text-ivory hover:bg-burgundy-dark"
-                        : "bg-parchment text-slate-muted cursor-not-allowed"
-                    )}
-                  >
-                    {isLoading ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
+                  {/* Send button (becomes stop while a reply is pending) */}
+                  {isLoading ? (
+                    <button
+                      onClick={handleStopGenerating}
+                      className="p-2 rounded-lg flex items-center justify-center transition-colors bg-burgundy text-ivory hover:bg-burgundy-dark"
+                      aria-label="Stop generating"
+                      title="Stop generating"
+                    >
+                      <Square className="h-4 w-4" strokeWidth={2} fill="currentColor" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSend}
+                      disabled={!input.trim() || !isAiReady}
+                      className={cn(
+                        "p-2 rounded-lg flex items-center justify-center transition-colors",
+                        input.trim() && isAiReady
+                          ? "bg-burgundy text-ivory hover:bg-burgundy-dark"
+                          : "bg-parchment text-slate-muted cursor-not-allowed"
+                      )}
+                    >
                       <ArrowUp className="h-4 w-4" strokeWidth={2} />
-                    )}
-                  </button>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -2952,6 +3428,70 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
         />
       </div>
 
+      {/* File revision history */}
+      {historyFileId && (() => {
+        const historyFile = session.codeFiles.find((f) => f.id === historyFileId);
+        if (!historyFile) return null;
+        return (
+          <FileHistoryPanel
+            file={historyFile}
+            currentContent={session.codeContents[historyFileId] ?? ""}
+            revisions={getFileRevisions(session.fileRevisions, historyFileId)}
+            annotations={visibleAnnotations.filter((a) => a.codeFileId === historyFileId)}
+            annotationTypes={annotationTaxonomy}
+            onRestore={handleRestoreRevision}
+            onClose={() => setHistoryFileId(null)}
+            readOnly={!!viewingLibraryProjectId}
+          />
+        );
+      })()}
+
+      {/* Comparative reading of two files */}
+      {compareFileId && session.codeFiles.some((f) => f.id === compareFileId) && (
+        <ComparativeReadingPanel
+          files={session.codeFiles}
+          codeContents={codeContents}
+          annotations={visibleAnnotations}
+          annotationTypes={annotationTaxonomy}
+          initialFileIdA={compareFileId}
+          onAddLinkAnnotation={addLineAnnotation}
+          onRemoveAnnotation={handleDeleteAnnotation}
+          onClose={() => setCompareFileId(null)}
+          readOnly={!!viewingLibraryProjectId}
+        />
+      )}
+
+      {/* Model Comparison */}
+      {showModelComparison && (
+        <ModelComparisonPanel
+          initialPrompt={input.trim()}
+          anchor={pendingAnchor}
+          current={{ provider: chatModel.provider, model: chatModel.model }}
+          comparisons={session.modelComparisons ?? []}
+          runModel={runComparisonModel}
+          onComplete={addModelComparison}
+          onKeep={handleKeepComparisonResult}
+          lineReferenceFiles={lineReferenceFiles}
+          defaultFileId={editorSelectedFileId}
+          onNavigate={handleNavigate}
+          onClose={() => setShowModelComparison(false)}
+        />
+      )}
+
+      {/* Save Assistant Reply as Annotation */}
+      {annotationSourceMessage && (
+        <SaveAsAnnotationDialog
+          message={annotationSourceMessage}
+          files={lineReferenceFiles}
+          codeContents={codeContents}
+          annotationTypes={annotationTaxonomy}
+          defaultFileId={editorSelectedFileId}
+          userInitials={userInitials}
+          onSave={addLineAnnotation}
+          onClose={() => setAnnotationSourceMessage(null)}
+        />
+      )}
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={showSettingsModal}
@@ -3016,6 +3556,18 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                   Human-readable format. Best for reading, sharing, or archiving.
                 </p>
               </button>
+              <button
+                onClick={handleExportTEI}
+                className="w-full text-left p-4 border border-parchment rounded-sm hover:border-burgundy hover:bg-burgundy/5 transition-all"
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <FileCode className="h-4 w-4 text-amber-600" strokeWidth={1.5} />
+                  <h4 className="font-display text-sm text-ink">TEI P5 XML</h4>
+                </div>
+                <p className="font-body text-xs text-slate">
+                  Digital humanities encoding. Best for scholarly editions; can be reloaded as a session.
+                </p>
+              </button>
               <button
                 onClick={handleExportPDF}
                 className="w-full text-left p-4 border border-parchment rounded-sm hover:border-burgundy hover:bg-burgundy/5 transition-all"
@@ -3179,7 +3731,7 @@ export const CritiqueLayout = forwardRef<CritiqueLayoutRef, CritiqueLayoutProps>
                 </div>
                 <ul className="font-body text-xs text-slate space-y-1">
                   <li>• {session.codeFiles.length} code file{session.codeFiles.length !== 1 ? "s" : ""}</li>
-                  <li>• {session.lineAnnotations.length} annotation{session.lineAnnotations.length !== 1 ? "s" : ""}</li>
+                  <li>• {visibleAnnotations.length} annotation{visibleAnnotations.length !== 1 ? "s" : ""}</li>
                   <li>• {annotatedCodeContext.length.toLocaleString()} characters total</li>
                 </ul>
               </div>
@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from "react";
 import { useAISettings } from "@/context/AISettingsContext";
-import { PROVIDER_CONFIGS, getAllProviders, initializeModels, getProviderConfigWithModels } from "@/lib/ai/config";
+import { PROVIDER_CONFIGS, DISCOVERABLE_PROVIDERS, getAllProviders, getDiscoveredModels, initializeModels, getProviderConfigWithModels } from "@/lib/ai/config";
 import type { AIProvider } from "@/types/ai-settings";
-import { cn } from "@/lib/utils";
+import { cn, formatTimestamp } from "@/lib/utils";
+import { TaskModelSettings } from "./TaskModelSettings";
+import { FallbackModelSettings } from "./FallbackModelSettings";
 import {
   ChevronDown,
   Eye,
@@ -12,6 +14,7 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
+  RefreshCw,
 } from "lucide-react";
 
 interface AIProviderSettingsProps {
@@ -33,6 +36,9 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
     connectionStatus,
     connectionError,
     setConnectionStatus,
+    isLoaded,
+    modelDiscovery,
+    discoverModels,
   } = useAISettings();
 
   const [showApiKey, setShowApiKey] = useState(false);
@@ -45,11 +51,26 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
     initializeModels().then(() => setModelsLoaded(true));
   }, []);
 
+  // List the models served by Ollama or an OpenAI-compatible server, waiting
+  // for the base URL to settle while it is typed
+  const canDiscover = DISCOVERABLE_PROVIDERS.includes(settings.provider);
+  useEffect(() => {
+    if (!isLoaded || !canDiscover) return;
+    const timer = setTimeout(() => discoverModels(), 600);
+    return () => clearTimeout(timer);
+  }, [isLoaded, canDiscover, settings.provider, settings.baseUrl]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Use dynamic config that includes loaded models
   const currentProvider = modelsLoaded
     ? getProviderConfigWithModels(settings.provider)
     : PROVIDER_CONFIGS[settings.provider];
   const providers = getAllProviders();
+  // Context windows reported by the endpoint, shown beside its models
+  const reportedContext = new Map(
+    canDiscover && modelDiscovery.fetchedAt
+      ? getDiscoveredModels(settings.provider).map((m) => [m.id, m.contextWindow])
+      : []
+  );
 
   const handleProviderChange = (provider: AIProvider) => {
     setProvider(provider);
@@ -183,9 +204,25 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
 
       {/* Model Selection */}
       <div className={cn(!settings.aiEnabled && "opacity-50 pointer-events-none")}>
-        <label className="block font-sans text-[10px] uppercase tracking-widest text-slate-muted mb-1.5">
-          Model
-        </label>
+        <div className="flex items-center justify-between mb-1.5">
+          <label className="block font-sans text-[10px] uppercase tracking-widest text-slate-muted">
+            Model
+          </label>
+          {canDiscover && (
+            <button
+              onClick={() => discoverModels({ force: true })}
+              disabled={modelDiscovery.status === "loading"}
+              className="flex items-center gap-1 font-sans text-[10px] text-slate-muted hover:text-ink disabled:opacity-50 transition-colors"
+              title={`Ask ${currentProvider.name} which models it serves`}
+            >
+              <RefreshCw
+                className={cn("h-3 w-3", modelDiscovery.status === "loading" && "animate-spin")}
+                strokeWidth={1.5}
+              />
+              Refresh models
+            </button>
+          )}
+        </div>
         <div className="relative">
           <button
             onClick={() => setIsModelDropdownOpen(!isModelDropdownOpen)}
@@ -222,11 +259,36 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
                   )}
                 >
                   {model.name}
+                  {reportedContext.get(model.id) && (
+                    <span className="ml-1.5 text-[9px] text-slate-muted">
+                      {Math.round(reportedContext.get(model.id)! / 1000)}k context
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
           )}
         </div>
+        {canDiscover && modelDiscovery.status !== "idle" && (
+          <p
+            className={cn(
+              "mt-1 font-sans text-[10px]",
+              modelDiscovery.status === "error" ? "text-error" : "text-slate-muted"
+            )}
+          >
+            {modelDiscovery.status === "loading"
+              ? `Asking ${currentProvider.name} for its models…`
+              : modelDiscovery.status === "error"
+                ? `${modelDiscovery.error}. ${
+                    modelDiscovery.fetchedAt
+                      ? `Showing the models found at ${formatTimestamp(modelDiscovery.fetchedAt)}.`
+                      : "Showing the configured models."
+                  }`
+                : `${modelDiscovery.count} ${modelDiscovery.count === 1 ? "model" : "models"} found${
+                    modelDiscovery.fetchedAt ? ` at ${formatTimestamp(modelDiscovery.fetchedAt)}` : ""
+                  }.`}
+          </p>
+        )}
       </div>
 
       {/* Custom Model ID (for any provider when "custom" is selected) */}
@@ -333,6 +395,17 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
         </div>
       )}
 
+      {/* Mock provider hint */}
+      {settings.provider === "mock" && (
+        <p className="font-sans text-[10px] text-slate-muted">
+          Replies come from fixture rules, not a model. Include{" "}
+          <code className="bg-cream px-1 rounded-sm text-[10px]">[mock:rate-limit]</code> or{" "}
+          <code className="bg-cream px-1 rounded-sm text-[10px]">[mock:empty]</code> in a message to
+          simulate a failure. Set <code className="bg-cream px-1 rounded-sm text-[10px]">MOCK_AI_FIXTURES</code>{" "}
+          on the server to use your own fixture file.
+        </p>
+      )}
+
       {/* Test Connection Button */}
       <div className={cn("pt-1", !settings.aiEnabled && "opacity-50 pointer-events-none")}>
         <button
@@ -387,6 +460,28 @@ export function AIProviderSettings({ onClose }: AIProviderSettingsProps) {
         )}
       </div>
 
+      {/* Per-task Models */}
+      <div className={cn("pt-3 border-t border-parchment", !settings.aiEnabled && "opacity-50 pointer-events-none")}>
+        <h4 className="font-sans text-[10px] uppercase tracking-widest text-slate-muted mb-1">
+          Models per Task
+        </h4>
+        <p className="font-sans text-[10px] text-slate-muted mb-2">
+          Use a different model for some tasks, such as a fast local model for chat and a larger one for outputs.
+        </p>
+        <TaskModelSettings />
+      </div>
+
+      {/* Fallback Models */}
+      <div className={cn("pt-3 border-t border-parchment", !settings.aiEnabled && "opacity-50 pointer-events-none")}>
+        <h4 className="font-sans text-[10px] uppercase tracking-widest text-slate-muted mb-1">
+          Fallback Models
+        </h4>
+        <p className="font-sans text-[10px] text-slate-muted mb-2">
+          Tried in order when a model cannot answer, for example when it is rate limited or Ollama is not running.
+        </p>
+        <FallbackModelSettings />
+      </div>
+
       {/* Conversation Style Settings */}
       <div className={cn("pt-3 border-t border-parchment space-y-3", !settings.aiEnabled && "opacity-50 pointer-events-none")}>
         <div>
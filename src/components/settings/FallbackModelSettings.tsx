@@ -0,0 +1,72 @@
+"use client";
+
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { useAISettings } from "@/context/AISettingsContext";
+import type { TaskModelSetting } from "@/types/ai-settings";
+import { ModelChoiceFields } from "./ModelChoiceFields";
+
+/**
+ * The ordered list of models to try when the model for a request fails (after
+ * retrying rate limits and timeouts). Replies from a fallback say so.
+ */
+export function FallbackModelSettings() {
+  const { settings, setFallbackModels } = useAISettings();
+  const fallbacks = settings.fallbackModels ?? [];
+
+  const replace = (index: number, value: TaskModelSetting | null) => {
+    setFallbackModels(
+      value ? fallbacks.map((f, i) => (i === index ? value : f)) : fallbacks.filter((_, i) => i !== index)
+    );
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...fallbacks];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setFallbackModels(next);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {fallbacks.map((fallback, index) => (
+        <div key={index} className="flex items-start gap-1">
+          <span className="w-4 pt-1 font-sans text-[10px] text-slate-muted tabular-nums">{index + 1}.</span>
+          <ModelChoiceFields
+            value={fallback}
+            onChange={(value) => replace(index, value)}
+            emptyLabel="Remove"
+            mainProvider={settings.provider}
+          />
+          <button
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            className="p-1 text-slate-muted hover:text-ink disabled:opacity-30 transition-colors"
+            title="Try earlier"
+          >
+            <ArrowUp className="h-3 w-3" strokeWidth={1.5} />
+          </button>
+          <button
+            onClick={() => move(index, 1)}
+            disabled={index === fallbacks.length - 1}
+            className="p-1 text-slate-muted hover:text-ink disabled:opacity-30 transition-colors"
+            title="Try later"
+          >
+            <ArrowDown className="h-3 w-3" strokeWidth={1.5} />
+          </button>
+          <button
+            onClick={() => replace(index, null)}
+            className="p-1 text-slate-muted hover:text-error transition-colors"
+            title="Remove"
+          >
+            <X className="h-3 w-3" strokeWidth={1.5} />
+          </button>
+        </div>
+      ))}
+      <ModelChoiceFields
+        onChange={(value) => value && setFallbackModels([...fallbacks, value])}
+        emptyLabel={fallbacks.length === 0 ? "Add a fallback model…" : "Add another…"}
+        mainProvider={settings.provider}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { PROVIDER_CONFIGS, getAllProvidersWithModels } from "@/lib/ai/config";
+import type { AIProvider, ModelConfig, TaskModelSetting } from "@/types/ai-settings";
+import { cn } from "@/lib/utils";
+
+export const modelChoiceInputClass = cn(
+  "w-full px-2 py-1 bg-card border border-parchment-dark rounded-sm",
+  "font-sans text-[10px] text-ink",
+  "placeholder:text-slate-muted",
+  "focus:outline-none focus:ring-1 focus:ring-burgundy focus:border-burgundy"
+);
+
+interface ModelChoiceFieldsProps {
+  value?: TaskModelSetting;
+  onChange: (value: TaskModelSetting | null) => void; // null: the empty option was chosen
+  emptyLabel: string;
+  mainProvider: AIProvider; // Credentials are asked for only when the provider differs from this one
+  recommendFor?: ModelConfig["recommendedFor"][number];
+}
+
+/**
+ * A provider and model picker, with fields for the model identifier and for
+ * credentials of a provider other than the main one. Left empty, credentials
+ * come from the main settings (same provider) or the server.
+ */
+export function ModelChoiceFields({ value, onChange, emptyLabel, mainProvider, recommendFor }: ModelChoiceFieldsProps) {
+  const providers = getAllProvidersWithModels();
+  const provider = value ? PROVIDER_CONFIGS[value.provider] : undefined;
+  const otherProvider = value && value.provider !== mainProvider;
+
+  const handleChoose = (choice: string) => {
+    if (!choice) {
+      onChange(null);
+      return;
+    }
+    const [providerId, ...rest] = choice.split(":");
+    // Keep credentials already entered while the provider stays the same
+    const keep = value?.provider === providerId ? value : undefined;
+    onChange({
+      provider: providerId as AIProvider,
+      model: rest.join(":"),
+      apiKey: keep?.apiKey,
+      baseUrl: keep?.baseUrl,
+      customModelId: keep?.customModelId,
+    });
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <select
+        value={value ? `${value.provider}:${value.model}` : ""}
+        onChange={(e) => handleChoose(e.target.value)}
+        className={modelChoiceInputClass}
+      >
+        <option value="">{emptyLabel}</option>
+        {providers.map((p) => (
+          <optgroup key={p.id} label={p.name}>
+            {p.models.map((m) => (
+              <option key={m.id} value={`${p.id}:${m.id}`}>
+                {recommendFor && m.recommendedFor.includes(recommendFor) ? `${m.name} - recommended` : m.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      {value && provider && (value.model === "custom" || otherProvider) && (
+        <div className="mt-1 space-y-1 pl-2 border-l border-parchment">
+          {value.model === "custom" && (
+            <input
+              type="text"
+              value={value.customModelId || ""}
+              onChange={(e) => onChange({ ...value, customModelId: e.target.value })}
+              placeholder="Model identifier"
+              className={modelChoiceInputClass}
+            />
+          )}
+          {otherProvider && provider.requiresApiKey && (
+            <input
+              type="password"
+              value={value.apiKey || ""}
+              onChange={(e) => onChange({ ...value, apiKey: e.target.value })}
+              placeholder={`${provider.name} API key (optional if set on the server)`}
+              className={modelChoiceInputClass}
+            />
+          )}
+          {otherProvider && provider.baseUrlConfigurable && (
+            <input
+              type="text"
+              value={value.baseUrl || ""}
+              onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+              placeholder={provider.defaultBaseUrl || "https://api.example.com/v1"}
+              className={modelChoiceInputClass}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useAISettings } from "@/context/AISettingsContext";
+import { AI_TASKS } from "@/lib/ai/config";
+import type { AITask } from "@/types/ai-settings";
+import { ModelChoiceFields } from "./ModelChoiceFields";
+
+/**
+ * Route each task to its own provider and model - a fast local model for chat,
+ * say, and a larger one for the final critique.
+ */
+export function TaskModelSettings() {
+  const { settings, setTaskModel } = useAISettings();
+
+  return (
+    <div className="space-y-2.5">
+      {(Object.keys(AI_TASKS) as AITask[]).map((task) => {
+        const info = AI_TASKS[task];
+        return (
+          <div key={task}>
+            <div className="flex items-baseline justify-between gap-2 mb-1">
+              <label className="font-sans text-caption font-medium text-ink">{info.name}</label>
+              <span className="font-sans text-[9px] text-slate-muted truncate">{info.description}</span>
+            </div>
+            <ModelChoiceFields
+              value={settings.taskModels?.[task]}
+              onChange={(value) => setTaskModel(task, value)}
+              emptyLabel="Same as main model"
+              mainProvider={settings.provider}
+              recommendFor={info.kind}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
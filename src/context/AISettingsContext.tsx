@@ -11,16 +11,46 @@ import type {
   AISettings,
   AISettingsStorage,
   AIProvider,
+  AITask,
+  DiscoveredModel,
+  TaskModelSetting,
 } from "@/types/ai-settings";
+import type { ModelDiscoveryResponse } from "@/types/api";
 import { DEFAULT_AI_SETTINGS } from "@/types/ai-settings";
-import { getDefaultModel, PROVIDER_CONFIGS } from "@/lib/ai/config";
+import { DISCOVERABLE_PROVIDERS, getDefaultModel, getModelContextWindow, isProviderAvailable, PROVIDER_CONFIGS, setDiscoveredModels } from "@/lib/ai/config";
 
 const STORAGE_KEY = "ccs-wb-ai-settings";
 const STORAGE_VERSION = "1.0";
+const DISCOVERY_STORAGE_KEY = "ccs-wb-discovered-models";
+const DISCOVERY_MAX_AGE_MS = 10 * 60 * 1000; // Discovered models are refetched after this
 
 // Connection test status - tracks whether AI connection has been verified
 export type ConnectionStatus = "unknown" | "testing" | "success" | "error";
 
+// Models last listed by a provider's endpoint, kept so they survive a reload
+// and an endpoint that has gone down
+interface DiscoveryCacheEntry {
+  baseUrl: string;
+  models: DiscoveredModel[];
+  fetchedAt: string;
+}
+
+type DiscoveryCache = Partial<Record<AIProvider, DiscoveryCacheEntry>>;
+
+// Context window of a model on an endpoint whose models were discovered here:
+// the server does not know them, so it is sent with the request
+function contextWindowHeader(provider: AIProvider, modelId: string): Record<string, string> {
+  if (!DISCOVERABLE_PROVIDERS.includes(provider)) return {};
+  return { "X-AI-Context-Window": String(getModelContextWindow(provider, modelId)) };
+}
+
+export interface ModelDiscoveryState {
+  status: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  fetchedAt: string | null; // When the listed models were fetched (possibly before the last error)
+  count: number;
+}
+
 interface AISettingsContextValue {
   settings: AISettings;
   isLoaded: boolean;
@@ -38,8 +68,17 @@ interface AISettingsContextValue {
   setAiEnabled: (enabled: boolean) => void;
   setBeDirectMode: (enabled: boolean) => void;
   setTeachMeMode: (enabled: boolean) => void;
+  setTaskModel: (task: AITask, setting: TaskModelSetting | null) => void; // null: use the main model
+  getTaskModel: (task: AITask) => TaskModelSetting; // The task's own model, or the main one
+  setFallbackModels: (models: TaskModelSetting[]) => void;
   clearSettings: () => void;
-  getRequestHeaders: () => Record<string, string>;
+  // Headers for the configured provider, or for another provider/model (e.g. to regenerate a reply)
+  getRequestHeaders: (override?: Pick<AISettings, "provider" | "model">) => Record<string, string>;
+  // Headers for the model a task is routed to
+  getTaskRequestHeaders: (task: AITask) => Record<string, string>;
+  // Models listed by the configured Ollama or OpenAI-compatible endpoint
+  modelDiscovery: ModelDiscoveryState;
+  discoverModels: (options?: { force?: boolean }) => Promise<void>;
 }
 
 const AISettingsContext = createContext<AISettingsContextValue | null>(null);
@@ -53,6 +92,11 @@ export function AISettingsProvider({
   const [isLoaded, setIsLoaded] = useState(false);
   const [connectionStatus, setConnectionStatusState] = useState<ConnectionStatus>("unknown");
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [discoveryCache, setDiscoveryCache] = useState<DiscoveryCache>({});
+  const [discoveryStatus, setDiscoveryStatus] = useState<Pick<ModelDiscoveryState, "status" | "error">>({
+    status: "idle",
+    error: null,
+  });
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -68,12 +112,31 @@ export function AISettingsProvider({
             beDirectMode: parsed.settings.beDirectMode ?? false,
             teachMeMode: parsed.settings.teachMeMode ?? false,
           };
+          // A provider this build does not offer (the mock provider in production) reverts to the default
+          if (!isProviderAvailable(migratedSettings.provider)) {
+            migratedSettings.provider = DEFAULT_AI_SETTINGS.provider;
+            migratedSettings.model = DEFAULT_AI_SETTINGS.model;
+            migratedSettings.baseUrl = DEFAULT_AI_SETTINGS.baseUrl;
+            migratedSettings.customModelId = undefined;
+          }
           setSettings(migratedSettings);
         }
       }
     } catch (e) {
       console.error("Failed to load AI settings:", e);
     }
+    try {
+      const stored = localStorage.getItem(DISCOVERY_STORAGE_KEY);
+      if (stored) {
+        const cache: DiscoveryCache = JSON.parse(stored);
+        for (const [provider, entry] of Object.entries(cache)) {
+          setDiscoveredModels(provider as AIProvider, entry.models);
+        }
+        setDiscoveryCache(cache);
+      }
+    } catch (e) {
+      console.error("Failed to load discovered models:", e);
+    }
     setIsLoaded(true);
   }, []);
 
@@ -93,6 +156,22 @@ export function AISettingsProvider({
     }
   }, [settings, isLoaded]);
 
+  // Save discovered models to localStorage on change
+  useEffect(() => {
+    if (isLoaded) {
+      try {
+        localStorage.setItem(DISCOVERY_STORAGE_KEY, JSON.stringify(discoveryCache));
+      } catch (e) {
+        console.error("Failed to save discovered models:", e);
+      }
+    }
+  }, [discoveryCache, isLoaded]);
+
+  // A different provider or endpoint has not been asked yet
+  useEffect(() => {
+    setDiscoveryStatus({ status: "idle", error: null });
+  }, [settings.provider, settings.baseUrl]);
+
   // Check if provider is properly configured
   const isConfigured = useCallback(() => {
     const providerConfig = PROVIDER_CONFIGS[settings.provider];
@@ -169,34 +248,168 @@ export function AISettingsProvider({
     setSettings((prev) => ({ ...prev, teachMeMode }));
   }, []);
 
+  const setTaskModel = useCallback((task: AITask, setting: TaskModelSetting | null) => {
+    setSettings((prev) => {
+      const taskModels = { ...prev.taskModels };
+      if (setting) {
+        taskModels[task] = setting;
+      } else {
+        delete taskModels[task];
+      }
+      return { ...prev, taskModels };
+    });
+  }, []);
+
+  const getTaskModel = useCallback((task: AITask): TaskModelSetting => {
+    return settings.taskModels?.[task] ?? {
+      provider: settings.provider,
+      model: settings.model,
+      apiKey: settings.apiKey,
+      baseUrl: settings.baseUrl,
+      customModelId: settings.customModelId,
+    };
+  }, [settings]);
+
+  const setFallbackModels = useCallback((fallbackModels: TaskModelSetting[]) => {
+    setSettings((prev) => ({ ...prev, fallbackModels }));
+  }, []);
+
   const clearSettings = useCallback(() => {
     setSettings(DEFAULT_AI_SETTINGS);
     localStorage.removeItem(STORAGE_KEY);
   }, []);
 
-  // Generate headers to send with API requests
-  const getRequestHeaders = useCallback((): Record<string, string> => {
+  // Fallback models for the server to try in order, with credentials filled in
+  // from the main settings where the provider is the same
+  const getFallbackHeader = useCallback((): Record<string, string> => {
+    if (!settings.fallbackModels?.length) return {};
+    const fallbacks = settings.fallbackModels.map((fallback) => {
+      const sameProvider = fallback.provider === settings.provider;
+      return {
+        ...fallback,
+        apiKey: fallback.apiKey || (sameProvider ? settings.apiKey : undefined),
+        baseUrl: fallback.baseUrl || (sameProvider ? settings.baseUrl : undefined),
+      };
+    });
+    return { "X-AI-Fallbacks": JSON.stringify(fallbacks) };
+  }, [settings]);
+
+  // Generate headers to send with API requests. Fallbacks are only offered for
+  // the configured model: a reply asked of a particular model should come from it.
+  const getRequestHeaders = useCallback((override?: Pick<AISettings, "provider" | "model">): Record<string, string> => {
+    // Credentials and base URL belong to the configured provider; another provider
+    // falls back to the server's environment keys and its default URL
+    const sameProvider = !override || override.provider === settings.provider;
     const headers: Record<string, string> = {
-      "X-AI-Provider": settings.provider,
-      "X-AI-Model": settings.model,
+      "X-AI-Provider": override?.provider ?? settings.provider,
+      "X-AI-Model": override?.model ?? settings.model,
       "X-AI-Be-Direct": settings.beDirectMode ? "true" : "false",
       "X-AI-Teach-Me": settings.teachMeMode ? "true" : "false",
     };
 
-    if (settings.apiKey) {
+    if (settings.apiKey && sameProvider) {
       headers["X-AI-API-Key"] = settings.apiKey;
     }
 
-    if (settings.baseUrl) {
+    if (settings.baseUrl && sameProvider) {
       headers["X-AI-Base-URL"] = settings.baseUrl;
     }
 
-    if (settings.customModelId) {
+    if (settings.customModelId && (!override || (sameProvider && override.model === "custom"))) {
       headers["X-AI-Custom-Model"] = settings.customModelId;
     }
 
-    return headers;
-  }, [settings]);
+    Object.assign(headers, contextWindowHeader(headers["X-AI-Provider"] as AIProvider, headers["X-AI-Custom-Model"] || headers["X-AI-Model"]));
+
+    return override ? headers : { ...headers, ...getFallbackHeader() };
+  }, [settings, getFallbackHeader]);
+
+  // Generate headers for a task's model. Credentials it leaves empty come from
+  // the main settings when the provider is the same.
+  const getTaskRequestHeaders = useCallback((task: AITask): Record<string, string> => {
+    const routed = settings.taskModels?.[task];
+    if (!routed) return getRequestHeaders();
+
+    const sameProvider = routed.provider === settings.provider;
+    const headers: Record<string, string> = {
+      "X-AI-Provider": routed.provider,
+      "X-AI-Model": routed.model,
+      "X-AI-Be-Direct": settings.beDirectMode ? "true" : "false",
+      "X-AI-Teach-Me": settings.teachMeMode ? "true" : "false",
+    };
+
+    const apiKey = routed.apiKey || (sameProvider ? settings.apiKey : undefined);
+    if (apiKey) {
+      headers["X-AI-API-Key"] = apiKey;
+    }
+
+    const baseUrl = routed.baseUrl || (sameProvider ? settings.baseUrl : undefined);
+    if (baseUrl) {
+      headers["X-AI-Base-URL"] = baseUrl;
+    }
+
+    if (routed.model === "custom" && routed.customModelId) {
+      headers["X-AI-Custom-Model"] = routed.customModelId;
+    }
+
+    Object.assign(headers, contextWindowHeader(routed.provider, headers["X-AI-Custom-Model"] || routed.model));
+
+    return { ...headers, ...getFallbackHeader() };
+  }, [settings, getRequestHeaders, getFallbackHeader]);
+
+  // Ask the configured endpoint which models it serves. Skipped while the models
+  // last fetched from the same endpoint are recent, unless forced. If the
+  // endpoint is down, the models last seen there stay listed.
+  const discoverModels = useCallback(async (options?: { force?: boolean }) => {
+    const provider = settings.provider;
+    if (!DISCOVERABLE_PROVIDERS.includes(provider)) return;
+    const baseUrl = settings.baseUrl || "";
+    const cached = discoveryCache[provider];
+    const sameEndpoint = cached?.baseUrl === baseUrl;
+    if (!options?.force && cached && sameEndpoint && Date.now() - Date.parse(cached.fetchedAt) < DISCOVERY_MAX_AGE_MS) {
+      setDiscoveryStatus({ status: "success", error: null });
+      return;
+    }
+
+    setDiscoveryStatus({ status: "loading", error: null });
+    try {
+      const response = await fetch("/api/models", {
+        method: "POST",
+        headers: getRequestHeaders(),
+      });
+      const data: ModelDiscoveryResponse = await response.json();
+      if (data.error) throw new Error(data.error);
+
+      setDiscoveredModels(provider, data.models);
+      setDiscoveryCache((prev) => ({
+        ...prev,
+        [provider]: { baseUrl, models: data.models, fetchedAt: new Date().toISOString() },
+      }));
+      setDiscoveryStatus({ status: "success", error: null });
+    } catch (error) {
+      // Models from another endpoint would not be served by this one
+      if (cached && !sameEndpoint) {
+        setDiscoveredModels(provider, []);
+        setDiscoveryCache((prev) => {
+          const next = { ...prev };
+          delete next[provider];
+          return next;
+        });
+      }
+      setDiscoveryStatus({
+        status: "error",
+        error: error instanceof Error ? error.message : "Could not list models",
+      });
+    }
+  }, [settings.provider, settings.baseUrl, discoveryCache, getRequestHeaders]);
+
+  const cachedDiscovery = discoveryCache[settings.provider];
+  const currentDiscovery = cachedDiscovery?.baseUrl === (settings.baseUrl || "") ? cachedDiscovery : undefined;
+  const modelDiscovery: ModelDiscoveryState = {
+    ...discoveryStatus,
+    fetchedAt: currentDiscovery?.fetchedAt ?? null,
+    count: currentDiscovery?.models.length ?? 0,
+  };
 
   // AI is ready to use when enabled AND connection has been verified
   const isAiReady = settings.aiEnabled && connectionStatus === "success";
@@ -220,8 +433,14 @@ export function AISettingsProvider({
         setAiEnabled,
         setBeDirectMode,
         setTeachMeMode,
+        setTaskModel,
+        getTaskModel,
+        setFallbackModels,
         clearSettings,
         getRequestHeaders,
+        getTaskRequestHeaders,
+        modelDiscovery,
+        discoverModels,
       }}
     >
       {children}
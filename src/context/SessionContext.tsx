@@ -15,13 +15,23 @@ import type {
   CreateLanguage,
   ExperienceLevel,
   LineAnnotation,
-  LineAnnotationType,
+  AnnotationTypeDefinition,
+  ModelComparison,
+  FileRevision,
+  CodebookCode,
+  BlindAnnotationSettings,
   DisplaySettings,
   AnnotationDisplaySettings,
   PanelLayoutSettings,
 } from "@/types";
 import { DEFAULT_DISPLAY_SETTINGS } from "@/types/session";
 import { generateId, getCurrentTimestamp } from "@/lib/utils";
+import { createAnchor, reanchorFileAnnotations } from "@/lib/annotation-anchoring";
+import { getHeadRevision } from "@/lib/file-revisions";
+import { reconcileAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import { normalizeCodebook, pruneAnnotationCodes } from "@/lib/codebook";
+import { normalizeBlindAnnotation } from "@/lib/annotation-agreement";
+import { forkBeforeMessage, switchToMessageBranch } from "@/lib/message-tree";
 import {
   saveSessionForMode,
   loadSessionForMode,
@@ -37,6 +47,10 @@ type SessionAction =
   | { type: "INIT_SESSION"; payload: { mode: EntryMode; experienceLevel?: ExperienceLevel } }
   | { type: "ADD_MESSAGE"; payload: Message }
   | { type: "UPDATE_MESSAGE"; payload: { id: string; updates: Partial<Message> } }
+  | { type: "FORK_BEFORE_MESSAGE"; payload: string } // Keep this message and what follows as another branch
+  | { type: "SWITCH_MESSAGE_BRANCH"; payload: string } // Show the branch running through this message
+  | { type: "ADD_MODEL_COMPARISON"; payload: ModelComparison }
+  | { type: "UPDATE_MODEL_COMPARISON"; payload: { id: string; updates: Partial<Omit<ModelComparison, "id" | "createdAt">> } }
   | { type: "ADD_CODE"; payload: CodeReference }
   | { type: "REMOVE_CODE"; payload: string }
   | { type: "UPDATE_CODE"; payload: { id: string; updates: Partial<CodeReference> } }
@@ -65,9 +79,16 @@ type SessionAction =
   | { type: "UPDATE_LINE_ANNOTATION"; payload: { id: string; updates: Partial<Omit<LineAnnotation, "id" | "codeFileId" | "createdAt">> } }
   | { type: "REMOVE_LINE_ANNOTATION"; payload: string }
   | { type: "CLEAR_LINE_ANNOTATIONS"; payload?: string } // optional codeFileId to clear only that file's annotations
+  // Annotation taxonomy (reassign maps removed type ids to the types their annotations move to)
+  | { type: "SET_ANNOTATION_TAXONOMY"; payload: { taxonomy: AnnotationTypeDefinition[]; reassign?: Record<string, string> } }
+  // Codebook (codes no longer in it are removed from annotations)
+  | { type: "SET_CODEBOOK"; payload: CodebookCode[] }
+  | { type: "SET_BLIND_ANNOTATION"; payload: BlindAnnotationSettings }
   // Code contents actions
   | { type: "SET_CODE_CONTENT"; payload: { fileId: string; content: string } }
   | { type: "REMOVE_CODE_CONTENT"; payload: string }
+  // File revision history
+  | { type: "ADD_FILE_REVISION"; payload: FileRevision }
   // Display settings actions
   | { type: "UPDATE_DISPLAY_SETTINGS"; payload: Partial<DisplaySettings> }
   | { type: "UPDATE_ANNOTATION_DISPLAY_SETTINGS"; payload: Partial<AnnotationDisplaySettings> }
@@ -110,7 +131,16 @@ function sessionReducer(state: Session, action: SessionAction): Session {
     case "ADD_MESSAGE":
       return {
         ...state,
-        messages: [...state.messages, action.payload],
+        messages: [
+          ...state.messages,
+          {
+            ...action.payload,
+            // Follows the last message shown unless the caller says otherwise
+            parentId: action.payload.parentId !== undefined
+              ? action.payload.parentId
+              : state.messages[state.messages.length - 1]?.id ?? null,
+          },
+        ],
         lastModified: now,
       };
 
@@ -123,6 +153,36 @@ function sessionReducer(state: Session, action: SessionAction): Session {
         lastModified: now,
       };
 
+    case "FORK_BEFORE_MESSAGE":
+      return {
+        ...state,
+        ...forkBeforeMessage(state, action.payload),
+        lastModified: now,
+      };
+
+    case "SWITCH_MESSAGE_BRANCH":
+      return {
+        ...state,
+        ...switchToMessageBranch(state, action.payload),
+        lastModified: now,
+      };
+
+    case "ADD_MODEL_COMPARISON":
+      return {
+        ...state,
+        modelComparisons: [...(state.modelComparisons || []), action.payload],
+        lastModified: now,
+      };
+
+    case "UPDATE_MODEL_COMPARISON":
+      return {
+        ...state,
+        modelComparisons: state.modelComparisons?.map((comparison) =>
+          comparison.id === action.payload.id ? { ...comparison, ...action.payload.updates } : comparison
+        ),
+        lastModified: now,
+      };
+
     case "ADD_CODE":
       return {
         ...state,
@@ -137,8 +197,11 @@ function sessionReducer(state: Session, action: SessionAction): Session {
         ...state,
         codeFiles: state.codeFiles.filter((f) => f.id !== action.payload),
         codeContents: remainingContents,
-        // Also remove annotations for this file
-        lineAnnotations: state.lineAnnotations.filter((a) => a.codeFileId !== action.payload),
+        // Also remove annotations and revision history for this file, and links into it
+        lineAnnotations: state.lineAnnotations
+          .filter((a) => a.codeFileId !== action.payload)
+          .map((a) => (a.link?.codeFileId === action.payload ? { ...a, link: undefined } : a)),
+        fileRevisions: state.fileRevisions?.filter((r) => r.codeFileId !== action.payload),
         lastModified: now,
       };
     }
@@ -244,7 +307,17 @@ function sessionReducer(state: Session, action: SessionAction): Session {
         critiqueArtifacts: Array.isArray(imported.critiqueArtifacts) ? imported.critiqueArtifacts :
                            Array.isArray(imported.puzzleArtifacts) ? imported.puzzleArtifacts : [],
         messages: Array.isArray(action.payload.messages) ? action.payload.messages : [],
+        branchMessages: Array.isArray(action.payload.branchMessages) ? action.payload.branchMessages : undefined,
+        modelComparisons: Array.isArray(action.payload.modelComparisons) ? action.payload.modelComparisons : undefined,
         lineAnnotations: Array.isArray(action.payload.lineAnnotations) ? action.payload.lineAnnotations : [],
+        fileRevisions: Array.isArray(action.payload.fileRevisions) ? action.payload.fileRevisions : [],
+        // Older files have no taxonomy (the default six); types used by annotations but missing from it are added
+        annotationTaxonomy: reconcileAnnotationTaxonomy(
+          action.payload.annotationTaxonomy,
+          Array.isArray(action.payload.lineAnnotations) ? action.payload.lineAnnotations : []
+        ),
+        codebook: normalizeCodebook(action.payload.codebook),
+        blindAnnotation: normalizeBlindAnnotation(action.payload.blindAnnotation),
         // Ensure settings object exists with defaults
         settings: {
           ...defaultSession.settings,
@@ -359,6 +432,8 @@ function sessionReducer(state: Session, action: SessionAction): Session {
       const loadedDefaults = createInitialSession();
       return {
         ...action.payload,
+        annotationTaxonomy: reconcileAnnotationTaxonomy(action.payload.annotationTaxonomy, action.payload.lineAnnotations || []),
+        codebook: normalizeCodebook(action.payload.codebook),
         // Merge displaySettings with defaults to handle old sessions
         displaySettings: {
           annotations: {
@@ -416,12 +491,31 @@ function sessionReducer(state: Session, action: SessionAction): Session {
       };
 
     // Line annotation actions
-    case "ADD_LINE_ANNOTATION":
+    case "ADD_LINE_ANNOTATION": {
+      // Fingerprint the annotated lines' context so the annotation can follow later edits,
+      // and record which revision of the file it was written on
+      const fileContent = state.codeContents[action.payload.codeFileId];
+      const link = action.payload.link;
+      const linkedContent = link && state.codeContents[link.codeFileId];
+      const annotation: LineAnnotation = {
+        ...action.payload,
+        anchor: action.payload.anchor ?? (fileContent === undefined
+          ? undefined
+          : createAnchor(fileContent.split("\n"), action.payload.lineNumber, action.payload.endLineNumber)),
+        revisionId: action.payload.revisionId ?? getHeadRevision(state.fileRevisions, action.payload.codeFileId)?.id,
+        link: link && {
+          ...link,
+          anchor: link.anchor ?? (linkedContent === undefined
+            ? undefined
+            : createAnchor(linkedContent.split("\n"), link.lineNumber, link.endLineNumber)),
+        },
+      };
       return {
         ...state,
-        lineAnnotations: [...state.lineAnnotations, action.payload],
+        lineAnnotations: [...state.lineAnnotations, annotation],
         lastModified: now,
       };
+    }
 
     case "UPDATE_LINE_ANNOTATION":
       return {
@@ -452,6 +546,41 @@ function sessionReducer(state: Session, action: SessionAction): Session {
         lastModified: now,
       };
 
+    case "SET_ANNOTATION_TAXONOMY": {
+      const { taxonomy, reassign } = action.payload;
+      return {
+        ...state,
+        annotationTaxonomy: taxonomy,
+        lineAnnotations: reassign && Object.keys(reassign).length > 0
+          ? state.lineAnnotations.map((ann) =>
+              reassign[ann.type] ? { ...ann, type: reassign[ann.type] } : ann
+            )
+          : state.lineAnnotations,
+        lastModified: now,
+      };
+    }
+
+    case "SET_CODEBOOK": {
+      const codebook = action.payload;
+      return {
+        ...state,
+        codebook: codebook.length > 0 ? codebook : undefined,
+        lineAnnotations: state.lineAnnotations.map((ann) => {
+          if (!ann.codes) return ann;
+          const codes = pruneAnnotationCodes(ann.codes, codebook);
+          return codes?.length === ann.codes.length ? ann : { ...ann, codes };
+        }),
+        lastModified: now,
+      };
+    }
+
+    case "SET_BLIND_ANNOTATION":
+      return {
+        ...state,
+        blindAnnotation: action.payload,
+        lastModified: now,
+      };
+
     // Code contents actions
     case "SET_CODE_CONTENT":
       return {
@@ -460,6 +589,13 @@ function sessionReducer(state: Session, action: SessionAction): Session {
           ...state.codeContents,
           [action.payload.fileId]: action.payload.content,
         },
+        // Move annotations with the text they annotate
+        lineAnnotations: reanchorFileAnnotations(
+          state.lineAnnotations,
+          action.payload.fileId,
+          state.codeContents[action.payload.fileId],
+          action.payload.content
+        ),
         lastModified: now,
       };
 
@@ -472,6 +608,16 @@ function sessionReducer(state: Session, action: SessionAction): Session {
       };
     }
 
+    // File revision actions
+    case "ADD_FILE_REVISION":
+      // Revisions are immutable, so one that is already known (e.g. synced back from the cloud) is ignored
+      if (state.fileRevisions?.some((r) => r.id === action.payload.id)) return state;
+      return {
+        ...state,
+        fileRevisions: [...(state.fileRevisions || []), action.payload],
+        lastModified: now,
+      };
+
     // Display settings actions
     case "UPDATE_DISPLAY_SETTINGS":
       return {
@@ -518,8 +664,12 @@ function sessionReducer(state: Session, action: SessionAction): Session {
 interface SessionContextType {
   session: Session;
   initSession: (mode: EntryMode, experienceLevel?: ExperienceLevel) => void;
-  addMessage: (message: Omit<Message, "id" | "timestamp">) => void;
+  addMessage: (message: Omit<Message, "id" | "timestamp">) => string;
   updateMessage: (id: string, updates: Partial<Message>) => void;
+  branchAtMessage: (messageId: string) => void; // Before editing a question or regenerating a reply
+  switchMessageBranch: (messageId: string) => void;
+  addModelComparison: (comparison: Omit<ModelComparison, "id" | "createdAt">) => string;
+  updateModelComparison: (id: string, updates: Partial<Omit<ModelComparison, "id" | "createdAt">>) => void;
   addCode: (code: Omit<CodeReference, "id" | "uploadedAt">) => string;
   removeCode: (codeId: string) => void;
   updateCode: (codeId: string, updates: Partial<CodeReference>) => void;
@@ -553,9 +703,14 @@ interface SessionContextType {
   updateLineAnnotation: (id: string, updates: Partial<Omit<LineAnnotation, "id" | "codeFileId" | "createdAt">>) => void;
   removeLineAnnotation: (id: string) => void;
   clearLineAnnotations: (codeFileId?: string) => void;
+  setAnnotationTaxonomy: (taxonomy: AnnotationTypeDefinition[], reassign?: Record<string, string>) => void;
+  setCodebook: (codebook: CodebookCode[]) => void;
+  setBlindAnnotation: (settings: BlindAnnotationSettings) => void;
   // Code contents functions
   setCodeContent: (fileId: string, content: string) => void;
   removeCodeContent: (fileId: string) => void;
+  // File revision functions
+  addFileRevision: (revision: Omit<FileRevision, "id" | "createdAt"> & Partial<Pick<FileRevision, "id" | "createdAt">>) => FileRevision;
   // Display settings functions
   updateDisplaySettings: (settings: Partial<DisplaySettings>) => void;
   updateAnnotationDisplaySettings: (settings: Partial<AnnotationDisplaySettings>) => void;
@@ -593,13 +748,15 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   const addMessage = useCallback(
-    (message: Omit<Message, "id" | "timestamp">) => {
+    (message: Omit<Message, "id" | "timestamp">): string => {
+      const id = generateId();
       const fullMessage: Message = {
         ...message,
-        id: generateId(),
+        id,
         timestamp: getCurrentTimestamp(),
       };
       dispatch({ type: "ADD_MESSAGE", payload: fullMessage });
+      return id;
     },
     []
   );
@@ -608,6 +765,33 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "UPDATE_MESSAGE", payload: { id, updates } });
   }, []);
 
+  const branchAtMessage = useCallback((messageId: string) => {
+    dispatch({ type: "FORK_BEFORE_MESSAGE", payload: messageId });
+  }, []);
+
+  const switchMessageBranch = useCallback((messageId: string) => {
+    dispatch({ type: "SWITCH_MESSAGE_BRANCH", payload: messageId });
+  }, []);
+
+  const addModelComparison = useCallback(
+    (comparison: Omit<ModelComparison, "id" | "createdAt">): string => {
+      const id = generateId();
+      dispatch({
+        type: "ADD_MODEL_COMPARISON",
+        payload: { ...comparison, id, createdAt: getCurrentTimestamp() },
+      });
+      return id;
+    },
+    []
+  );
+
+  const updateModelComparison = useCallback(
+    (id: string, updates: Partial<Omit<ModelComparison, "id" | "createdAt">>) => {
+      dispatch({ type: "UPDATE_MODEL_COMPARISON", payload: { id, updates } });
+    },
+    []
+  );
+
   const addCode = useCallback(
     (code: Omit<CodeReference, "id" | "uploadedAt">): string => {
       const id = generateId();
@@ -808,6 +992,18 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "CLEAR_LINE_ANNOTATIONS", payload: codeFileId });
   }, []);
 
+  const setAnnotationTaxonomy = useCallback((taxonomy: AnnotationTypeDefinition[], reassign?: Record<string, string>) => {
+    dispatch({ type: "SET_ANNOTATION_TAXONOMY", payload: { taxonomy, reassign } });
+  }, []);
+
+  const setCodebook = useCallback((codebook: CodebookCode[]) => {
+    dispatch({ type: "SET_CODEBOOK", payload: codebook });
+  }, []);
+
+  const setBlindAnnotation = useCallback((settings: BlindAnnotationSettings) => {
+    dispatch({ type: "SET_BLIND_ANNOTATION", payload: settings });
+  }, []);
+
   // Code contents functions
   const setCodeContent = useCallback((fileId: string, content: string) => {
     dispatch({ type: "SET_CODE_CONTENT", payload: { fileId, content } });
@@ -817,6 +1013,20 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "REMOVE_CODE_CONTENT", payload: fileId });
   }, []);
 
+  // File revision functions
+  const addFileRevision = useCallback(
+    (revision: Omit<FileRevision, "id" | "createdAt"> & Partial<Pick<FileRevision, "id" | "createdAt">>): FileRevision => {
+      const fullRevision: FileRevision = {
+        ...revision,
+        id: revision.id || generateId(),
+        createdAt: revision.createdAt || getCurrentTimestamp(),
+      };
+      dispatch({ type: "ADD_FILE_REVISION", payload: fullRevision });
+      return fullRevision;
+    },
+    []
+  );
+
   // Display settings functions
   const updateDisplaySettings = useCallback((settings: Partial<DisplaySettings>) => {
     dispatch({ type: "UPDATE_DISPLAY_SETTINGS", payload: settings });
@@ -835,6 +1045,10 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     initSession,
     addMessage,
     updateMessage,
+    branchAtMessage,
+    switchMessageBranch,
+    addModelComparison,
+    updateModelComparison,
     addCode,
     removeCode,
     updateCode,
@@ -868,9 +1082,14 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     updateLineAnnotation,
     removeLineAnnotation,
     clearLineAnnotations,
+    setAnnotationTaxonomy,
+    setCodebook,
+    setBlindAnnotation,
     // Code contents
     setCodeContent,
     removeCodeContent,
+    // File revisions
+    addFileRevision,
     // Display settings
     updateDisplaySettings,
     updateAnnotationDisplaySettings,
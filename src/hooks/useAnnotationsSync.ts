@@ -13,6 +13,7 @@ import { getSupabaseClient, isSupabaseConfigured } from "@/lib/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 import { useProjects } from "@/context/ProjectsContext";
 import type { LineAnnotation } from "@/types/session";
+import { normalizeAnnotationStatus } from "@/lib/annotation-status";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 
 interface AnnotationRow {
@@ -24,6 +25,19 @@ interface AnnotationRow {
   line_number: number;
   end_line_number: number | null;
   line_content: string | null;
+  anchor_prefix: string | null;
+  anchor_suffix: string | null;
+  orphaned: boolean | null;
+  revision_id: string | null;
+  linked_file_id: string | null;
+  linked_line_number: number | null;
+  linked_end_line_number: number | null;
+  linked_line_content: string | null;
+  source_message_id: string | null;
+  source_model: string | null;
+  codes: string[] | null;
+  status: string | null;
+  status_changed_by: string | null;
   type: string;
   content: string;
   created_at: string;
@@ -51,7 +65,26 @@ function rowToAnnotation(row: AnnotationRow, codeFileId: string): LineAnnotation
     lineNumber: row.line_number,
     endLineNumber: row.end_line_number ?? undefined,
     lineContent: row.line_content ?? "",
+    anchor: row.anchor_prefix !== null || row.anchor_suffix !== null
+      ? { prefix: row.anchor_prefix ?? "", suffix: row.anchor_suffix ?? "" }
+      : undefined,
+    orphaned: row.orphaned || undefined,
+    revisionId: row.revision_id ?? undefined,
+    link: row.linked_file_id !== null && row.linked_line_number !== null
+      ? {
+          codeFileId: row.linked_file_id,
+          lineNumber: row.linked_line_number,
+          endLineNumber: row.linked_end_line_number ?? undefined,
+          lineContent: row.linked_line_content ?? "",
+        }
+      : undefined,
+    provenance: row.source_message_id !== null || row.source_model !== null
+      ? { messageId: row.source_message_id ?? undefined, model: row.source_model ?? undefined }
+      : undefined,
     type: row.type as LineAnnotation["type"],
+    codes: row.codes && row.codes.length > 0 ? row.codes : undefined,
+    status: normalizeAnnotationStatus(row.status),
+    statusChangedBy: row.status_changed_by ?? undefined,
     content: row.content,
     createdAt: row.created_at,
     addedBy: row.added_by_initials ?? undefined,
@@ -76,6 +109,19 @@ function annotationToRow(
     line_number: annotation.lineNumber,
     end_line_number: annotation.endLineNumber ?? null,
     line_content: annotation.lineContent || null,
+    anchor_prefix: annotation.anchor?.prefix ?? null,
+    anchor_suffix: annotation.anchor?.suffix ?? null,
+    orphaned: !!annotation.orphaned,
+    revision_id: annotation.revisionId ?? null,
+    linked_file_id: annotation.link?.codeFileId ?? null,
+    linked_line_number: annotation.link?.lineNumber ?? null,
+    linked_end_line_number: annotation.link?.endLineNumber ?? null,
+    linked_line_content: annotation.link?.lineContent ?? null,
+    source_message_id: annotation.provenance?.messageId ?? null,
+    source_model: annotation.provenance?.model ?? null,
+    codes: annotation.codes && annotation.codes.length > 0 ? annotation.codes : null,
+    status: annotation.status ?? null,
+    status_changed_by: annotation.statusChangedBy ?? null,
     type: annotation.type,
     content: annotation.content,
   };
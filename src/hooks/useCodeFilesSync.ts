@@ -13,6 +13,7 @@ import { getSupabaseClient, isSupabaseConfigured } from "@/lib/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 import { useProjects } from "@/context/ProjectsContext";
 import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { FileRevision } from "@/types/session";
 
 // Local CodeFile interface for syncing
 interface CodeFile {
@@ -36,6 +37,17 @@ interface CodeFileRow {
   deleted_at: string | null;
 }
 
+interface FileRevisionRow {
+  id: string;
+  file_id: string;
+  project_id: string;
+  content: string;
+  message: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  created_at: string;
+}
+
 // Trashed file info for UI display
 export interface TrashedCodeFile {
   id: string;
@@ -81,6 +93,19 @@ function rowToCodeFile(row: CodeFileRow): CodeFile {
   };
 }
 
+// Convert DB row to local FileRevision format
+function rowToFileRevision(row: FileRevisionRow): FileRevision {
+  return {
+    id: row.id,
+    codeFileId: row.file_id,
+    content: row.content,
+    createdAt: row.created_at,
+    author: row.author_name || undefined,
+    authorId: row.author_id || undefined,
+    message: row.message || undefined,
+  };
+}
+
 // Detect language from filename
 function detectLanguage(filename: string): string {
   const ext = filename.split(".").pop()?.toLowerCase();
@@ -249,6 +274,65 @@ export function useCodeFilesSync({
     [supabase, currentProjectId, user?.id]
   );
 
+  // Fetch the revision history of one file, or of every file in the project, oldest first
+  const fetchFileRevisions = useCallback(
+    async (fileId?: string): Promise<FileRevision[]> => {
+      if (!supabase || !currentProjectId) return [];
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let query = (supabase as any)
+        .from("code_file_revisions")
+        .select("*")
+        .eq("project_id", currentProjectId);
+      if (fileId) {
+        query = query.eq("file_id", fileId);
+      }
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching file revisions:", error);
+        return [];
+      }
+
+      return (data || []).map(rowToFileRevision);
+    },
+    [supabase, currentProjectId]
+  );
+
+  // Store a committed revision (revisions are immutable, so this only ever inserts)
+  const saveFileRevision = useCallback(
+    async (revision: FileRevision) => {
+      if (!supabase || !currentProjectId) {
+        return { error: new Error("Not connected to project") };
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any)
+        .from("code_file_revisions")
+        .upsert(
+          {
+            id: revision.id,
+            file_id: revision.codeFileId,
+            project_id: currentProjectId,
+            content: revision.content,
+            message: revision.message || null,
+            author_id: revision.authorId || null,
+            author_name: revision.author || null,
+            created_at: revision.createdAt,
+          },
+          { onConflict: "id", ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error("Error saving file revision:", error);
+        return { error: new Error(error.message) };
+      }
+
+      return { error: null };
+    },
+    [supabase, currentProjectId]
+  );
+
   // Soft delete a code file (moves to trash by setting deleted_at)
   const deleteCodeFile = useCallback(
     async (fileId: string) => {
@@ -617,6 +701,10 @@ export function useCodeFilesSync({
     saveCodeFile,
     /** Delete a code file (moves to trash) */
     deleteCodeFile,
+    /** Fetch committed revisions of a file (or all files) */
+    fetchFileRevisions,
+    /** Store a committed file revision */
+    saveFileRevision,
     /** Request file deletion (other users must confirm) */
     requestFileDeletion,
     /** Confirm a pending deletion */
@@ -14,7 +14,12 @@ import { useAuth } from "@/context/AuthContext";
 import { useAppSettings } from "@/context/AppSettingsContext";
 import { useAnnotationsSync } from "./useAnnotationsSync";
 import { useCodeFilesSync, type TrashedCodeFile } from "./useCodeFilesSync";
-import type { LineAnnotation, CodeReference } from "@/types/session";
+import type { LineAnnotation, CodeReference, FileRevision, AnnotationTypeDefinition, CodebookCode, BlindAnnotationSettings, AnnotationStatus } from "@/types/session";
+import { reanchorFileAnnotations } from "@/lib/annotation-anchoring";
+import { getAnnotationTaxonomy, normalizeAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import { getCodebook, normalizeCodebook, pruneAnnotationCodes } from "@/lib/codebook";
+import { getBlindAnnotation, normalizeBlindAnnotation } from "@/lib/annotation-agreement";
+import { getSupabaseClient, isSupabaseConfigured } from "@/lib/supabase/client";
 
 // Local CodeFile interface for sync
 interface CodeFile {
@@ -45,6 +50,20 @@ function hashContentSimple(content: string): string {
   return `${content.length}:${hash}`;
 }
 
+// Whether re-anchoring changed where an annotation (or the range it links to) sits
+function hasMoved(before: LineAnnotation, after: LineAnnotation): boolean {
+  return (
+    before !== after &&
+    (before.lineNumber !== after.lineNumber ||
+      before.endLineNumber !== after.endLineNumber ||
+      before.lineContent !== after.lineContent ||
+      !!before.orphaned !== !!after.orphaned ||
+      before.anchor?.prefix !== after.anchor?.prefix ||
+      before.anchor?.suffix !== after.anchor?.suffix ||
+      before.link !== after.link)
+  );
+}
+
 export function useCollaborativeSession() {
   const sessionContext = useSession();
   const { currentProjectId } = useProjects();
@@ -56,6 +75,8 @@ export function useCollaborativeSession() {
   // File trash state
   const [trashedFiles, setTrashedFiles] = useState<TrashedCodeFile[]>([]);
   const [isLoadingFileTrash, setIsLoadingFileTrash] = useState(false);
+  // A project setting the server refused or failed to save (shown until dismissed)
+  const [projectSettingsError, setProjectSettingsError] = useState<string | null>(null);
 
   // Get user initials - prefer manually-set app profile initials (from Settings), fall back to auth profile (auto-generated)
   // If profile hasn't loaded yet, generate fallback initials from user metadata or email
@@ -70,6 +91,10 @@ export function useCollaborativeSession() {
         .slice(0, 3)
     : undefined;
   const userInitials = appInitials || authProfile?.initials || fallbackInitials;
+  // Name recorded as the author of committed file revisions
+  const authorName = appProfile?.anonymousMode
+    ? userInitials
+    : appProfile?.name.trim() || authProfile?.display_name || userInitials;
 
   // Track annotation IDs we know are synced (from remote or pushed by us)
   const syncedAnnotationIdsRef = useRef<Set<string>>(new Set());
@@ -77,6 +102,8 @@ export function useCollaborativeSession() {
   const syncedFilesRef = useRef<Map<string, { name: string; contentHash: string }>>(new Map());
   // Track newly added file IDs that need syncing once content is set
   const pendingNewFilesRef = useRef<Set<string>>(new Set());
+  // Annotations as they were before the first unsynced local edit, to find the ones it moved
+  const reanchorBaselineRef = useRef<Map<string, LineAnnotation> | null>(null);
 
   // Track whether we're in a project
   const isInProject = !!currentProjectId;
@@ -136,6 +163,100 @@ export function useCollaborativeSession() {
   // Ref for animation timeout cleanup
   const animationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Fetch the project's annotation taxonomy (null when it has none or it cannot be read)
+  const fetchAnnotationTaxonomy = useCallback(async (): Promise<AnnotationTypeDefinition[] | null> => {
+    if (!currentProjectId || !isSupabaseConfigured()) return null;
+    const supabase = getSupabaseClient();
+    if (!supabase) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from("projects")
+      .select("annotation_taxonomy")
+      .eq("id", currentProjectId)
+      .single();
+
+    if (error) {
+      console.error("fetchAnnotationTaxonomy: Failed to read taxonomy", error);
+      return null;
+    }
+    return normalizeAnnotationTaxonomy(data?.annotation_taxonomy) ?? null;
+  }, [currentProjectId]);
+
+  // A collaborator used a type this client has not seen - pick up their taxonomy
+  const taxonomyRefreshRef = useRef(false);
+  const refreshAnnotationTaxonomy = useCallback(async () => {
+    if (taxonomyRefreshRef.current) return;
+    taxonomyRefreshRef.current = true;
+    try {
+      const taxonomy = await fetchAnnotationTaxonomy();
+      if (taxonomy) sessionContext.setAnnotationTaxonomy(taxonomy);
+    } finally {
+      taxonomyRefreshRef.current = false;
+    }
+  }, [fetchAnnotationTaxonomy, sessionContext]);
+
+  // Fetch the project's codebook (null when it has none or it cannot be read)
+  const fetchCodebook = useCallback(async (): Promise<CodebookCode[] | null> => {
+    if (!currentProjectId || !isSupabaseConfigured()) return null;
+    const supabase = getSupabaseClient();
+    if (!supabase) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from("projects")
+      .select("codebook")
+      .eq("id", currentProjectId)
+      .single();
+
+    if (error) {
+      console.error("fetchCodebook: Failed to read codebook", error);
+      return null;
+    }
+    return normalizeCodebook(data?.codebook) ?? null;
+  }, [currentProjectId]);
+
+  // A collaborator applied a code this client has not seen - pick up their codebook
+  const codebookRefreshRef = useRef(false);
+  const refreshCodebook = useCallback(async () => {
+    if (codebookRefreshRef.current) return;
+    codebookRefreshRef.current = true;
+    try {
+      const codebook = await fetchCodebook();
+      if (codebook) sessionContext.setCodebook(codebook);
+    } finally {
+      codebookRefreshRef.current = false;
+    }
+  }, [fetchCodebook, sessionContext]);
+
+  // Fetch the project's blind annotation settings (null when it has none or they cannot be read)
+  const fetchBlindAnnotation = useCallback(async (): Promise<BlindAnnotationSettings | null> => {
+    if (!currentProjectId || !isSupabaseConfigured()) return null;
+    const supabase = getSupabaseClient();
+    if (!supabase) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from("projects")
+      .select("blind_annotation")
+      .eq("id", currentProjectId)
+      .single();
+
+    if (error) {
+      console.error("fetchBlindAnnotation: Failed to read blind annotation settings", error);
+      return null;
+    }
+    return normalizeBlindAnnotation(data?.blind_annotation) ?? null;
+  }, [currentProjectId]);
+
+  // Pick up blind annotation changes (mode switched, members submitting their readings)
+  const refreshBlindAnnotation = useCallback(async () => {
+    const settings = await fetchBlindAnnotation();
+    if (settings && JSON.stringify(settings) !== JSON.stringify(sessionContext.session.blindAnnotation)) {
+      sessionContext.setBlindAnnotation(settings);
+    }
+  }, [fetchBlindAnnotation, sessionContext]);
+
   // Handle remote annotation changes
   const handleRemoteAnnotationChange = useCallback(
     (annotations: LineAnnotation[]) => {
@@ -208,13 +329,28 @@ export function useCollaborativeSession() {
       // Merge: truly-local-only + all remote
       const merged = [...localOnly, ...annotations];
 
+      const knownTypes = new Set(getAnnotationTaxonomy(sessionContext.session).map((t) => t.id));
+      if (annotations.some((a) => !knownTypes.has(a.type))) {
+        refreshAnnotationTaxonomy();
+      }
+
+      const knownCodes = new Set(getCodebook(sessionContext.session).map((c) => c.id));
+      if (annotations.some((a) => a.codes?.some((id) => !knownCodes.has(id)))) {
+        refreshCodebook();
+      }
+
+      // Submissions do not touch annotations, so check for them whenever the annotations are re-read
+      if (getBlindAnnotation(sessionContext.session).enabled) {
+        refreshBlindAnnotation();
+      }
+
       // Update session by importing (this will replace all annotations)
       sessionContext.importSession({
         ...sessionContext.session,
         lineAnnotations: merged,
       });
     },
-    [sessionContext]
+    [sessionContext, refreshAnnotationTaxonomy, refreshCodebook, refreshBlindAnnotation]
   );
 
   // Use annotations sync
@@ -254,6 +390,13 @@ export function useCollaborativeSession() {
             ...currentSession.codeContents,
             [file.id]: file.content,
           },
+          // Follow the collaborator's edit so annotations stay on the text they annotate
+          lineAnnotations: reanchorFileAnnotations(
+            currentSession.lineAnnotations,
+            file.id,
+            currentSession.codeContents[file.id],
+            file.content
+          ),
         });
       } else {
         // Add new file with its original ID (preserves collaborator's ID)
@@ -326,6 +469,8 @@ export function useCollaborativeSession() {
     confirmDeletion,
     rejectDeletion,
     fetchCodeFiles,
+    fetchFileRevisions,
+    saveFileRevision,
     pendingDeletions,
     isConnected: filesConnected,
     // File trash functions
@@ -409,6 +554,176 @@ export function useCollaborativeSession() {
     [sessionContext, isInProject, pushAnnotation]
   );
 
+  // Set an annotation's discussion status. Any member may resolve a question, including one
+  // another member wrote, so in a project only the status columns are changed (through the
+  // set_annotation_status function) rather than pushing the whole annotation
+  const setAnnotationStatus = useCallback(
+    (id: string, status: AnnotationStatus | undefined) => {
+      const updates = { status, statusChangedBy: userInitials || undefined };
+      sessionContext.updateLineAnnotation(id, updates);
+
+      if (isInProject && isSupabaseConfigured()) {
+        const supabase = getSupabaseClient();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase as any)
+          .rpc("set_annotation_status", {
+            p_annotation_id: id,
+            p_status: status ?? null,
+            p_changed_by: updates.statusChangedBy ?? null,
+          })
+          .then(({ error }: { error: unknown }) => {
+            if (error) console.error("setAnnotationStatus: Failed to save status", error);
+          });
+      }
+    },
+    [sessionContext, isInProject, userInitials]
+  );
+
+  // Record a project setting write the server refused or that failed
+  const reportProjectSettingsError = useCallback((message: string, error: unknown) => {
+    console.error(message, error);
+    const reason = (error as { message?: string } | null)?.message;
+    setProjectSettingsError(reason ? `${message}: ${reason}` : message);
+  }, []);
+
+  const dismissProjectSettingsError = useCallback(() => setProjectSettingsError(null), []);
+
+  // Wrapped setAnnotationTaxonomy that saves the taxonomy to the project and
+  // pushes annotations moved to another type when theirs was removed. Editors may change the
+  // taxonomy but the projects table is only writable by its owner, so this goes through a
+  // membership-checked function; if the server refuses, the previous types are put back.
+  const setAnnotationTaxonomy = useCallback(
+    (taxonomy: AnnotationTypeDefinition[], reassign?: Record<string, string>) => {
+      const previous = getAnnotationTaxonomy(sessionContext.session);
+      const retyped = reassign
+        ? sessionContext.session.lineAnnotations
+            .filter((a) => reassign[a.type])
+            .map((a) => ({ annotation: { ...a, type: reassign[a.type] }, previousType: a.type }))
+        : [];
+
+      sessionContext.setAnnotationTaxonomy(taxonomy, reassign);
+
+      if (isInProject && currentProjectId && isSupabaseConfigured()) {
+        const supabase = getSupabaseClient();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase as any)
+          .rpc("set_annotation_taxonomy", { p_project_id: currentProjectId, p_taxonomy: taxonomy })
+          .then(({ error }: { error: unknown }) => {
+            if (error) {
+              reportProjectSettingsError("The annotation types could not be saved", error);
+              sessionContext.setAnnotationTaxonomy(previous);
+              retyped.forEach(({ annotation, previousType }) =>
+                sessionContext.updateLineAnnotation(annotation.id, { type: previousType })
+              );
+              return;
+            }
+            retyped.forEach(({ annotation }) => pushAnnotation(annotation));
+          });
+      }
+    },
+    [sessionContext, isInProject, currentProjectId, pushAnnotation, reportProjectSettingsError]
+  );
+
+  // Wrapped setCodebook that saves the codebook to the project and pushes annotations that
+  // lost codes removed from it. Like the taxonomy, it goes through a membership-checked
+  // function and the previous codebook is put back if the server refuses.
+  const setCodebook = useCallback(
+    (codebook: CodebookCode[]) => {
+      const previous = getCodebook(sessionContext.session);
+      const uncoded = sessionContext.session.lineAnnotations.filter(
+        (a) => a.codes && (pruneAnnotationCodes(a.codes, codebook)?.length ?? 0) !== a.codes.length
+      );
+
+      sessionContext.setCodebook(codebook);
+
+      if (isInProject && currentProjectId && isSupabaseConfigured()) {
+        const supabase = getSupabaseClient();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase as any)
+          .rpc("set_codebook", { p_project_id: currentProjectId, p_codebook: codebook.length > 0 ? codebook : null })
+          .then(({ error }: { error: unknown }) => {
+            if (error) {
+              reportProjectSettingsError("The codebook could not be saved", error);
+              sessionContext.setCodebook(previous);
+              uncoded.forEach((a) => sessionContext.updateLineAnnotation(a.id, { codes: a.codes }));
+              return;
+            }
+            uncoded.forEach((a) => pushAnnotation({ ...a, codes: pruneAnnotationCodes(a.codes, codebook) }));
+          });
+      }
+    },
+    [sessionContext, isInProject, currentProjectId, pushAnnotation, reportProjectSettingsError]
+  );
+
+  // Put back the saved blind annotation settings after a write was refused
+  const revertBlindAnnotation = useCallback(
+    async (previous: BlindAnnotationSettings) => {
+      sessionContext.setBlindAnnotation((await fetchBlindAnnotation()) ?? previous);
+    },
+    [fetchBlindAnnotation, sessionContext]
+  );
+
+  // Wrapped setBlindAnnotation that switches blind annotation on or off for the project.
+  // The projects table is only writable by its owner, so this goes through an owner-checked function.
+  const setBlindAnnotation = useCallback(
+    (settings: BlindAnnotationSettings) => {
+      const previous = getBlindAnnotation(sessionContext.session);
+      sessionContext.setBlindAnnotation(settings);
+
+      if (!isInProject || !currentProjectId || !isSupabaseConfigured()) return;
+      const supabase = getSupabaseClient();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (supabase as any)
+        .rpc("set_blind_annotation_enabled", {
+          p_project_id: currentProjectId,
+          p_enabled: settings.enabled,
+        })
+        .then(({ data, error }: { data: unknown; error: unknown }) => {
+          if (error) {
+            reportProjectSettingsError("Blind annotation could not be switched", error);
+            revertBlindAnnotation(previous);
+            return;
+          }
+          const saved = normalizeBlindAnnotation(data);
+          if (saved) sessionContext.setBlindAnnotation(saved);
+        });
+    },
+    [sessionContext, isInProject, currentProjectId, reportProjectSettingsError, revertBlindAnnotation]
+  );
+
+  // Record that a member has submitted their blind reading of a file. The server adds the
+  // submission in a single update, so members submitting at the same time do not drop each other.
+  const submitBlindReading = useCallback(
+    async (codeFileId: string, initials: string) => {
+      const current = getBlindAnnotation(sessionContext.session);
+
+      if (!isInProject || !currentProjectId || !isSupabaseConfigured()) {
+        const submitted = current.submissions[codeFileId] || [];
+        if (submitted.includes(initials)) return;
+        sessionContext.setBlindAnnotation({
+          ...current,
+          submissions: { ...current.submissions, [codeFileId]: [...submitted, initials] },
+        });
+        return;
+      }
+
+      const supabase = getSupabaseClient();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc("submit_blind_reading", {
+        p_project_id: currentProjectId,
+        p_file_id: codeFileId,
+        p_initials: initials,
+      });
+      if (error) {
+        reportProjectSettingsError("Your reading could not be submitted", error);
+        return;
+      }
+      const saved = normalizeBlindAnnotation(data);
+      if (saved) sessionContext.setBlindAnnotation(saved);
+    },
+    [sessionContext, isInProject, currentProjectId, reportProjectSettingsError]
+  );
+
   // Sync new local annotations to Supabase
   useEffect(() => {
     if (!isInProject) return;
@@ -453,9 +768,14 @@ export function useCollaborativeSession() {
   // Wrapped setCodeContent - syncs content changes to cloud
   const setCodeContent = useCallback(
     (fileId: string, content: string) => {
+      // The reducer re-anchors this file's annotations; the ones that moved are pushed with
+      // the debounced content sync below, compared against the annotations before editing began
+      if (isInProject && !reanchorBaselineRef.current) {
+        reanchorBaselineRef.current = new Map(sessionContext.session.lineAnnotations.map((a) => [a.id, a]));
+      }
       sessionContext.setCodeContent(fileId, content);
     },
-    [sessionContext]
+    [sessionContext, isInProject]
   );
 
   // Ref for debounce timer to prevent it being cleared on every render
@@ -467,6 +787,7 @@ export function useCollaborativeSession() {
 
     const currentFiles = sessionContext.session.codeFiles;
     const currentContents = sessionContext.session.codeContents;
+    const currentAnnotations = sessionContext.session.lineAnnotations;
 
     // Find files that need syncing: new files or changed content
     const toSync: Array<{ file: typeof currentFiles[0]; content: string; isNew: boolean }> = [];
@@ -489,7 +810,7 @@ export function useCollaborativeSession() {
       }
     }
 
-    if (toSync.length === 0) return;
+    if (toSync.length === 0 && !reanchorBaselineRef.current) return;
 
     // Clear previous timeout
     if (syncTimeoutRef.current) {
@@ -529,12 +850,25 @@ export function useCollaborativeSession() {
           }
         });
       }
+
+      // Push the annotations the edits moved, once per pause in typing rather than per keystroke
+      // (unsynced annotations are picked up by the new-annotation sync above)
+      const baseline = reanchorBaselineRef.current;
+      reanchorBaselineRef.current = null;
+      if (baseline) {
+        for (const annotation of currentAnnotations) {
+          const before = baseline.get(annotation.id);
+          if (before && hasMoved(before, annotation) && syncedAnnotationIdsRef.current.has(annotation.id)) {
+            pushAnnotation(annotation);
+          }
+        }
+      }
     }, delay);
 
     return () => {
       // Don't clear the timeout on unmount - let it finish
     };
-  }, [isInProject, sessionContext.session.codeFiles, sessionContext.session.codeContents, saveCodeFile]);
+  }, [isInProject, sessionContext.session.codeFiles, sessionContext.session.codeContents, sessionContext.session.lineAnnotations, saveCodeFile, pushAnnotation]);
 
   // Sync a single code file to Supabase
   const syncCodeFile = useCallback(
@@ -557,6 +891,38 @@ export function useCollaborativeSession() {
     [isInProject, sessionContext.session.codeFiles, sessionContext.session.codeContents, saveCodeFile]
   );
 
+  // Wrapped addFileRevision that records the author and syncs the revision to Supabase
+  const addFileRevision = useCallback(
+    (revision: Omit<FileRevision, "id" | "createdAt"> & Partial<Pick<FileRevision, "id" | "createdAt">>) => {
+      const added = sessionContext.addFileRevision({
+        ...revision,
+        author: revision.author || authorName || undefined,
+        authorId: revision.authorId || user?.id,
+      });
+      if (isInProject) {
+        saveFileRevision(added).then((result) => {
+          if (result.error) {
+            console.error("addFileRevision: Failed to sync revision", added.id, result.error);
+          }
+        });
+      }
+      return added;
+    },
+    [sessionContext, isInProject, authorName, user?.id, saveFileRevision]
+  );
+
+  // Merge a file's revisions committed by collaborators into the local history
+  const refreshFileRevisions = useCallback(
+    async (fileId: string) => {
+      if (!isInProject) return;
+      const remote = await fetchFileRevisions(fileId);
+      for (const revision of remote) {
+        sessionContext.addFileRevision(revision);
+      }
+    },
+    [isInProject, fetchFileRevisions, sessionContext]
+  );
+
   // Save all files to cloud (call before leaving project)
   const saveAllToCloud = useCallback(async () => {
     if (!isInProject) {
@@ -819,6 +1185,10 @@ export function useCollaborativeSession() {
       const remoteFiles = await fetchCodeFiles();
       console.log(`refreshFromCloud: Fetched ${remoteFiles.length} files`);
 
+      const remoteTaxonomy = await fetchAnnotationTaxonomy();
+      const remoteCodebook = await fetchCodebook();
+      const remoteBlindAnnotation = await fetchBlindAnnotation();
+
       // Update synced tracking for annotations
       syncedAnnotationIdsRef.current.clear();
       remoteAnnotations.forEach(a => syncedAnnotationIdsRef.current.add(a.id));
@@ -853,6 +1223,9 @@ export function useCollaborativeSession() {
         codeFiles: newCodeFiles,
         codeContents: newCodeContents,
         lineAnnotations: remoteAnnotations,
+        annotationTaxonomy: remoteTaxonomy ?? sessionContext.session.annotationTaxonomy,
+        codebook: remoteCodebook ?? sessionContext.session.codebook,
+        blindAnnotation: remoteBlindAnnotation ?? sessionContext.session.blindAnnotation,
       });
 
       console.log("refreshFromCloud: Session updated successfully");
@@ -861,7 +1234,7 @@ export function useCollaborativeSession() {
       console.error("refreshFromCloud: Error", err);
       return { success: false, error: String(err) };
     }
-  }, [isInProject, fetchRemoteAnnotations, fetchCodeFiles, sessionContext]);
+  }, [isInProject, fetchRemoteAnnotations, fetchCodeFiles, fetchAnnotationTaxonomy, fetchCodebook, fetchBlindAnnotation, sessionContext]);
 
   return {
     // All original session context values
@@ -871,9 +1244,13 @@ export function useCollaborativeSession() {
     addLineAnnotation,
     updateLineAnnotation,
     removeLineAnnotation,
+    setAnnotationTaxonomy,
+    setCodebook,
+    setBlindAnnotation,
     addCode,
     setCodeContent,
     removeCode,
+    addFileRevision,
 
     // New collaboration methods
     fetchRemoteAnnotations,
@@ -882,6 +1259,10 @@ export function useCollaborativeSession() {
     rejectFileDeletion,
     refreshFromCloud,
     saveAllToCloud,
+    refreshFileRevisions,
+    submitBlindReading,
+    refreshBlindAnnotation,
+    setAnnotationStatus,
 
     // Annotation reply methods
     pushReply,
@@ -902,5 +1283,10 @@ export function useCollaborativeSession() {
     // File trash state
     trashedFiles,
     isLoadingFileTrash,
+    // Project setting write the server refused or failed
+    projectSettingsError,
+    dismissProjectSettingsError,
+    // Initials this user's annotations and blind readings are recorded under
+    userInitials,
   };
 }
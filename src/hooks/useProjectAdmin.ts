@@ -173,6 +173,8 @@ export function useProjectAdmin({
           description: sourceProject.description,
           mode: sourceProject.mode,
           session_data: sourceProject.session_data,
+          annotation_taxonomy: sourceProject.annotation_taxonomy ?? null,
+          codebook: sourceProject.codebook ?? null,
           owner_id: null, // No owner - community owned
           is_public: true,
           accession_status: "approved" as AccessionStatus,
@@ -15,6 +15,10 @@ import type {
 import type { Session, EntryMode } from "@/types/session";
 import { DEFAULT_DISPLAY_SETTINGS } from "@/types/session";
 import { isSessionExpiredError } from "@/lib/projects-utils";
+import { reconcileAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import { normalizeCodebook } from "@/lib/codebook";
+import { normalizeBlindAnnotation } from "@/lib/annotation-agreement";
+import { normalizeAnnotationStatus } from "@/lib/annotation-status";
 
 export interface ProjectCRUDParams {
   supabase: SupabaseClient | null;
@@ -347,8 +351,8 @@ _Add relevant references, documentation links, or related scholarship:_
       }
 
       try {
-        // Fetch project, files, and annotations in parallel
-        const [projectResult, filesResult, annotationsResult] = await Promise.all([
+        // Fetch project, files, annotations and file revisions in parallel
+        const [projectResult, filesResult, annotationsResult, revisionsResult] = await Promise.all([
           // Project metadata
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           (supabase as any).from("projects").select("*").eq("id", projectId).single(),
@@ -367,11 +371,19 @@ _Add relevant references, documentation links, or related scholarship:_
             .select("*")
             .eq("project_id", projectId)
             .order("created_at", { ascending: true }),
+          // File revision history
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (supabase as any)
+            .from("code_file_revisions")
+            .select("*")
+            .eq("project_id", projectId)
+            .order("created_at", { ascending: true }),
         ]);
 
         const { data: projectData, error: projectError } = projectResult;
         let { data: codeFilesData, error: filesError } = filesResult;
         const { data: annotationsData, error: annotationsError } = annotationsResult;
+        const { data: revisionsData, error: revisionsError } = revisionsResult;
 
         if (projectError) {
           // Check if it's an auth error (session expired)
@@ -414,6 +426,11 @@ _Add relevant references, documentation links, or related scholarship:_
           console.error("Error fetching annotations:", annotationsError);
         }
 
+        // Revisions are optional - projects created before the table existed have none
+        if (revisionsError) {
+          console.warn("Error fetching file revisions:", revisionsError);
+        }
+
         // Build codeFiles and codeContents from database
         const codeFiles = (codeFilesData || []).map(
           (row: {
@@ -504,6 +521,19 @@ _Add relevant references, documentation links, or related scholarship:_
             line_number: number;
             end_line_number: number | null;
             line_content: string | null;
+            anchor_prefix?: string | null;
+            anchor_suffix?: string | null;
+            orphaned?: boolean | null;
+            revision_id?: string | null;
+            linked_file_id?: string | null;
+            linked_line_number?: number | null;
+            linked_end_line_number?: number | null;
+            linked_line_content?: string | null;
+            source_message_id?: string | null;
+            source_model?: string | null;
+            codes?: string[] | null;
+            status?: string | null;
+            status_changed_by?: string | null;
             type: string;
             content: string;
             created_at: string;
@@ -515,13 +545,26 @@ _Add relevant references, documentation links, or related scholarship:_
             lineNumber: row.line_number,
             endLineNumber: row.end_line_number || undefined,
             lineContent: row.line_content || "",
-            type: row.type as
-              | "observation"
-              | "question"
-              | "metaphor"
-              | "pattern"
-              | "context"
-              | "critique",
+            anchor: row.anchor_prefix != null || row.anchor_suffix != null
+              ? { prefix: row.anchor_prefix ?? "", suffix: row.anchor_suffix ?? "" }
+              : undefined,
+            orphaned: row.orphaned || undefined,
+            revisionId: row.revision_id || undefined,
+            link: row.linked_file_id && row.linked_line_number
+              ? {
+                  codeFileId: row.linked_file_id,
+                  lineNumber: row.linked_line_number,
+                  endLineNumber: row.linked_end_line_number || undefined,
+                  lineContent: row.linked_line_content || "",
+                }
+              : undefined,
+            provenance: row.source_message_id || row.source_model
+              ? { messageId: row.source_message_id || undefined, model: row.source_model || undefined }
+              : undefined,
+            type: row.type,
+            codes: row.codes && row.codes.length > 0 ? row.codes : undefined,
+            status: normalizeAnnotationStatus(row.status),
+            statusChangedBy: row.status_changed_by || undefined,
             content: row.content,
             createdAt: row.created_at,
             addedBy: row.added_by_initials || undefined,
@@ -529,6 +572,25 @@ _Add relevant references, documentation links, or related scholarship:_
           })
         );
 
+        // Build fileRevisions from database
+        const fileRevisions = (revisionsData || []).map(
+          (row: {
+            id: string;
+            file_id: string;
+            content: string;
+            message: string | null;
+            author_name: string | null;
+            created_at: string;
+          }) => ({
+            id: row.id,
+            codeFileId: row.file_id,
+            content: row.content,
+            createdAt: row.created_at,
+            author: row.author_name || undefined,
+            message: row.message || undefined,
+          })
+        );
+
         // Build session: use session_data for other fields, but override files/annotations from tables
         const baseSession = projectData.session_data || {};
         const session: Session = {
@@ -537,9 +599,19 @@ _Add relevant references, documentation links, or related scholarship:_
           experienceLevel: baseSession.experienceLevel,
           languageOverride: baseSession.languageOverride,
           messages: baseSession.messages || [],
+          branchMessages: baseSession.branchMessages,
+          modelComparisons: baseSession.modelComparisons,
           codeFiles,
           codeContents,
           lineAnnotations,
+          fileRevisions,
+          // The column is kept current by collaborators; session_data only on manual saves
+          annotationTaxonomy: reconcileAnnotationTaxonomy(
+            projectData.annotation_taxonomy ?? baseSession.annotationTaxonomy,
+            lineAnnotations
+          ),
+          codebook: normalizeCodebook(projectData.codebook ?? baseSession.codebook),
+          blindAnnotation: normalizeBlindAnnotation(projectData.blind_annotation ?? baseSession.blindAnnotation),
           analysisResults: baseSession.analysisResults || [],
           references: baseSession.references || [],
           critiqueArtifacts: baseSession.critiqueArtifacts || [],
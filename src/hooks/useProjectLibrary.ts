@@ -196,6 +196,8 @@ export function useProjectLibrary({
             owner_id: user.id,
             mode: sourceProject.mode,
             session_data: sourceProject.session_data,
+            annotation_taxonomy: sourceProject.annotation_taxonomy ?? null,
+            codebook: sourceProject.codebook ?? null,
             accession_status: "draft",
             created_at: now,
             updated_at: now,
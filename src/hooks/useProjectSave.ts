@@ -1,6 +1,6 @@
 /**
  * Hook for saving project session data
- * Handles bulk upserts of files and annotations, orphan cleanup
+ * Handles bulk upserts of files, revisions and annotations, orphan cleanup
  */
 
 import { useCallback } from "react";
@@ -71,17 +71,51 @@ export function useProjectSave({
           line_number: annotation.lineNumber,
           end_line_number: annotation.endLineNumber || null,
           line_content: annotation.lineContent || null,
+          anchor_prefix: annotation.anchor?.prefix ?? null,
+          anchor_suffix: annotation.anchor?.suffix ?? null,
+          orphaned: !!annotation.orphaned,
+          revision_id: annotation.revisionId ?? null,
+          linked_file_id: annotation.link?.codeFileId ?? null,
+          linked_line_number: annotation.link?.lineNumber ?? null,
+          linked_end_line_number: annotation.link?.endLineNumber ?? null,
+          linked_line_content: annotation.link?.lineContent ?? null,
+          source_message_id: annotation.provenance?.messageId ?? null,
+          source_model: annotation.provenance?.model ?? null,
+          codes: annotation.codes && annotation.codes.length > 0 ? annotation.codes : null,
+          status: annotation.status ?? null,
+          status_changed_by: annotation.statusChangedBy ?? null,
           type: annotation.type,
           content: annotation.content,
           updated_at: now,
         }));
 
-        // Session data without files/annotations (stored separately)
+        // Build bulk data for file revisions (immutable, so existing rows are left alone)
+        const sessionFileIdSet = new Set(session.codeFiles.map((f) => f.id));
+        const revisionsData = (session.fileRevisions || [])
+          .filter((revision) => sessionFileIdSet.has(revision.codeFileId))
+          .map((revision) => ({
+            id: revision.id,
+            file_id: revision.codeFileId,
+            project_id: projectId,
+            content: revision.content,
+            message: revision.message || null,
+            // Only revisions this user committed are credited to them
+            author_id: revision.authorId || null,
+            author_name: revision.author || null,
+            created_at: revision.createdAt,
+          }));
+
+        // Session data without files/annotations/revisions and the shared project
+        // settings (stored separately)
         const sessionDataWithoutFiles = {
           ...session,
           codeFiles: [],
           codeContents: {},
           lineAnnotations: [],
+          fileRevisions: [],
+          annotationTaxonomy: undefined,
+          codebook: undefined,
+          blindAnnotation: undefined,
         };
 
         const projectUpdateData = {
@@ -90,6 +124,16 @@ export function useProjectSave({
           updated_at: now,
         };
 
+        // The taxonomy, codebook and blind annotation settings are shared by every member
+        // and saved by their own setters when edited. A save only fills in the ones the
+        // project does not have yet (a new project), so it never overwrites a collaborator's
+        // edits with this client's copy.
+        const sharedSettings = [
+          ["annotation_taxonomy", session.annotationTaxonomy],
+          ["codebook", session.codebook && session.codebook.length > 0 ? session.codebook : undefined],
+          ["blind_annotation", session.blindAnnotation],
+        ] as const;
+
         // Run all upserts and fetches in parallel
         console.log(
           `saveProject: Bulk saving ${filesData.length} files, ${annotationsData.length} annotations`
@@ -132,6 +176,16 @@ export function useProjectSave({
         if (filesUpsertResult.error) {
           console.error("saveProject: Error bulk saving files", filesUpsertResult.error);
         }
+        // Revisions reference their files, so they are saved once the files exist
+        if (revisionsData.length > 0 && !filesUpsertResult.error) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const { error: revisionsError } = await (supabase as any)
+            .from("code_file_revisions")
+            .upsert(revisionsData, { onConflict: "id", ignoreDuplicates: true });
+          if (revisionsError) {
+            console.error("saveProject: Error bulk saving file revisions", revisionsError);
+          }
+        }
         if (annotationsUpsertResult.error) {
           console.error(
             "saveProject: Error bulk saving annotations",
@@ -143,6 +197,20 @@ export function useProjectSave({
           return { error: new Error(projectUpdateResult.error.message) };
         }
 
+        await Promise.all(
+          sharedSettings
+            .filter(([, value]) => value !== undefined)
+            .map(async ([column, value]) => {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              const { error } = await (supabase as any)
+                .from("projects")
+                .update({ [column]: value })
+                .eq("id", projectId)
+                .is(column, null);
+              if (error) console.error(`saveProject: Error saving ${column}`, error);
+            })
+        );
+
         // Calculate orphans to delete
         const sessionFileIds = new Set(session.codeFiles.map((f) => f.id));
         const filesToDelete = (existingFilesResult.data || [])
@@ -0,0 +1,78 @@
+// Parsing and validation of model-suggested line annotations
+// Shared by /api/suggest-annotations and the editor (which re-checks against the current file)
+
+import type { AnnotationSuggestion } from "@/types/api";
+import { DEFAULT_ANNOTATION_TAXONOMY, type AnnotationTypeDefinition } from "@/types/session";
+import { findAnnotationTypeByPrefix } from "@/lib/annotation-taxonomy";
+
+export interface ValidatedSuggestions {
+  suggestions: AnnotationSuggestion[];
+  discarded: number;
+}
+
+// Pull the first JSON array out of a model reply, tolerating code fences and prose
+export function extractJSONArray(text: string): unknown[] | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("[");
+  const end = candidate.lastIndexOf("]");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(candidate.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Check each raw suggestion against the file's line count and the project's annotation types
+// (matched by id, prefix or label). Out-of-range, malformed and duplicate entries are dropped and counted.
+export function validateAnnotationSuggestions(
+  raw: unknown[],
+  lineCount: number,
+  taxonomy: AnnotationTypeDefinition[] = DEFAULT_ANNOTATION_TAXONOMY
+): ValidatedSuggestions {
+  const suggestions: AnnotationSuggestion[] = [];
+  const seen = new Set<string>();
+  let discarded = 0;
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") {
+      discarded++;
+      continue;
+    }
+    const entry = item as Record<string, unknown>;
+    const line = Number(entry.line);
+    const endLine = entry.endLine === undefined || entry.endLine === null ? undefined : Number(entry.endLine);
+    const type = typeof entry.type === "string" ? findAnnotationTypeByPrefix(taxonomy, entry.type)?.id : undefined;
+    const content = typeof entry.content === "string" ? entry.content.trim() : "";
+
+    if (
+      !Number.isInteger(line) || line < 1 || line > lineCount ||
+      (endLine !== undefined && (!Number.isInteger(endLine) || endLine < line || endLine > lineCount)) ||
+      !type ||
+      !content
+    ) {
+      discarded++;
+      continue;
+    }
+
+    const key = `${line}:${endLine ?? line}:${content}`;
+    if (seen.has(key)) {
+      discarded++;
+      continue;
+    }
+    seen.add(key);
+
+    suggestions.push({
+      line,
+      endLine: endLine !== undefined && endLine !== line ? endLine : undefined,
+      type,
+      content,
+    });
+  }
+
+  suggestions.sort((a, b) => a.line - b.line);
+  return { suggestions, discarded };
+}
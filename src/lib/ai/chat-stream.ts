@@ -0,0 +1,87 @@
+// Client-side reader for /api/chat responses (streamed NDJSON or plain JSON)
+
+import type { ChatResponse, ChatStreamEvent, ContextBudgetReport } from "@/types/api";
+import type { AssistantToolCall, Message, MessageMetadata } from "@/types/session";
+
+export interface ChatStreamHandlers {
+  // Called once before the first delta with the reply's metadata (model, phase)
+  onStart?: (metadata: MessageMetadata) => void;
+  // Called with the accumulated reply text each time a chunk arrives
+  onText?: (text: string) => void;
+  // Called with the server's report of what fitted into the model's context window
+  onContext?: (report: ContextBudgetReport) => void;
+  // Called with every tool call made so far, each time the assistant uses a session tool
+  onToolCalls?: (calls: AssistantToolCall[]) => void;
+}
+
+/**
+ * Read a /api/chat response and resolve with the final assistant message.
+ * Streamed responses report progress through the handlers; JSON responses
+ * (models without streaming support) resolve directly.
+ */
+export async function readChatResponse(
+  response: Response,
+  handlers: ChatStreamHandlers = {}
+): Promise<Message> {
+  const contentType = response.headers.get("Content-Type") || "";
+
+  if (!contentType.includes("application/x-ndjson") || !response.body) {
+    const data: ChatResponse = await response.json();
+    if (data.context) handlers.onContext?.(data.context);
+    return data.message;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  const toolCalls: AssistantToolCall[] = [];
+  let finalMessage: Message | null = null;
+
+  const handleEvent = (event: ChatStreamEvent) => {
+    switch (event.type) {
+      case "start":
+        handlers.onStart?.(event.metadata);
+        if (event.context) handlers.onContext?.(event.context);
+        break;
+      case "delta":
+        text += event.text;
+        handlers.onText?.(text);
+        break;
+      case "tool":
+        toolCalls.push(event.call);
+        handlers.onToolCalls?.([...toolCalls]);
+        break;
+      case "done":
+        finalMessage = event.message;
+        break;
+      case "error":
+        throw new Error(event.message);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        handleEvent(JSON.parse(line) as ChatStreamEvent);
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    handleEvent(JSON.parse(buffer) as ChatStreamEvent);
+  }
+
+  if (!finalMessage) {
+    throw new Error("The response stream ended unexpectedly. Please try again.");
+  }
+
+  return finalMessage;
+}
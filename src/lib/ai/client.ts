@@ -1,17 +1,25 @@
 // Unified AI Client - abstracts multiple providers behind single interface
 
-import { generateText } from "ai";
+import { generateText, stepCountIs, streamText, type ToolSet } from "ai";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createOpenAI } from "@ai-sdk/openai";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOllama } from "ai-sdk-ollama";
 import { NextRequest } from "next/server";
 import type {
+  AIFallbackAttempt,
   AIProvider,
   AIRequestConfig,
+  AIRequestContext,
   AIValidationResult,
+  TaskModelSetting,
 } from "@/types/ai-settings";
-import { PROVIDER_CONFIGS, getDefaultModel } from "./config";
+import { retryWithBackoff } from "@/lib/utils";
+import { DISCOVERABLE_PROVIDERS, PROVIDER_CONFIGS, getDefaultModel, isProviderAvailable } from "./config";
+
+// Bounds for a context window reported in the X-AI-Context-Window header
+const MIN_CONTEXT_WINDOW = 1024;
+const MAX_CONTEXT_WINDOW = 2_000_000;
 
 // Extract AI configuration from request headers
 export function extractAIConfig(request: NextRequest): AIRequestConfig {
@@ -22,6 +30,7 @@ export function extractAIConfig(request: NextRequest): AIRequestConfig {
   const apiKey = request.headers.get("X-AI-API-Key") || "";
   const baseUrl = request.headers.get("X-AI-Base-URL") || "";
   const customModelId = request.headers.get("X-AI-Custom-Model") || "";
+  const contextWindow = Number(request.headers.get("X-AI-Context-Window"));
 
   // Fallback to environment variables for backwards compatibility
   const effectiveApiKey = apiKey || getEnvApiKey(provider);
@@ -32,9 +41,48 @@ export function extractAIConfig(request: NextRequest): AIRequestConfig {
     model: effectiveModel,
     apiKey: effectiveApiKey,
     baseUrl: baseUrl || getDefaultBaseUrl(provider),
+    // Only endpoints the client discovers models from report their own context windows
+    contextWindow:
+      DISCOVERABLE_PROVIDERS.includes(provider) && Number.isInteger(contextWindow) && contextWindow >= MIN_CONTEXT_WINDOW
+        ? Math.min(contextWindow, MAX_CONTEXT_WINDOW)
+        : undefined,
+    fallbacks: extractFallbackConfigs(request.headers.get("X-AI-Fallbacks"), provider, effectiveModel),
   };
 }
 
+// Fallback providers from the X-AI-Fallbacks header (a JSON list of provider,
+// model and optional credentials). Entries that repeat the main model or would
+// fail validation are left out.
+function extractFallbackConfigs(header: string | null, provider: AIProvider, model: string): AIRequestConfig[] {
+  if (!header) return [];
+
+  let entries: TaskModelSetting[];
+  try {
+    entries = JSON.parse(header);
+    if (!Array.isArray(entries)) return [];
+  } catch {
+    console.warn("Ignoring malformed X-AI-Fallbacks header");
+    return [];
+  }
+
+  const seen = new Set([`${provider}:${model}`]);
+  const fallbacks: AIRequestConfig[] = [];
+  for (const entry of entries) {
+    if (!entry || !PROVIDER_CONFIGS[entry.provider] || !entry.model) continue;
+    const config: AIRequestConfig = {
+      provider: entry.provider,
+      model: entry.customModelId || entry.model,
+      apiKey: entry.apiKey || getEnvApiKey(entry.provider),
+      baseUrl: entry.baseUrl || getDefaultBaseUrl(entry.provider),
+    };
+    const key = `${config.provider}:${config.model}`;
+    if (seen.has(key) || !validateAIConfig(config).valid) continue;
+    seen.add(key);
+    fallbacks.push(config);
+  }
+  return fallbacks;
+}
+
 function getEnvApiKey(provider: AIProvider): string {
   switch (provider) {
     case "anthropic":
@@ -63,6 +111,9 @@ export function validateAIConfig(config: AIRequestConfig): AIValidationResult {
   if (!PROVIDER_CONFIGS[provider]) {
     return { valid: false, error: `Unknown provider: ${provider}` };
   }
+  if (!isProviderAvailable(provider)) {
+    return { valid: false, error: `${PROVIDER_CONFIGS[provider].name} is not available in this deployment.` };
+  }
 
   const providerConfig = PROVIDER_CONFIGS[provider];
 
@@ -113,8 +164,9 @@ export function validateAIConfig(config: AIRequestConfig): AIValidationResult {
   return { valid: true };
 }
 
-// Create provider-specific client
-function createAIClient(config: AIRequestConfig) {
+// Create provider-specific client. The mock provider (and the SDK test helpers
+// it is built on) is only loaded when it is selected.
+async function createAIClient(config: AIRequestConfig) {
   const { provider, apiKey, baseUrl } = config;
 
   switch (provider) {
@@ -138,21 +190,161 @@ function createAIClient(config: AIRequestConfig) {
         baseURL: baseUrl,
       });
 
+    case "mock": {
+      if (!isProviderAvailable("mock")) throw new Error("The mock provider is not available in this deployment.");
+      const { createMockProvider } = await import("./mock-provider");
+      return createMockProvider();
+    }
+
     default:
       throw new Error(`Unsupported provider: ${provider}`);
   }
 }
 
-// Unified function to generate AI responses
+// Map provider SDK errors to messages the analyst can act on
+function mapProviderError(config: AIRequestConfig, error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  const message = error.message.toLowerCase();
+  const providerName = PROVIDER_CONFIGS[config.provider].name;
+
+  if (message.includes("rate limit")) {
+    return new Error(
+      `Rate limit exceeded for ${providerName}. Please wait and try again.`
+    );
+  }
+
+  if (
+    message.includes("authentication") ||
+    message.includes("api key") ||
+    message.includes("unauthorized")
+  ) {
+    return new Error(
+      `Authentication failed for ${providerName}. Please check your API key in Settings.`
+    );
+  }
+
+  if (message.includes("model") && message.includes("not found")) {
+    return new Error(
+      `Model "${config.model}" not found. Please select a different model in Settings.`
+    );
+  }
+
+  if (
+    message.includes("connection") ||
+    message.includes("econnrefused")
+  ) {
+    if (config.provider === "ollama") {
+      return new Error(
+        "Cannot connect to Ollama. Please ensure Ollama is running with `ollama serve`."
+      );
+    }
+    return new Error(
+      `Cannot connect to ${providerName}. Please check your internet connection.`
+    );
+  }
+
+  return error;
+}
+
+// Tools and the step limit that lets the model answer after calling them
+function toolOptions(options: { tools?: ToolSet; maxSteps?: number }) {
+  if (!options.tools) return {};
+  return { tools: options.tools, stopWhen: stepCountIs(options.maxSteps ?? 1) };
+}
+
+// Pass the request context to the model; only the mock provider reads it
+function contextOptions(context?: AIRequestContext) {
+  if (!context) return {};
+  const mock = Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined)
+  ) as Record<string, string>;
+  return { providerOptions: { mock } };
+}
+
+// Errors worth retrying on the same provider: rate limits, overload, timeouts
+// and empty replies. Anything else (a server that is down, a bad key) moves
+// straight on to the next fallback.
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if ((error as Error & { isRetryable?: boolean }).isRetryable) return true;
+  const message = error.message.toLowerCase();
+  return (
+    message.includes("rate limit") ||
+    message.includes("overloaded") ||
+    message.includes("timeout") ||
+    message.includes("timed out") ||
+    message.includes("empty response")
+  );
+}
+
+const PROVIDER_RETRY_OPTIONS = { maxRetries: 2, initialDelay: 1000, maxDelay: 8000 };
+
+function describeAttempt(config: AIRequestConfig, error: unknown): AIFallbackAttempt {
+  return {
+    provider: config.provider,
+    model: config.model,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+interface GenerateOptions {
+  system: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  maxTokens: number;
+  tools?: ToolSet;    // Offered to the model; calls run server-side between steps
+  maxSteps?: number;  // Upper bound on model steps when tools are offered
+  context?: AIRequestContext; // Task, mode and phase of the request
+  // Called when a fallback answered, with the providers that failed before it
+  onFallback?: (answered: AIRequestConfig, failed: AIFallbackAttempt[]) => void;
+  // Called before every attempt after the first (a retry or a fallback): tools run
+  // again, so whatever they reported during the failed attempt should be dropped
+  onAttempt?: () => void;
+}
+
+// Calls onAttempt before every attempt but the first
+function attemptCounter(options: Pick<GenerateOptions, "onAttempt">): () => void {
+  let attempts = 0;
+  return () => {
+    if (attempts++ > 0) options.onAttempt?.();
+  };
+}
+
+// Unified function to generate AI responses. Transient errors are retried with
+// backoff; if the provider still fails, each of config.fallbacks is tried in turn.
 export async function generateAIResponse(
   config: AIRequestConfig,
-  options: {
-    system: string;
-    messages: Array<{ role: "user" | "assistant"; content: string }>;
-    maxTokens: number;
-  }
+  options: GenerateOptions
 ): Promise<string> {
-  const client = createAIClient(config);
+  const chain = [config, ...(config.fallbacks || [])];
+  const failed: AIFallbackAttempt[] = [];
+  const beginAttempt = attemptCounter(options);
+
+  for (const [index, candidate] of chain.entries()) {
+    try {
+      const text = await retryWithBackoff(() => {
+        beginAttempt();
+        return generateWithProvider(candidate, options);
+      }, {
+        ...PROVIDER_RETRY_OPTIONS,
+        shouldRetry: isTransientError,
+      });
+      if (failed.length > 0) {
+        console.warn("AI fallback answered:", { provider: candidate.provider, model: candidate.model, failed });
+        options.onFallback?.(candidate, failed);
+      }
+      return text;
+    } catch (error) {
+      if (index === chain.length - 1) throw error;
+      failed.push(describeAttempt(candidate, error));
+    }
+  }
+
+  throw new Error("No AI provider configured");
+}
+
+async function generateWithProvider(config: AIRequestConfig, options: GenerateOptions): Promise<string> {
+  const client = await createAIClient(config);
 
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -161,6 +353,9 @@ export async function generateAIResponse(
       system: options.system,
       messages: options.messages,
       maxOutputTokens: options.maxTokens,
+      maxRetries: 0, // Retries and fallbacks are handled by generateAIResponse
+      ...toolOptions(options),
+      ...contextOptions(options.context),
     });
 
     // Ensure we have a valid response
@@ -172,47 +367,102 @@ export async function generateAIResponse(
     return result.text;
   } catch (error) {
     // Enhance error messages for common issues
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
+    throw mapProviderError(config, error);
+  }
+}
 
-      if (message.includes("rate limit")) {
-        throw new Error(
-          `Rate limit exceeded for ${PROVIDER_CONFIGS[config.provider].name}. Please wait and try again.`
-        );
-      }
+type StreamOptions = GenerateOptions & { abortSignal?: AbortSignal };
 
-      if (
-        message.includes("authentication") ||
-        message.includes("api key") ||
-        message.includes("unauthorized")
-      ) {
-        throw new Error(
-          `Authentication failed for ${PROVIDER_CONFIGS[config.provider].name}. Please check your API key in Settings.`
-        );
-      }
+// Streaming counterpart of generateAIResponse - yields text deltas as they arrive.
+// Stops quietly when abortSignal fires (the client has gone away). Retries and
+// fallbacks apply until the first text arrives; after that an error ends the reply.
+export async function* streamAIResponse(
+  config: AIRequestConfig,
+  options: StreamOptions
+): AsyncGenerator<string> {
+  const chain = [config, ...(config.fallbacks || [])];
+  const failed: AIFallbackAttempt[] = [];
+  const beginAttempt = attemptCounter(options);
+
+  for (const [index, candidate] of chain.entries()) {
+    let started: { stream: AsyncGenerator<string>; first: IteratorResult<string> };
+    try {
+      started = await retryWithBackoff(
+        async () => {
+          beginAttempt();
+          const stream = streamWithProvider(candidate, options);
+          return { stream, first: await stream.next() };
+        },
+        {
+          ...PROVIDER_RETRY_OPTIONS,
+          shouldRetry: (error) => !options.abortSignal?.aborted && isTransientError(error),
+        }
+      );
+    } catch (error) {
+      if (options.abortSignal?.aborted) return;
+      if (index === chain.length - 1) throw error;
+      failed.push(describeAttempt(candidate, error));
+      continue;
+    }
 
-      if (message.includes("model") && message.includes("not found")) {
-        throw new Error(
-          `Model "${config.model}" not found. Please select a different model in Settings.`
-        );
-      }
+    if (failed.length > 0) {
+      console.warn("AI fallback answered:", { provider: candidate.provider, model: candidate.model, failed });
+      options.onFallback?.(candidate, failed);
+    }
+    if (started.first.done) return;
+    yield started.first.value;
+    yield* started.stream;
+    return;
+  }
+}
+
+async function* streamWithProvider(
+  config: AIRequestConfig,
+  options: StreamOptions
+): AsyncGenerator<string> {
+  const client = await createAIClient(config);
+  let receivedText = false;
+
+  try {
+    const result = streamText({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      model: client(config.model) as any,
+      system: options.system,
+      messages: options.messages,
+      maxOutputTokens: options.maxTokens,
+      maxRetries: 0,
+      ...toolOptions(options),
+      ...contextOptions(options.context),
+      abortSignal: options.abortSignal,
+    });
 
-      if (
-        message.includes("connection") ||
-        message.includes("econnrefused")
-      ) {
-        if (config.provider === "ollama") {
-          throw new Error(
-            "Cannot connect to Ollama. Please ensure Ollama is running with `ollama serve`."
-          );
+    // fullStream surfaces provider errors as parts rather than throwing.
+    // With tools, text from successive steps is separated by a paragraph break.
+    let newStep = false;
+    for await (const part of result.fullStream) {
+      if (part.type === "start-step") {
+        newStep = receivedText;
+      } else if (part.type === "text-delta" && part.text) {
+        if (newStep) {
+          newStep = false;
+          yield "\n\n";
         }
-        throw new Error(
-          `Cannot connect to ${PROVIDER_CONFIGS[config.provider].name}. Please check your internet connection.`
-        );
+        receivedText = true;
+        yield part.text;
+      } else if (part.type === "error") {
+        throw part.error;
       }
     }
+  } catch (error) {
+    if (options.abortSignal?.aborted) return;
+    throw mapProviderError(config, error);
+  }
+
+  if (options.abortSignal?.aborted) return;
 
-    throw error;
+  if (!receivedText) {
+    console.error("Empty streamed response from AI:", { provider: config.provider, model: config.model });
+    throw new Error(`${PROVIDER_CONFIGS[config.provider].name} returned an empty response. Please try again.`);
   }
 }
 
@@ -250,11 +500,13 @@ export async function testAIConnection(
       return { success: true };
     }
 
-    // For other providers, try a minimal API call
-    await generateAIResponse(config, {
+    // For other providers, try a minimal API call (without fallbacks - this
+    // tests the configured provider)
+    await generateAIResponse({ ...config, fallbacks: undefined }, {
       system: "You are a helpful assistant.",
       messages: [{ role: "user", content: "Hi" }],
       maxTokens: 5,
+      context: { task: "test-connection" },
     });
 
     return { success: true };
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@jest/globals";
+import { buildCodeIndex, chunkCode, tokenize } from "./code-retrieval";
+
+const body = (name: string, lines: number) =>
+  Array.from({ length: lines }, (_, i) => `  ${name}Step${i}();`).join("\n");
+
+describe("tokenize", () => {
+  it("splits camelCase and snake_case names and keeps them whole", () => {
+    expect(tokenize("parseHeaderLine read_buffer")).toEqual(
+      expect.arrayContaining(["parseheaderline", "parse", "header", "read_buffer", "read", "buffer"])
+    );
+  });
+
+  it("drops stopwords and single characters", () => {
+    expect(tokenize("what does the x do")).toEqual([]);
+  });
+});
+
+describe("chunkCode", () => {
+  it("splits at definitions and names each chunk", () => {
+    const content = [
+      "function first() {", body("first", 12), "}",
+      "function second() {", body("second", 12), "}",
+    ].join("\n");
+    const chunks = chunkCode(content, 3);
+
+    expect(chunks.map((c) => c.symbol)).toEqual(["first", "second"]);
+    expect(chunks[0]).toMatchObject({ fileIndex: 3, startLine: 1, endLine: 14 });
+    expect(chunks[1]).toMatchObject({ startLine: 15, endLine: 28 });
+  });
+
+  it("recognises assembler labels in column one", () => {
+    const content = ["START    CA  ONE", body("a", 10), "P00DOO   TC  ABORT", body("b", 10)].join("\n");
+    expect(chunkCode(content).map((c) => c.symbol)).toEqual(["START", "P00DOO"]);
+  });
+
+  it("covers every line exactly once", () => {
+    const content = Array.from({ length: 500 }, (_, i) => `x${i} = ${i}`).join("\n");
+    const chunks = chunkCode(content);
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[chunks.length - 1].endLine).toBe(500);
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.startLine).toBe(chunks[i].endLine + 1));
+  });
+});
+
+describe("CodeIndex", () => {
+  const files = [
+    ["function drawSprite() {", body("draw", 10), "}", "function loadLevel() {", body("load", 10), "}"].join("\n"),
+    ["def play_sound():", body("sound", 10)].join("\n"),
+  ];
+
+  it("ranks the chunk defining the asked-about symbol first", () => {
+    const [best] = buildCodeIndex(files).search("How is the level loaded? loadLevel");
+    expect(best).toMatchObject({ fileIndex: 0, symbol: "loadLevel" });
+  });
+
+  it("searches across files", () => {
+    const [best] = buildCodeIndex(files).search("play sound");
+    expect(best).toMatchObject({ fileIndex: 1, symbol: "play_sound" });
+  });
+
+  it("returns nothing for queries without matching terms", () => {
+    expect(buildCodeIndex(files).search("quantum")).toEqual([]);
+    expect(buildCodeIndex(files).search("the")).toEqual([]);
+  });
+
+  it("reuses the index for the same contents", () => {
+    expect(buildCodeIndex([...files])).toBe(buildCodeIndex(files));
+  });
+
+  it("does not reuse the index for other contents of the same lengths", () => {
+    expect(buildCodeIndex(["ab", "c"])).not.toBe(buildCodeIndex(["a", "bc"]));
+    expect(buildCodeIndex(["ab"])).not.toBe(buildCodeIndex(["ba"]));
+  });
+});
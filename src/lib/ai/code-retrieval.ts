@@ -0,0 +1,196 @@
+// Local chunking and BM25 lexical retrieval over code files
+// Runs entirely in-process so it works offline (e.g. with the Ollama provider)
+
+import { createHash } from "crypto";
+
+// Chunk size bounds in lines
+const MIN_CHUNK_LINES = 6;
+const MAX_CHUNK_LINES = 40;
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Number of indexes kept in memory (keyed by file content), and the total code they may cover
+const INDEX_CACHE_SIZE = 16;
+const INDEX_CACHE_MAX_CHARS = 8_000_000;
+
+export interface CodeChunk {
+  fileIndex: number;  // Position of the file in the list passed to buildCodeIndex
+  startLine: number;  // 1-based, inclusive
+  endLine: number;    // 1-based, inclusive
+  symbol?: string;    // Name of the definition that opens the chunk, if any
+}
+
+export interface ScoredChunk extends CodeChunk {
+  score: number;
+}
+
+// Lines that open a new definition across common and historical languages:
+// function/def/class/procedure keywords, FORTRAN/COBOL units and Lisp defuns
+const DEFINITION_PATTERN =
+  /^\s*(?:(?:export\s+)?(?:async\s+)?function\s+([\w$]+)|(?:export\s+)?(?:abstract\s+)?class\s+([\w$]+)|def\s+([\w$]+)|(?:public|private|protected|static)[\w\s<>[\],]*\s([\w$]+)\s*\(|(?:procedure|function|subroutine|program|module)\s+([\w$]+)|\(def(?:un|macro|var|ine)\s+([^\s()]+)|([A-Za-z][\w.-]*)\s+(?:section|division)\.)/i;
+// Upper-case assembler labels in column one (AGC, MAD, IPL-V)
+const LABEL_PATTERN = /^([A-Z][A-Z0-9_]{1,11})(?:\s|$)/;
+
+function matchDefinition(line: string): string | null | undefined {
+  const match = line.match(DEFINITION_PATTERN) || line.match(LABEL_PATTERN);
+  return match ? match.slice(1).find(Boolean) : null;
+}
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "what", "does", "how", "why", "are", "was", "is",
+  "it", "of", "to", "in", "on", "a", "an", "be", "or", "as", "at", "by", "if", "do", "can", "me",
+  "you", "we", "i", "my", "about", "code", "line", "lines", "here", "there", "which", "would",
+]);
+
+/**
+ * Split an identifier-rich text into lowercase search terms.
+ * camelCase and snake_case names are split and also kept whole.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) || []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1 && !STOPWORDS.has(lower)) terms.push(lower);
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_$]+/)
+      .map((p) => p.toLowerCase())
+      .filter((p) => p.length > 1 && p !== lower && !STOPWORDS.has(p));
+    terms.push(...parts);
+  }
+  return terms;
+}
+
+/**
+ * Split a file into chunks along definition boundaries (or blank lines once a chunk
+ * is long enough), capped at MAX_CHUNK_LINES.
+ */
+export function chunkCode(content: string, fileIndex: number = 0): CodeChunk[] {
+  const lines = content.split("\n");
+  const chunks: CodeChunk[] = [];
+  let start = 0;
+  let symbol: string | undefined;
+
+  const close = (end: number) => {
+    if (end >= start) chunks.push({ fileIndex, startLine: start + 1, endLine: end + 1, symbol });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const length = i - start;
+    const definition = matchDefinition(lines[i]);
+    const atBlank = lines[i].trim() === "" && length >= MIN_CHUNK_LINES;
+
+    if ((definition !== null && length >= MIN_CHUNK_LINES / 2) || atBlank || length >= MAX_CHUNK_LINES) {
+      close(i - 1);
+      start = i;
+      symbol = definition ?? undefined;
+    } else if (i === start) {
+      symbol = definition ?? undefined;
+    }
+  }
+  close(lines.length - 1);
+  return chunks;
+}
+
+/**
+ * BM25 index over code chunks.
+ */
+export class CodeIndex {
+  readonly chunks: CodeChunk[] = [];
+  private termFreqs: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private docFreq = new Map<string, number>();
+  private avgLength = 0;
+
+  constructor(files: string[]) {
+    files.forEach((content, fileIndex) => {
+      const lines = content.split("\n");
+      for (const chunk of chunkCode(content, fileIndex)) {
+        const text = lines.slice(chunk.startLine - 1, chunk.endLine).join("\n");
+        // Symbol names count twice - they are the strongest signal of what a chunk is about
+        const terms = tokenize(chunk.symbol ? `${chunk.symbol} ${chunk.symbol} ${text}` : text);
+        const freqs = new Map<string, number>();
+        for (const term of terms) freqs.set(term, (freqs.get(term) || 0) + 1);
+        for (const term of freqs.keys()) this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1);
+
+        this.chunks.push(chunk);
+        this.termFreqs.push(freqs);
+        this.lengths.push(terms.length);
+      }
+    });
+    const total = this.lengths.reduce((sum, n) => sum + n, 0);
+    this.avgLength = this.chunks.length > 0 ? total / this.chunks.length : 0;
+  }
+
+  private idf(term: string): number {
+    const n = this.docFreq.get(term) || 0;
+    return Math.log(1 + (this.chunks.length - n + 0.5) / (n + 0.5));
+  }
+
+  /** Score every chunk against the query; returns chunks with a positive score, best first */
+  search(query: string, limit: number = Infinity): ScoredChunk[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.chunks.length === 0) return [];
+
+    const results: ScoredChunk[] = [];
+    this.chunks.forEach((chunk, i) => {
+      const freqs = this.termFreqs[i];
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (this.lengths[i] / (this.avgLength || 1)));
+      let score = 0;
+      for (const term of terms) {
+        const tf = freqs.get(term);
+        if (!tf) continue;
+        score += this.idf(term) * ((tf * (BM25_K1 + 1)) / (tf + norm));
+      }
+      if (score > 0) results.push({ ...chunk, score });
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  }
+}
+
+// Small cache so repeated questions about the same files reuse the index.
+// Shared by every request to the server, so entries are keyed by a digest of the
+// content (a collision would answer one user with another's code) and bounded in size.
+const indexCache = new Map<string, { index: CodeIndex; chars: number }>();
+let indexCacheChars = 0;
+
+function cacheKey(files: string[]): string {
+  const hash = createHash("sha256");
+  for (const content of files) {
+    // Length prefix keeps ["ab", "c"] and ["a", "bc"] apart
+    hash.update(`${content.length}:`);
+    hash.update(content);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Build (or reuse) a BM25 index for a set of file contents.
+ */
+export function buildCodeIndex(files: string[]): CodeIndex {
+  const key = cacheKey(files);
+  const cached = indexCache.get(key);
+  if (cached) {
+    // Most recently used entries are evicted last
+    indexCache.delete(key);
+    indexCache.set(key, cached);
+    return cached.index;
+  }
+
+  const index = new CodeIndex(files);
+  const chars = files.reduce((sum, content) => sum + content.length, 0);
+  if (chars > INDEX_CACHE_MAX_CHARS) return index;
+
+  indexCache.set(key, { index, chars });
+  indexCacheChars += chars;
+  while (indexCache.size > INDEX_CACHE_SIZE || indexCacheChars > INDEX_CACHE_MAX_CHARS) {
+    const [oldestKey, oldest] = indexCache.entries().next().value as [string, { index: CodeIndex; chars: number }];
+    indexCache.delete(oldestKey);
+    indexCacheChars -= oldest.chars;
+  }
+  return index;
+}
@@ -1,12 +1,32 @@
 // Provider configurations and model definitions
 
-import type { AIProvider, ProviderConfig, ModelConfig } from "@/types/ai-settings";
+import type { AIProvider, AITask, ProviderConfig, ModelConfig, DiscoveredModel } from "@/types/ai-settings";
 import { loadModelsConfig, type LoadedModels } from "./load-models";
 
 // Cache for dynamically loaded models
 let loadedModels: LoadedModels | null = null;
 let modelsLoadPromise: Promise<LoadedModels | null> | null = null;
 
+// Models reported by the provider's own endpoint, merged into the configured ones.
+// Only the browser records them (AISettingsContext); requests carry a discovered
+// model's context window in the X-AI-Context-Window header, so the server keeps none.
+const discoveredModels: Partial<Record<AIProvider, DiscoveredModel[]>> = {};
+
+// Providers whose endpoints list the models they serve
+export const DISCOVERABLE_PROVIDERS: AIProvider[] = ["ollama", "openai-compatible"];
+
+// The mock provider is for development, demos and tests: production builds only
+// offer it when NEXT_PUBLIC_ENABLE_MOCK_AI is "true"
+export const MOCK_PROVIDER_ENABLED =
+  process.env.NODE_ENV !== "production" || process.env.NEXT_PUBLIC_ENABLE_MOCK_AI === "true";
+
+/**
+ * Whether a provider can be selected in this build
+ */
+export function isProviderAvailable(provider: AIProvider): boolean {
+  return !!PROVIDER_CONFIGS[provider] && (provider !== "mock" || MOCK_PROVIDER_ENABLED);
+}
+
 export const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
   ollama: {
     id: "ollama",
@@ -198,6 +218,67 @@ export const PROVIDER_CONFIGS: Record<AIProvider, ProviderConfig> = {
       },
     ],
   },
+  mock: {
+    id: "mock",
+    name: "Mock (Offline)",
+    description: "Scripted replies from fixture rules - for offline demos, teaching and tests",
+    requiresApiKey: false,
+    baseUrlConfigurable: false,
+    models: [
+      {
+        id: "scripted",
+        name: "Scripted Replies",
+        contextWindow: 128000,
+        maxOutputTokens: 4096,
+        supportsStreaming: true,
+        supportsTools: false,
+        recommendedFor: ["chat", "generation", "analysis"],
+      },
+      {
+        id: "rate-limited",
+        name: "Always Rate Limited",
+        contextWindow: 128000,
+        maxOutputTokens: 4096,
+        supportsStreaming: true,
+        supportsTools: false,
+        recommendedFor: ["chat"],
+      },
+      {
+        id: "empty",
+        name: "Always Empty",
+        contextWindow: 128000,
+        maxOutputTokens: 4096,
+        supportsStreaming: true,
+        supportsTools: false,
+        recommendedFor: ["chat"],
+      },
+    ],
+  },
+};
+
+// Tasks that can be routed to their own model, with the kind of work each is
+// (matched against ModelConfig.recommendedFor)
+export const AI_TASKS: Record<AITask, { name: string; description: string; kind: ModelConfig["recommendedFor"][number] }> = {
+  chat: {
+    name: "Chat",
+    description: "Conversation about the code",
+    kind: "chat",
+  },
+  generate: {
+    name: "Outputs",
+    description: "Generated annotations, critiques and close readings",
+    kind: "generation",
+  },
+  "suggest-annotations": {
+    name: "Annotation suggestions",
+    description: "Suggested line annotations in the editor",
+    kind: "analysis",
+  },
+  literature: {
+    name: "Literature",
+    description: "Searching and summarising references",
+    kind: "analysis",
+  },
 };
 
 // Default model specs (used when models.md doesn't specify full details)
@@ -207,6 +288,7 @@ const DEFAULT_MODEL_SPECS: Record<AIProvider, Partial<ModelConfig>> = {
   openai: { contextWindow: 128000, maxOutputTokens: 4096, supportsStreaming: true, recommendedFor: ["chat", "generation", "analysis"] },
   google: { contextWindow: 1048576, maxOutputTokens: 65536, supportsStreaming: true, recommendedFor: ["chat", "generation", "analysis"] },
   "openai-compatible": { contextWindow: 32000, maxOutputTokens: 4096, supportsStreaming: true, recommendedFor: ["chat", "generation", "analysis"] },
+  mock: { contextWindow: 128000, maxOutputTokens: 4096, supportsStreaming: true, recommendedFor: ["chat", "generation", "analysis"] },
 };
 
 /**
@@ -223,9 +305,58 @@ export async function initializeModels(): Promise<void> {
 }
 
 /**
- * Get models for a provider, merging loaded models with defaults
+ * Record the models a provider's endpoint reports (see /api/models). They are
+ * listed alongside the configured models until replaced. Called in the browser only.
+ */
+export function setDiscoveredModels(provider: AIProvider, models: DiscoveredModel[]): void {
+  discoveredModels[provider] = models;
+}
+
+export function getDiscoveredModels(provider: AIProvider): DiscoveredModel[] {
+  return discoveredModels[provider] || [];
+}
+
+/**
+ * Get models for a provider: models.md (or the defaults), with any models
+ * discovered from the provider's endpoint added before the "custom" option.
+ * A discovered context window replaces the configured one.
  */
 export function getModelsForProvider(provider: AIProvider): ModelConfig[] {
+  const discovered = getDiscoveredModels(provider);
+  const configured = getConfiguredModels(provider);
+  if (discovered.length === 0) return configured;
+
+  const specs = DEFAULT_MODEL_SPECS[provider];
+  const byId = new Map(discovered.map(m => [m.id, m]));
+  const models = configured
+    .filter(m => m.id !== "custom")
+    .map(m => {
+      const found = byId.get(m.id);
+      return found?.contextWindow ? { ...m, contextWindow: found.contextWindow } : m;
+    });
+
+  for (const m of discovered) {
+    if (models.some(existing => existing.id === m.id)) continue;
+    models.push({
+      id: m.id,
+      name: m.name,
+      contextWindow: m.contextWindow || specs.contextWindow || 32000,
+      maxOutputTokens: specs.maxOutputTokens || 4096,
+      supportsStreaming: specs.supportsStreaming ?? true,
+      recommendedFor: specs.recommendedFor || ["chat"],
+    });
+  }
+
+  const customModel = configured.find(m => m.id === "custom");
+  if (customModel) {
+    models.push(customModel);
+  }
+
+  return models;
+}
+
+// Models from models.md, merged with defaults
+function getConfiguredModels(provider: AIProvider): ModelConfig[] {
   const baseConfig = PROVIDER_CONFIGS[provider];
 
   // If no loaded models or provider not in loaded models, use defaults
@@ -279,14 +410,14 @@ export function getProviderConfigWithModels(provider: AIProvider): ProviderConfi
 }
 
 export function getAllProviders(): ProviderConfig[] {
-  return Object.values(PROVIDER_CONFIGS);
+  return Object.values(PROVIDER_CONFIGS).filter(p => isProviderAvailable(p.id));
 }
 
 /**
  * Get all providers with dynamically loaded models
  */
 export function getAllProvidersWithModels(): ProviderConfig[] {
-  return (Object.keys(PROVIDER_CONFIGS) as AIProvider[]).map(getProviderConfigWithModels);
+  return (Object.keys(PROVIDER_CONFIGS) as AIProvider[]).filter(isProviderAvailable).map(getProviderConfigWithModels);
 }
 
 /**
@@ -301,3 +432,37 @@ export function getModelDisplayName(provider: AIProvider, modelId: string): stri
   // For custom models, return the model ID as-is
   return modelId;
 }
+
+/**
+ * Whether a model can stream its output. Unknown model IDs (custom models)
+ * inherit the provider's "custom" entry.
+ */
+export function modelSupportsStreaming(provider: AIProvider, modelId: string): boolean {
+  const models = getModelsForProvider(provider);
+  const model = models.find(m => m.id === modelId) || models.find(m => m.id === "custom");
+  return model?.supportsStreaming ?? false;
+}
+
+// Providers whose models call tools reliably. Local and OpenAI-compatible servers
+// vary by model, so their models must opt in with supportsTools.
+const TOOL_CALLING_PROVIDERS: AIProvider[] = ["anthropic", "openai", "google"];
+
+/**
+ * Whether a model can be offered tools. Unknown model IDs (custom models)
+ * inherit the provider's "custom" entry.
+ */
+export function modelSupportsTools(provider: AIProvider, modelId: string): boolean {
+  const models = getModelsForProvider(provider);
+  const model = models.find(m => m.id === modelId) || models.find(m => m.id === "custom");
+  return model?.supportsTools ?? TOOL_CALLING_PROVIDERS.includes(provider);
+}
+
+/**
+ * Context window (in tokens) for a model. Unknown model IDs (custom models)
+ * inherit the provider's "custom" entry.
+ */
+export function getModelContextWindow(provider: AIProvider, modelId: string): number {
+  const models = getModelsForProvider(provider);
+  const model = models.find(m => m.id === modelId) || models.find(m => m.id === "custom");
+  return model?.contextWindow ?? 8192;
+}
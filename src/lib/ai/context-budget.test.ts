@@ -0,0 +1,111 @@
+import { describe, expect, it } from "@jest/globals";
+import { estimateTokens, planChatContext, type ContextPlanOptions } from "./context-budget";
+
+const listing = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix}_${i + 1} = compute(${i + 1});`).join("\n");
+
+const plan = (overrides: Partial<ContextPlanOptions>) =>
+  planChatContext({
+    contextWindow: 100000,
+    maxOutputTokens: 4000,
+    basePrompt: "You are a critical code studies assistant.",
+    methodology: "## Approach\nRead closely.\n\n## Method\nAnnotate.",
+    codeFiles: [],
+    messages: [{ role: "user", content: "What does this do?" }],
+    ...overrides,
+  });
+
+describe("planChatContext", () => {
+  it("sends everything whole when it fits", () => {
+    const result = plan({
+      codeFiles: [{ id: "a", name: "a.js", content: "let x = 1;\nlet y = 2;" }],
+      messages: [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi" },
+        { role: "user", content: "What does this do?" },
+      ],
+    });
+
+    expect(result.report.methodology).toBe("full");
+    expect(result.report.files).toEqual([{ name: "a.js", totalLines: 2, includedLines: 2, status: "full" }]);
+    expect(result.codeBlock).toContain("  1 | let x = 1;");
+    expect(result.messages).toHaveLength(3);
+    expect(result.historySummary).toBe("");
+  });
+
+  it("numbers lines as the editor does, leaving annotation lines unnumbered", () => {
+    const result = plan({
+      codeFiles: [{ id: "a", name: "a.js", content: "let x = 1;\n// An: Observation: a constant\nlet y = 2;" }],
+    });
+
+    expect(result.codeBlock).toContain("  1 | let x = 1;");
+    expect(result.codeBlock).toContain("    | // An: Observation: a constant");
+    expect(result.codeBlock).toContain("  2 | let y = 2;");
+  });
+
+  it("stays within the prompt budget and keeps the selected file when code is too large", () => {
+    const result = plan({
+      contextWindow: 6000,
+      maxOutputTokens: 1000,
+      codeFiles: [
+        { id: "big", name: "big.js", content: listing("other", 2000) },
+        { id: "open", name: "open.js", content: listing("open", 20) },
+      ],
+      selectedFileId: "open",
+    });
+
+    expect(result.report.estimatedTokens).toBeLessThanOrEqual(result.report.promptBudget);
+    const [open, big] = result.report.files;
+    expect(open).toMatchObject({ name: "open.js", status: "full" });
+    expect(big.status).not.toBe("full");
+    expect(result.codeBlock).toContain("omitted");
+  });
+
+  it("retrieves the chunks that match the question from files that do not fit", () => {
+    const content = [listing("filler", 1500), "function launchRocket() {", "  return ignite();", "}"].join("\n");
+    const result = plan({
+      contextWindow: 4000,
+      maxOutputTokens: 500,
+      codeFiles: [{ id: "a", name: "a.js", content }],
+      messages: [{ role: "user", content: "How does launchRocket ignite?" }],
+    });
+
+    expect(result.codeBlock).toContain("function launchRocket() {");
+    expect(result.report.retrieval?.included).toBeGreaterThan(0);
+  });
+
+  it("condenses older messages into a digest when history does not fit", () => {
+    const long = "word ".repeat(2000);
+    const messages = [
+      ...Array.from({ length: 10 }, (_, i) => ({
+        role: (i % 2 === 0 ? "user" : "assistant") as "user" | "assistant",
+        content: `${i}: ${long}`,
+      })),
+      { role: "user" as const, content: "And now?" },
+    ];
+    const result = plan({ contextWindow: 8000, maxOutputTokens: 1000, messages });
+
+    expect(result.messages[result.messages.length - 1].content).toBe("And now?");
+    expect(result.report.messages.total).toBe(10);
+    expect(result.report.messages.included).toBeLessThan(10);
+    expect(result.report.messages.summarised).toBeGreaterThan(0);
+    expect(result.historySummary).toContain("Earlier Conversation");
+    expect(result.report.estimatedTokens).toBeLessThanOrEqual(result.report.promptBudget);
+  });
+
+  it("trims the methodology to whole sections", () => {
+    const methodology = ["## One", "a ".repeat(500), "## Two", "b ".repeat(5000)].join("\n");
+    const result = plan({ contextWindow: 8000, maxOutputTokens: 1000, methodology });
+
+    expect(result.report.methodology).toBe("trimmed");
+    expect(result.methodology).toContain("## One");
+    expect(result.methodology).not.toContain("## Two");
+  });
+});
+
+describe("estimateTokens", () => {
+  it("rounds up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(2);
+  });
+});
@@ -0,0 +1,375 @@
+// Token budgeting for chat prompts - fits methodology, code and conversation history
+// into the model's context window and reports what was included and dropped
+
+import type { ContextBudgetReport, ContextFileReport } from "@/types/api";
+import { buildCodeIndex, type ScoredChunk } from "./code-retrieval";
+
+// Rough characters-per-token ratio; errs on the side of overestimating for code
+const CHARS_PER_TOKEN = 3.5;
+// Share of the window held back for tokenizer error and message framing
+const SAFETY_MARGIN = 0.05;
+// Upper share of the prompt budget the methodology document may take
+const METHODOLOGY_SHARE = 0.2;
+// Share of the remaining budget kept for conversation history before code is placed
+const HISTORY_SHARE = 0.3;
+// Lines always kept from the top of a partially included file (headers, comments)
+const HEAD_LINES = 10;
+// Code lines kept above each annotation when a file is only partially included
+const ANNOTATION_CONTEXT_LINES = 4;
+// Weight of annotation text relative to the question when ranking code chunks
+const ANNOTATION_QUERY_WEIGHT = 0.5;
+// Allowance for the "... (lines x-y omitted) ..." marker each new range may add
+const OMISSION_MARKER_TOKENS = 10;
+// Characters of each older message kept in the earlier-conversation digest
+const SUMMARY_CHARS = 160;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export interface BudgetCodeFile {
+  id?: string;
+  name: string;
+  content?: string;
+}
+
+export interface BudgetMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ContextPlanOptions {
+  contextWindow: number;
+  maxOutputTokens: number;
+  basePrompt: string;       // System prompt without methodology, code or history digest
+  methodology: string;
+  codeFiles: BudgetCodeFile[];
+  messages: BudgetMessage[];  // Conversation; the last entry is the new user message
+  selectedFileId?: string;
+}
+
+export interface ContextPlan {
+  methodology: string;
+  codeBlock: string;        // Numbered code listings for the latest user message
+  historySummary: string;   // Digest of older messages for the system prompt ("" if none)
+  messages: BudgetMessage[];
+  report: ContextBudgetReport;
+}
+
+function isAnnotationLine(line: string): boolean {
+  return line.trimStart().startsWith("// An:");
+}
+
+// Number each line as the model sees it ("  12 | code"). Inline annotation lines are
+// left unnumbered so the numbers match the editor; sourceLines maps each listing line
+// to its editor line (an annotation line maps to the code line it follows).
+function numberLines(lines: string[]): { numbered: string[]; sourceLines: number[] } {
+  const sourceLines: number[] = [];
+  let lineNumber = 0;
+  for (const line of lines) {
+    if (!isAnnotationLine(line) || lineNumber === 0) lineNumber++;
+    sourceLines.push(lineNumber);
+  }
+  const width = Math.max(3, String(lineNumber).length);
+  const numbered = lines.map((line, i) =>
+    isAnnotationLine(line) && i > 0
+      ? `${" ".repeat(width)} | ${line}`
+      : `${String(sourceLines[i]).padStart(width, " ")} | ${line}`
+  );
+  return { numbered, sourceLines };
+}
+
+// Trim the methodology to whole "## " sections that fit within maxTokens
+function trimMethodology(methodology: string, maxTokens: number): { text: string; status: ContextBudgetReport["methodology"] } {
+  if (estimateTokens(methodology) <= maxTokens) {
+    return { text: methodology, status: "full" };
+  }
+  const sections = methodology.split(/\n(?=## )/);
+  let text = "";
+  for (const section of sections) {
+    const candidate = text ? `${text}\n${section}` : section;
+    if (estimateTokens(candidate) > maxTokens) break;
+    text = candidate;
+  }
+  if (!text) return { text: "", status: "omitted" };
+  return { text: `${text}\n\n[Methodology shortened to fit the model's context window]`, status: "trimmed" };
+}
+
+// Order files so the selected file comes first, then the most annotated ones
+function prioritiseFiles(files: BudgetCodeFile[], selectedFileId?: string): BudgetCodeFile[] {
+  const annotationCount = (f: BudgetCodeFile) =>
+    (f.content || "").split("\n").filter(isAnnotationLine).length;
+  return files
+    .map((file, index) => ({ file, index, count: annotationCount(file) }))
+    .sort((a, b) => {
+      const aSelected = a.file.id && a.file.id === selectedFileId ? 1 : 0;
+      const bSelected = b.file.id && b.file.id === selectedFileId ? 1 : 0;
+      if (aSelected !== bSelected) return bSelected - aSelected;
+      if (a.count !== b.count) return b.count - a.count;
+      return a.index - b.index;
+    })
+    .map((entry) => entry.file);
+}
+
+interface FileSelection {
+  file: BudgetCodeFile;
+  lines: string[];
+  numbered: string[];
+  sourceLines: number[];
+  lineCost: number[];
+  included: boolean[];
+  charged: boolean;  // Whether the listing frame has been paid for
+}
+
+function listingFrame(name: string): { header: string; footer: string } {
+  return { header: `File: ${name}\n\`\`\`\n`, footer: "\n```\n\n" };
+}
+
+function renderSelection(sel: FileSelection): { block: string; report: ContextFileReport } {
+  const { header, footer } = listingFrame(sel.file.name);
+  const totalLines = sel.numbered.length;
+  const ranges: Array<[number, number]> = [];
+  sel.included.forEach((inc, i) => {
+    if (!inc) return;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === i) last[1] = i + 1;
+    else ranges.push([i + 1, i + 1]);
+  });
+
+  if (ranges.length === 0) {
+    return { block: "", report: { name: sel.file.name, totalLines, includedLines: 0, status: "omitted" } };
+  }
+  const includedLines = sel.included.filter(Boolean).length;
+  if (includedLines === totalLines) {
+    return {
+      block: header + sel.numbered.join("\n") + footer,
+      report: { name: sel.file.name, totalLines, includedLines, status: "full" },
+    };
+  }
+
+  // Omission markers give editor line numbers, like the listing
+  const omitted = (from: number, to: number) =>
+    `     ... (lines ${sel.sourceLines[from - 1]}-${sel.sourceLines[to - 1]} omitted) ...`;
+  const body: string[] = [];
+  let prevEnd = 0;
+  for (const [start, end] of ranges) {
+    if (start > prevEnd + 1) body.push(omitted(prevEnd + 1, start - 1));
+    body.push(...sel.numbered.slice(start - 1, end));
+    prevEnd = end;
+  }
+  if (prevEnd < totalLines) body.push(omitted(prevEnd + 1, totalLines));
+
+  return {
+    block: header + body.join("\n") + footer,
+    report: { name: sel.file.name, totalLines, includedLines, status: "partial", includedRanges: ranges },
+  };
+}
+
+/**
+ * Fit code listings into maxTokens. Files that all fit are sent whole; otherwise
+ * the selected file is tried whole, then annotated regions, then the chunks most
+ * relevant to the question (BM25 retrieval), then file heads, then top-of-file filler.
+ */
+function fitCodeFiles(
+  files: BudgetCodeFile[],
+  maxTokens: number,
+  query: string,
+  selectedFileId?: string
+): { block: string; tokens: number; reports: ContextFileReport[]; retrieval?: ContextBudgetReport["retrieval"] } {
+  const selections: FileSelection[] = files.map((file) => {
+    const lines = (file.content || "").split("\n");
+    const { numbered, sourceLines } = numberLines(lines);
+    return {
+      file,
+      lines,
+      numbered,
+      sourceLines,
+      lineCost: numbered.map((l) => estimateTokens(l + "\n")),
+      included: new Array<boolean>(numbered.length).fill(false),
+      charged: false,
+    };
+  });
+
+  const render = () => {
+    const rendered = selections.map(renderSelection);
+    const block = rendered.map((r) => r.block).join("");
+    return { block, tokens: estimateTokens(block), reports: rendered.map((r) => r.report) };
+  };
+
+  let remaining = maxTokens;
+  // Mark a range only when all of it fits, so regions are never cut mid-way
+  const tryRange = (sel: FileSelection, start: number, end: number): boolean => {
+    let cost = OMISSION_MARKER_TOKENS;
+    if (!sel.charged) {
+      const { header, footer } = listingFrame(sel.file.name);
+      cost += estimateTokens(header + footer);
+    }
+    let added = false;
+    for (let i = start; i <= end; i++) {
+      if (!sel.included[i]) {
+        cost += sel.lineCost[i];
+        added = true;
+      }
+    }
+    if (!added) return true;
+    if (cost > remaining) return false;
+    for (let i = start; i <= end; i++) sel.included[i] = true;
+    sel.charged = true;
+    remaining -= cost;
+    return true;
+  };
+
+  // Everything fits - send all files whole
+  const wholeCost = selections.reduce((sum, sel) => {
+    const { header, footer } = listingFrame(sel.file.name);
+    return sum + estimateTokens(header + sel.numbered.join("\n") + footer);
+  }, 0);
+  if (wholeCost <= maxTokens) {
+    selections.forEach((sel) => sel.included.fill(true));
+    return render();
+  }
+
+  // The file open in the editor, whole if it fits
+  const selected = selections.find((sel) => sel.file.id && sel.file.id === selectedFileId);
+  if (selected) tryRange(selected, 0, selected.numbered.length - 1);
+
+  // Annotated regions
+  const annotationText: string[] = [];
+  for (const sel of selections) {
+    sel.lines.forEach((line, i) => {
+      if (!isAnnotationLine(line)) return;
+      annotationText.push(line.replace(/^\s*\/\/ An:[^:]*:/, ""));
+      tryRange(sel, Math.max(0, i - ANNOTATION_CONTEXT_LINES), i);
+    });
+  }
+
+  // Chunks relevant to the question (and, more weakly, to the annotations)
+  const index = buildCodeIndex(selections.map((sel) => sel.file.content || ""));
+  const scores = new Map<string, ScoredChunk>();
+  const addResults = (results: ScoredChunk[], weight: number) => {
+    for (const chunk of results) {
+      const key = `${chunk.fileIndex}:${chunk.startLine}`;
+      const existing = scores.get(key);
+      const score = chunk.score * weight + (existing?.score ?? 0);
+      scores.set(key, { ...chunk, score });
+    }
+  };
+  addResults(index.search(query), 1);
+  if (annotationText.length > 0) addResults(index.search(annotationText.join(" ")), ANNOTATION_QUERY_WEIGHT);
+
+  const ranked = Array.from(scores.values()).sort((a, b) => b.score - a.score);
+  let retrieved = 0;
+  for (const chunk of ranked) {
+    const sel = selections[chunk.fileIndex];
+    const alreadyIn = sel.included.slice(chunk.startLine - 1, chunk.endLine).every(Boolean);
+    if (!alreadyIn && tryRange(sel, chunk.startLine - 1, chunk.endLine - 1)) retrieved++;
+  }
+
+  // File heads (opening comments often say what a file is for)
+  for (const sel of selections) {
+    tryRange(sel, 0, Math.min(HEAD_LINES, sel.numbered.length) - 1);
+  }
+
+  // Spend whatever is left on lines from the top of each file, in priority order
+  for (const sel of selections) {
+    if (!sel.charged) continue;
+    for (let i = 0; i < sel.numbered.length; i++) {
+      if (sel.included[i]) continue;
+      if (sel.lineCost[i] > remaining) break;
+      sel.included[i] = true;
+      remaining -= sel.lineCost[i];
+    }
+  }
+
+  return {
+    ...render(),
+    retrieval: { chunks: index.chunks.length, matched: ranked.length, included: retrieved },
+  };
+}
+
+/**
+ * Plan a chat prompt that fits the model's context window.
+ * Priority order: base prompt and the new message, a share of methodology,
+ * code (selected file, annotated regions, retrieved chunks), recent messages verbatim,
+ * then a digest of older messages. Anything that still does not fit is dropped.
+ */
+export function planChatContext(options: ContextPlanOptions): ContextPlan {
+  const { contextWindow, maxOutputTokens, basePrompt, codeFiles, messages, selectedFileId } = options;
+  const promptBudget = Math.max(
+    1024,
+    Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxOutputTokens
+  );
+
+  const latest = messages[messages.length - 1];
+  const history = messages.slice(0, -1);
+  let used = estimateTokens(basePrompt) + (latest ? estimateTokens(latest.content) : 0);
+
+  // Methodology
+  const methodology = trimMethodology(
+    options.methodology,
+    Math.max(0, Math.min(Math.floor(promptBudget * METHODOLOGY_SHARE), promptBudget - used))
+  );
+  used += estimateTokens(methodology.text);
+
+  // Code - hold back a share for history so a large file cannot crowd out the conversation
+  const historyTokens = history.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const historyReserve = Math.min(historyTokens, Math.floor(Math.max(0, promptBudget - used) * HISTORY_SHARE));
+  const codeLeft = Math.max(0, promptBudget - used - historyReserve);
+
+  const code = fitCodeFiles(
+    prioritiseFiles(codeFiles.filter((f) => f.content), selectedFileId),
+    codeLeft,
+    latest?.content || "",
+    selectedFileId
+  );
+  used += code.tokens;
+
+  // History - newest messages verbatim, then a digest of the older ones
+  let historyLeft = Math.max(0, promptBudget - used);
+  const kept: BudgetMessage[] = [];
+  let cutoff = history.length;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (cost > historyLeft) break;
+    kept.unshift(history[i]);
+    historyLeft -= cost;
+    used += cost;
+    cutoff = i;
+  }
+
+  const digestLines: string[] = [];
+  for (let i = cutoff - 1; i >= 0; i--) {
+    const msg = history[i];
+    const text = msg.content.replace(/\s+/g, " ").trim();
+    const line = `- ${msg.role === "user" ? "ANALYST" : "ASSISTANT"}: ${text.length > SUMMARY_CHARS ? text.slice(0, SUMMARY_CHARS) + "…" : text}`;
+    const cost = estimateTokens(line + "\n");
+    if (cost > historyLeft) break;
+    digestLines.unshift(line);
+    historyLeft -= cost;
+    used += cost;
+  }
+  const historySummary = digestLines.length > 0
+    ? `\n\n## Earlier Conversation (condensed)\nOlder messages were shortened to fit the context window:\n${digestLines.join("\n")}\n`
+    : "";
+
+  return {
+    methodology: methodology.text,
+    codeBlock: code.block,
+    historySummary,
+    messages: latest ? [...kept, latest] : kept,
+    report: {
+      contextWindow,
+      promptBudget,
+      estimatedTokens: used,
+      methodology: methodology.status,
+      files: code.reports,
+      retrieval: code.retrieval,
+      messages: {
+        total: history.length,
+        included: kept.length,
+        summarised: digestLines.length,
+        dropped: history.length - kept.length - digestLines.length,
+      },
+    },
+  };
+}
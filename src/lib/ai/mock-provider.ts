@@ -0,0 +1,192 @@
+// Deterministic mock provider - scripted replies for offline demos, teaching and tests
+//
+// Replies come from fixture rules matched against where the request comes from
+// (task, mode, phase, passed as provider options by the API routes) and against
+// the prompt itself. The built-in fixtures live in mock-fixtures.json; set
+// MOCK_AI_FIXTURES to the path of another JSON file in the same shape to use
+// your own. The file is read on every request, so edits apply without a restart.
+
+import { readFileSync } from "fs";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import type { AIRequestContext } from "@/types/ai-settings";
+import defaultFixtures from "./mock-fixtures.json";
+
+// Errors a rule can simulate. Their messages are worded like the provider SDKs'
+// so they go through the same mapping as real failures.
+export type MockError = "rate-limit" | "auth" | "model-not-found" | "connection" | "empty";
+
+export interface MockFixtureRule {
+  name?: string;
+  when?: {
+    task?: string;
+    mode?: string;
+    phase?: string;
+    outputType?: string;
+    prompt?: string; // Regular expression (case-insensitive) tested against the last user message
+    system?: string; // Regular expression (case-insensitive) tested against the system prompt
+  };
+  // A list is a script: the Nth user message of the conversation gets the Nth reply
+  // (the last one repeats once the script runs out)
+  response?: string | string[];
+  error?: MockError;
+}
+
+export interface MockFixtures {
+  rules: MockFixtureRule[];
+  fallback?: string;
+  chunkDelayMs?: number; // Pause between streamed words
+}
+
+// Models that ignore the rules, for trying the error paths from Settings
+const MODEL_ERRORS: Record<string, MockError> = {
+  "rate-limited": "rate-limit",
+  "empty": "empty",
+};
+
+const ERROR_MESSAGES: Record<Exclude<MockError, "empty">, string> = {
+  "rate-limit": "Rate limit reached for requests (simulated by the mock provider)",
+  "auth": "Authentication error: invalid x-api-key (simulated by the mock provider)",
+  "model-not-found": "The model was not found (simulated by the mock provider)",
+  "connection": "Connection refused: ECONNREFUSED (simulated by the mock provider)",
+};
+
+const DEFAULT_FALLBACK = "This is a scripted reply from the mock provider.";
+
+function loadFixtures(): MockFixtures {
+  const path = process.env.MOCK_AI_FIXTURES;
+  if (!path) return defaultFixtures as MockFixtures;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as MockFixtures;
+  } catch (error) {
+    console.error(`Mock provider: could not read fixtures from ${path}, using the built-in ones`, error);
+    return defaultFixtures as MockFixtures;
+  }
+}
+
+type CallOptions = Parameters<MockLanguageModelV3["doGenerate"]>[0];
+
+interface MockRequest {
+  context: AIRequestContext;
+  system: string;
+  prompt: string;
+  turn: number; // Number of user messages, counting this one
+}
+
+function readCall(options: CallOptions): MockRequest {
+  const system = options.prompt
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n");
+  const userMessages = options.prompt.filter((m) => m.role === "user");
+  const last = userMessages[userMessages.length - 1];
+  const prompt = last
+    ? last.content.map((part) => (part.type === "text" ? part.text : "")).join("")
+    : "";
+  return {
+    context: (options.providerOptions?.mock ?? {}) as AIRequestContext,
+    system,
+    prompt,
+    turn: userMessages.length,
+  };
+}
+
+function testPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(pattern, "i").test(text);
+  } catch {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+function ruleMatches(rule: MockFixtureRule, request: MockRequest): boolean {
+  const when = rule.when;
+  if (!when) return true;
+  const { context } = request;
+  if (when.task && when.task !== context.task) return false;
+  if (when.mode && when.mode !== context.mode) return false;
+  if (when.phase && when.phase !== context.phase) return false;
+  if (when.outputType && when.outputType !== context.outputType) return false;
+  if (when.prompt && !testPattern(when.prompt, request.prompt)) return false;
+  if (when.system && !testPattern(when.system, request.system)) return false;
+  return true;
+}
+
+function pickResponse(response: string | string[], turn: number): string {
+  if (!Array.isArray(response)) return response;
+  if (response.length === 0) return "";
+  return response[Math.min(turn, response.length) - 1] ?? response[0];
+}
+
+/**
+ * The reply to a request: the first matching rule's response, or the fixture
+ * fallback. Simulated errors are thrown; an "empty" error gives an empty reply.
+ */
+export function resolveMockReply(modelId: string, options: CallOptions, fixtures = loadFixtures()): string {
+  const request = readCall(options);
+  const rule = fixtures.rules.find((r) => ruleMatches(r, request));
+  const error = MODEL_ERRORS[modelId] ?? rule?.error;
+
+  if (error === "empty") return "";
+  if (error) throw new Error(ERROR_MESSAGES[error]);
+
+  if (!rule?.response) return fixtures.fallback ?? DEFAULT_FALLBACK;
+  return pickResponse(rule.response, request.turn);
+}
+
+// Rough token count for the usage report
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function usage(options: CallOptions, text: string) {
+  const { system, prompt } = readCall(options);
+  const input = countTokens(system + prompt);
+  const output = countTokens(text);
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  };
+}
+
+/**
+ * Create the mock provider. Like the SDK providers it is called with a model ID
+ * and returns a language model, so it runs through generateText and streamText.
+ */
+export function createMockProvider() {
+  return (modelId: string) =>
+    new MockLanguageModelV3({
+      provider: "mock",
+      modelId,
+      doGenerate: async (options) => {
+        const text = resolveMockReply(modelId, options);
+        return {
+          content: text ? [{ type: "text", text }] : [],
+          finishReason: { unified: "stop", raw: "stop" },
+          usage: usage(options, text),
+          warnings: [],
+        };
+      },
+      doStream: async (options) => {
+        const fixtures = loadFixtures();
+        const text = resolveMockReply(modelId, options, fixtures);
+        const words = text.match(/\S+\s*|\s+/g) ?? [];
+        return {
+          stream: simulateReadableStream({
+            chunkDelayInMs: fixtures.chunkDelayMs ?? 20,
+            chunks: [
+              { type: "stream-start" as const, warnings: [] },
+              { type: "text-start" as const, id: "mock-text" },
+              ...words.map((delta) => ({ type: "text-delta" as const, id: "mock-text", delta })),
+              { type: "text-end" as const, id: "mock-text" },
+              {
+                type: "finish" as const,
+                finishReason: { unified: "stop" as const, raw: "stop" },
+                usage: usage(options, text),
+              },
+            ],
+          }),
+        };
+      },
+    });
+}
@@ -0,0 +1,150 @@
+// Model discovery - ask a local or self-hosted endpoint which models it serves
+// Ollama lists pulled models at /api/tags (context windows come from /api/show);
+// OpenAI-compatible servers (vLLM, LM Studio, llama.cpp, ...) list theirs at /v1/models.
+
+import type { AIRequestConfig, DiscoveredModel } from "@/types/ai-settings";
+import { DISCOVERABLE_PROVIDERS, PROVIDER_CONFIGS } from "./config";
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+// Cloud instance metadata endpoints, never a model server
+const METADATA_HOSTS = ["metadata.google.internal", "169.254.169.254", "[fd00:ec2::254]", "100.100.100.200"];
+
+/**
+ * Why discovery may not contact this base URL, or null if it may. The URL comes from
+ * the request, so only http(s) without credentials is accepted, metadata endpoints
+ * are refused, and when MODEL_DISCOVERY_ALLOWED_HOSTS (comma-separated host names,
+ * with port if not the default) is set, only those hosts are contacted.
+ */
+export function checkDiscoveryUrl(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return "the base URL is not a valid URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "the base URL must use http or https";
+  if (url.username || url.password) return "the base URL must not contain credentials";
+
+  const host = url.hostname.toLowerCase();
+  if (METADATA_HOSTS.includes(host) || host.startsWith("169.254.")) {
+    return `${url.host} is not a model server`;
+  }
+
+  const allowed = (process.env.MODEL_DISCOVERY_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowed.length > 0 && !allowed.includes(url.host.toLowerCase())) {
+    return `${url.host} is not in this server's list of model hosts`;
+  }
+  return null;
+}
+
+// Fields OpenAI-compatible servers use to report a model's context window
+const CONTEXT_WINDOW_FIELDS = ["max_model_len", "context_length", "context_window", "max_context_length"];
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; model?: string; details?: { parameter_size?: string } }>;
+}
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+}
+
+interface OpenAIModelsResponse {
+  data?: Array<Record<string, unknown> & { id: string }>;
+}
+
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    // Redirects are refused so they cannot lead past checkDiscoveryUrl
+    response = await fetch(url, { ...init, redirect: "error", signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(`no answer from ${url} within ${DISCOVERY_TIMEOUT_MS / 1000} seconds`);
+    }
+    throw new Error(`cannot reach ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`.trim());
+  }
+  return response.json() as Promise<T>;
+}
+
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "");
+}
+
+// Context length from /api/show, or undefined if the model does not report one
+async function getOllamaContextWindow(root: string, model: string): Promise<number | undefined> {
+  try {
+    const info = await fetchJSON<OllamaShowResponse>(`${root}/api/show`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model }),
+    });
+    const entry = Object.entries(info.model_info || {}).find(([key]) => key.endsWith(".context_length"));
+    return typeof entry?.[1] === "number" ? entry[1] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function discoverOllamaModels(baseUrl: string): Promise<DiscoveredModel[]> {
+  const root = trimBaseUrl(baseUrl).replace(/\/api$/, "");
+  const tags = await fetchJSON<OllamaTagsResponse>(`${root}/api/tags`);
+  const models = tags.models || [];
+
+  return Promise.all(
+    models.map(async (m) => {
+      const size = m.details?.parameter_size;
+      return {
+        id: m.name,
+        name: size ? `${m.name} (${size})` : m.name,
+        contextWindow: await getOllamaContextWindow(root, m.name),
+      };
+    })
+  );
+}
+
+async function discoverOpenAICompatibleModels(baseUrl: string, apiKey: string): Promise<DiscoveredModel[]> {
+  const list = await fetchJSON<OpenAIModelsResponse>(`${trimBaseUrl(baseUrl)}/models`, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+  });
+
+  return (list.data || []).map((m) => {
+    const reported = CONTEXT_WINDOW_FIELDS.map((field) => m[field]).find((v) => typeof v === "number");
+    return {
+      id: m.id,
+      name: m.id,
+      contextWindow: reported as number | undefined,
+    };
+  });
+}
+
+/**
+ * List the models the configured endpoint serves. Throws with a message the
+ * analyst can act on when the endpoint cannot be reached.
+ */
+export async function discoverModels(config: AIRequestConfig): Promise<DiscoveredModel[]> {
+  const providerName = PROVIDER_CONFIGS[config.provider].name;
+  if (!DISCOVERABLE_PROVIDERS.includes(config.provider)) {
+    throw new Error(`${providerName} does not list its models`);
+  }
+
+  try {
+    const baseUrl = config.baseUrl || (config.provider === "ollama" ? PROVIDER_CONFIGS.ollama.defaultBaseUrl || "" : "");
+    if (!baseUrl) throw new Error("no base URL is set");
+    const refused = checkDiscoveryUrl(baseUrl);
+    if (refused) throw new Error(refused);
+
+    return config.provider === "ollama"
+      ? await discoverOllamaModels(baseUrl)
+      : await discoverOpenAICompatibleModels(baseUrl, config.apiKey);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not list models from ${providerName}: ${reason}`);
+  }
+}
@@ -0,0 +1,316 @@
+// Session tools for the chat assistant: list, read and search the project's code files,
+// list annotations, and propose a passage for the editor to show.
+// Tools run server-side against the ChatToolContext sent with the request; show_lines
+// only records a proposal, which the client offers to the analyst as a button.
+
+import { tool, type ToolSet } from "ai";
+import { z } from "zod";
+import { generateId } from "@/lib/utils";
+import { getAnnotationTypeLabel, normalizeAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types/session";
+import type { AssistantToolCall, AssistantToolName } from "@/types/session";
+import type { ChatToolContext } from "@/types/api";
+
+// Model steps allowed per reply (tool rounds plus the final answer)
+export const MAX_TOOL_STEPS = 6;
+
+// Caps on what a single tool call returns, so tool results cannot flood the context window
+const MAX_READ_LINES = 200;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_ANNOTATION_RESULTS = 100;
+
+// Limits on search_code, whose regular expressions are written by the model and run on the server
+const MAX_SEARCH_LINES = 20_000;
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_LINE_LENGTH = 1_000;
+
+type ToolFile = ChatToolContext["files"][number];
+
+// System prompt section describing the tools
+export const SESSION_TOOLS_PROMPT = `## Tools
+You can look at the analyst's project directly:
+- **list_files**: the code files in the session, with line counts
+- **read_lines**: read a range of lines from a file (at most ${MAX_READ_LINES} at a time)
+- **search_code**: find lines containing a word or phrase (or matching a regular expression)
+- **list_annotations**: the analyst's annotations, optionally filtered by file or type
+- **show_lines**: offer to show a passage in the analyst's editor
+
+Line numbers from these tools are the editor's line numbers. Read a passage before making claims about it, and prefer quoting what you read over recalling it. Use show_lines when you discuss a specific passage the analyst should look at.`;
+
+// Resolve a file reference by id, exact name, case-insensitive name, or name without extension
+export function findToolFile(files: ToolFile[], ref: string): ToolFile | undefined {
+  const wanted = ref.trim();
+  const lower = wanted.toLowerCase();
+  const stem = (name: string) => name.toLowerCase().replace(/\.[^.]+$/, "");
+  return (
+    files.find((f) => f.id === wanted) ||
+    files.find((f) => f.name === wanted) ||
+    files.find((f) => f.name.toLowerCase() === lower) ||
+    files.find((f) => stem(f.name) === stem(wanted))
+  );
+}
+
+function formatLines(start: number, end: number): string {
+  return end > start ? `lines ${start}–${end}` : `line ${start}`;
+}
+
+function numberedLines(lines: string[], start: number): string {
+  const width = String(start + lines.length - 1).length;
+  return lines.map((line, i) => `${String(start + i).padStart(width)} | ${line}`).join("\n");
+}
+
+// Whether a quantified group contains a quantifier itself, e.g. (a+)+ or ((\w*x)){2,}, which can
+// backtrack exponentially. Escapes and character classes are skipped.
+function hasNestedQuantifier(pattern: string): boolean {
+  const isQuantifier = (at: number) =>
+    pattern[at] === "*" || pattern[at] === "+" || (pattern[at] === "{" && /\d/.test(pattern[at + 1] ?? ""));
+  // For each open group, whether it contains a quantifier so far
+  const groups: boolean[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      const inner = groups.pop() ?? false;
+      const quantified = isQuantifier(i + 1);
+      if (inner && quantified) return true;
+      if ((inner || quantified) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (isQuantifier(i) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// Case-insensitive matcher. Text is matched literally unless a regular expression is asked for;
+// invalid regular expressions fall back to a plain substring search, and ones that could take
+// exponential time are refused.
+function createMatcher(pattern: string, regex: boolean): { matches: (line: string) => boolean } | { error: string } {
+  if (regex) {
+    if (pattern.length > MAX_REGEX_LENGTH) {
+      return { error: `Regular expressions are limited to ${MAX_REGEX_LENGTH} characters.` };
+    }
+    if (hasNestedQuantifier(pattern)) {
+      return { error: "Regular expressions with nested quantifiers such as (a+)+ are not supported; search for plain text instead." };
+    }
+    try {
+      const re = new RegExp(pattern, "i");
+      return { matches: (line) => re.test(line.slice(0, MAX_REGEX_LINE_LENGTH)) };
+    } catch {
+      // fall through to substring
+    }
+  }
+  const lower = pattern.toLowerCase();
+  return { matches: (line) => line.toLowerCase().includes(lower) };
+}
+
+/**
+ * Build the tool set for one chat request. Every call, including failed ones,
+ * is reported through onToolCall so the reply can show what the model looked at.
+ */
+export function createSessionTools(
+  context: ChatToolContext,
+  onToolCall: (call: AssistantToolCall) => void
+): ToolSet {
+  const { files, annotations } = context;
+  const taxonomy = normalizeAnnotationTaxonomy(context.annotationTypes) || DEFAULT_ANNOTATION_TAXONOMY;
+  const typeIds = taxonomy.map((t) => t.id) as [string, ...string[]];
+  const fileNames = () => files.map((f) => f.name).join(", ") || "none";
+
+  const record = (
+    name: AssistantToolName,
+    input: Record<string, unknown>,
+    summary: string,
+    extra: Pick<AssistantToolCall, "navigation" | "error"> = {}
+  ) => {
+    onToolCall({ id: generateId(), name, input, summary, ...extra });
+  };
+
+  const unknownFile = (name: AssistantToolName, input: Record<string, unknown>, ref: string) => {
+    const error = `No file named "${ref}". Files: ${fileNames()}`;
+    record(name, input, `Looked for ${ref}`, { error });
+    return { error };
+  };
+
+  // Check a requested range against the file; returns the clamped end line or an error
+  const checkRange = (file: ToolFile, startLine: number, endLine: number | undefined, maxLines: number) => {
+    const lineCount = file.content.split("\n").length;
+    if (startLine > lineCount) {
+      return { error: `${file.name} has ${lineCount} lines; line ${startLine} does not exist.` };
+    }
+    const end = Math.min(Math.max(endLine ?? startLine, startLine), lineCount, startLine + maxLines - 1);
+    return { end };
+  };
+
+  return {
+    list_files: tool({
+      description: "List the code files in the analyst's session with their language, line count and number of annotations.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        record("list_files", {}, `Listed ${files.length} file${files.length === 1 ? "" : "s"}`);
+        return files.map((f) => ({
+          name: f.name,
+          language: f.language,
+          lines: f.content.split("\n").length,
+          annotations: annotations.filter((a) => a.codeFileId === f.id).length,
+        }));
+      },
+    }),
+
+    read_lines: tool({
+      description: `Read a range of lines from a code file, with line numbers. At most ${MAX_READ_LINES} lines per call.`,
+      inputSchema: z.object({
+        file: z.string().describe("File name (or id) from list_files"),
+        startLine: z.number().int().min(1).describe("First line to read (1-based)"),
+        endLine: z.number().int().min(1).optional().describe("Last line to read (inclusive)"),
+      }),
+      execute: async (input) => {
+        const file = findToolFile(files, input.file);
+        if (!file) return unknownFile("read_lines", input, input.file);
+
+        const range = checkRange(file, input.startLine, input.endLine, MAX_READ_LINES);
+        if ("error" in range) {
+          record("read_lines", input, `Read ${formatLines(input.startLine, input.endLine ?? input.startLine)} of ${file.name}`, { error: range.error });
+          return { error: range.error };
+        }
+
+        const lines = file.content.split("\n").slice(input.startLine - 1, range.end);
+        record("read_lines", input, `Read ${formatLines(input.startLine, range.end)} of ${file.name}`);
+        return {
+          file: file.name,
+          startLine: input.startLine,
+          endLine: range.end,
+          text: numberedLines(lines, input.startLine),
+        };
+      },
+    }),
+
+    search_code: tool({
+      description: `Search the code files for lines containing a word or phrase (case-insensitive), or matching a regular expression when regex is set. Returns at most ${MAX_SEARCH_RESULTS} matching lines and scans at most ${MAX_SEARCH_LINES} lines.`,
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Text to look for, matched literally unless regex is set"),
+        regex: z.boolean().optional().describe(`Treat the query as a regular expression (at most ${MAX_REGEX_LENGTH} characters, no nested quantifiers)`),
+        file: z.string().optional().describe("Only search this file"),
+      }),
+      execute: async (input) => {
+        let searched = files;
+        if (input.file) {
+          const file = findToolFile(files, input.file);
+          if (!file) return unknownFile("search_code", input, input.file);
+          searched = [file];
+        }
+
+        const scope = input.file ? ` in ${searched[0].name}` : "";
+        const matcher = createMatcher(input.query, !!input.regex);
+        if ("error" in matcher) {
+          record("search_code", input, `Searched for "${input.query}"${scope}`, { error: matcher.error });
+          return { error: matcher.error };
+        }
+
+        const results: Array<{ file: string; line: number; text: string }> = [];
+        let total = 0;
+        // Lines past the scan limit are not searched, so the total is then a lower bound
+        let scanned = 0;
+        let incomplete = false;
+        for (const file of searched) {
+          const lines = file.content.split("\n");
+          for (let i = 0; i < lines.length; i++) {
+            if (scanned++ >= MAX_SEARCH_LINES) {
+              incomplete = true;
+              break;
+            }
+            if (!matcher.matches(lines[i])) continue;
+            total++;
+            if (results.length < MAX_SEARCH_RESULTS) {
+              results.push({ file: file.name, line: i + 1, text: lines[i].trim() });
+            }
+          }
+          if (incomplete) break;
+        }
+
+        record("search_code", input, `Searched for "${input.query}"${scope} (${total}${incomplete ? "+" : ""} match${total === 1 ? "" : "es"})`);
+        return { total, truncated: total > results.length || incomplete, incomplete: incomplete || undefined, results };
+      },
+    }),
+
+    list_annotations: tool({
+      description: `List the analyst's line annotations, optionally filtered by file, type or text. Returns at most ${MAX_ANNOTATION_RESULTS}.`,
+      inputSchema: z.object({
+        file: z.string().optional().describe("Only annotations on this file"),
+        type: z.enum(typeIds).optional().describe("Only annotations of this type"),
+        query: z.string().optional().describe("Only annotations whose text contains this"),
+      }),
+      execute: async (input) => {
+        let fileId: string | undefined;
+        if (input.file) {
+          const file = findToolFile(files, input.file);
+          if (!file) return unknownFile("list_annotations", input, input.file);
+          fileId = file.id;
+        }
+
+        const query = input.query?.toLowerCase();
+        const matching = annotations.filter(
+          (a) =>
+            (!fileId || a.codeFileId === fileId) &&
+            (!input.type || a.type === input.type) &&
+            (!query || a.content.toLowerCase().includes(query))
+        );
+
+        const filters = [
+          input.file && `on ${input.file}`,
+          input.type && `of type ${getAnnotationTypeLabel(taxonomy, input.type)}`,
+          input.query && `mentioning "${input.query}"`,
+        ].filter(Boolean).join(" ");
+        record("list_annotations", input, `Listed ${matching.length} annotation${matching.length === 1 ? "" : "s"}${filters ? ` ${filters}` : ""}`);
+
+        return {
+          total: matching.length,
+          annotations: matching.slice(0, MAX_ANNOTATION_RESULTS).map((a) => ({
+            file: files.find((f) => f.id === a.codeFileId)?.name ?? a.codeFileId,
+            lines: formatLines(a.lineNumber, a.endLineNumber ?? a.lineNumber),
+            type: a.type,
+            content: a.content,
+            addedBy: a.addedBy,
+          })),
+        };
+      },
+    }),
+
+    show_lines: tool({
+      description: "Offer to show a passage in the analyst's code editor. The analyst sees a button that scrolls to and highlights the lines.",
+      inputSchema: z.object({
+        file: z.string().describe("File name (or id) from list_files"),
+        startLine: z.number().int().min(1),
+        endLine: z.number().int().min(1).optional(),
+        reason: z.string().optional().describe("Short note on why these lines matter"),
+      }),
+      execute: async (input) => {
+        const file = findToolFile(files, input.file);
+        if (!file) return unknownFile("show_lines", input, input.file);
+
+        const range = checkRange(file, input.startLine, input.endLine, Number.MAX_SAFE_INTEGER);
+        if ("error" in range) {
+          record("show_lines", input, `Proposed showing ${formatLines(input.startLine, input.endLine ?? input.startLine)} of ${file.name}`, { error: range.error });
+          return { error: range.error };
+        }
+
+        record("show_lines", input, `Proposed showing ${formatLines(input.startLine, range.end)} of ${file.name}`, {
+          navigation: {
+            fileId: file.id,
+            fileName: file.name,
+            lineNumber: input.startLine,
+            endLineNumber: range.end > input.startLine ? range.end : undefined,
+            reason: input.reason,
+          },
+        });
+        return { offered: true, file: file.name, startLine: input.startLine, endLine: range.end };
+      },
+    }),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "@jest/globals";
+import type { LineAnnotation } from "@/types/session";
+import {
+  NOT_ANNOTATED,
+  buildAgreementUnits,
+  cohensKappa,
+  computeAgreement,
+  filterBlindAnnotations,
+  fleissKappa,
+  krippendorffAlpha,
+  normalizeBlindAnnotation,
+  rangeOverlap,
+} from "./annotation-agreement";
+
+function annotate(id: string, addedBy: string, lineNumber: number, endLineNumber?: number, type = "observation", codeFileId = "f"): LineAnnotation {
+  return {
+    id,
+    codeFileId,
+    lineNumber,
+    endLineNumber,
+    lineContent: "",
+    type,
+    content: "",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    addedBy,
+  };
+}
+
+// Two annotators over four units: they agree on three
+const twoRaters: Array<[string, string]> = [["a", "a"], ["a", "b"], ["b", "b"], ["b", "b"]];
+
+describe("agreement coefficients", () => {
+  it("computes Cohen's kappa", () => {
+    expect(cohensKappa(twoRaters)).toBeCloseTo(0.5);
+    expect(cohensKappa([["a", "a"], ["b", "b"]])).toBeCloseTo(1);
+    expect(cohensKappa([["a", "a"], ["a", "a"]])).toBeNull();
+    expect(cohensKappa([])).toBeNull();
+  });
+
+  it("computes Fleiss' kappa", () => {
+    expect(fleissKappa(twoRaters)).toBeCloseTo(0.4667, 4);
+    expect(fleissKappa([["a", "a", "a"], ["b", "b", "b"]])).toBeCloseTo(1);
+    // Units rated by different numbers of annotators are not comparable
+    expect(fleissKappa([["a", "a"], ["a"]])).toBeNull();
+  });
+
+  it("computes Krippendorff's alpha, skipping missing values", () => {
+    expect(krippendorffAlpha(twoRaters)).toBeCloseTo(0.5333, 4);
+    expect(krippendorffAlpha([...twoRaters, ["a", undefined]])).toBeCloseTo(0.5333, 4);
+    expect(krippendorffAlpha([["a", "a"], ["a", "a"]])).toBeNull();
+  });
+});
+
+describe("buildAgreementUnits", () => {
+  const annotations = [
+    annotate("a1", "AB", 1, 3),
+    annotate("b1", "CD", 2, 4),
+    annotate("b2", "CD", 2),
+    annotate("a2", "AB", 10, undefined, "question"),
+    annotate("b3", "CD", 10, undefined, "observation", "g"),
+  ];
+
+  it("measures overlap as shared over combined lines", () => {
+    expect(rangeOverlap(annotations[0], annotations[1])).toBeCloseTo(0.5);
+    expect(rangeOverlap(annotations[0], annotations[3])).toBe(0);
+  });
+
+  it("groups overlapping annotations by file and marks who did not annotate", () => {
+    const units = buildAgreementUnits(annotations, ["AB", "CD"]);
+    expect(units.map((u) => [u.codeFileId, u.lineNumber, u.endLineNumber, u.values])).toEqual([
+      ["f", 1, 4, { AB: "observation", CD: "observation" }],
+      ["f", 10, 10, { AB: "question", CD: NOT_ANNOTATED }],
+      ["g", 10, 10, { AB: NOT_ANNOTATED, CD: "observation" }],
+    ]);
+    // The longest of an annotator's annotations in the unit stands for them
+    expect(units[0].annotations.CD.id).toBe("b1");
+  });
+
+  it("splits ranges that overlap less than the minimum", () => {
+    const units = buildAgreementUnits(annotations.slice(0, 2), ["AB", "CD"], 0.6);
+    expect(units.map((u) => u.values)).toEqual([
+      { AB: "observation", CD: NOT_ANNOTATED },
+      { AB: NOT_ANNOTATED, CD: "observation" },
+    ]);
+  });
+
+  it("leaves out orphaned annotations and other annotators", () => {
+    const units = buildAgreementUnits(
+      [{ ...annotations[0], orphaned: true }, annotations[1], annotate("x", "EF", 2)],
+      ["AB", "CD"]
+    );
+    expect(units.map((u) => u.values)).toEqual([{ AB: NOT_ANNOTATED, CD: "observation" }]);
+  });
+});
+
+describe("computeAgreement", () => {
+  it("reports disagreements and pairwise kappa", () => {
+    const report = computeAgreement(
+      [annotate("a1", "AB", 1), annotate("b1", "CD", 1), annotate("a2", "AB", 5, undefined, "question"), annotate("b2", "CD", 5)],
+      ["AB", "CD"]
+    );
+    expect(report.units).toHaveLength(2);
+    expect(report.disagreements.map((u) => u.lineNumber)).toEqual([5]);
+    expect(report.observed).toBe(0.5);
+    expect(report.pairwise).toEqual([
+      expect.objectContaining({ a: "AB", b: "CD", units: 2, observed: 0.5 }),
+    ]);
+  });
+});
+
+describe("blind annotation", () => {
+  const settings = normalizeBlindAnnotation({ enabled: true, submissions: { f: ["AB", "AB", 3], g: "junk" } });
+  const annotations = [annotate("a", "AB", 1), annotate("b", "CD", 1), annotate("c", "CD", 1, undefined, "observation", "g")];
+
+  it("normalizes saved settings", () => {
+    expect(settings).toEqual({ enabled: true, submissions: { f: ["AB"] } });
+    expect(normalizeBlindAnnotation(null)).toBeUndefined();
+  });
+
+  it("hides others' readings of files the annotator has not submitted", () => {
+    expect(filterBlindAnnotations(annotations, settings, "AB").map((a) => a.id)).toEqual(["a", "b"]);
+    expect(filterBlindAnnotations(annotations, settings, "CD").map((a) => a.id)).toEqual(["b", "c"]);
+    expect(filterBlindAnnotations(annotations, { enabled: false, submissions: {} }, "CD")).toBe(annotations);
+  });
+
+  it("hides every member's readings from an annotator without initials", () => {
+    const unattributed = { ...annotate("d", "", 2), addedBy: undefined };
+    expect(filterBlindAnnotations([...annotations, unattributed], settings, undefined).map((a) => a.id)).toEqual(["d"]);
+  });
+});
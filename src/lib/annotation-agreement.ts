@@ -0,0 +1,331 @@
+/**
+ * Inter-annotator Agreement
+ * Compares readings of the same files by different annotators (grouped by addedBy initials).
+ * Annotations whose line ranges overlap are matched into units; within a unit each annotator
+ * either chose a type or did not annotate, and "not annotated" counts as a category of its own.
+ * Agreement over the units is reported as Cohen's kappa for each pair of annotators, Fleiss'
+ * kappa and Krippendorff's alpha (nominal) across all of them.
+ */
+
+import type { BlindAnnotationSettings, LineAnnotation, Session } from "@/types/session";
+
+// Category for an annotator who did not annotate a unit that others did
+export const NOT_ANNOTATED = "__none__";
+
+export interface AgreementUnit {
+  id: string;
+  codeFileId: string;
+  lineNumber: number;       // First line covered by any annotation in the unit
+  endLineNumber: number;    // Last line covered
+  values: Record<string, string>;  // Annotator initials -> type id, or NOT_ANNOTATED
+  annotations: Record<string, LineAnnotation>;  // The annotation each annotator's value comes from
+}
+
+export interface PairwiseAgreement {
+  a: string;
+  b: string;
+  units: number;            // Units at least one of the pair annotated
+  observed: number;         // Share of those units where they agree
+  kappa: number | null;     // null when chance agreement is total (every value identical)
+}
+
+export interface AgreementReport {
+  annotators: string[];
+  units: AgreementUnit[];
+  disagreements: AgreementUnit[];
+  observed: number | null;  // Share of units on which every annotator agrees
+  fleissKappa: number | null;
+  krippendorffAlpha: number | null;
+  pairwise: PairwiseAgreement[];
+}
+
+function lineRange(annotation: Pick<LineAnnotation, "lineNumber" | "endLineNumber">): [number, number] {
+  return [annotation.lineNumber, Math.max(annotation.lineNumber, annotation.endLineNumber ?? annotation.lineNumber)];
+}
+
+/**
+ * Share of the two ranges' lines they have in common (Jaccard index), 0 when they do not touch
+ */
+export function rangeOverlap(
+  a: Pick<LineAnnotation, "lineNumber" | "endLineNumber">,
+  b: Pick<LineAnnotation, "lineNumber" | "endLineNumber">
+): number {
+  const [aStart, aEnd] = lineRange(a);
+  const [bStart, bEnd] = lineRange(b);
+  const shared = Math.min(aEnd, bEnd) - Math.max(aStart, bStart) + 1;
+  if (shared <= 0) return 0;
+  const union = Math.max(aEnd, bEnd) - Math.min(aStart, bStart) + 1;
+  return shared / union;
+}
+
+/**
+ * Initials of everyone who has annotated, in alphabetical order
+ */
+export function getAnnotators(annotations: Array<Pick<LineAnnotation, "addedBy">>): string[] {
+  return Array.from(new Set(annotations.map((a) => a.addedBy).filter((i): i is string => !!i))).sort();
+}
+
+/**
+ * Match annotations from different annotators into units. Two annotations are matched when their
+ * ranges share at least minOverlap of their combined lines (0 = any shared line); matches chain,
+ * so a unit can span several overlapping annotations. Orphaned annotations are left out.
+ */
+export function buildAgreementUnits(
+  annotations: LineAnnotation[],
+  annotators: string[],
+  minOverlap = 0
+): AgreementUnit[] {
+  const included = new Set(annotators);
+  const candidates = annotations.filter((a) => a.addedBy && included.has(a.addedBy) && !a.orphaned);
+
+  // Union-find over annotations in the same file by different annotators
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (a.codeFileId !== b.codeFileId || a.addedBy === b.addedBy) continue;
+      const overlap = rangeOverlap(a, b);
+      if (overlap > 0 && overlap >= minOverlap) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, LineAnnotation[]>();
+  candidates.forEach((annotation, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), annotation]);
+  });
+
+  const units: AgreementUnit[] = [];
+  for (const group of groups.values()) {
+    const values: Record<string, string> = {};
+    const chosen: Record<string, LineAnnotation> = {};
+    for (const annotator of annotators) {
+      // An annotator with several annotations in the unit is represented by the longest
+      const own = group
+        .filter((a) => a.addedBy === annotator)
+        .sort((x, y) => (lineRange(y)[1] - lineRange(y)[0]) - (lineRange(x)[1] - lineRange(x)[0]) || x.lineNumber - y.lineNumber);
+      values[annotator] = own[0]?.type ?? NOT_ANNOTATED;
+      if (own[0]) chosen[annotator] = own[0];
+    }
+    units.push({
+      id: group.map((a) => a.id).sort().join("+"),
+      codeFileId: group[0].codeFileId,
+      lineNumber: Math.min(...group.map((a) => lineRange(a)[0])),
+      endLineNumber: Math.max(...group.map((a) => lineRange(a)[1])),
+      values,
+      annotations: chosen,
+    });
+  }
+  return units.sort((a, b) => a.codeFileId.localeCompare(b.codeFileId) || a.lineNumber - b.lineNumber);
+}
+
+/**
+ * Cohen's kappa for two annotators' values over the same units
+ */
+export function cohensKappa(pairs: Array<[string, string]>): number | null {
+  if (pairs.length === 0) return null;
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  let agreed = 0;
+  for (const [a, b] of pairs) {
+    if (a === b) agreed++;
+    countsA.set(a, (countsA.get(a) || 0) + 1);
+    countsB.set(b, (countsB.get(b) || 0) + 1);
+  }
+  const n = pairs.length;
+  const observed = agreed / n;
+  let expected = 0;
+  for (const [category, count] of countsA) {
+    expected += (count / n) * ((countsB.get(category) || 0) / n);
+  }
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Fleiss' kappa: every unit rated by the same number of annotators (at least two)
+ */
+export function fleissKappa(ratings: string[][]): number | null {
+  const units = ratings.filter((r) => r.length > 0);
+  if (units.length === 0) return null;
+  const raters = units[0].length;
+  if (raters < 2 || units.some((r) => r.length !== raters)) return null;
+
+  const totals = new Map<string, number>();
+  let agreementSum = 0;
+  for (const unit of units) {
+    const counts = new Map<string, number>();
+    for (const value of unit) counts.set(value, (counts.get(value) || 0) + 1);
+    let squares = 0;
+    for (const [category, count] of counts) {
+      squares += count * count;
+      totals.set(category, (totals.get(category) || 0) + count);
+    }
+    agreementSum += (squares - raters) / (raters * (raters - 1));
+  }
+
+  const observed = agreementSum / units.length;
+  let expected = 0;
+  for (const count of totals.values()) {
+    const share = count / (units.length * raters);
+    expected += share * share;
+  }
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Krippendorff's alpha for nominal data. Units may have missing values (undefined);
+ * units with fewer than two values are not pairable and are skipped.
+ */
+export function krippendorffAlpha(ratings: Array<Array<string | undefined>>): number | null {
+  // Coincidence counts: o[c][k], with each unit's pairs weighted by 1 / (values - 1)
+  const coincidences = new Map<string, Map<string, number>>();
+  for (const unit of ratings) {
+    const values = unit.filter((v): v is string => v !== undefined);
+    if (values.length < 2) continue;
+    const weight = 1 / (values.length - 1);
+    for (let i = 0; i < values.length; i++) {
+      for (let j = 0; j < values.length; j++) {
+        if (i === j) continue;
+        const row = coincidences.get(values[i]) || new Map<string, number>();
+        row.set(values[j], (row.get(values[j]) || 0) + weight);
+        coincidences.set(values[i], row);
+      }
+    }
+  }
+
+  const marginals = new Map<string, number>();
+  let total = 0;
+  let disagreeing = 0;
+  for (const [c, row] of coincidences) {
+    for (const [k, count] of row) {
+      marginals.set(c, (marginals.get(c) || 0) + count);
+      total += count;
+      if (c !== k) disagreeing += count;
+    }
+  }
+  if (total <= 1) return null;
+
+  let expectedDisagreeing = 0;
+  for (const [c, nc] of marginals) {
+    for (const [k, nk] of marginals) {
+      if (c !== k) expectedDisagreeing += nc * nk;
+    }
+  }
+  if (expectedDisagreeing === 0) return null;
+  return 1 - ((total - 1) * disagreeing) / expectedDisagreeing;
+}
+
+/**
+ * Agreement between the given annotators (at least two) over the annotations
+ */
+export function computeAgreement(
+  annotations: LineAnnotation[],
+  annotators: string[],
+  minOverlap = 0
+): AgreementReport {
+  const units = buildAgreementUnits(annotations, annotators, minOverlap);
+  const ratings = units.map((unit) => annotators.map((a) => unit.values[a]));
+  const disagreements = units.filter((unit) => new Set(Object.values(unit.values)).size > 1);
+
+  const pairwise: PairwiseAgreement[] = [];
+  for (let i = 0; i < annotators.length; i++) {
+    for (let j = i + 1; j < annotators.length; j++) {
+      const [a, b] = [annotators[i], annotators[j]];
+      const pairs = units
+        .filter((unit) => unit.values[a] !== NOT_ANNOTATED || unit.values[b] !== NOT_ANNOTATED)
+        .map((unit): [string, string] => [unit.values[a], unit.values[b]]);
+      pairwise.push({
+        a,
+        b,
+        units: pairs.length,
+        observed: pairs.length > 0 ? pairs.filter(([x, y]) => x === y).length / pairs.length : 0,
+        kappa: cohensKappa(pairs),
+      });
+    }
+  }
+
+  return {
+    annotators,
+    units,
+    disagreements,
+    observed: units.length > 0 ? (units.length - disagreements.length) / units.length : null,
+    fleissKappa: annotators.length >= 2 ? fleissKappa(ratings) : null,
+    krippendorffAlpha: annotators.length >= 2 ? krippendorffAlpha(ratings) : null,
+    pairwise,
+  };
+}
+
+/**
+ * Landis and Koch's reading of a kappa or alpha value
+ */
+export function describeAgreement(value: number | null): string {
+  if (value === null) return "not defined";
+  if (value < 0) return "worse than chance";
+  if (value < 0.2) return "slight";
+  if (value < 0.4) return "fair";
+  if (value < 0.6) return "moderate";
+  if (value < 0.8) return "substantial";
+  return "almost perfect";
+}
+
+// ============================================================================
+// Blind annotation
+// ============================================================================
+
+/**
+ * Whether blind annotation hides other members' annotations on this file from this annotator:
+ * it does until they submit their own reading of the file
+ */
+export function isBlindReadingPending(
+  settings: BlindAnnotationSettings | undefined,
+  codeFileId: string | null,
+  initials: string | undefined
+): boolean {
+  if (!settings?.enabled || !codeFileId || !initials) return false;
+  return !(settings.submissions[codeFileId] || []).includes(initials);
+}
+
+/**
+ * The annotations this annotator may see under blind annotation: all of them on files they have
+ * submitted, only their own elsewhere. Without initials the annotator cannot submit, so only
+ * annotations with no recorded author are shown.
+ */
+export function filterBlindAnnotations(
+  annotations: LineAnnotation[],
+  settings: BlindAnnotationSettings | undefined,
+  initials: string | undefined
+): LineAnnotation[] {
+  if (!settings?.enabled) return annotations;
+  if (!initials) return annotations.filter((a) => !a.addedBy);
+  return annotations.filter(
+    (a) => a.addedBy === initials || !isBlindReadingPending(settings, a.codeFileId, initials)
+  );
+}
+
+/**
+ * Read blind annotation settings from saved data, dropping malformed entries
+ */
+export function normalizeBlindAnnotation(raw: unknown): BlindAnnotationSettings | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const item = raw as Record<string, unknown>;
+  const submissions: Record<string, string[]> = {};
+  if (item.submissions && typeof item.submissions === "object") {
+    for (const [fileId, initials] of Object.entries(item.submissions as Record<string, unknown>)) {
+      if (Array.isArray(initials)) {
+        submissions[fileId] = Array.from(new Set(initials.filter((i): i is string => typeof i === "string" && !!i)));
+      }
+    }
+  }
+  return { enabled: item.enabled === true, submissions };
+}
+
+/**
+ * The session's blind annotation settings (off when it has none)
+ */
+export function getBlindAnnotation(session?: Pick<Session, "blindAnnotation"> | null): BlindAnnotationSettings {
+  return session?.blindAnnotation ?? { enabled: false, submissions: {} };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "@jest/globals";
+import type { LineAnnotation } from "@/types/session";
+import {
+  createAnchor,
+  linkedRangeAsAnnotation,
+  reanchorAnnotations,
+  reanchorFileAnnotations,
+} from "./annotation-anchoring";
+
+const source = [
+  "function area(r) {",
+  "  const pi = 3.14159;",
+  "  return pi * r * r;",
+  "}",
+  "",
+  "function perimeter(r) {",
+  "  return 2 * 3.14159 * r;",
+  "}",
+];
+
+function annotate(lines: string[], lineNumber: number, endLineNumber?: number, id = "a"): LineAnnotation {
+  return {
+    id,
+    codeFileId: "f",
+    lineNumber,
+    endLineNumber,
+    lineContent: lines.slice(lineNumber - 1, endLineNumber ?? lineNumber).join("\n"),
+    anchor: createAnchor(lines, lineNumber, endLineNumber),
+    type: "observation",
+    content: "note",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+const reanchor = (annotation: LineAnnotation, after: string[], before = source) =>
+  reanchorAnnotations([annotation], before.join("\n"), after.join("\n"))[0];
+
+describe("createAnchor", () => {
+  it("stores the lines either side of the range", () => {
+    expect(createAnchor(source, 3)).toEqual({
+      prefix: "function area(r) {\n  const pi = 3.14159;",
+      suffix: "}\n",
+    });
+  });
+});
+
+describe("reanchorAnnotations", () => {
+  it("leaves annotations above the edit untouched", () => {
+    const annotation = annotate(source, 2);
+    const edited = [...source.slice(0, 6), "  return 6.28318 * r;", "}"];
+    expect(reanchor(annotation, edited)).toBe(annotation);
+  });
+
+  it("shifts annotations below the edit by the lines inserted", () => {
+    const edited = ["// Geometry helpers", "// (circles)", ...source];
+    expect(reanchor(annotate(source, 7), edited)).toMatchObject({ lineNumber: 9, orphaned: false });
+  });
+
+  it("follows a line that was moved", () => {
+    const edited = [...source.slice(4), ...source.slice(0, 4)];
+    const moved = reanchor(annotate(source, 3), edited, source);
+    expect(moved).toMatchObject({ lineNumber: 7, lineContent: "  return pi * r * r;" });
+  });
+
+  it("follows a line that was slightly edited", () => {
+    const edited = [...source];
+    edited[2] = "  return pi * r ** 2;";
+    expect(reanchor(annotate(source, 3), edited)).toMatchObject({
+      lineNumber: 3,
+      lineContent: "  return pi * r ** 2;",
+      orphaned: false,
+    });
+  });
+
+  it("orphans an annotation whose line was deleted", () => {
+    const edited = source.filter((_, i) => i !== 1);
+    expect(reanchor(annotate(source, 2), edited).orphaned).toBe(true);
+  });
+
+  it("orphans an annotated repeated line rather than moving it to another copy", () => {
+    // The closing brace of area() is deleted; perimeter() still has one
+    const edited = source.filter((_, i) => i !== 3);
+    expect(reanchor(annotate(source, 4), edited).orphaned).toBe(true);
+  });
+
+  it("keeps an annotated repeated line in place when its context still matches", () => {
+    const edited = [...source];
+    edited[6] = "  return 2 * Math.PI * r;";
+    expect(reanchor(annotate(source, 4), edited)).toMatchObject({ lineNumber: 4 });
+  });
+
+  it("stretches a range when lines are inserted inside it", () => {
+    const edited = [...source.slice(0, 2), "  // cached", ...source.slice(2)];
+    expect(reanchor(annotate(source, 1, 4), edited)).toMatchObject({ lineNumber: 1, endLineNumber: 5 });
+  });
+
+  it("re-attaches an orphaned annotation when its text returns", () => {
+    const without = source.filter((_, i) => i !== 1);
+    const orphan = reanchor(annotate(source, 2), without);
+    expect(orphan.orphaned).toBe(true);
+    const restored = reanchor(orphan, source, without);
+    expect(restored).toMatchObject({ lineNumber: 2, orphaned: false });
+  });
+});
+
+describe("reanchorFileAnnotations", () => {
+  it("only re-anchors the edited file and returns the same list when nothing moved", () => {
+    const own = annotate(source, 7, undefined, "own");
+    const other = { ...annotate(source, 7, undefined, "other"), codeFileId: "g" };
+    const annotations = [own, other];
+
+    const unchanged = reanchorFileAnnotations(annotations, "f", source.join("\n"), [...source, "// end"].join("\n"));
+    expect(unchanged).toBe(annotations);
+
+    const shifted = reanchorFileAnnotations(annotations, "f", source.join("\n"), ["// top", ...source].join("\n"));
+    expect(shifted[0].lineNumber).toBe(8);
+    expect(shifted[1]).toBe(other);
+  });
+
+  it("moves the linked range of link annotations on other files", () => {
+    const link: LineAnnotation = {
+      ...annotate(source, 1, undefined, "link"),
+      codeFileId: "g",
+      type: "link",
+      link: { codeFileId: "f", lineNumber: 7, lineContent: source[6], anchor: createAnchor(source, 7) },
+    };
+    const [moved] = reanchorFileAnnotations([link], "f", source.join("\n"), ["// top", ...source].join("\n"));
+    expect(moved.link).toMatchObject({ codeFileId: "f", lineNumber: 8 });
+    expect(moved.lineNumber).toBe(1);
+    expect(linkedRangeAsAnnotation(moved)).toMatchObject({ codeFileId: "f", lineNumber: 8 });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Annotation Anchoring
+ * Re-anchors line annotations after their file is edited, using the annotated text (lineContent)
+ * plus a prefix/suffix context fingerprint. An annotation is only orphaned when no confident
+ * match exists in the new content.
+ */
+
+import type { AnnotationAnchor, LineAnnotation } from "@/types/session";
+
+// Lines of context stored either side of the annotated range
+export const ANCHOR_CONTEXT_LINES = 2;
+
+// How far (in lines) from the expected position a moved annotation is searched for
+const SEARCH_WINDOW = 2000;
+
+// Candidates whose first line is less similar than this are not scored further
+const CANDIDATE_THRESHOLD = 0.5;
+
+// A match is confident when the quote is near-identical, or reasonably similar with matching context
+const STRONG_QUOTE = 0.8;
+const WEAK_QUOTE = 0.6;
+const CONTEXT_CONFIRMS = 0.6;
+// Blank lines are placed by context alone, so one side of it must match closely
+const STRONG_CONTEXT = 0.85;
+
+// Block ends are searched up to this many lines past their old length (lines inserted inside the block)
+const BLOCK_GROWTH = 50;
+
+/**
+ * Build the context fingerprint for a line range in the given lines
+ */
+export function createAnchor(
+  lines: string[],
+  lineNumber: number,
+  endLineNumber?: number
+): AnnotationAnchor {
+  const start = lineNumber - 1;
+  const end = (endLineNumber ?? lineNumber) - 1;
+  return {
+    prefix: lines.slice(Math.max(0, start - ANCHOR_CONTEXT_LINES), start).join("\n"),
+    suffix: lines.slice(end + 1, end + 1 + ANCHOR_CONTEXT_LINES).join("\n"),
+  };
+}
+
+function normalise(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+// Sørensen–Dice coefficient over character bigrams of already-normalised text (1 = identical)
+function similarity(x: string, y: string, cache: Map<string, Map<string, number>>): number {
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const get = (text: string) => {
+    let grams = cache.get(text);
+    if (!grams) {
+      grams = bigrams(text);
+      cache.set(text, grams);
+    }
+    return grams;
+  };
+  const gx = get(x);
+  const gy = get(y);
+  let shared = 0;
+  gx.forEach((count, pair) => {
+    shared += Math.min(count, gy.get(pair) || 0);
+  });
+  return (2 * shared) / (x.length - 1 + y.length - 1);
+}
+
+interface Fingerprint {
+  quote: string[];
+  prefix: string;
+  suffix: string;
+  repeated?: boolean;  // The first quoted line occurred more than once in the content it came from
+}
+
+interface Match {
+  start: number;   // 0-based
+  end: number;     // 0-based, inclusive
+}
+
+interface Candidate extends Match {
+  total: number;
+  quote: number;       // Similarity of the quoted line(s)
+  context: number;     // Mean similarity of prefix and suffix
+  contextMax: number;  // Best of prefix and suffix
+}
+
+// New file content prepared once per re-anchoring pass
+interface PreparedLines {
+  norm: string[];                       // Normalised lines
+  index: Map<string, number[]>;         // Normalised line -> positions, for exact lookups
+  cache: Map<string, Map<string, number>>;
+}
+
+function prepareLines(lines: string[]): PreparedLines {
+  const norm = lines.map(normalise);
+  const index = new Map<string, number[]>();
+  norm.forEach((line, i) => {
+    const positions = index.get(line);
+    if (positions) positions.push(i);
+    else index.set(line, [i]);
+  });
+  return { norm, index, cache: new Map() };
+}
+
+/**
+ * Find the most likely new position of a fingerprint, or null if there is no confident match.
+ * Exact occurrences of the first quoted line are tried first (a line that occurs more than once,
+ * before or after the edit, must also have its context confirmed); fuzzy matching within a window around the expected
+ * position is the fallback when the line itself was edited or no copy of it is confirmed.
+ */
+function locate(fingerprint: Fingerprint, prepared: PreparedLines, expected: number): Match | null {
+  const { norm, index, cache } = prepared;
+  const quote = fingerprint.quote.map(normalise);
+  const prefix = normalise(fingerprint.prefix);
+  const suffix = normalise(fingerprint.suffix);
+  const length = quote.length;
+  const first = quote[0];
+  const last = quote[length - 1];
+  const blankQuote = quote.every((line) => line === "");
+
+  // Best position for the last line of a block starting at i, allowing for lines inserted inside it
+  const blockEnd = (i: number): { end: number; score: number } => {
+    const natural = Math.min(i + length - 1, norm.length - 1);
+    let best = { end: natural, score: similarity(last, norm[natural], cache) };
+    if (best.score >= STRONG_QUOTE) return best;
+    const limit = Math.min(norm.length - 1, i + length - 1 + BLOCK_GROWTH);
+    for (let j = i + 1; j <= limit; j++) {
+      const score = similarity(last, norm[j], cache);
+      if (score > best.score) best = { end: j, score };
+    }
+    return best;
+  };
+
+  let best: Candidate | null = null;
+
+  const consider = (i: number, firstScore: number) => {
+    let quoteScore = firstScore;
+    let end = i;
+    if (length > 1) {
+      const block = blockEnd(i);
+      end = block.end;
+      quoteScore = (firstScore + block.score) / 2;
+    }
+
+    const contextScores: number[] = [];
+    if (prefix) {
+      const before = norm.slice(Math.max(0, i - ANCHOR_CONTEXT_LINES), i).join(" ").trim();
+      contextScores.push(similarity(prefix, before, cache));
+    }
+    if (suffix) {
+      const after = norm.slice(end + 1, end + 1 + ANCHOR_CONTEXT_LINES).join(" ").trim();
+      contextScores.push(similarity(suffix, after, cache));
+    }
+    const context = contextScores.length > 0
+      ? contextScores.reduce((sum, s) => sum + s, 0) / contextScores.length
+      : 0;
+    const contextMax = contextScores.length > 0 ? Math.max(...contextScores) : 0;
+    const proximity = 1 - Math.min(1, Math.abs(i - expected) / SEARCH_WINDOW);
+
+    const total = 0.7 * quoteScore + 0.2 * context + 0.1 * proximity;
+    if (!best || total > best.total) {
+      best = { start: i, end, total, quote: quoteScore, context, contextMax };
+    }
+  };
+
+  const exact = index.get(first);
+  if (exact) {
+    for (const i of exact) consider(i, 1);
+    // A repeated line (a closing brace, END) could be any of its copies, and the annotated copy
+    // may be the one that was deleted: only matching context can say which copy it is
+    const exactBest = best as Candidate | null;
+    const ambiguous = (exact.length > 1 || !!fingerprint.repeated) && !blankQuote && (!!prefix || !!suffix);
+    if (ambiguous && exactBest && exactBest.context < CONTEXT_CONFIRMS) best = null;
+  }
+  if ((!exact || !best) && !blankQuote) {
+    const from = Math.max(0, expected - SEARCH_WINDOW);
+    const to = Math.min(norm.length - 1, expected + SEARCH_WINDOW);
+    for (let i = from; i <= to; i++) {
+      // Exact copies were weighed above
+      if (norm[i] === first) continue;
+      const firstScore = similarity(first, norm[i], cache);
+      if (firstScore >= CANDIDATE_THRESHOLD) consider(i, firstScore);
+    }
+  }
+
+  // best is assigned inside consider(), which control-flow analysis cannot see
+  const found = best as Candidate | null;
+  if (!found) return null;
+
+  // Blank lines carry no content of their own - only their context can place them
+  const confident = blankQuote
+    ? found.contextMax >= STRONG_CONTEXT
+    : found.quote >= STRONG_QUOTE || (found.quote >= WEAK_QUOTE && found.context >= CONTEXT_CONFIRMS);
+  return confident ? { start: found.start, end: found.end } : null;
+}
+
+/**
+ * Re-anchor a file's annotations after its content changes from oldContent to newContent.
+ *
+ * Annotations above the first changed line keep their position, annotations below the last
+ * changed line shift by the change in line count, and the rest are relocated by fuzzy matching
+ * their fingerprint. Orphaned annotations get another chance to re-attach on every edit.
+ * Unchanged annotations are returned as the same objects, so callers can detect moves by identity.
+ */
+export function reanchorAnnotations(
+  annotations: LineAnnotation[],
+  oldContent: string | undefined,
+  newContent: string
+): LineAnnotation[] {
+  if (annotations.length === 0 || oldContent === newContent) return annotations;
+
+  const newLines = newContent.split("\n");
+  const oldLines = oldContent?.split("\n");
+  const prepared = prepareLines(newLines);
+  // Occurrences of each line in the old content, to tell which quotes were ambiguous there
+  const oldCounts = new Map<string, number>();
+  oldLines?.forEach((line) => {
+    const key = normalise(line);
+    oldCounts.set(key, (oldCounts.get(key) || 0) + 1);
+  });
+
+  // Unchanged runs at the top and bottom of the file
+  let head = 0;
+  let tail = 0;
+  if (oldLines) {
+    const shorter = Math.min(oldLines.length, newLines.length);
+    while (head < shorter && oldLines[head] === newLines[head]) head++;
+    while (
+      tail < shorter - head &&
+      oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+    ) {
+      tail++;
+    }
+  }
+  const delta = oldLines ? newLines.length - oldLines.length : 0;
+
+  const place = (ann: LineAnnotation, start: number, end: number): LineAnnotation => {
+    const lineNumber = start + 1;
+    const endLineNumber = end > start ? end + 1 : undefined;
+    const lineContent = newLines.slice(start, end + 1).join("\n");
+    const anchor = createAnchor(newLines, lineNumber, endLineNumber);
+    if (
+      lineNumber === ann.lineNumber &&
+      endLineNumber === ann.endLineNumber &&
+      lineContent === ann.lineContent &&
+      !ann.orphaned &&
+      ann.anchor?.prefix === anchor.prefix &&
+      ann.anchor?.suffix === anchor.suffix
+    ) {
+      return ann;
+    }
+    return { ...ann, lineNumber, endLineNumber, lineContent, anchor, orphaned: false };
+  };
+
+  return annotations.map((ann) => {
+    const start = ann.lineNumber - 1;
+    const end = (ann.endLineNumber ?? ann.lineNumber) - 1;
+
+    if (oldLines && !ann.orphaned && end < oldLines.length) {
+      // Entirely above the edit
+      if (end < head) return ann.anchor ? ann : place(ann, start, end);
+      // Entirely below the edit
+      if (start >= oldLines.length - tail) return place(ann, start + delta, end + delta);
+    }
+
+    // The annotation overlaps the edit (or is orphaned): use what the old content said was
+    // there, falling back to the stored quote and fingerprint
+    const useOld = oldLines && !ann.orphaned && end < oldLines.length;
+    const fingerprint: Fingerprint = useOld
+      ? {
+          quote: oldLines.slice(start, end + 1),
+          ...createAnchor(oldLines, ann.lineNumber, ann.endLineNumber),
+          repeated: (oldCounts.get(normalise(oldLines[start])) || 0) > 1,
+        }
+      : {
+          quote: ann.lineContent.split("\n"),
+          prefix: ann.anchor?.prefix ?? "",
+          suffix: ann.anchor?.suffix ?? "",
+        };
+
+    // Expected position: scale the offset into the changed region by how much it grew or shrank
+    let expected = start;
+    if (useOld && start >= head) {
+      const oldMiddle = oldLines.length - head - tail;
+      const newMiddle = newLines.length - head - tail;
+      expected = head + Math.round(((start - head) * newMiddle) / Math.max(1, oldMiddle));
+    }
+    expected = Math.max(0, Math.min(newLines.length - 1, expected));
+
+    const match = locate(fingerprint, prepared, expected);
+    if (match) return place(ann, match.start, match.end);
+    return ann.orphaned ? ann : { ...ann, orphaned: true };
+  });
+}
+
+/**
+ * Re-anchor one file's annotations within a session-wide list, leaving other files' untouched.
+ * Link annotations from other files whose linked range is in this file follow the edit too.
+ */
+export function reanchorFileAnnotations(
+  annotations: LineAnnotation[],
+  fileId: string,
+  oldContent: string | undefined,
+  newContent: string
+): LineAnnotation[] {
+  if (oldContent === undefined || oldContent === newContent) return annotations;
+  const fileAnnotations = annotations.filter((a) => a.codeFileId === fileId);
+  // Linked ranges are re-anchored as stand-in annotations on this file
+  const linked = annotations.filter((a) => a.link?.codeFileId === fileId);
+  const linkedAsAnnotations = linked.map((a) => linkedRangeAsAnnotation(a));
+  if (fileAnnotations.length === 0 && linked.length === 0) return annotations;
+
+  const reanchored = reanchorAnnotations(fileAnnotations, oldContent, newContent);
+  const reanchoredLinks = reanchorAnnotations(linkedAsAnnotations, oldContent, newContent);
+  const moved = new Map<string, LineAnnotation>();
+  reanchored.forEach((a, i) => {
+    if (a !== fileAnnotations[i]) moved.set(a.id, a);
+  });
+  reanchoredLinks.forEach((r, i) => {
+    if (r === linkedAsAnnotations[i]) return;
+    const ann = moved.get(r.id) ?? linked[i];
+    moved.set(r.id, {
+      ...ann,
+      link: {
+        codeFileId: fileId,
+        lineNumber: r.lineNumber,
+        endLineNumber: r.endLineNumber,
+        lineContent: r.lineContent,
+        anchor: r.anchor,
+        orphaned: r.orphaned || undefined,
+      },
+    });
+  });
+  if (moved.size === 0) return annotations;
+  return annotations.map((a) => moved.get(a.id) ?? a);
+}
+
+/**
+ * A link annotation's linked range, shaped as an annotation on the linked file
+ * (same id, so it can be traced back to the link annotation)
+ */
+export function linkedRangeAsAnnotation(ann: LineAnnotation): LineAnnotation {
+  if (!ann.link) return ann;
+  const link = ann.link;
+  return {
+    ...ann,
+    codeFileId: link.codeFileId,
+    lineNumber: link.lineNumber,
+    endLineNumber: link.endLineNumber,
+    lineContent: link.lineContent,
+    anchor: link.anchor,
+    orphaned: link.orphaned,
+  };
+}
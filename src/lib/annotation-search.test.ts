@@ -0,0 +1,93 @@
+import { describe, expect, it } from "@jest/globals";
+import type { CodeReference, LineAnnotation } from "@/types/session";
+import {
+  DEFAULT_ANNOTATION_SEARCH,
+  hasActiveAnnotationFilters,
+  searchAnnotations,
+  UNKNOWN_AUTHOR,
+  type AnnotationSearchFilters,
+} from "./annotation-search";
+
+const codeFiles: CodeReference[] = [
+  { id: "f1", name: "a.c", size: 0, uploadedAt: "2026-01-01T00:00:00.000Z" },
+  { id: "f2", name: "b.c", size: 0, uploadedAt: "2026-01-01T00:00:00.000Z" },
+];
+
+function annotate(id: string, overrides: Partial<LineAnnotation> = {}): LineAnnotation {
+  return {
+    id,
+    codeFileId: "f1",
+    lineNumber: 1,
+    lineContent: "",
+    type: "observation",
+    content: "",
+    createdAt: "2026-03-10T12:00:00",
+    ...overrides,
+  };
+}
+
+const annotations = [
+  annotate("late", { codeFileId: "f2", lineNumber: 4, content: "Loop counter", addedBy: "AB", createdAt: "2026-03-12T12:00:00" }),
+  annotate("early", {
+    lineNumber: 9,
+    type: "question",
+    content: "What does this do?",
+    addedBy: "CD",
+    createdAt: "2026-03-08T12:00:00",
+    replies: [{ id: "r1", content: "It counts the loop", createdAt: "2026-03-09T12:00:00", addedBy: "AB" }],
+  }),
+  annotate("anon", { lineNumber: 2, content: "Counter reset", orphaned: true, status: "resolved" }),
+];
+
+const search = (filters: Partial<AnnotationSearchFilters>, initials?: string) =>
+  searchAnnotations(annotations, { ...DEFAULT_ANNOTATION_SEARCH, ...filters }, codeFiles, initials);
+const ids = (filters: Partial<AnnotationSearchFilters>, initials?: string) =>
+  search(filters, initials).map((r) => r.annotation.id);
+
+describe("searchAnnotations", () => {
+  it("lists everything in file and line order by default", () => {
+    expect(ids({})).toEqual(["anon", "early", "late"]);
+    expect(hasActiveAnnotationFilters(DEFAULT_ANNOTATION_SEARCH)).toBe(false);
+  });
+
+  it("matches every query word anywhere in the thread, case-insensitively", () => {
+    expect(ids({ query: "COUNTER" })).toEqual(["anon", "late"]);
+    expect(ids({ query: "loop what" })).toEqual(["early"]);
+    expect(ids({ query: "loop reset" })).toEqual([]);
+  });
+
+  it("reports the replies a query matched when the annotation itself did not", () => {
+    expect(search({ query: "counts" })[0].matchedReplies).toEqual(["r1"]);
+    expect(search({ query: "what" })[0].matchedReplies).toEqual([]);
+  });
+
+  it("filters by type, author, file, orphaned state and status", () => {
+    expect(ids({ types: ["question"] })).toEqual(["early"]);
+    expect(ids({ authors: [UNKNOWN_AUTHOR, "AB"] })).toEqual(["anon", "late"]);
+    expect(ids({ fileIds: ["f2"] })).toEqual(["late"]);
+    expect(ids({ orphaned: "orphaned" })).toEqual(["anon"]);
+    expect(ids({ orphaned: "anchored" })).toEqual(["early", "late"]);
+    // Questions count as open until a status is set
+    expect(ids({ statuses: ["open"] })).toEqual(["early"]);
+    expect(hasActiveAnnotationFilters({ ...DEFAULT_ANNOTATION_SEARCH, statuses: ["open"] })).toBe(true);
+  });
+
+  it("filters by creation date, inclusive of both ends", () => {
+    expect(ids({ from: "2026-03-10" })).toEqual(["anon", "late"]);
+    expect(ids({ from: "2026-03-08", to: "2026-03-10" })).toEqual(["anon", "early"]);
+  });
+
+  it("finds the annotations waiting on the current user", () => {
+    expect(ids({ needsAttention: true }, "CD")).toEqual(["early"]);
+    expect(ids({ needsAttention: true }, "AB")).toEqual([]);
+    expect(ids({ needsAttention: true })).toEqual([]);
+  });
+
+  it("sorts by date, type, author and replies", () => {
+    expect(ids({ sort: "newest" })).toEqual(["late", "anon", "early"]);
+    expect(ids({ sort: "oldest" })).toEqual(["early", "anon", "late"]);
+    expect(ids({ sort: "type" })).toEqual(["anon", "late", "early"]);
+    expect(ids({ sort: "author" })).toEqual(["anon", "late", "early"]);
+    expect(ids({ sort: "replies" })).toEqual(["early", "anon", "late"]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Annotation Search
+ * Full-text search and filtering over every annotation in a project. A query matches when each
+ * of its words appears in the annotation's text or in one of its replies; the filters narrow by
+ * type, author, file, orphaned status, discussion status and the date the annotation was
+ * written, or to the annotations waiting on the current user.
+ */
+
+import type { AnnotationStatus, CodeReference, LineAnnotation } from "@/types/session";
+import { getAnnotationStatus, needsAttention } from "@/lib/annotation-status";
+
+export type AnnotationOrphanFilter = "all" | "anchored" | "orphaned";
+
+export type AnnotationSortOrder = "file" | "newest" | "oldest" | "type" | "author" | "replies";
+
+export const ANNOTATION_SORT_LABELS: Record<AnnotationSortOrder, string> = {
+  file: "File and line",
+  newest: "Newest first",
+  oldest: "Oldest first",
+  type: "Type",
+  author: "Author",
+  replies: "Most replies",
+};
+
+// Author filter value for annotations without initials
+export const UNKNOWN_AUTHOR = "";
+
+export interface AnnotationSearchFilters {
+  query: string;
+  types: string[];          // Type ids (empty = every type)
+  authors: string[];        // Author initials, UNKNOWN_AUTHOR for none (empty = everyone)
+  fileIds: string[];        // Empty = every file
+  orphaned: AnnotationOrphanFilter;
+  statuses: AnnotationStatus[];  // Empty = any status or none
+  needsAttention: boolean;  // Only annotations waiting on the current user
+  from?: string;            // Earliest creation date, yyyy-mm-dd (inclusive)
+  to?: string;              // Latest creation date, yyyy-mm-dd (inclusive)
+  sort: AnnotationSortOrder;
+}
+
+export const DEFAULT_ANNOTATION_SEARCH: AnnotationSearchFilters = {
+  query: "",
+  types: [],
+  authors: [],
+  fileIds: [],
+  orphaned: "all",
+  statuses: [],
+  needsAttention: false,
+  sort: "file",
+};
+
+export interface AnnotationSearchResult {
+  annotation: LineAnnotation;
+  matchedReplies: string[];  // Ids of replies the query matched (empty when it matched the annotation itself)
+}
+
+function queryTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Local calendar date of a timestamp, to compare with date inputs
+function localDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Whether the filters narrow the list at all (the query and sort aside)
+ */
+export function hasActiveAnnotationFilters(filters: AnnotationSearchFilters): boolean {
+  return (
+    filters.types.length > 0 ||
+    filters.authors.length > 0 ||
+    filters.fileIds.length > 0 ||
+    filters.orphaned !== "all" ||
+    filters.statuses.length > 0 ||
+    filters.needsAttention ||
+    !!filters.from ||
+    !!filters.to
+  );
+}
+
+/**
+ * Annotations matching the query and filters, in the chosen order. userInitials identifies
+ * the current user for the needs-attention filter.
+ */
+export function searchAnnotations(
+  annotations: LineAnnotation[],
+  filters: AnnotationSearchFilters,
+  codeFiles: CodeReference[] = [],
+  userInitials?: string
+): AnnotationSearchResult[] {
+  const terms = queryTerms(filters.query);
+  const results: AnnotationSearchResult[] = [];
+
+  for (const annotation of annotations) {
+    if (filters.types.length > 0 && !filters.types.includes(annotation.type)) continue;
+    if (filters.authors.length > 0 && !filters.authors.includes(annotation.addedBy || UNKNOWN_AUTHOR)) continue;
+    if (filters.fileIds.length > 0 && !filters.fileIds.includes(annotation.codeFileId)) continue;
+    if (filters.orphaned === "anchored" && annotation.orphaned) continue;
+    if (filters.orphaned === "orphaned" && !annotation.orphaned) continue;
+    if (filters.statuses.length > 0) {
+      const status = getAnnotationStatus(annotation);
+      if (!status || !filters.statuses.includes(status)) continue;
+    }
+    if (filters.needsAttention && !needsAttention(annotation, userInitials)) continue;
+    if (filters.from || filters.to) {
+      const created = localDate(annotation.createdAt);
+      if (!created) continue;
+      if (filters.from && created < filters.from) continue;
+      if (filters.to && created > filters.to) continue;
+    }
+
+    if (terms.length === 0) {
+      results.push({ annotation, matchedReplies: [] });
+      continue;
+    }
+    // Every term must appear somewhere in the thread
+    const replies = annotation.replies || [];
+    const texts = [annotation.content, ...replies.map((r) => r.content)].map((t) => t.toLowerCase());
+    if (!terms.every((term) => texts.some((text) => text.includes(term)))) continue;
+    const ownMatch = terms.some((term) => texts[0].includes(term));
+    results.push({
+      annotation,
+      matchedReplies: ownMatch
+        ? []
+        : replies.filter((r) => terms.some((term) => r.content.toLowerCase().includes(term))).map((r) => r.id),
+    });
+  }
+
+  const fileOrder = new Map(codeFiles.map((f, i) => [f.id, i]));
+  const byPosition = (a: LineAnnotation, b: LineAnnotation) =>
+    (fileOrder.get(a.codeFileId) ?? codeFiles.length) - (fileOrder.get(b.codeFileId) ?? codeFiles.length) ||
+    a.lineNumber - b.lineNumber;
+  const byDate = (a: LineAnnotation, b: LineAnnotation) => a.createdAt.localeCompare(b.createdAt);
+
+  return results.sort(({ annotation: a }, { annotation: b }) => {
+    switch (filters.sort) {
+      case "newest":
+        return byDate(b, a) || byPosition(a, b);
+      case "oldest":
+        return byDate(a, b) || byPosition(a, b);
+      case "type":
+        return a.type.localeCompare(b.type) || byPosition(a, b);
+      case "author":
+        return (a.addedBy || "").localeCompare(b.addedBy || "") || byPosition(a, b);
+      case "replies":
+        return (b.replies?.length || 0) - (a.replies?.length || 0) || byPosition(a, b);
+      default:
+        return byPosition(a, b);
+    }
+  });
+}
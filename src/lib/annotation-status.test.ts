@@ -0,0 +1,101 @@
+import { describe, expect, it } from "@jest/globals";
+import type { LineAnnotation } from "@/types/session";
+import {
+  extractMentions,
+  getAnnotationStatus,
+  getMentionQuery,
+  isAnnotationClosed,
+  matchMentionCandidates,
+  mentionsMember,
+  needsAttention,
+  normalizeAnnotationStatus,
+  splitMentions,
+} from "./annotation-status";
+
+function annotate(overrides: Partial<LineAnnotation> = {}): LineAnnotation {
+  return {
+    id: "a",
+    codeFileId: "f",
+    lineNumber: 1,
+    lineContent: "",
+    type: "observation",
+    content: "",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const reply = (content: string, addedBy?: string) => ({ id: content, content, createdAt: "2026-01-02T00:00:00.000Z", addedBy });
+
+describe("status", () => {
+  it("treats questions as open until a status is set", () => {
+    expect(getAnnotationStatus(annotate({ type: "question" }))).toBe("open");
+    expect(getAnnotationStatus(annotate())).toBeUndefined();
+    expect(getAnnotationStatus(annotate({ type: "question", status: "wont-fix" }))).toBe("wont-fix");
+    expect(isAnnotationClosed(annotate({ type: "question", status: "resolved" }))).toBe(true);
+    expect(isAnnotationClosed(annotate({ type: "question" }))).toBe(false);
+  });
+
+  it("drops unknown saved statuses", () => {
+    expect(normalizeAnnotationStatus("resolved")).toBe("resolved");
+    expect(normalizeAnnotationStatus("done")).toBeUndefined();
+    expect(normalizeAnnotationStatus(null)).toBeUndefined();
+  });
+});
+
+describe("mentions", () => {
+  it("extracts initials, upper-cased and once each", () => {
+    expect(extractMentions("@ab see this, (@CD) and @ab again")).toEqual(["AB", "CD"]);
+  });
+
+  it("ignores email addresses and doubled at signs", () => {
+    expect(extractMentions("mail ab@example.org or @@CD")).toEqual([]);
+  });
+
+  it("splits text around mentions of known members only", () => {
+    expect(splitMentions("Hi @ab, ask @zz", ["AB"])).toEqual([
+      { text: "Hi " },
+      { text: "@ab", mention: "AB" },
+      { text: ", ask @zz" },
+    ]);
+  });
+
+  it("finds mentions in replies as well as the annotation", () => {
+    const annotation = annotate({ content: "Odd loop", replies: [reply("Over to @cd", "AB")] });
+    expect(mentionsMember(annotation, "CD")).toBe(true);
+    expect(mentionsMember(annotation, "AB")).toBe(false);
+  });
+});
+
+describe("needsAttention", () => {
+  it("flags open annotations that mention the member", () => {
+    expect(needsAttention(annotate({ content: "@CD?" }), "cd")).toBe(true);
+    expect(needsAttention(annotate({ content: "@CD?", status: "resolved" }), "CD")).toBe(false);
+    expect(needsAttention(annotate({ content: "@CD?" }), undefined)).toBe(false);
+  });
+
+  it("flags the member's own annotation when someone else replied last", () => {
+    const annotation = annotate({ addedBy: "AB", replies: [reply("Why?", "CD")] });
+    expect(needsAttention(annotation, "AB")).toBe(true);
+    expect(needsAttention({ ...annotation, replies: [...annotation.replies!, reply("Because", "AB")] }, "AB")).toBe(false);
+  });
+});
+
+describe("mention autocomplete", () => {
+  it("finds the partly typed mention at the cursor", () => {
+    expect(getMentionQuery("Ask @A", 6)).toEqual({ query: "A", start: 4 });
+    expect(getMentionQuery("Ask @", 5)).toEqual({ query: "", start: 4 });
+    expect(getMentionQuery("mail a@b", 8)).toBeNull();
+    expect(getMentionQuery("Ask @AB now", 11)).toBeNull();
+  });
+
+  it("offers initials matches before name matches", () => {
+    const members = [
+      { initials: "JS", name: "Ada Smith" },
+      { initials: "SA", name: "Jo Brown" },
+      { initials: "KL" },
+    ];
+    expect(matchMentionCandidates(members, "s").map((m) => m.initials)).toEqual(["SA", "JS"]);
+    expect(matchMentionCandidates(members, "", 2).map((m) => m.initials)).toEqual(["JS", "SA"]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Annotation Status and Mentions
+ * Annotations can be marked open, resolved or won't fix so questions raised in a reading get
+ * closed; question annotations count as open until someone sets a status. Members are mentioned
+ * by their initials (@AB) in annotations and replies, and an annotation needs a member's
+ * attention while it is still open and either mentions them or is theirs with an unanswered reply.
+ */
+
+import type { AnnotationStatus, LineAnnotation } from "@/types/session";
+
+export const ANNOTATION_STATUSES: AnnotationStatus[] = ["open", "resolved", "wont-fix"];
+
+export const ANNOTATION_STATUS_LABELS: Record<AnnotationStatus, string> = {
+  open: "Open",
+  resolved: "Resolved",
+  "wont-fix": "Won't fix",
+};
+
+// Annotation type that starts open without a status being set
+const QUESTION_TYPE = "question";
+
+// "@" at the start of the text or after a non-word character, followed by initials
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9][A-Za-z0-9_-]*)/g;
+
+export interface MentionCandidate {
+  initials: string;
+  name?: string;
+}
+
+/**
+ * The annotation's status, or undefined for annotations that have none
+ */
+export function getAnnotationStatus(annotation: Pick<LineAnnotation, "status" | "type">): AnnotationStatus | undefined {
+  return annotation.status ?? (annotation.type === QUESTION_TYPE ? "open" : undefined);
+}
+
+/**
+ * Whether the annotation has been resolved or set aside
+ */
+export function isAnnotationClosed(annotation: Pick<LineAnnotation, "status" | "type">): boolean {
+  const status = getAnnotationStatus(annotation);
+  return status === "resolved" || status === "wont-fix";
+}
+
+/**
+ * Read a status from saved data, dropping unknown values
+ */
+export function normalizeAnnotationStatus(raw: unknown): AnnotationStatus | undefined {
+  return ANNOTATION_STATUSES.includes(raw as AnnotationStatus) ? (raw as AnnotationStatus) : undefined;
+}
+
+/**
+ * Initials mentioned in the text, upper-cased and without duplicates
+ */
+export function extractMentions(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    found.add(match[2].toUpperCase());
+  }
+  return Array.from(found);
+}
+
+/**
+ * Split text into plain runs and mentions of known members, for rendering mentions highlighted
+ */
+export function splitMentions(text: string, initials: string[]): Array<{ text: string; mention?: string }> {
+  const known = new Set(initials.map((i) => i.toUpperCase()));
+  const parts: Array<{ text: string; mention?: string }> = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const mentioned = match[2].toUpperCase();
+    if (!known.has(mentioned)) continue;
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) parts.push({ text: text.slice(lastIndex, start) });
+    parts.push({ text: `@${match[2]}`, mention: mentioned });
+    lastIndex = start + match[2].length + 1;
+  }
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex) });
+  return parts;
+}
+
+/**
+ * Whether the annotation or any of its replies mentions these initials
+ */
+export function mentionsMember(
+  annotation: Pick<LineAnnotation, "content" | "replies">,
+  initials: string
+): boolean {
+  const wanted = initials.toUpperCase();
+  return [annotation.content, ...(annotation.replies || []).map((r) => r.content)].some((text) =>
+    extractMentions(text).includes(wanted)
+  );
+}
+
+/**
+ * Whether the annotation is waiting on this member: it is not closed, and it mentions them or
+ * it is theirs and the latest reply is from someone else
+ */
+export function needsAttention(annotation: LineAnnotation, initials: string | undefined): boolean {
+  if (!initials || isAnnotationClosed(annotation)) return false;
+  const wanted = initials.toUpperCase();
+  if (mentionsMember(annotation, wanted)) return true;
+  const lastReply = annotation.replies?.[annotation.replies.length - 1];
+  return (
+    annotation.addedBy?.toUpperCase() === wanted &&
+    !!lastReply?.addedBy &&
+    lastReply.addedBy.toUpperCase() !== wanted
+  );
+}
+
+/**
+ * The partly typed mention ending at the cursor ("@A" -> "A"), or null when the cursor is not in one
+ */
+export function getMentionQuery(text: string, cursor: number): { query: string; start: number } | null {
+  const match = text.slice(0, cursor).match(/(^|[^\w@])@([A-Za-z0-9_-]*)$/);
+  if (!match) return null;
+  return { query: match[2], start: cursor - match[2].length - 1 };
+}
+
+/**
+ * Members whose initials or name start with the query, initials matches first
+ */
+export function matchMentionCandidates(candidates: MentionCandidate[], query: string, limit = 6): MentionCandidate[] {
+  const q = query.toLowerCase();
+  const byInitials = candidates.filter((c) => c.initials.toLowerCase().startsWith(q));
+  const byName = candidates.filter(
+    (c) => !byInitials.includes(c) && c.name?.toLowerCase().split(/\s+/).some((word) => word.startsWith(q))
+  );
+  return [...byInitials, ...byName].slice(0, limit);
+}
@@ -0,0 +1,266 @@
+/**
+ * Annotation Taxonomy
+ * Each project defines its own annotation types (label, inline prefix, colours, description).
+ * Projects that have never edited theirs use DEFAULT_ANNOTATION_TAXONOMY. Annotations whose
+ * type has since been removed from the taxonomy still render, with a neutral colour.
+ */
+
+import {
+  DEFAULT_ANNOTATION_TAXONOMY,
+  type AnnotationTypeDefinition,
+  type LineAnnotation,
+  type LineAnnotationType,
+  type Session,
+} from "@/types/session";
+
+// Colour for annotations whose type is not in the project's taxonomy
+const UNKNOWN_TYPE_COLOR = { light: "#6b7280", dark: "#9ca3af" };
+
+// Colours offered for new types, in order (light, dark)
+export const ANNOTATION_TYPE_PALETTE: Array<{ light: string; dark: string }> = [
+  { light: "#0891b2", dark: "#22d3ee" },
+  { light: "#db2777", dark: "#f472b6" },
+  { light: "#65a30d", dark: "#a3e635" },
+  { light: "#ea580c", dark: "#fb923c" },
+  { light: "#4f46e5", dark: "#818cf8" },
+  { light: "#0d9488", dark: "#2dd4bf" },
+  { light: "#be123c", dark: "#fb7185" },
+  { light: "#a16207", dark: "#facc15" },
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+// Prefixes appear in "// An:PREFIX:" comments, so they are restricted to word characters
+const PREFIX_PATTERN = /^[A-Za-z][A-Za-z0-9]{0,11}$/;
+
+/**
+ * The session's taxonomy, or the default six types when it has none
+ */
+export function getAnnotationTaxonomy(session?: Pick<Session, "annotationTaxonomy"> | null): AnnotationTypeDefinition[] {
+  const taxonomy = session?.annotationTaxonomy;
+  return taxonomy && taxonomy.length > 0 ? taxonomy : DEFAULT_ANNOTATION_TAXONOMY;
+}
+
+/**
+ * Look up a type, falling back to a neutral definition for ids the taxonomy no longer has
+ */
+export function getAnnotationTypeDefinition(
+  taxonomy: AnnotationTypeDefinition[],
+  id: LineAnnotationType
+): AnnotationTypeDefinition {
+  return (
+    taxonomy.find((t) => t.id === id) || {
+      id,
+      label: labelFromId(id),
+      prefix: labelFromId(id).replace(/[^A-Za-z0-9]/g, "") || "Ann",
+      color: UNKNOWN_TYPE_COLOR,
+    }
+  );
+}
+
+export function getAnnotationTypeLabel(taxonomy: AnnotationTypeDefinition[], id: LineAnnotationType): string {
+  return getAnnotationTypeDefinition(taxonomy, id).label;
+}
+
+export function getAnnotationTypePrefix(taxonomy: AnnotationTypeDefinition[], id: LineAnnotationType): string {
+  return getAnnotationTypeDefinition(taxonomy, id).prefix;
+}
+
+export function getAnnotationTypeColor(
+  taxonomy: AnnotationTypeDefinition[],
+  id: LineAnnotationType,
+  isDark: boolean
+): string {
+  const { color } = getAnnotationTypeDefinition(taxonomy, id);
+  return isDark ? color.dark : color.light;
+}
+
+/**
+ * Find the type an inline prefix (the "Obs" in "// An:Obs:") refers to. Ids and labels
+ * are accepted too, case-insensitively, so hand-written annotations resolve.
+ */
+export function findAnnotationTypeByPrefix(
+  taxonomy: AnnotationTypeDefinition[],
+  prefix: string
+): AnnotationTypeDefinition | undefined {
+  const wanted = prefix.trim().toLowerCase();
+  return (
+    taxonomy.find((t) => t.prefix.toLowerCase() === wanted) ||
+    taxonomy.find((t) => t.id === wanted || t.label.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Turn a label into a type id: "Platform constraint" -> "platform-constraint"
+ */
+export function annotationTypeIdFromLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function labelFromId(id: string): string {
+  const words = id.replace(/[-_]+/g, " ").trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : "Annotation";
+}
+
+/**
+ * A prefix not yet used in the taxonomy, built from the label ("Labour" -> "Lab")
+ */
+export function suggestAnnotationPrefix(label: string, taxonomy: AnnotationTypeDefinition[]): string {
+  const letters = label.replace(/[^A-Za-z0-9]/g, "");
+  const base = letters ? letters.charAt(0).toUpperCase() + letters.slice(1, 3) : "Ann";
+  const used = new Set(taxonomy.map((t) => t.prefix.toLowerCase()));
+  if (!used.has(base.toLowerCase())) return base;
+  for (let n = 2; ; n++) {
+    if (!used.has(`${base}${n}`.toLowerCase())) return `${base}${n}`;
+  }
+}
+
+/**
+ * Build a new type for the taxonomy from a label, with a unique id, prefix and colour
+ */
+export function createAnnotationTypeDefinition(
+  label: string,
+  taxonomy: AnnotationTypeDefinition[],
+  description?: string
+): AnnotationTypeDefinition {
+  const base = annotationTypeIdFromLabel(label) || "type";
+  const ids = new Set(taxonomy.map((t) => t.id));
+  let id = base;
+  for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+
+  const usedColors = new Set(taxonomy.map((t) => t.color.light.toLowerCase()));
+  const color =
+    ANNOTATION_TYPE_PALETTE.find((c) => !usedColors.has(c.light)) ||
+    ANNOTATION_TYPE_PALETTE[taxonomy.length % ANNOTATION_TYPE_PALETTE.length];
+
+  return {
+    id,
+    label: label.trim() || labelFromId(id),
+    prefix: suggestAnnotationPrefix(label, taxonomy),
+    color: { ...color },
+    description: description?.trim() || undefined,
+  };
+}
+
+/**
+ * Problems that would stop a taxonomy being saved, or an empty list
+ */
+export function validateAnnotationTaxonomy(taxonomy: AnnotationTypeDefinition[]): string[] {
+  const problems: string[] = [];
+  if (taxonomy.length === 0) problems.push("A project needs at least one annotation type.");
+
+  const seenPrefixes = new Set<string>();
+  for (const type of taxonomy) {
+    const name = type.label.trim() || type.id;
+    if (!type.label.trim()) problems.push("Every type needs a label.");
+    if (!PREFIX_PATTERN.test(type.prefix)) {
+      problems.push(`"${name}" needs a prefix of up to 12 letters or digits, starting with a letter.`);
+    } else if (seenPrefixes.has(type.prefix.toLowerCase())) {
+      problems.push(`The prefix "${type.prefix}" is used by more than one type.`);
+    }
+    seenPrefixes.add(type.prefix.toLowerCase());
+    if (!HEX_COLOR.test(type.color.light) || !HEX_COLOR.test(type.color.dark)) {
+      problems.push(`"${name}" needs light and dark colours in #rrggbb form.`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read a taxonomy from saved or imported data, dropping malformed entries.
+ * Returns undefined when nothing usable is left (the default applies).
+ */
+export function normalizeAnnotationTaxonomy(raw: unknown): AnnotationTypeDefinition[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const types: AnnotationTypeDefinition[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const item = entry as Record<string, unknown>;
+    const id = typeof item.id === "string" ? item.id.trim() : "";
+    if (!id || types.some((t) => t.id === id)) continue;
+
+    const color = (item.color && typeof item.color === "object" ? item.color : {}) as Record<string, unknown>;
+    const fallback = getAnnotationTypeDefinition(DEFAULT_ANNOTATION_TAXONOMY, id);
+    const label = typeof item.label === "string" && item.label.trim() ? item.label.trim() : fallback.label;
+    const prefix = typeof item.prefix === "string" && PREFIX_PATTERN.test(item.prefix)
+      ? item.prefix
+      : suggestAnnotationPrefix(label, types);
+
+    types.push({
+      id,
+      label,
+      prefix,
+      color: {
+        light: typeof color.light === "string" && HEX_COLOR.test(color.light) ? color.light : fallback.color.light,
+        dark: typeof color.dark === "string" && HEX_COLOR.test(color.dark) ? color.dark : fallback.color.dark,
+      },
+      description: typeof item.description === "string" && item.description.trim() ? item.description.trim() : undefined,
+    });
+  }
+  return types.length > 0 ? types : undefined;
+}
+
+/**
+ * Add a definition for every type id used by the annotations but missing from the taxonomy
+ * (imports from other projects, annotations written before a type was removed).
+ * Returns the taxonomy unchanged when nothing is missing.
+ */
+export function addMissingAnnotationTypes(
+  taxonomy: AnnotationTypeDefinition[],
+  typeIds: Iterable<LineAnnotationType>
+): AnnotationTypeDefinition[] {
+  let result = taxonomy;
+  for (const id of typeIds) {
+    if (!id || result.some((t) => t.id === id)) continue;
+    const known = DEFAULT_ANNOTATION_TAXONOMY.find((t) => t.id === id);
+    const added = known || { ...createAnnotationTypeDefinition(labelFromId(id), result), id };
+    result = [...result, added];
+  }
+  return result;
+}
+
+/**
+ * Merge types brought in by an imported file into the project's taxonomy. Definitions the file
+ * carries are added when their id is new (taking a fresh prefix if theirs is taken); other
+ * missing ids get a generated definition. Returns the taxonomy unchanged when nothing is new.
+ */
+export function mergeAnnotationTypes(
+  taxonomy: AnnotationTypeDefinition[],
+  incoming: AnnotationTypeDefinition[] | undefined,
+  typeIds: Iterable<LineAnnotationType>
+): AnnotationTypeDefinition[] {
+  const ids = new Set(typeIds);
+  let result = taxonomy;
+  for (const type of incoming || []) {
+    if (!ids.has(type.id) || result.some((t) => t.id === type.id)) continue;
+    const prefixTaken = result.some((t) => t.prefix.toLowerCase() === type.prefix.toLowerCase());
+    result = [...result, prefixTaken ? { ...type, prefix: suggestAnnotationPrefix(type.label, result) } : type];
+  }
+  return addMissingAnnotationTypes(result, ids);
+}
+
+/**
+ * The taxonomy to keep for a loaded or imported session: the saved one, normalised, plus a
+ * definition for any type its annotations use that it lacks. Undefined means the default.
+ */
+export function reconcileAnnotationTaxonomy(
+  raw: unknown,
+  annotations: Array<Pick<LineAnnotation, "type">>
+): AnnotationTypeDefinition[] | undefined {
+  const base = normalizeAnnotationTaxonomy(raw) || DEFAULT_ANNOTATION_TAXONOMY;
+  const taxonomy = addMissingAnnotationTypes(base, new Set(annotations.map((a) => a.type)));
+  return taxonomy === DEFAULT_ANNOTATION_TAXONOMY ? undefined : taxonomy;
+}
+
+/**
+ * The taxonomy as a markdown list for prompts: "- **Obs** (Observation): A notable feature..."
+ */
+export function describeAnnotationTaxonomy(taxonomy: AnnotationTypeDefinition[]): string {
+  return taxonomy
+    .map((t) => `- **${t.prefix}** (${t.label})${t.description ? `: ${t.description}` : ""}`)
+    .join("\n");
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "@jest/globals";
+import type { CodebookCode } from "@/types/session";
+import {
+  codeCooccurrence,
+  codeFrequencies,
+  createCodebookCode,
+  flattenCodebook,
+  formatCodePath,
+  getCodeColor,
+  getCodeDescendantIds,
+  normalizeCodebook,
+  pruneAnnotationCodes,
+  removeCodebookCode,
+  validateCodebook,
+  wouldCreateCodeCycle,
+} from "./codebook";
+
+const codebook: CodebookCode[] = [
+  { id: "labour", name: "Labour", color: "#aa0000" },
+  { id: "maintenance", name: "Maintenance", parentId: "labour" },
+  { id: "patching", name: "Patching", parentId: "maintenance", color: "#00aa00" },
+  { id: "play", name: "Play" },
+];
+
+describe("code paths", () => {
+  it("formats a code with its ancestors", () => {
+    expect(formatCodePath(codebook, "patching")).toBe("Labour › Maintenance › Patching");
+    expect(formatCodePath(codebook, "patching", " > ")).toBe("Labour > Maintenance > Patching");
+    expect(formatCodePath(codebook, "gone")).toBe("gone");
+  });
+
+  it("inherits the nearest ancestor's colour", () => {
+    expect(getCodeColor(codebook, "maintenance")).toBe("#aa0000");
+    expect(getCodeColor(codebook, "patching")).toBe("#00aa00");
+    expect(getCodeColor(codebook, "play")).toBe("#6b7280");
+  });
+
+  it("collects a code's descendants", () => {
+    expect(Array.from(getCodeDescendantIds(codebook, "labour")).sort()).toEqual(["labour", "maintenance", "patching"]);
+    expect(wouldCreateCodeCycle(codebook, "labour", "patching")).toBe(true);
+    expect(wouldCreateCodeCycle(codebook, "patching", "play")).toBe(false);
+  });
+
+  it("flattens the tree with depths, children after their parent", () => {
+    const shuffled = [codebook[2], codebook[3], codebook[1], codebook[0]];
+    expect(flattenCodebook(shuffled).map(({ code, depth }) => `${depth}:${code.id}`)).toEqual([
+      "0:play", "0:labour", "1:maintenance", "2:patching",
+    ]);
+  });
+});
+
+describe("editing the codebook", () => {
+  it("moves a removed code's children up to its parent", () => {
+    const result = removeCodebookCode(codebook, "maintenance");
+    expect(result.find((c) => c.id === "patching")?.parentId).toBe("labour");
+    expect(result.some((c) => c.id === "maintenance")).toBe(false);
+  });
+
+  it("gives new top-level codes an unused colour and children none of their own", () => {
+    const top = createCodebookCode("  Care ", codebook);
+    expect(top.name).toBe("Care");
+    expect(top.color).toMatch(/^#[0-9a-f]{6}$/i);
+    expect(createCodebookCode("Sub", codebook, "play").color).toBeUndefined();
+  });
+
+  it("reports duplicate sibling names and bad colours", () => {
+    expect(validateCodebook(codebook)).toEqual([]);
+    expect(
+      validateCodebook([...codebook, { id: "x", name: "labour" }, { id: "y", name: "Odd", color: "red" }])
+    ).toEqual(['There is more than one "labour" code at the same level.', '"Odd" needs a colour in #rrggbb form.']);
+  });
+});
+
+describe("normalizeCodebook", () => {
+  it("drops malformed entries, missing parents and cycles", () => {
+    const result = normalizeCodebook([
+      { id: "a", name: "A", parentId: "b" },
+      { id: "b", name: "B", parentId: "a" },
+      { id: "c", name: "C", parentId: "missing", color: "nope" },
+      { id: "c", name: "Duplicate" },
+      { name: "No id" },
+      "junk",
+    ]);
+    expect(result).toHaveLength(3);
+    expect(result?.find((c) => c.id === "c")).toEqual({ id: "c", name: "C", parentId: undefined, color: undefined, description: undefined });
+    // Exactly one of the pair is lifted to the top level
+    expect(result?.filter((c) => c.parentId === undefined && c.id !== "c")).toHaveLength(1);
+  });
+
+  it("returns undefined when nothing is usable", () => {
+    expect(normalizeCodebook("nope")).toBeUndefined();
+    expect(normalizeCodebook([{}])).toBeUndefined();
+  });
+});
+
+describe("coding annotations", () => {
+  const annotations = [
+    { codes: ["patching", "play"] },
+    { codes: ["maintenance"] },
+    { codes: ["play", "play"] },
+    {},
+  ];
+
+  it("prunes codes the codebook no longer has", () => {
+    expect(pruneAnnotationCodes(["play", "gone", "play"], codebook)).toEqual(["play"]);
+    expect(pruneAnnotationCodes(["gone"], codebook)).toBeUndefined();
+  });
+
+  it("counts codes directly and with their descendants", () => {
+    const counts = Object.fromEntries(codeFrequencies(annotations, codebook).map((f) => [f.code.id, [f.direct, f.total]]));
+    expect(counts).toEqual({ labour: [0, 2], maintenance: [1, 2], patching: [1, 1], play: [2, 2] });
+  });
+
+  it("counts co-occurrence once per annotation", () => {
+    expect(codeCooccurrence(annotations, ["patching", "play"])).toEqual([
+      [1, 1],
+      [1, 2],
+    ]);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Codebook
+ * A project's qualitative codes: a tree of named codes that annotations can carry any number of,
+ * as in qualitative research software. Filtering by a code includes its descendants, so coding
+ * an annotation with "Labour > Maintenance" also counts it under "Labour".
+ */
+
+import { generateId } from "@/lib/utils";
+import type { CodebookCode, LineAnnotation, Session } from "@/types/session";
+import { ANNOTATION_TYPE_PALETTE } from "@/lib/annotation-taxonomy";
+
+// Chip colour for codes with no colour of their own or on any ancestor
+const DEFAULT_CODE_COLOR = "#6b7280";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Returned for sessions without a codebook, so callers comparing by reference see no change
+const EMPTY_CODEBOOK: CodebookCode[] = [];
+
+/**
+ * The session's codebook, or an empty one
+ */
+export function getCodebook(session?: Pick<Session, "codebook"> | null): CodebookCode[] {
+  return session?.codebook ?? EMPTY_CODEBOOK;
+}
+
+/**
+ * The code and its ancestors, root first. Stops at a missing parent or a cycle.
+ */
+export function getCodePath(codebook: CodebookCode[], id: string): CodebookCode[] {
+  const path: CodebookCode[] = [];
+  const seen = new Set<string>();
+  let current = codebook.find((c) => c.id === id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = parentId ? codebook.find((c) => c.id === parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * "Labour › Maintenance", or the id itself for codes the codebook no longer has
+ */
+export function formatCodePath(codebook: CodebookCode[], id: string, separator = " › "): string {
+  const path = getCodePath(codebook, id);
+  return path.length > 0 ? path.map((c) => c.name).join(separator) : id;
+}
+
+/**
+ * The code's own colour, else the nearest ancestor's, else neutral grey
+ */
+export function getCodeColor(codebook: CodebookCode[], id: string): string {
+  const path = getCodePath(codebook, id);
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (path[i].color) return path[i].color as string;
+  }
+  return DEFAULT_CODE_COLOR;
+}
+
+/**
+ * Ids of the code and every code nested beneath it
+ */
+export function getCodeDescendantIds(codebook: CodebookCode[], id: string): Set<string> {
+  const ids = new Set<string>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const code of codebook) {
+      if (code.parentId && ids.has(code.parentId) && !ids.has(code.id)) {
+        ids.add(code.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * The codebook in tree order (each code followed by its children) with nesting depth,
+ * for rendering indented lists
+ */
+export function flattenCodebook(codebook: CodebookCode[]): Array<{ code: CodebookCode; depth: number }> {
+  const ids = new Set(codebook.map((c) => c.id));
+  const rows: Array<{ code: CodebookCode; depth: number }> = [];
+  const visited = new Set<string>();
+
+  const visit = (code: CodebookCode, depth: number) => {
+    if (visited.has(code.id)) return;
+    visited.add(code.id);
+    rows.push({ code, depth });
+    for (const child of codebook) {
+      if (child.parentId === code.id) visit(child, depth + 1);
+    }
+  };
+
+  for (const code of codebook) {
+    if (!code.parentId || !ids.has(code.parentId)) visit(code, 0);
+  }
+  return rows;
+}
+
+/**
+ * Build a new code with a fresh id, taking the next unused palette colour for top-level codes
+ * (child codes inherit their parent's colour)
+ */
+export function createCodebookCode(
+  name: string,
+  codebook: CodebookCode[],
+  parentId?: string,
+  description?: string
+): CodebookCode {
+  let color: string | undefined;
+  if (!parentId) {
+    const used = new Set(codebook.map((c) => c.color?.toLowerCase()));
+    const free = ANNOTATION_TYPE_PALETTE.find((c) => !used.has(c.light.toLowerCase()));
+    const roots = codebook.filter((c) => !c.parentId).length;
+    color = (free || ANNOTATION_TYPE_PALETTE[roots % ANNOTATION_TYPE_PALETTE.length]).light;
+  }
+  return {
+    id: generateId(),
+    name: name.trim(),
+    parentId,
+    color,
+    description: description?.trim() || undefined,
+  };
+}
+
+/**
+ * Remove a code. Its children move up to its parent so their coding is kept.
+ */
+export function removeCodebookCode(codebook: CodebookCode[], id: string): CodebookCode[] {
+  const removed = codebook.find((c) => c.id === id);
+  if (!removed) return codebook;
+  return codebook
+    .filter((c) => c.id !== id)
+    .map((c) => (c.parentId === id ? { ...c, parentId: removed.parentId } : c));
+}
+
+/**
+ * Whether moving a code under newParentId would put it inside itself
+ */
+export function wouldCreateCodeCycle(codebook: CodebookCode[], id: string, newParentId: string | undefined): boolean {
+  return !!newParentId && getCodeDescendantIds(codebook, id).has(newParentId);
+}
+
+/**
+ * Problems that would stop a codebook being saved, or an empty list
+ */
+export function validateCodebook(codebook: CodebookCode[]): string[] {
+  const problems: string[] = [];
+  const siblingNames = new Set<string>();
+  for (const code of codebook) {
+    if (!code.name.trim()) {
+      problems.push("Every code needs a name.");
+      continue;
+    }
+    const key = `${code.parentId ?? ""}/${code.name.trim().toLowerCase()}`;
+    if (siblingNames.has(key)) {
+      problems.push(`There is more than one "${code.name.trim()}" code at the same level.`);
+    }
+    siblingNames.add(key);
+    if (code.color && !HEX_COLOR.test(code.color)) {
+      problems.push(`"${code.name.trim()}" needs a colour in #rrggbb form.`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read a codebook from saved or imported data, dropping malformed entries and parents
+ * that are missing or would form a cycle. Returns undefined when nothing usable is left.
+ */
+export function normalizeCodebook(raw: unknown): CodebookCode[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const codes: CodebookCode[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const item = entry as Record<string, unknown>;
+    const id = typeof item.id === "string" ? item.id.trim() : "";
+    const name = typeof item.name === "string" ? item.name.trim() : "";
+    if (!id || !name || codes.some((c) => c.id === id)) continue;
+    codes.push({
+      id,
+      name,
+      parentId: typeof item.parentId === "string" && item.parentId ? item.parentId : undefined,
+      color: typeof item.color === "string" && HEX_COLOR.test(item.color) ? item.color : undefined,
+      description: typeof item.description === "string" && item.description.trim() ? item.description.trim() : undefined,
+    });
+  }
+
+  const ids = new Set(codes.map((c) => c.id));
+  const result: CodebookCode[] = codes.map((c) => (c.parentId && !ids.has(c.parentId) ? { ...c, parentId: undefined } : c));
+  // Break cycles by lifting the first code found in one to the top level
+  for (let i = 0; i < result.length; i++) {
+    const code = result[i];
+    if (code.parentId && getCodePath(result, code.id)[0]?.parentId) {
+      result[i] = { ...code, parentId: undefined };
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * An annotation's codes limited to those the codebook has, without duplicates.
+ * Returns undefined when none are left.
+ */
+export function pruneAnnotationCodes(codes: string[] | undefined, codebook: CodebookCode[]): string[] | undefined {
+  if (!codes || codes.length === 0) return undefined;
+  const ids = new Set(codebook.map((c) => c.id));
+  const kept = Array.from(new Set(codes.filter((id) => ids.has(id))));
+  return kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * Whether the annotation carries any of the given code ids (pass getCodeDescendantIds
+ * to include nested codes)
+ */
+export function annotationHasCode(annotation: Pick<LineAnnotation, "codes">, codeIds: Set<string>): boolean {
+  return !!annotation.codes?.some((id) => codeIds.has(id));
+}
+
+export interface CodeFrequency {
+  code: CodebookCode;
+  depth: number;
+  direct: number;     // Annotations coded with exactly this code
+  total: number;      // Annotations coded with this code or any nested beneath it
+}
+
+/**
+ * How many annotations carry each code, in codebook tree order
+ */
+export function codeFrequencies(
+  annotations: Array<Pick<LineAnnotation, "codes">>,
+  codebook: CodebookCode[]
+): CodeFrequency[] {
+  return flattenCodebook(codebook).map(({ code, depth }) => {
+    const family = getCodeDescendantIds(codebook, code.id);
+    let direct = 0;
+    let total = 0;
+    for (const annotation of annotations) {
+      if (annotation.codes?.includes(code.id)) direct++;
+      if (annotationHasCode(annotation, family)) total++;
+    }
+    return { code, depth, direct, total };
+  });
+}
+
+/**
+ * Co-occurrence counts for the given codes: matrix[i][j] is the number of annotations
+ * carrying both codeIds[i] and codeIds[j] (the diagonal is each code's own count)
+ */
+export function codeCooccurrence(
+  annotations: Array<Pick<LineAnnotation, "codes">>,
+  codeIds: string[]
+): number[][] {
+  const index = new Map(codeIds.map((id, i) => [id, i]));
+  const matrix = codeIds.map(() => codeIds.map(() => 0));
+  for (const annotation of annotations) {
+    const present = Array.from(new Set(annotation.codes || []))
+      .map((id) => index.get(id))
+      .filter((i): i is number => i !== undefined);
+    for (const i of present) {
+      for (const j of present) matrix[i][j]++;
+    }
+  }
+  return matrix;
+}
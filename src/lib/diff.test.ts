@@ -0,0 +1,164 @@
+import { describe, expect, it } from "@jest/globals";
+import { collapseUnchanged, comparisonKey, diffInline, diffLines, type DiffLine } from "./diff";
+
+// Rebuild each side from the diff, to check nothing is lost or duplicated
+function sides(diff: DiffLine[]): { a: string[]; b: string[] } {
+  const a: string[] = [];
+  const b: string[] = [];
+  for (const line of diff) {
+    if (line.lineNumberA !== null) a.push(line.contentA);
+    if (line.lineNumberB !== null) b.push(line.contentB);
+  }
+  return { a, b };
+}
+
+// Length of the longest common subsequence, by dynamic programming
+function lcsLength(a: string[], b: string[]): number {
+  const row = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Small deterministic generator so the randomised cases are repeatable
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+describe("diffLines", () => {
+  it("reports identical texts as unchanged", () => {
+    const diff = diffLines("a\nb\nc", "a\nb\nc");
+    expect(diff.map((l) => l.type)).toEqual(["unchanged", "unchanged", "unchanged"]);
+  });
+
+  it("finds added and removed lines with their line numbers", () => {
+    const diff = diffLines("one\ntwo\nthree", "one\nthree\nfour");
+    expect(diff).toEqual([
+      { type: "unchanged", lineNumberA: 1, lineNumberB: 1, contentA: "one", contentB: "one" },
+      { type: "removed", lineNumberA: 2, lineNumberB: null, contentA: "two", contentB: "" },
+      { type: "unchanged", lineNumberA: 3, lineNumberB: 2, contentA: "three", contentB: "three" },
+      { type: "added", lineNumberA: null, lineNumberB: 3, contentA: "", contentB: "four" },
+    ]);
+  });
+
+  it("pairs similar changed lines as modified", () => {
+    const diff = diffLines("x = 1\nprint(x)", "x = 2\nprint(x)");
+    expect(diff[0]).toMatchObject({ type: "modified", contentA: "x = 1", contentB: "x = 2" });
+    expect(diff[1].type).toBe("unchanged");
+  });
+
+  it("anchors on unique lines rather than repeated braces (patience)", () => {
+    const a = ["function a() {", "  one();", "}", "", "function b() {", "  two();", "}"].join("\n");
+    const b = ["function b() {", "  two();", "}", "", "function a() {", "  one();", "}"].join("\n");
+    const diff = diffLines(a, b);
+    const unchanged = diff.filter((l) => l.type === "unchanged").map((l) => l.contentA);
+    // One function is kept whole and the other moved, not a brace-by-brace interleaving
+    expect(unchanged.filter((l) => l.startsWith("function"))).toHaveLength(1);
+    expect(diff.filter((l) => l.moved).length).toBeGreaterThan(0);
+  });
+
+  it("flags lines moved elsewhere in the file", () => {
+    const diff = diffLines("alpha\nbeta\ngamma\ndelta", "beta\ngamma\ndelta\nalpha");
+    expect(diff.filter((l) => l.moved).map((l) => l.type).sort()).toEqual(["added", "removed"]);
+  });
+
+  it("ignores whitespace and sequence columns when asked", () => {
+    expect(diffLines("if (x) {", "if(x){", { ignoreWhitespace: true })[0].type).toBe("unchanged");
+
+    const card = (code: string, seq: string) => code.padEnd(72) + seq;
+    const diff = diffLines(card("      PRINT 10", "00000010"), card("      PRINT 10", "00000020"), {
+      ignoreSequenceColumns: true,
+    });
+    expect(diff[0].type).toBe("unchanged");
+  });
+
+  it("keeps both sides whole for texts of repeated lines", () => {
+    const next = random(42);
+    const alphabet = ["{", "}", "x", "y", ""];
+    for (let round = 0; round < 200; round++) {
+      const make = () => Array.from({ length: Math.floor(next() * 12) }, () => alphabet[Math.floor(next() * alphabet.length)]);
+      const a = make();
+      const b = make();
+      const diff = diffLines(a.join("\n"), b.join("\n"));
+      const linesA = a.join("\n").split("\n");
+      const linesB = b.join("\n").split("\n");
+
+      expect(sides(diff)).toEqual({ a: linesA, b: linesB });
+    }
+  });
+
+  it("keeps both sides whole for longer texts with unique lines (patience)", () => {
+    const next = random(7);
+    for (let round = 0; round < 50; round++) {
+      const a = Array.from({ length: 60 }, (_, i) => (next() < 0.3 ? "}" : `line ${i}`));
+      const b = a.filter(() => next() > 0.2).map((l) => (next() < 0.1 ? `${l} changed` : l));
+      b.splice(Math.floor(next() * b.length), 0, "inserted");
+      const diff = diffLines(a.join("\n"), b.join("\n"));
+      expect(sides(diff)).toEqual({ a, b });
+    }
+  });
+});
+
+describe("diffInline", () => {
+  it("matches a longest common subsequence of tokens (Myers is minimal)", () => {
+    const next = random(42);
+    const symbols = ["{", "}", "(", ")", ";"];
+    for (let round = 0; round < 300; round++) {
+      const make = () => Array.from({ length: Math.floor(next() * 30) }, () => symbols[Math.floor(next() * symbols.length)]);
+      const a = make();
+      const b = make();
+      const { a: segments } = diffInline(a.join(""), b.join(""));
+      const unchanged = segments.filter((s) => !s.changed).reduce((sum, s) => sum + s.text.length, 0);
+      expect(unchanged).toBe(lcsLength(a, b));
+    }
+  });
+
+  it("highlights only the words that changed", () => {
+    const { a, b } = diffInline("total = price * qty", "total = cost * qty");
+    expect(a.filter((s) => s.changed).map((s) => s.text)).toEqual(["price"]);
+    expect(b.filter((s) => s.changed).map((s) => s.text)).toEqual(["cost"]);
+  });
+
+  it("never highlights ignored sequence columns", () => {
+    const { b } = diffInline("      GO TO 10".padEnd(72) + "00000010", "      GO TO 20".padEnd(72) + "00000020", {
+      ignoreSequenceColumns: true,
+    });
+    expect(b[b.length - 1]).toEqual({ text: "00000020", changed: false });
+  });
+});
+
+describe("collapseUnchanged", () => {
+  const diff = diffLines(
+    Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n"),
+    Array.from({ length: 20 }, (_, i) => (i === 10 ? "line 10 changed" : `line ${i}`)).join("\n")
+  );
+
+  it("keeps context around changes and collapses the rest", () => {
+    const rows = collapseUnchanged(diff, 2);
+    expect(rows[0]).toEqual({ kind: "gap", start: 0, end: 8 });
+    expect(rows.filter((r) => r.kind === "line")).toHaveLength(5);
+    expect(rows[rows.length - 1]).toEqual({ kind: "gap", start: 13, end: 20 });
+  });
+
+  it("shows expanded gaps in full", () => {
+    const rows = collapseUnchanged(diff, 2, new Set([0]));
+    expect(rows.slice(0, 8).every((r) => r.kind === "line")).toBe(true);
+  });
+});
+
+describe("comparisonKey", () => {
+  it("drops whitespace and sequence columns", () => {
+    expect(comparisonKey("  a  b ", { ignoreWhitespace: true })).toBe("ab");
+    expect(comparisonKey("CODE".padEnd(72) + "12345678", { ignoreSequenceColumns: true })).toBe("CODE");
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Line Diff
+ * Patience diff over lines, falling back to linear-space Myers for regions without unique
+ * lines, plus word-level diffs within changed lines. Lines are compared by a key so that
+ * whitespace or punch-card sequence columns (73-80) can be ignored.
+ */
+
+export interface DiffOptions {
+  ignoreWhitespace?: boolean;       // Compare lines with all whitespace removed
+  ignoreSequenceColumns?: boolean;  // Compare only columns 1-72 (card sequence numbers live in 73-80)
+}
+
+export type DiffLineType = "unchanged" | "added" | "removed" | "modified";
+
+export interface DiffLine {
+  type: DiffLineType;
+  lineNumberA: number | null;
+  lineNumberB: number | null;
+  contentA: string;
+  contentB: string;
+  moved?: boolean;  // Removed/added line whose text also appears on the other side (a moved line)
+}
+
+export interface InlineSegment {
+  text: string;
+  changed: boolean;
+}
+
+// Columns 73-80 of a punched card hold the sequence number, not code
+export const SEQUENCE_COLUMN_START = 72;
+
+// Work limit for a single Myers pass; beyond it the region is reported as replaced outright
+const MYERS_MAX_COST = 20_000_000;
+
+// Changed lines are paired as "modified" (rather than removed + added) above this similarity
+const MODIFIED_SIMILARITY = 0.4;
+
+// Lines of unchanged context kept around each change when collapsing
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * The text a line is compared by under the given options
+ */
+export function comparisonKey(line: string, options: DiffOptions = {}): string {
+  let key = line;
+  if (options.ignoreSequenceColumns) key = key.slice(0, SEQUENCE_COLUMN_START).trimEnd();
+  if (options.ignoreWhitespace) key = key.replace(/\s+/g, "");
+  return key;
+}
+
+// Map keys to small integers so the diff compares numbers, not strings
+function internKeys(a: string[], b: string[]): [number[], number[]] {
+  const ids = new Map<string, number>();
+  const intern = (key: string) => {
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    return id;
+  };
+  return [a.map(intern), b.map(intern)];
+}
+
+type Match = [number, number];
+
+/**
+ * Split point of the middle snake between a[aLo, aHi) and b[bLo, bHi) (Myers 1986, linear space),
+ * or null if there is nothing in common or the work limit was reached.
+ */
+function bisect(
+  a: number[], aLo: number, aHi: number,
+  b: number[], bLo: number, bHi: number
+): Match | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD + 2;
+  const v1 = new Int32Array(length).fill(-1);
+  const v2 = new Int32Array(length).fill(-1);
+  v1[offset + 1] = 0;
+  v2[offset + 1] = 0;
+  const delta = n - m;
+  const front = delta % 2 !== 0;
+  let k1start = 0, k1end = 0, k2start = 0, k2end = 0;
+  let cost = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    // Forward path
+    for (let k1 = -d + k1start; k1 <= d - k1end; k1 += 2) {
+      const k1Offset = offset + k1;
+      let x1 = k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      const snakeStart = x1;
+      while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      cost += 1 + x1 - snakeStart;
+      if (x1 > n) {
+        k1end += 2;
+      } else if (y1 > m) {
+        k1start += 2;
+      } else if (front) {
+        const k2Offset = offset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < length && v2[k2Offset] !== -1 && x1 >= n - v2[k2Offset]) {
+          return [aLo + x1, bLo + y1];
+        }
+      }
+    }
+
+    // Reverse path
+    for (let k2 = -d + k2start; k2 <= d - k2end; k2 += 2) {
+      const k2Offset = offset + k2;
+      let x2 = k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      const snakeStart = x2;
+      while (x2 < n && y2 < m && a[aHi - x2 - 1] === b[bHi - y2 - 1]) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      cost += 1 + x2 - snakeStart;
+      if (x2 > n) {
+        k2end += 2;
+      } else if (y2 > m) {
+        k2start += 2;
+      } else if (!front) {
+        const k1Offset = offset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < length && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = offset + x1 - k1Offset;
+          if (x1 >= n - x2) {
+            return [aLo + x1, bLo + y1];
+          }
+        }
+      }
+    }
+
+    if (cost > MYERS_MAX_COST) return null;
+  }
+  return null;
+}
+
+// Myers diff of a[aLo, aHi) against b[bLo, bHi), appending matched index pairs in order
+function myers(
+  a: number[], aLo: number, aHi: number,
+  b: number[], bLo: number, bHi: number,
+  out: Match[]
+): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    out.push([aLo++, bLo++]);
+  }
+  const tail: Match[] = [];
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    tail.push([--aHi, --bHi]);
+  }
+
+  if (aLo < aHi && bLo < bHi) {
+    const split = bisect(a, aLo, aHi, b, bLo, bHi);
+    if (split) {
+      myers(a, aLo, split[0], b, bLo, split[1], out);
+      myers(a, split[0], aHi, b, split[1], bHi, out);
+    }
+  }
+
+  for (let i = tail.length - 1; i >= 0; i--) out.push(tail[i]);
+}
+
+// Longest increasing subsequence of pairs by their second element (patience sorting)
+function longestIncreasing(pairs: Match[]): Match[] {
+  const tops: number[] = [];           // Index into pairs of the top card of each pile
+  const previous: number[] = new Array(pairs.length);
+  for (let i = 0; i < pairs.length; i++) {
+    const value = pairs[i][1];
+    let lo = 0;
+    let hi = tops.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tops[mid]][1] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[i] = lo > 0 ? tops[lo - 1] : -1;
+    tops[lo] = i;
+  }
+  const result: Match[] = [];
+  for (let i = tops.length > 0 ? tops[tops.length - 1] : -1; i !== -1; i = previous[i]) {
+    result.push(pairs[i]);
+  }
+  return result.reverse();
+}
+
+// Patience diff: anchor on lines that occur exactly once on each side, recurse between anchors,
+// and fall back to Myers where there are no unique lines
+function patience(
+  a: number[], aLo: number, aHi: number,
+  b: number[], bLo: number, bHi: number,
+  out: Match[]
+): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    out.push([aLo++, bLo++]);
+  }
+  const tail: Match[] = [];
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    tail.push([--aHi, --bHi]);
+  }
+
+  if (aLo < aHi && bLo < bHi) {
+    // Occurrence counts; -1 marks a line seen more than once
+    const inA = new Map<number, number>();
+    for (let i = aLo; i < aHi; i++) inA.set(a[i], inA.has(a[i]) ? -1 : i);
+    const inB = new Map<number, number>();
+    for (let j = bLo; j < bHi; j++) inB.set(b[j], inB.has(b[j]) ? -1 : j);
+
+    const unique: Match[] = [];
+    inA.forEach((i, key) => {
+      const j = inB.get(key);
+      if (i !== -1 && j !== undefined && j !== -1) unique.push([i, j]);
+    });
+    unique.sort((x, y) => x[0] - y[0]);
+
+    const anchors = longestIncreasing(unique);
+    if (anchors.length === 0) {
+      myers(a, aLo, aHi, b, bLo, bHi, out);
+    } else {
+      let prevA = aLo;
+      let prevB = bLo;
+      for (const [i, j] of anchors) {
+        patience(a, prevA, i, b, prevB, j, out);
+        out.push([i, j]);
+        prevA = i + 1;
+        prevB = j + 1;
+      }
+      patience(a, prevA, aHi, b, prevB, bHi, out);
+    }
+  }
+
+  for (let i = tail.length - 1; i >= 0; i--) out.push(tail[i]);
+}
+
+// Sørensen–Dice similarity over character bigrams (1 = identical)
+function similarity(x: string, y: string): number {
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const pair = x.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const pair = y.slice(i, i + 2);
+    const count = counts.get(pair);
+    if (count) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  }
+  return (2 * shared) / (x.length + y.length - 2);
+}
+
+/**
+ * Diff two texts line by line.
+ * Runs of removed and added lines are paired as "modified" where they are similar, and
+ * removed/added lines whose text appears on the other side are flagged as moved.
+ */
+export function diffLines(textA: string, textB: string, options: DiffOptions = {}): DiffLine[] {
+  const linesA = textA.split("\n");
+  const linesB = textB.split("\n");
+  const keysA = linesA.map((line) => comparisonKey(line, options));
+  const keysB = linesB.map((line) => comparisonKey(line, options));
+  const [a, b] = internKeys(keysA, keysB);
+
+  const matches: Match[] = [];
+  patience(a, 0, a.length, b, 0, b.length, matches);
+  matches.push([a.length, b.length]); // Sentinel to flush the final change block
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [mi, mj] of matches) {
+    // Change block: a[i, mi) removed, b[j, mj) added
+    const removed = mi - i;
+    const added = mj - j;
+    const paired = Math.min(removed, added);
+    let k = 0;
+    for (; k < paired; k++) {
+      if (similarity(keysA[i + k], keysB[j + k]) < MODIFIED_SIMILARITY) break;
+      result.push({
+        type: "modified",
+        lineNumberA: i + k + 1,
+        lineNumberB: j + k + 1,
+        contentA: linesA[i + k],
+        contentB: linesB[j + k],
+      });
+    }
+    for (let r = k; r < removed; r++) {
+      result.push({ type: "removed", lineNumberA: i + r + 1, lineNumberB: null, contentA: linesA[i + r], contentB: "" });
+    }
+    for (let r = k; r < added; r++) {
+      result.push({ type: "added", lineNumberA: null, lineNumberB: j + r + 1, contentA: "", contentB: linesB[j + r] });
+    }
+
+    if (mi < a.length) {
+      result.push({
+        type: "unchanged",
+        lineNumberA: mi + 1,
+        lineNumberB: mj + 1,
+        contentA: linesA[mi],
+        contentB: linesB[mj],
+      });
+    }
+    i = mi + 1;
+    j = mj + 1;
+  }
+
+  // Flag moves: a removed line whose text was added elsewhere, and vice versa
+  const removedKeys = new Set<string>();
+  const addedKeys = new Set<string>();
+  for (const line of result) {
+    if (line.type === "removed" && line.lineNumberA) removedKeys.add(keysA[line.lineNumberA - 1]);
+    if (line.type === "added" && line.lineNumberB) addedKeys.add(keysB[line.lineNumberB - 1]);
+  }
+  for (const line of result) {
+    const key = line.type === "removed" && line.lineNumberA
+      ? keysA[line.lineNumberA - 1]
+      : line.type === "added" && line.lineNumberB ? keysB[line.lineNumberB - 1] : "";
+    if (key.trim() && (line.type === "removed" ? addedKeys : removedKeys).has(key)) {
+      line.moved = true;
+    }
+  }
+
+  return result;
+}
+
+// Merge adjacent tokens with the same changed flag into segments
+function toSegments(tokens: string[], changed: boolean[]): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  tokens.forEach((text, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed[i]) last.text += text;
+    else segments.push({ text, changed: changed[i] });
+  });
+  return segments;
+}
+
+/**
+ * Word-level diff of two versions of a line, for highlighting what changed within it.
+ * Sequence columns are never highlighted when ignored, and whitespace runs compare
+ * equal when whitespace is ignored.
+ */
+export function diffInline(
+  lineA: string,
+  lineB: string,
+  options: DiffOptions = {}
+): { a: InlineSegment[]; b: InlineSegment[] } {
+  const split = (line: string): [string, string] => options.ignoreSequenceColumns
+    ? [line.slice(0, SEQUENCE_COLUMN_START), line.slice(SEQUENCE_COLUMN_START)]
+    : [line, ""];
+  const [bodyA, restA] = split(lineA);
+  const [bodyB, restB] = split(lineB);
+
+  const tokenize = (text: string) => text.match(/\s+|\w+|[^\w\s]/g) || [];
+  const tokensA = tokenize(bodyA);
+  const tokensB = tokenize(bodyB);
+  const key = (token: string) => (options.ignoreWhitespace && /^\s+$/.test(token) ? " " : token);
+  const [a, b] = internKeys(tokensA.map(key), tokensB.map(key));
+
+  const matches: Match[] = [];
+  myers(a, 0, a.length, b, 0, b.length, matches);
+  const changedA = tokensA.map(() => true);
+  const changedB = tokensB.map(() => true);
+  for (const [i, j] of matches) {
+    changedA[i] = false;
+    changedB[j] = false;
+  }
+  // Whitespace is only worth highlighting when it is what changed
+  if (options.ignoreWhitespace) {
+    tokensA.forEach((t, i) => { if (/^\s+$/.test(t)) changedA[i] = false; });
+    tokensB.forEach((t, i) => { if (/^\s+$/.test(t)) changedB[i] = false; });
+  }
+
+  const segmentsA = toSegments(tokensA, changedA);
+  const segmentsB = toSegments(tokensB, changedB);
+  if (restA) segmentsA.push({ text: restA, changed: false });
+  if (restB) segmentsB.push({ text: restB, changed: false });
+  return { a: segmentsA, b: segmentsB };
+}
+
+export type DiffRow =
+  | { kind: "line"; index: number }          // Index into the diff
+  | { kind: "gap"; start: number; end: number }; // Collapsed unchanged lines diff[start, end)
+
+/**
+ * Collapse long runs of unchanged lines down to a few lines of context around each change.
+ * Gaps whose start index is in `expanded` are shown in full.
+ */
+export function collapseUnchanged(
+  diff: DiffLine[],
+  context: number = DEFAULT_CONTEXT_LINES,
+  expanded: ReadonlySet<number> = new Set()
+): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type !== "unchanged") {
+      rows.push({ kind: "line", index: i++ });
+      continue;
+    }
+    let end = i;
+    while (end < diff.length && diff[end].type === "unchanged") end++;
+
+    // Keep context after the previous change and before the next one
+    const keepBefore = i === 0 ? 0 : context;
+    const keepAfter = end === diff.length ? 0 : context;
+    const gapStart = i + keepBefore;
+    const gapEnd = end - keepAfter;
+    if (gapEnd - gapStart > 1 && !expanded.has(gapStart)) {
+      for (let k = i; k < gapStart; k++) rows.push({ kind: "line", index: k });
+      rows.push({ kind: "gap", start: gapStart, end: gapEnd });
+      for (let k = gapEnd; k < end; k++) rows.push({ kind: "line", index: k });
+    } else {
+      for (let k = i; k < end; k++) rows.push({ kind: "line", index: k });
+    }
+    i = end;
+  }
+  return rows;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "@jest/globals";
+import { DEFAULT_ANNOTATION_TAXONOMY, type CodeReference, type LineAnnotation } from "@/types/session";
+import { ANNOTATION_CSV_COLUMNS, generateAnnotationsCSV } from "./annotation-csv";
+
+const codeFiles: CodeReference[] = [{ id: "f", name: "main.c", size: 0, uploadedAt: "2026-01-01T00:00:00.000Z" }];
+
+function annotate(overrides: Partial<LineAnnotation>): LineAnnotation {
+  return {
+    id: "a",
+    codeFileId: "f",
+    lineNumber: 3,
+    lineContent: "x = 1;",
+    type: "observation",
+    content: "note",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// Fields of the one data row, split on the commas outside quotes
+function row(annotation: LineAnnotation): Record<string, string> {
+  const lines = generateAnnotationsCSV([annotation], codeFiles, DEFAULT_ANNOTATION_TAXONOMY).split("\r\n");
+  const fields = lines[1].match(/("([^"]|"")*"|[^,]*)(,|$)/g)!.map((f) => f.replace(/,$/, ""));
+  return Object.fromEntries(ANNOTATION_CSV_COLUMNS.map((column, i) => [column, fields[i]]));
+}
+
+describe("generateAnnotationsCSV", () => {
+  it("writes a header and CRLF-terminated rows", () => {
+    const csv = generateAnnotationsCSV([annotate({})], codeFiles, DEFAULT_ANNOTATION_TAXONOMY);
+    expect(csv.startsWith(ANNOTATION_CSV_COLUMNS.join(",") + "\r\n")).toBe(true);
+    expect(csv.endsWith("\r\n")).toBe(true);
+    expect(row(annotate({}))).toMatchObject({ file: "main.c", start_line: "3", end_line: "3", orphaned: "false" });
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    const fields = row(annotate({ content: 'a "quoted", \nvalue', lineContent: "plain" }));
+    expect(fields.content).toBe('"a ""quoted"", \nvalue"');
+    expect(fields.line_content).toBe("plain");
+  });
+
+  it("keeps text that looks like a formula as text", () => {
+    expect(row(annotate({ content: "=HYPERLINK(\"x\")" })).content).toBe('"\'=HYPERLINK(""x"")"');
+    expect(row(annotate({ content: "@SUM(A1)" })).content).toBe("'@SUM(A1)");
+    expect(row(annotate({ lineContent: "-1 + x" })).line_content).toBe("'-1 + x");
+    expect(row(annotate({ lineContent: "\tindented" })).line_content).toBe("'\tindented");
+    // Numbers are written as numbers
+    expect(row(annotate({ lineNumber: 1, endLineNumber: 2 })).end_line).toBe("2");
+  });
+
+  it("lists replies, status and mentions", () => {
+    const fields = row(
+      annotate({
+        type: "question",
+        content: "Why? @ab",
+        replies: [{ id: "r", content: "Ask @CD", createdAt: "2026-01-02T00:00:00.000Z", addedBy: "AB" }],
+      })
+    );
+    expect(fields).toMatchObject({ status: "open", reply_count: "1", replies: "AB: Ask @CD", mentions: "AB; CD" });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Annotation CSV Export
+ *
+ * One row per annotation, for counting and cross-tabulating readings in a spreadsheet
+ * or statistics package. Fields follow RFC 4180 quoting, and text fields that a spreadsheet
+ * would read as a formula are prefixed with an apostrophe.
+ */
+
+import type { AnnotationTypeDefinition, CodebookCode, CodeReference, LineAnnotation } from "@/types";
+import { getAnnotationTypeLabel } from "@/lib/annotation-taxonomy";
+import { formatCodePath } from "@/lib/codebook";
+import { extractMentions, getAnnotationStatus } from "@/lib/annotation-status";
+
+export const ANNOTATION_CSV_COLUMNS = [
+  "id",
+  "file",
+  "start_line",
+  "end_line",
+  "type",
+  "type_label",
+  "author",
+  "created_at",
+  "orphaned",
+  "status",
+  "status_changed_by",
+  "codes",
+  "content",
+  "line_content",
+  "reply_count",
+  "replies",
+  "mentions",
+] as const;
+
+// Spreadsheets evaluate text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | boolean | undefined): string {
+  let text = value === undefined ? "" : String(value);
+  // Annotated code often starts with = + - or @: keep it text rather than a formula
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build the CSV text for the annotations
+ */
+export function generateAnnotationsCSV(
+  annotations: LineAnnotation[],
+  codeFiles: CodeReference[],
+  taxonomy: AnnotationTypeDefinition[],
+  codebook: CodebookCode[] = []
+): string {
+  const fileNames = new Map(codeFiles.map((f) => [f.id, f.name]));
+  const rows = annotations.map((a) =>
+    [
+      a.id,
+      fileNames.get(a.codeFileId) ?? a.codeFileId,
+      a.lineNumber,
+      a.endLineNumber ?? a.lineNumber,
+      a.type,
+      getAnnotationTypeLabel(taxonomy, a.type),
+      a.addedBy,
+      a.createdAt,
+      !!a.orphaned,
+      getAnnotationStatus(a),
+      a.statusChangedBy,
+      (a.codes || []).map((id) => formatCodePath(codebook, id, " > ")).join("; "),
+      a.content,
+      a.lineContent,
+      a.replies?.length ?? 0,
+      (a.replies || []).map((r) => (r.addedBy ? `${r.addedBy}: ${r.content}` : r.content)).join(" | "),
+      extractMentions([a.content, ...(a.replies || []).map((r) => r.content)].join("\n")).join("; "),
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [ANNOTATION_CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Download the annotations as a CSV file
+ */
+export function exportAnnotationsCSV(
+  annotations: LineAnnotation[],
+  codeFiles: CodeReference[],
+  taxonomy: AnnotationTypeDefinition[],
+  codebook: CodebookCode[] = [],
+  fileName = "annotations"
+): void {
+  const csv = generateAnnotationsCSV(annotations, codeFiles, taxonomy, codebook);
+  // Byte order mark so spreadsheet applications read the file as UTF-8
+  const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${fileName}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
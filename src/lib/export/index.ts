@@ -3,9 +3,32 @@ export {
   exportSessionLogJSON,
   exportSessionLogText,
   exportSessionLogPDF,
+  generateSessionLogTEI,
+  exportSessionLogTEI,
+  importSessionLogTEI,
   MODE_CODES,
   MODE_LABELS,
-  LINE_ANNOTATION_TYPES,
   CCS_SKILL_VERSION,
   type SessionLogData,
+  type TEISessionImport,
 } from "./session-log";
+export {
+  generateWebAnnotations,
+  exportWebAnnotations,
+  parseWebAnnotations,
+  isDuplicateWebAnnotation,
+  isWebAnnotationDocument,
+  getWebAnnotationSource,
+  webAnnotationSource,
+  ANNOTATION_MOTIVATIONS,
+  WEB_ANNOTATION_CONTEXT,
+  type WebAnnotation,
+  type WebAnnotationCollection,
+  type WebAnnotationImport,
+  type ImportedWebAnnotation,
+} from "./web-annotation";
+export {
+  generateAnnotationsCSV,
+  exportAnnotationsCSV,
+  ANNOTATION_CSV_COLUMNS,
+} from "./annotation-csv";
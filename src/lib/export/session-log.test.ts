@@ -0,0 +1,120 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, expect, it, jest } from "@jest/globals";
+import type { Session } from "@/types/session";
+import { DEFAULT_DISPLAY_SETTINGS } from "@/types/session";
+import { generateSessionLog, generateSessionLogTEI, importSessionLogTEI } from "./session-log";
+
+// jsPDF probes for a canvas when loaded, which jsdom does not provide; PDF export is not tested here
+jest.mock("jspdf", () => ({ __esModule: true, default: jest.fn() }));
+
+const code = ["10 PRINT \"HELLO\"", "20 GOTO 10", "30 REM <end> & \"done\""].join("\n");
+
+const session: Session = {
+  id: "session-1",
+  mode: "critique",
+  experienceLevel: "practitioner",
+  messages: [
+    { id: "m1", role: "user", content: "What does line 20 do?", timestamp: "2026-01-02T10:00:00.000Z", parentId: null },
+    { id: "m2", role: "assistant", content: "It loops **forever** back to 10.", timestamp: "2026-01-02T10:00:05.000Z", parentId: "m1" },
+  ],
+  codeFiles: [
+    { id: "f1", name: "hello.bas", language: "basic", source: "upload", size: code.length, uploadedAt: "2026-01-02T09:00:00.000Z", author: "Anon", date: "1978" },
+  ],
+  codeContents: { f1: code },
+  lineAnnotations: [
+    { id: "a1", codeFileId: "f1", lineNumber: 2, lineContent: "20 GOTO 10", type: "observation", content: "An endless loop", createdAt: "2026-01-02T10:01:00.000Z", addedBy: "DB" },
+    { id: "a2", codeFileId: "f1", lineNumber: 1, endLineNumber: 3, lineContent: code, type: "question", content: "Why <shout> & greet?", createdAt: "2026-01-02T10:02:00.000Z" },
+  ],
+  analysisResults: [],
+  references: [],
+  critiqueArtifacts: [],
+  settings: { beDirectMode: false, teachMeMode: true },
+  displaySettings: DEFAULT_DISPLAY_SETTINGS,
+  currentPhase: "opening",
+  feedbackEscalation: 0,
+  createdAt: "2026-01-02T09:00:00.000Z",
+  lastModified: "2026-01-02T10:02:00.000Z",
+};
+
+const roundTrip = (s: Session) => {
+  const log = generateSessionLog(s, "Hello Project", new Map(Object.entries(s.codeContents)));
+  return importSessionLogTEI(generateSessionLogTEI(log));
+};
+
+describe("TEI export and import", () => {
+  it("round-trips the session", () => {
+    const imported = roundTrip(session);
+
+    expect(imported.id).toBe("session-1");
+    expect(imported.projectName).toBe("Hello Project");
+    expect(imported.mode).toBe("critique");
+    expect(imported.experienceLevel).toBe("practitioner");
+    expect(imported.settings).toEqual({ beDirectMode: false, teachMeMode: true });
+  });
+
+  it("round-trips code with characters XML escapes", () => {
+    const imported = roundTrip(session);
+
+    expect(imported.codeFiles).toHaveLength(1);
+    expect(imported.codeFiles[0]).toMatchObject({ id: "f1", name: "hello.bas", language: "basic" });
+    expect(imported.codeContents.f1).toBe(code);
+  });
+
+  it("round-trips annotations and their line ranges", () => {
+    const imported = roundTrip(session);
+    const byId = new Map(imported.lineAnnotations.map((a) => [a.id, a]));
+
+    expect(byId.get("a1")).toMatchObject({
+      codeFileId: "f1",
+      lineNumber: 2,
+      type: "observation",
+      content: "An endless loop",
+      addedBy: "DB",
+    });
+    expect(byId.get("a2")).toMatchObject({
+      lineNumber: 1,
+      endLineNumber: 3,
+      type: "question",
+      content: "Why <shout> & greet?",
+    });
+  });
+
+  it("round-trips the conversation", () => {
+    const imported = roundTrip(session);
+
+    expect(imported.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "What does line 20 do?"],
+      ["assistant", "It loops **forever** back to 10."],
+    ]);
+  });
+
+  it("declares the categories utterances point at and keeps their text out of <p>", () => {
+    const tagged: Session = {
+      ...session,
+      messages: [
+        { ...session.messages[0], metadata: { phase: "opening" } },
+        { ...session.messages[1], metadata: { phase: "opening", feedbackLevel: "direct" }, isFavourite: true },
+      ],
+    };
+    const log = generateSessionLog(tagged, "Hello Project", new Map(Object.entries(tagged.codeContents)));
+    const doc = new DOMParser().parseFromString(generateSessionLogTEI(log), "application/xml");
+    const categories = new Set(Array.from(doc.getElementsByTagName("category")).map((c) => c.getAttribute("xml:id")));
+    const utterances = Array.from(doc.getElementsByTagName("u"));
+
+    const pointers = utterances.flatMap((u) => (u.getAttribute("ana") || "").split(/\s+/).filter(Boolean));
+    expect(pointers).toEqual(["#phase-opening", "#phase-opening", "#feedback-direct", "#favourite"]);
+    pointers.forEach((pointer) => expect(categories).toContain(pointer.slice(1)));
+    expect(utterances.every((u) => u.getElementsByTagName("p").length === 0)).toBe(true);
+    expect(importSessionLogTEI(new XMLSerializer().serializeToString(doc)).messages[1]).toMatchObject({
+      content: "It loops **forever** back to 10.",
+      isFavourite: true,
+    });
+  });
+
+  it("rejects documents that are not CCS session logs", () => {
+    expect(() => importSessionLogTEI("<not-xml")).toThrow("Invalid XML");
+    expect(() => importSessionLogTEI("<root/>")).toThrow("Not a TEI P5 document");
+  });
+});
@@ -6,7 +6,26 @@
 
 import jsPDF from "jspdf";
 import { APP_VERSION } from "@/lib/config";
-import type { Session, LineAnnotation } from "@/types";
+import { countWords } from "@/lib/utils";
+import { getAnnotationTaxonomy, getAnnotationTypeDefinition, normalizeAnnotationTaxonomy } from "@/lib/annotation-taxonomy";
+import { codeFrequencies, flattenCodebook, formatCodePath, getCodebook } from "@/lib/codebook";
+import { ANNOTATION_STATUSES, ANNOTATION_STATUS_LABELS, getAnnotationStatus } from "@/lib/annotation-status";
+import type {
+  Session,
+  LineAnnotation,
+  LineAnnotationType,
+  AnnotationTypeDefinition,
+  AnnotationReplyData,
+  AnnotationStatus,
+  CodebookCode,
+  CodeReference,
+  Message,
+  ModelComparison,
+  EntryMode,
+  ConversationPhase,
+  FeedbackLevel,
+  ExperienceLevel,
+} from "@/types";
 import type { UserProfile } from "@/types/app-settings";
 
 // CCS Skill document version
@@ -28,46 +47,26 @@ export const MODE_LABELS: Record<string, string> = {
   WR: "Create",
 };
 
-// Annotation types for statistics
-export const LINE_ANNOTATION_TYPES = [
-  "observation",
-  "question",
-  "metaphor",
-  "pattern",
-  "context",
-  "critique",
-] as const;
-
-// Annotation type colors for PDF export (RGB values)
-// Less saturated for better readability in print
-export const ANNOTATION_COLORS: Record<string, { r: number; g: number; b: number }> = {
-  observation: { r: 96, g: 165, b: 250 },   // Lighter blue
-  question: { r: 251, g: 191, b: 36 },      // Lighter amber
-  metaphor: { r: 192, g: 132, b: 252 },     // Lighter purple
-  pattern: { r: 74, g: 222, b: 128 },       // Lighter green
-  context: { r: 148, g: 163, b: 184 },      // Lighter slate
-  critique: { r: 157, g: 78, b: 89 },       // Lighter burgundy
-};
+type RGB = { r: number; g: number; b: number };
 
-// Lighter versions for line backgrounds (higher values = lighter)
-export const ANNOTATION_BG_COLORS: Record<string, { r: number; g: number; b: number }> = {
-  observation: { r: 239, g: 246, b: 255 },   // Light blue
-  question: { r: 255, g: 251, b: 235 },      // Light amber
-  metaphor: { r: 250, g: 245, b: 255 },      // Light purple
-  pattern: { r: 240, g: 253, b: 244 },       // Light green
-  context: { r: 248, g: 250, b: 252 },       // Light slate
-  critique: { r: 253, g: 242, b: 244 },      // Light burgundy/pink
-};
+function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
 
-// Annotation type prefixes (abbreviations)
-export const ANNOTATION_PREFIXES: Record<string, string> = {
-  observation: "Obs",
-  question: "Q",
-  metaphor: "Met",
-  pattern: "Pat",
-  context: "Ctx",
-  critique: "Crit",
-};
+/**
+ * PDF colours for an annotation type: the pill uses the type's (lighter) dark-mode colour
+ * for readability in print, line backgrounds a pale tint of its light-mode colour
+ */
+function pdfTypeColors(types: AnnotationTypeDefinition[], id: string): { pill: RGB; background: RGB } {
+  const { color } = getAnnotationTypeDefinition(types, id);
+  const light = hexToRgb(color.light);
+  const tint = (channel: number) => Math.round(255 - (255 - channel) * 0.08);
+  return {
+    pill: hexToRgb(color.dark),
+    background: { r: tint(light.r), g: tint(light.g), b: tint(light.b) },
+  };
+}
 
 export interface SessionLogData {
   metadata: {
@@ -114,6 +113,29 @@ export interface SessionLogData {
       content: string;
       createdAt: string;
       addedBy?: string;
+      codes?: string[];   // Ids of codes from the codebook below
+      status?: AnnotationStatus;  // Open, resolved or won't fix (questions are open unless set)
+      statusChangedBy?: string;
+      // Link annotations: the range in the other file this annotation is read against
+      link?: {
+        fileId: string;
+        fileName?: string;
+        lineNumber: number;
+        endLineNumber?: number;
+        lineContent: string;
+      };
+      // AI-derived annotations: the assistant reply the text was saved from
+      provenance?: {
+        messageId?: string;
+        model?: string;
+      };
+      replies?: Array<{
+        id: string;
+        content: string;
+        createdAt: string;
+        addedBy?: string;
+        profileColor?: string;
+      }>;
     }>;
   }>;
   conversationLog: Array<{
@@ -123,7 +145,36 @@ export interface SessionLogData {
     timestamp: string;
     phase?: string;
     feedbackLevel?: string;
+    model?: string;
+    fallbackFor?: string; // The model that was asked, when a fallback answered instead
+    stopped?: boolean;    // The analyst stopped the reply before it finished
     isFavourite?: boolean;
+    // Lines the analyst asked about
+    anchor?: {
+      fileId: string;
+      fileName: string;
+      lineNumber: number;
+      endLineNumber?: number;
+      lineContent: string;
+    };
+  }>;
+  // Prompts answered side by side by several models
+  modelComparisons: Array<{
+    id: string;
+    prompt: string;
+    createdAt: string;
+    anchor?: SessionLogData["conversationLog"][number]["anchor"];
+    results: Array<{
+      provider: string;
+      model: string;
+      modelName: string;
+      content: string;
+      error?: string;
+      latencyMs: number;
+      words: number;
+      characters: number;
+      kept?: boolean;         // The answer kept into the conversation
+    }>;
   }>;
   analysisContext: unknown[];
   literatureReferences: Array<{
@@ -151,6 +202,10 @@ export interface SessionLogData {
     beDirectMode: boolean;
     teachMeMode: boolean;
   };
+  // The project's annotation types (ids used by the annotations above)
+  annotationTypes: AnnotationTypeDefinition[];
+  // The project's qualitative codes (ids used by the annotations' codes)
+  codebook: CodebookCode[];
   statistics: {
     totalMessages: number;
     userMessages: number;
@@ -158,6 +213,14 @@ export interface SessionLogData {
     codeFiles: number;
     totalAnnotations: number;
     annotationsByType: Record<string, number>;
+    linkAnnotations: number;
+    aiDerivedAnnotations: number;
+    codedAnnotations: number;
+    // Annotations with a discussion status, per status
+    annotationsByStatus: Record<AnnotationStatus, number>;
+    // Per code id: annotations coded with it directly, and including codes nested beneath it
+    codeFrequencies: Record<string, { direct: number; total: number }>;
+    modelComparisons: number;
     critiqueArtefacts: number;
     references: number;
   };
@@ -170,9 +233,11 @@ export function generateSessionLog(
   session: Session,
   projectName: string,
   codeContents?: Map<string, string>,
-  generateAnnotatedCode?: (code: string, annotations: LineAnnotation[]) => string,
+  generateAnnotatedCode?: (code: string, annotations: LineAnnotation[], taxonomy: AnnotationTypeDefinition[]) => string,
   profile?: UserProfile
 ): SessionLogData {
+  const annotationTypes = getAnnotationTaxonomy(session);
+  const codebook = getCodebook(session);
   const modeCode = MODE_CODES[session.mode] || "XX";
   const modeLabel = MODE_LABELS[modeCode] || session.mode;
 
@@ -198,7 +263,7 @@ export function generateSessionLog(
       createdAt: session.createdAt,
       lastModified: session.lastModified,
       exportedAt: new Date().toISOString(),
-      logVersion: "1.1",
+      logVersion: "1.4",
       appVersion: APP_VERSION,
       ccsSkillVersion: CCS_SKILL_VERSION,
       author: authorInfo,
@@ -210,7 +275,7 @@ export function generateSessionLog(
       );
       const annotatedCode =
         content && generateAnnotatedCode
-          ? generateAnnotatedCode(content, fileAnnotations)
+          ? generateAnnotatedCode(content, fileAnnotations, annotationTypes)
           : "";
 
       return {
@@ -235,6 +300,20 @@ export function generateSessionLog(
           content: ann.content,
           createdAt: ann.createdAt,
           addedBy: ann.addedBy,
+          codes: ann.codes && ann.codes.length > 0 ? ann.codes : undefined,
+          status: getAnnotationStatus(ann),
+          statusChangedBy: ann.statusChangedBy,
+          link: ann.link
+            ? {
+                fileId: ann.link.codeFileId,
+                fileName: session.codeFiles.find((f) => f.id === ann.link?.codeFileId)?.name,
+                lineNumber: ann.link.lineNumber,
+                endLineNumber: ann.link.endLineNumber,
+                lineContent: ann.link.lineContent,
+              }
+            : undefined,
+          provenance: ann.provenance,
+          replies: ann.replies && ann.replies.length > 0 ? ann.replies : undefined,
         })),
       };
     }),
@@ -245,7 +324,40 @@ export function generateSessionLog(
       timestamp: msg.timestamp,
       phase: msg.metadata?.phase,
       feedbackLevel: msg.metadata?.feedbackLevel,
+      model: msg.metadata?.model,
+      fallbackFor: msg.metadata?.fallback?.requested,
+      stopped: msg.metadata?.stopped,
       isFavourite: msg.isFavourite,
+      anchor: msg.metadata?.anchor
+        ? {
+            fileId: msg.metadata.anchor.codeFileId,
+            fileName: msg.metadata.anchor.fileName,
+            lineNumber: msg.metadata.anchor.lineNumber,
+            endLineNumber: msg.metadata.anchor.endLineNumber,
+            lineContent: msg.metadata.anchor.lineContent,
+          }
+        : undefined,
+    })),
+    modelComparisons: (session.modelComparisons || []).map((comparison) => ({
+      id: comparison.id,
+      prompt: comparison.prompt,
+      createdAt: comparison.createdAt,
+      anchor: comparison.anchor
+        ? {
+            fileId: comparison.anchor.codeFileId,
+            fileName: comparison.anchor.fileName,
+            lineNumber: comparison.anchor.lineNumber,
+            endLineNumber: comparison.anchor.endLineNumber,
+            lineContent: comparison.anchor.lineContent,
+          }
+        : undefined,
+      results: comparison.results.map((result, index) => ({
+        ...result,
+        latencyMs: Math.round(result.latencyMs),
+        words: countWords(result.content),
+        characters: result.content.length,
+        kept: comparison.keptResultIndex === index || undefined,
+      })),
     })),
     analysisContext: session.analysisResults,
     literatureReferences: session.references,
@@ -254,6 +366,8 @@ export function generateSessionLog(
       beDirectMode: session.settings.beDirectMode,
       teachMeMode: session.settings.teachMeMode,
     },
+    annotationTypes,
+    codebook,
     statistics: {
       totalMessages: session.messages.length,
       userMessages: session.messages.filter((m) => m.role === "user").length,
@@ -261,7 +375,10 @@ export function generateSessionLog(
         .length,
       codeFiles: session.codeFiles.length,
       totalAnnotations: session.lineAnnotations.length,
-      annotationsByType: LINE_ANNOTATION_TYPES.reduce(
+      annotationsByType: [
+        ...annotationTypes.map((t) => t.id),
+        ...session.lineAnnotations.map((a) => a.type),
+      ].reduce(
         (acc, type) => {
           acc[type] = session.lineAnnotations.filter(
             (a) => a.type === type
@@ -270,12 +387,87 @@ export function generateSessionLog(
         },
         {} as Record<string, number>
       ),
+      linkAnnotations: session.lineAnnotations.filter((a) => a.link).length,
+      aiDerivedAnnotations: session.lineAnnotations.filter((a) => a.provenance).length,
+      codedAnnotations: session.lineAnnotations.filter((a) => a.codes && a.codes.length > 0).length,
+      annotationsByStatus: Object.fromEntries(
+        ANNOTATION_STATUSES.map((status) => [status, session.lineAnnotations.filter((a) => getAnnotationStatus(a) === status).length])
+      ) as Record<AnnotationStatus, number>,
+      codeFrequencies: Object.fromEntries(
+        codeFrequencies(session.lineAnnotations, codebook).map(({ code, direct, total }) => [code.id, { direct, total }])
+      ),
+      modelComparisons: session.modelComparisons?.length ?? 0,
       critiqueArtefacts: session.critiqueArtifacts.length,
       references: session.references.length,
     },
   };
 }
 
+type LoggedAnnotation = NonNullable<SessionLogData["codeArtefacts"][number]["annotations"]>[number];
+
+/**
+ * Link annotations grouped by the pair of files they connect (comparative readings)
+ */
+function getComparativeReadings(log: SessionLogData): Array<{
+  fileA: string;
+  fileB: string;
+  links: LoggedAnnotation[];
+}> {
+  const readings = new Map<string, { fileA: string; fileB: string; links: LoggedAnnotation[] }>();
+  log.codeArtefacts.forEach((file) => {
+    file.annotations?.forEach((ann) => {
+      if (!ann.link) return;
+      const key = `${file.id}:${ann.link.fileId}`;
+      if (!readings.has(key)) {
+        readings.set(key, { fileA: file.name, fileB: ann.link.fileName || ann.link.fileId, links: [] });
+      }
+      readings.get(key)!.links.push(ann);
+    });
+  });
+  return Array.from(readings.values());
+}
+
+// "from an assistant reply (GPT-4o)"
+function formatProvenance(provenance: NonNullable<LoggedAnnotation["provenance"]>): string {
+  return `from an assistant reply${provenance.model ? ` (${provenance.model})` : ""}`;
+}
+
+// "GPT-4o: 3.2 s, 412 words, 2310 characters (kept)"
+function formatComparisonResult(result: SessionLogData["modelComparisons"][number]["results"][number]): string {
+  const timing = `${(result.latencyMs / 1000).toFixed(1)} s`;
+  return result.error
+    ? `${result.modelName}: failed after ${timing}`
+    : `${result.modelName}: ${timing}, ${result.words} words, ${result.characters} characters${result.kept ? " (kept)" : ""}`;
+}
+
+function formatAnnotationCodes(codes: string[], codebook: CodebookCode[]): string {
+  return codes.map((id) => formatCodePath(codebook, id, " > ")).join("; ");
+}
+
+/**
+ * "Resolved (set by AB)"
+ */
+function formatAnnotationStatus(ann: Pick<LoggedAnnotation, "status" | "statusChangedBy">): string {
+  if (!ann.status) return "";
+  const label = ANNOTATION_STATUS_LABELS[ann.status];
+  return ann.statusChangedBy ? `${label} (set by ${ann.statusChangedBy})` : label;
+}
+
+/**
+ * "Open 3, Resolved 5, Won't fix 1", leaving out statuses no annotation has
+ */
+function formatStatusCounts(counts: Record<AnnotationStatus, number>): string {
+  return ANNOTATION_STATUSES.filter((status) => counts[status] > 0)
+    .map((status) => `${ANNOTATION_STATUS_LABELS[status]} ${counts[status]}`)
+    .join(", ");
+}
+
+function formatLineRange(lineNumber: number, endLineNumber?: number): string {
+  return endLineNumber && endLineNumber !== lineNumber
+    ? `lines ${lineNumber}-${endLineNumber}`
+    : `line ${lineNumber}`;
+}
+
 /**
  * Export session log as JSON file
  */
@@ -351,13 +543,41 @@ export function exportSessionLogText(
   lines.push(`Annotations: ${log.statistics.totalAnnotations}`);
   if (log.statistics.totalAnnotations > 0) {
     Object.entries(log.statistics.annotationsByType).forEach(([type, count]) => {
-      if (count > 0) lines.push(`  ${type}: ${count}`);
+      if (count > 0) lines.push(`  ${getAnnotationTypeDefinition(log.annotationTypes, type).label}: ${count}`);
     });
   }
+  if (log.statistics.linkAnnotations > 0) {
+    lines.push(`Link Annotations: ${log.statistics.linkAnnotations}`);
+  }
+  if (log.statistics.aiDerivedAnnotations > 0) {
+    lines.push(`AI-derived Annotations: ${log.statistics.aiDerivedAnnotations}`);
+  }
+  if (log.statistics.codedAnnotations > 0) {
+    lines.push(`Coded Annotations: ${log.statistics.codedAnnotations}`);
+  }
+  if (Object.values(log.statistics.annotationsByStatus).some((count) => count > 0)) {
+    lines.push(`Annotation Status: ${formatStatusCounts(log.statistics.annotationsByStatus)}`);
+  }
+  if (log.statistics.modelComparisons > 0) {
+    lines.push(`Model Comparisons: ${log.statistics.modelComparisons}`);
+  }
   lines.push(`Critique Artefacts: ${log.statistics.critiqueArtefacts}`);
   lines.push(`Literature References: ${log.statistics.references}`);
   lines.push("");
 
+  // Codebook with how often each code was applied (direct / including nested codes)
+  if (log.codebook.length > 0) {
+    lines.push("CODEBOOK");
+    lines.push("─".repeat(40));
+    flattenCodebook(log.codebook).forEach(({ code, depth }) => {
+      const counts = log.statistics.codeFrequencies[code.id] ?? { direct: 0, total: 0 };
+      const indent = "  ".repeat(depth);
+      lines.push(`${indent}${code.name}: ${counts.direct}${counts.total !== counts.direct ? ` (${counts.total} with nested codes)` : ""}`);
+      if (code.description) lines.push(`${indent}  ${code.description}`);
+    });
+    lines.push("");
+  }
+
   // Code Artefacts
   if (log.codeArtefacts.length > 0) {
     lines.push("═".repeat(80));
@@ -383,10 +603,61 @@ export function exportSessionLogText(
         lines.push(file.annotatedContent);
         lines.push("--- End Code ---");
       }
+
+      const aiDerived = file.annotations?.filter((ann) => ann.provenance) ?? [];
+      if (aiDerived.length > 0) {
+        lines.push("");
+        lines.push("AI-derived annotations:");
+        aiDerived.forEach((ann) => {
+          lines.push(`  [${ann.type}] ${formatLineRange(ann.lineNumber, ann.endLineNumber)}, ${formatProvenance(ann.provenance!)}${ann.provenance!.messageId ? ` [message ${ann.provenance!.messageId}]` : ""}`);
+        });
+      }
+
+      const coded = file.annotations?.filter((ann) => ann.codes) ?? [];
+      if (coded.length > 0) {
+        lines.push("");
+        lines.push("Coded annotations:");
+        coded.forEach((ann) => {
+          lines.push(`  [${ann.type}] ${formatLineRange(ann.lineNumber, ann.endLineNumber)}: ${formatAnnotationCodes(ann.codes!, log.codebook)}`);
+        });
+      }
+
+      const withStatus = file.annotations?.filter((ann) => ann.status) ?? [];
+      if (withStatus.length > 0) {
+        lines.push("");
+        lines.push("Annotation status:");
+        withStatus.forEach((ann) => {
+          lines.push(`  [${ann.type}] ${formatLineRange(ann.lineNumber, ann.endLineNumber)}: ${formatAnnotationStatus(ann)}`);
+        });
+      }
       lines.push("");
     });
   }
 
+  // Comparative Readings
+  const readings = getComparativeReadings(log);
+  if (readings.length > 0) {
+    lines.push("═".repeat(80));
+    lines.push("COMPARATIVE READINGS");
+    lines.push("═".repeat(80));
+
+    readings.forEach((reading) => {
+      lines.push("");
+      lines.push(`${reading.fileA} <-> ${reading.fileB}`);
+      lines.push("─".repeat(40));
+      reading.links.forEach((ann) => {
+        const link = ann.link!;
+        lines.push(
+          `[${ann.type}] ${reading.fileA} ${formatLineRange(ann.lineNumber, ann.endLineNumber)} <-> ${reading.fileB} ${formatLineRange(link.lineNumber, link.endLineNumber)}${ann.addedBy ? ` (${ann.addedBy})` : ""}`
+        );
+        lines.push(`    ${ann.content}`);
+        lines.push(...ann.lineContent.split("\n").map((l) => `    A| ${l}`));
+        lines.push(...link.lineContent.split("\n").map((l) => `    B| ${l}`));
+        lines.push("");
+      });
+    });
+  }
+
   // Conversation Log
   lines.push("═".repeat(80));
   lines.push("CONVERSATION LOG");
@@ -400,10 +671,39 @@ export function exportSessionLogText(
     const favourite = msg.isFavourite ? " ♥" : "";
     lines.push(`[${timestamp}] ${role}${phase}${favourite}`);
     lines.push("─".repeat(40));
+    if (msg.anchor) {
+      lines.push(`On ${msg.anchor.fileName}, ${formatLineRange(msg.anchor.lineNumber, msg.anchor.endLineNumber)}:`);
+      msg.anchor.lineContent.split("\n").forEach((line) => lines.push(`  | ${line}`));
+      lines.push("");
+    }
     lines.push(msg.content);
     lines.push("");
   });
 
+  // Model Comparisons
+  if (log.modelComparisons.length > 0) {
+    lines.push("═".repeat(80));
+    lines.push("MODEL COMPARISONS");
+    lines.push("═".repeat(80));
+
+    log.modelComparisons.forEach((comparison, index) => {
+      lines.push("");
+      lines.push(`[${index + 1}] ${new Date(comparison.createdAt).toLocaleString()}`);
+      lines.push("─".repeat(40));
+      if (comparison.anchor) {
+        lines.push(`On ${comparison.anchor.fileName}, ${formatLineRange(comparison.anchor.lineNumber, comparison.anchor.endLineNumber)}:`);
+        comparison.anchor.lineContent.split("\n").forEach((line) => lines.push(`  | ${line}`));
+      }
+      lines.push(`PROMPT: ${comparison.prompt}`);
+      comparison.results.forEach((result) => {
+        lines.push("");
+        lines.push(`--- ${formatComparisonResult(result)} ---`);
+        lines.push(result.error || result.content);
+      });
+      lines.push("");
+    });
+  }
+
   // Literature References
   if (log.literatureReferences.length > 0) {
     lines.push("═".repeat(80));
@@ -626,11 +926,10 @@ export function exportSessionLogPDF(
     doc.text("Annotations by type: ", xPos, yPos);
     xPos += doc.getTextWidth("Annotations by type: ") + 2;
 
-    LINE_ANNOTATION_TYPES.forEach((type) => {
-      const count = log.statistics.annotationsByType[type] || 0;
+    Object.entries(log.statistics.annotationsByType).forEach(([type, count]) => {
       if (count > 0) {
-        const prefix = ANNOTATION_PREFIXES[type] || type;
-        const color = ANNOTATION_COLORS[type] || { r: 128, g: 128, b: 128 };
+        const prefix = getAnnotationTypeDefinition(log.annotationTypes, type).prefix;
+        const color = pdfTypeColors(log.annotationTypes, type).pill;
         const pillWidth = drawPill(prefix, xPos, yPos, color);
         xPos += pillWidth + 2;
         doc.setFontSize(9);
@@ -655,6 +954,29 @@ export function exportSessionLogPDF(
     );
   }
 
+  if (Object.values(log.statistics.annotationsByStatus).some((count) => count > 0)) {
+    addWrappedText(`Annotation Status: ${formatStatusCounts(log.statistics.annotationsByStatus)}`, 10);
+  }
+
+  // Codebook with how often each code was applied
+  if (log.codebook.length > 0) {
+    addSection("Codebook");
+    addWrappedText(
+      `Coded Annotations: ${log.statistics.codedAnnotations} of ${log.statistics.totalAnnotations}`,
+      10
+    );
+    flattenCodebook(log.codebook).forEach(({ code, depth }) => {
+      const counts = log.statistics.codeFrequencies[code.id] ?? { direct: 0, total: 0 };
+      const indent = "    ".repeat(depth);
+      addWrappedText(
+        `${indent}${code.name}: ${counts.direct}${counts.total !== counts.direct ? ` (${counts.total} with nested codes)` : ""}`,
+        9,
+        depth === 0
+      );
+      if (code.description) addWrappedText(`${indent}  ${code.description}`, 8);
+    });
+  }
+
   // Code Artefacts
   if (log.codeArtefacts.length > 0) {
     addSection("Code Artefacts");
@@ -689,11 +1011,10 @@ export function exportSessionLogPDF(
           byType[ann.type] = (byType[ann.type] || 0) + 1;
         });
 
-        LINE_ANNOTATION_TYPES.forEach((type) => {
-          const count = byType[type] || 0;
+        Object.entries(byType).forEach(([type, count]) => {
           if (count > 0) {
-            const prefix = ANNOTATION_PREFIXES[type] || type;
-            const color = ANNOTATION_COLORS[type] || { r: 128, g: 128, b: 128 };
+            const prefix = getAnnotationTypeDefinition(log.annotationTypes, type).prefix;
+            const color = pdfTypeColors(log.annotationTypes, type).pill;
             const pillWidth = drawPill(prefix, xPos, yPos, color);
             xPos += pillWidth + 2;
             doc.setFontSize(9);
@@ -714,15 +1035,8 @@ export function exportSessionLogPDF(
 
         // Regex to match annotation lines: // An:Type: content
         const annotationLineRegex = /^(\s*)\/\/\s*An:(\w+):\s*(.*)$/;
-        // Map abbreviations to full type names for color lookup
-        const prefixToType: Record<string, string> = {
-          "Obs": "observation",
-          "Q": "question",
-          "Met": "metaphor",
-          "Pat": "pattern",
-          "Ctx": "context",
-          "Crit": "critique",
-        };
+        // Map prefixes back to type ids for color lookup
+        const prefixToType = new Map(log.annotationTypes.map((t) => [t.prefix, t.id]));
 
         // Build a map of which original lines should be highlighted
         const lineAnnotationTypes = new Map<number, string>();
@@ -751,11 +1065,10 @@ export function exportSessionLogPDF(
           if (match) {
             // This is an annotation line - render with pill
             const [, indent, prefix, content] = match;
-            const annotationType = prefixToType[prefix] || "observation";
-            const color = ANNOTATION_COLORS[annotationType] || { r: 128, g: 128, b: 128 };
+            const annotationType = prefixToType.get(prefix) || prefix;
+            const { pill: color, background: bgColor } = pdfTypeColors(log.annotationTypes, annotationType);
 
             // Draw background highlight for annotation line (same as code lines)
-            const bgColor = ANNOTATION_BG_COLORS[annotationType] || ANNOTATION_BG_COLORS.observation;
             doc.setFillColor(bgColor.r, bgColor.g, bgColor.b);
             doc.rect(margin - 1, yPos - 2.5, contentWidth + 2, 3.5, "F");
 
@@ -786,13 +1099,12 @@ export function exportSessionLogPDF(
             // Regular code line - check if it should be highlighted
             const annotationType = lineAnnotationTypes.get(originalLineNum);
             if (annotationType) {
-              const bgColor = ANNOTATION_BG_COLORS[annotationType] || ANNOTATION_BG_COLORS.observation;
+              const { pill: barColor, background: bgColor } = pdfTypeColors(log.annotationTypes, annotationType);
               // Draw subtle background highlight
               doc.setFillColor(bgColor.r, bgColor.g, bgColor.b);
               doc.rect(margin - 1, yPos - 2.5, contentWidth + 2, 3.5, "F");
 
               // Draw a thin colored bar on the right side (like the code editor)
-              const barColor = ANNOTATION_COLORS[annotationType] || ANNOTATION_COLORS.observation;
               doc.setFillColor(barColor.r, barColor.g, barColor.b);
               doc.rect(margin + contentWidth - 0.5, yPos - 2.5, 0.75, 3.5, "F");
             }
@@ -806,10 +1118,66 @@ export function exportSessionLogPDF(
         });
         doc.setFont("helvetica", "normal");
       }
+
+      // Mark which annotations were saved from assistant replies
+      const aiDerived = file.annotations?.filter((ann) => ann.provenance) ?? [];
+      if (aiDerived.length > 0) {
+        yPos += 2;
+        addWrappedText("AI-derived annotations:", 9, true);
+        aiDerived.forEach((ann) => {
+          addWrappedText(
+            `${getAnnotationTypeDefinition(log.annotationTypes, ann.type).prefix}: ${formatLineRange(ann.lineNumber, ann.endLineNumber)}, ${formatProvenance(ann.provenance!)}`,
+            8
+          );
+        });
+      }
+
+      const coded = file.annotations?.filter((ann) => ann.codes) ?? [];
+      if (coded.length > 0) {
+        yPos += 2;
+        addWrappedText("Coded annotations:", 9, true);
+        coded.forEach((ann) => {
+          addWrappedText(
+            `${getAnnotationTypeDefinition(log.annotationTypes, ann.type).prefix}: ${formatLineRange(ann.lineNumber, ann.endLineNumber)}: ${formatAnnotationCodes(ann.codes!, log.codebook)}`,
+            8
+          );
+        });
+      }
+
+      const withStatus = file.annotations?.filter((ann) => ann.status) ?? [];
+      if (withStatus.length > 0) {
+        yPos += 2;
+        addWrappedText("Annotation status:", 9, true);
+        withStatus.forEach((ann) => {
+          addWrappedText(
+            `${getAnnotationTypeDefinition(log.annotationTypes, ann.type).prefix}: ${formatLineRange(ann.lineNumber, ann.endLineNumber)}: ${formatAnnotationStatus(ann)}`,
+            8
+          );
+        });
+      }
       yPos += 5;
     });
   }
 
+  // Comparative Readings
+  const readings = getComparativeReadings(log);
+  if (readings.length > 0) {
+    addSection("Comparative Readings");
+    readings.forEach((reading) => {
+      addWrappedText(`${reading.fileA} <-> ${reading.fileB}`, 11, true);
+      reading.links.forEach((ann) => {
+        const link = ann.link!;
+        addWrappedText(
+          `${getAnnotationTypeDefinition(log.annotationTypes, ann.type).prefix}: ${formatLineRange(ann.lineNumber, ann.endLineNumber)} <-> ${formatLineRange(link.lineNumber, link.endLineNumber)}${ann.addedBy ? ` (${ann.addedBy})` : ""}`,
+          9,
+          true
+        );
+        addWrappedText(ann.content, 9);
+      });
+      yPos += 3;
+    });
+  }
+
   // Conversation Log
   addSection("Conversation Log");
   log.conversationLog.forEach((msg) => {
@@ -849,6 +1217,31 @@ export function exportSessionLogPDF(
     }
 
     yPos += 4;
+
+    // Quoted lines the analyst asked about
+    if (msg.anchor) {
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(8);
+      doc.setTextColor(100, 100, 100);
+      const anchorLabel = sanitiseForPDF(`On ${msg.anchor.fileName}, ${formatLineRange(msg.anchor.lineNumber, msg.anchor.endLineNumber)}:`);
+      doc.text(anchorLabel, margin + (msg.isFavourite ? 3 : 0), yPos);
+      yPos += 3.5;
+      doc.setFont("courier", "normal");
+      for (const codeLine of msg.anchor.lineContent.split("\n")) {
+        const wrapped = doc.splitTextToSize(sanitiseForPDF(codeLine) || " ", contentWidth - 6);
+        for (const part of wrapped) {
+          if (yPos + 3.2 > pageHeight - margin) {
+            doc.addPage();
+            yPos = margin;
+          }
+          doc.text(part, margin + (msg.isFavourite ? 3 : 0) + 3, yPos);
+          yPos += 3.2;
+        }
+      }
+      yPos += 1.5;
+      doc.setFontSize(9);
+    }
+
     doc.setTextColor(0, 0, 0);
     doc.setFont("helvetica", "normal");
 
@@ -885,6 +1278,25 @@ export function exportSessionLogPDF(
     yPos += 2;
   });
 
+  // Model Comparisons
+  if (log.modelComparisons.length > 0) {
+    addSection("Model Comparisons");
+    log.modelComparisons.forEach((comparison, index) => {
+      addWrappedText(`[${index + 1}] ${new Date(comparison.createdAt).toLocaleString()}`, 9, true);
+      if (comparison.anchor) {
+        addWrappedText(`On ${comparison.anchor.fileName}, ${formatLineRange(comparison.anchor.lineNumber, comparison.anchor.endLineNumber)}`, 8);
+      }
+      addWrappedText(`Prompt: ${comparison.prompt}`, 9);
+      comparison.results.forEach((result) => {
+        doc.setTextColor(124, 45, 54);
+        addWrappedText(formatComparisonResult(result), 9, true);
+        doc.setTextColor(0, 0, 0);
+        addWrappedText(result.error || result.content, 9);
+      });
+      yPos += 3;
+    });
+  }
+
   // Footer on all pages
   const pageCount = doc.internal.pages.length - 1;
   for (let i = 1; i <= pageCount; i++) {
@@ -905,3 +1317,704 @@ export function exportSessionLogPDF(
     .toLowerCase();
   doc.save(`${safeFileName}-${modeCode}-log.pdf`);
 }
+
+// ---------------------------------------------------------------------------
+// TEI P5 export and import
+// ---------------------------------------------------------------------------
+
+const TEI_NAMESPACE = "http://www.tei-c.org/ns/1.0";
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * Session restored from a TEI document, in the same shape as a .ccs save file
+ */
+export type TEISessionImport = Pick<
+  Session,
+  | "id"
+  | "mode"
+  | "experienceLevel"
+  | "currentPhase"
+  | "createdAt"
+  | "lastModified"
+  | "messages"
+  | "codeFiles"
+  | "codeContents"
+  | "lineAnnotations"
+  | "modelComparisons"
+  | "annotationTaxonomy"
+  | "settings"
+> & {
+  projectName: string;
+  exportedAt: string;
+};
+
+/**
+ * Escape text for XML. Control characters that XML 1.0 cannot carry
+ * (form feeds are common in historical sources) become <c type="control"/>.
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r/g, "&#13;")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, (ch) => `<c type="control" n="${ch.charCodeAt(0)}"/>`);
+}
+
+/** Escape an attribute value (control characters are dropped - attributes hold metadata only) */
+function escapeAttr(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r/g, "&#13;")
+    .replace(/\n/g, "&#10;")
+    .replace(/\t/g, "&#9;");
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => ` ${key}="${escapeAttr(String(value))}"`)
+    .join("");
+}
+
+/**
+ * Generate a TEI P5 document from a session log.
+ *
+ * Each code file becomes a <text> in a <group>, with an <lb n> (and xml:id) per line
+ * so annotations can point at lines. Annotations, including block ranges and replies,
+ * become <note> elements in the file's <back>. File metadata (author, date, platform)
+ * is recorded as <bibl> entries in the teiHeader source description.
+ */
+export function generateSessionLogTEI(log: SessionLogData): string {
+  const { metadata } = log;
+  const out: string[] = [];
+
+  // Annotators are referenced by resp="#annotator-N"
+  const annotators = new Map<string, string>();
+  const annotatorRef = (initials?: string) => {
+    if (!initials) return undefined;
+    if (!annotators.has(initials)) annotators.set(initials, `annotator-${annotators.size + 1}`);
+    return `#${annotators.get(initials)}`;
+  };
+  log.codeArtefacts.forEach((file) =>
+    file.annotations?.forEach((ann) => {
+      annotatorRef(ann.addedBy);
+      ann.replies?.forEach((reply) => annotatorRef(reply.addedBy));
+    })
+  );
+
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push(`<TEI xmlns="${TEI_NAMESPACE}" xml:lang="en">`);
+
+  // Header
+  out.push("  <teiHeader>");
+  out.push("    <fileDesc>");
+  out.push("      <titleStmt>");
+  out.push(`        <title>${escapeXML(metadata.projectName)}</title>`);
+  if (metadata.author) {
+    out.push(`        <author>${escapeXML(metadata.author.name)}${metadata.author.affiliation ? ` <affiliation>${escapeXML(metadata.author.affiliation)}</affiliation>` : ""}</author>`);
+  }
+  out.push("      </titleStmt>");
+  out.push("      <publicationStmt>");
+  out.push("        <publisher>Critical Code Studies Workbench</publisher>");
+  out.push(`        <idno type="ccs-session-id">${escapeXML(metadata.sessionId)}</idno>`);
+  out.push(`        <date${attrs({ when: metadata.exportedAt })}/>`);
+  out.push("      </publicationStmt>");
+  out.push("      <sourceDesc>");
+  if (log.codeArtefacts.length === 0) {
+    out.push("        <p>No code files.</p>");
+  } else {
+    out.push("        <listBibl>");
+    log.codeArtefacts.forEach((file, i) => {
+      out.push(`          <bibl${attrs({ "xml:id": `bibl-file-${i + 1}`, corresp: `#file-${i + 1}` })}>`);
+      out.push(`            <title>${escapeXML(file.name)}</title>`);
+      out.push(`            <idno type="ccs-file-id">${escapeXML(file.id)}</idno>`);
+      if (file.author) out.push(`            <author>${escapeXML(file.author)}</author>`);
+      if (file.date) out.push(`            <date>${escapeXML(file.date)}</date>`);
+      if (file.size !== undefined) out.push(`            <extent><measure${attrs({ unit: "bytes", quantity: file.size })}/></extent>`);
+      const notes: Array<[string, string | undefined]> = [
+        ["platform", file.platform],
+        ["language", file.language],
+        ["source", file.source],
+        ["context", file.context],
+        ["uploadedAt", file.uploadedAt],
+      ];
+      for (const [type, value] of notes) {
+        if (value) out.push(`            <note type="${type}">${escapeXML(value)}</note>`);
+      }
+      out.push("          </bibl>");
+    });
+    out.push("        </listBibl>");
+  }
+  out.push("      </sourceDesc>");
+  out.push("    </fileDesc>");
+
+  out.push("    <encodingDesc>");
+  out.push("      <appInfo>");
+  out.push(`        <application${attrs({ ident: "CCS-WB", version: metadata.appVersion })}>`);
+  out.push("          <label>Critical Code Studies Workbench</label>");
+  out.push(`          <desc>CCS methodology v${escapeXML(metadata.ccsSkillVersion)}, session log v${escapeXML(metadata.logVersion)}</desc>`);
+  out.push("        </application>");
+  out.push("      </appInfo>");
+  out.push("      <classDecl>");
+  out.push('        <taxonomy xml:id="annotation-types">');
+  // Prefix in n, colours in rend, so the project's types survive a round trip
+  for (const type of log.annotationTypes) {
+    const desc = type.description ? `<desc>${escapeXML(type.description)}</desc>` : "";
+    out.push(`          <category${attrs({
+      "xml:id": `type-${type.id}`,
+      n: type.prefix,
+      rend: `color(${type.color.light}) dark-color(${type.color.dark})`,
+    })}><catDesc>${escapeXML(type.label)}</catDesc>${desc}</category>`);
+  }
+  out.push("        </taxonomy>");
+  out.push('        <taxonomy xml:id="annotation-provenance">');
+  out.push('          <category xml:id="ai-derived"><catDesc>Saved from an assistant reply</catDesc></category>');
+  out.push("        </taxonomy>");
+  if (log.modelComparisons.length > 0) {
+    out.push('        <taxonomy xml:id="model-comparison">');
+    out.push('          <category xml:id="kept"><catDesc>Answer kept into the conversation</catDesc></category>');
+    out.push("        </taxonomy>");
+  }
+  // Categories the conversation's ana pointers refer to (phase, feedback level, favourites)
+  const phases = new Set(log.conversationLog.flatMap((msg) => (msg.phase ? [msg.phase] : [])));
+  const feedbackLevels = new Set(log.conversationLog.flatMap((msg) => (msg.feedbackLevel ? [msg.feedbackLevel] : [])));
+  const hasFavourites = log.conversationLog.some((msg) => msg.isFavourite);
+  if (phases.size > 0 || feedbackLevels.size > 0 || hasFavourites) {
+    out.push('        <taxonomy xml:id="conversation">');
+    phases.forEach((phase) => {
+      out.push(`          <category${attrs({ "xml:id": `phase-${phase}` })}><catDesc>${escapeXML(phase)} phase</catDesc></category>`);
+    });
+    feedbackLevels.forEach((level) => {
+      out.push(`          <category${attrs({ "xml:id": `feedback-${level}` })}><catDesc>${escapeXML(level)} feedback</catDesc></category>`);
+    });
+    if (hasFavourites) {
+      out.push('          <category xml:id="favourite"><catDesc>Marked as a favourite</catDesc></category>');
+    }
+    out.push("        </taxonomy>");
+  }
+  out.push("      </classDecl>");
+  out.push("    </encodingDesc>");
+
+  out.push("    <profileDesc>");
+  out.push("      <textClass>");
+  out.push("        <keywords>");
+  out.push(`          <term type="mode">${escapeXML(metadata.mode)}</term>`);
+  if (metadata.experienceLevel) out.push(`          <term type="experienceLevel">${escapeXML(metadata.experienceLevel)}</term>`);
+  out.push(`          <term type="phase">${escapeXML(metadata.currentPhase)}</term>`);
+  out.push(`          <term type="setting" n="beDirectMode">${log.settings.beDirectMode}</term>`);
+  out.push(`          <term type="setting" n="teachMeMode">${log.settings.teachMeMode}</term>`);
+  out.push("        </keywords>");
+  out.push("      </textClass>");
+  out.push("      <particDesc>");
+  out.push("        <listPerson>");
+  out.push(`          <person xml:id="analyst" role="analyst"><persName>${escapeXML(metadata.author?.name || "Analyst")}</persName></person>`);
+  out.push('          <person xml:id="assistant" role="assistant"><persName>CCS-WB assistant</persName></person>');
+  annotators.forEach((id, initials) => {
+    out.push(`          <person${attrs({ "xml:id": id, role: "annotator" })}><persName type="initials">${escapeXML(initials)}</persName></person>`);
+  });
+  out.push("        </listPerson>");
+  out.push("      </particDesc>");
+  out.push("    </profileDesc>");
+
+  out.push("    <revisionDesc>");
+  out.push(`      <change${attrs({ when: metadata.createdAt, type: "created" })}>Session created</change>`);
+  out.push(`      <change${attrs({ when: metadata.lastModified, type: "modified" })}>Last modified</change>`);
+  out.push("    </revisionDesc>");
+  out.push("  </teiHeader>");
+
+  // Code files and conversation
+  out.push("  <text>");
+  out.push("    <group>");
+  const teiFileIds = new Map(log.codeArtefacts.map((file, i) => [file.id, `file-${i + 1}`]));
+  const teiMessageIds = new Map(log.conversationLog.map((msg, m) => [msg.id, `msg-${m + 1}`]));
+  log.codeArtefacts.forEach((file, i) => {
+    const fileId = `file-${i + 1}`;
+    const lines = (file.rawContent || "").split("\n");
+    out.push(`      <text${attrs({ type: "code", "xml:id": fileId, n: file.name, decls: `#bibl-${fileId}` })}>`);
+    out.push("        <body>");
+    // Lines are written on one run so xml:space="preserve" keeps the code byte-for-byte
+    const code = lines
+      .map((line, l) => `<lb${attrs({ n: l + 1, "xml:id": `${fileId}-L${l + 1}` })}/>${escapeXML(line)}`)
+      .join("\n");
+    out.push(`          <ab type="code" xml:space="preserve">${code}</ab>`);
+    out.push("        </body>");
+
+    const annotations = file.annotations || [];
+    if (annotations.length > 0) {
+      out.push("        <back>");
+      out.push('          <div type="annotations">');
+      annotations.forEach((ann, a) => {
+        const noteId = `${fileId}-ann-${a + 1}`;
+        out.push(`            <note${attrs({
+          "xml:id": noteId,
+          n: ann.id,
+          type: ann.type,
+          ana: ann.provenance ? `#type-${ann.type} #ai-derived` : `#type-${ann.type}`,
+          target: `#${fileId}-L${ann.lineNumber}`,
+          targetEnd: ann.endLineNumber && ann.endLineNumber !== ann.lineNumber ? `#${fileId}-L${ann.endLineNumber}` : undefined,
+          resp: annotatorRef(ann.addedBy),
+          when: ann.createdAt,
+          // AI-derived annotations point at the reply they were saved from and name its model
+          corresp: ann.provenance?.messageId && teiMessageIds.has(ann.provenance.messageId)
+            ? `#${teiMessageIds.get(ann.provenance.messageId)}`
+            : undefined,
+          source: ann.provenance?.model,
+        })}>`);
+        out.push(`              <p>${escapeXML(ann.content)}</p>`);
+        // Link annotations point at the linked range in the other file (start and end line)
+        const linkedFileId = ann.link && teiFileIds.get(ann.link.fileId);
+        if (ann.link && linkedFileId) {
+          const targets = [`#${linkedFileId}-L${ann.link.lineNumber}`];
+          if (ann.link.endLineNumber && ann.link.endLineNumber !== ann.link.lineNumber) {
+            targets.push(`#${linkedFileId}-L${ann.link.endLineNumber}`);
+          }
+          out.push(`              <ptr${attrs({ type: "link", target: targets.join(" ") })}/>`);
+        }
+        ann.replies?.forEach((reply, r) => {
+          out.push(`              <note${attrs({
+            "xml:id": `${noteId}-reply-${r + 1}`,
+            n: reply.id,
+            type: "reply",
+            resp: annotatorRef(reply.addedBy),
+            when: reply.createdAt,
+            rend: reply.profileColor ? `color(${reply.profileColor})` : undefined,
+          })}><p>${escapeXML(reply.content)}</p></note>`);
+        });
+        out.push("            </note>");
+      });
+      out.push("          </div>");
+      out.push("        </back>");
+    }
+    out.push("      </text>");
+  });
+
+  out.push('      <text type="conversation" xml:id="conversation">');
+  out.push("        <body>");
+  out.push('          <div type="conversation">');
+  if (log.conversationLog.length === 0) {
+    out.push("            <p>No messages.</p>");
+  }
+  // Anchored messages point at the lines they ask about (start and end line)
+  const anchorPointer = (anchor: SessionLogData["conversationLog"][number]["anchor"]) => {
+    const fileId = anchor && teiFileIds.get(anchor.fileId);
+    if (!anchor || !fileId) return "";
+    const targets = [`#${fileId}-L${anchor.lineNumber}`];
+    if (anchor.endLineNumber && anchor.endLineNumber !== anchor.lineNumber) {
+      targets.push(`#${fileId}-L${anchor.endLineNumber}`);
+    }
+    return `<ptr${attrs({ type: "anchor", target: targets.join(" ") })}/>`;
+  };
+  log.conversationLog.forEach((msg, m) => {
+    const ana = [
+      msg.phase ? `#phase-${msg.phase}` : "",
+      msg.feedbackLevel ? `#feedback-${msg.feedbackLevel}` : "",
+      msg.isFavourite ? "#favourite" : "",
+    ].filter(Boolean).join(" ");
+    out.push(`            <u${attrs({
+      "xml:id": `msg-${m + 1}`,
+      n: msg.id,
+      who: msg.role === "user" ? "#analyst" : "#assistant",
+      when: msg.timestamp,
+      ana: ana || undefined,
+      source: msg.model,
+    })}>${anchorPointer(msg.anchor)}<seg>${escapeXML(msg.content)}</seg></u>`);
+  });
+  out.push("          </div>");
+  out.push("        </body>");
+  out.push("      </text>");
+
+  // Model comparisons: the prompt, then each model's answer with its latency (dur)
+  // and model id (n); failed requests are recorded as gaps
+  if (log.modelComparisons.length > 0) {
+    out.push('      <text type="model-comparisons" xml:id="model-comparisons">');
+    out.push("        <body>");
+    log.modelComparisons.forEach((comparison, c) => {
+      out.push(`          <div${attrs({ type: "model-comparison", "xml:id": `cmp-${c + 1}`, n: comparison.id })}>`);
+      out.push(`            <u${attrs({ who: "#analyst", when: comparison.createdAt })}>${anchorPointer(comparison.anchor)}<seg>${escapeXML(comparison.prompt)}</seg></u>`);
+      comparison.results.forEach((result) => {
+        const body = result.error
+          ? `<gap reason="error"><desc>${escapeXML(result.error)}</desc></gap>`
+          : `<seg>${escapeXML(result.content)}</seg>`;
+        out.push(`            <u${attrs({
+          who: "#assistant",
+          n: `${result.provider}:${result.model}`,
+          source: result.modelName,
+          dur: `PT${(result.latencyMs / 1000).toFixed(3)}S`,
+          ana: result.kept ? "#kept" : undefined,
+        })}>${body}</u>`);
+      });
+      out.push("          </div>");
+    });
+    out.push("        </body>");
+    out.push("      </text>");
+  }
+  out.push("    </group>");
+  out.push("  </text>");
+  out.push("</TEI>");
+
+  return out.join("\n") + "\n";
+}
+
+/**
+ * Export session log as a TEI P5 XML file
+ */
+export function exportSessionLogTEI(
+  log: SessionLogData,
+  projectName: string,
+  modeCode: string
+): void {
+  const blob = new Blob([generateSessionLogTEI(log)], {
+    type: "application/tei+xml",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  const safeFileName = (projectName || "session")
+    .replace(/[^a-z0-9-_ ]/gi, "")
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+  a.download = `${safeFileName}-${modeCode}-log.tei.xml`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function teiChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(
+    (el) => el.localName === localName && el.namespaceURI === TEI_NAMESPACE
+  );
+}
+
+/** Element holding an utterance's text (<seg>, or <p> in logs exported before it was used) */
+function utteranceText(u: Element): Element {
+  return teiChildren(u, "seg")[0] || teiChildren(u, "p")[0] || u;
+}
+
+function teiFirst(parent: Element | Document, localName: string): Element | undefined {
+  return parent.getElementsByTagNameNS(TEI_NAMESPACE, localName)[0];
+}
+
+function xmlId(el: Element): string {
+  return el.getAttributeNS(XML_NAMESPACE, "id") || "";
+}
+
+/** Text of an element, turning <c type="control" n="12"/> back into the original character */
+function teiText(el: Element): string {
+  let text = "";
+  el.childNodes.forEach((node) => {
+    if (node.nodeType === 3) {
+      text += node.nodeValue || "";
+    } else if (node.nodeType === 1) {
+      const child = node as Element;
+      if (child.localName === "c" && child.getAttribute("type") === "control") {
+        text += String.fromCharCode(Number(child.getAttribute("n")));
+      } else {
+        text += teiText(child);
+      }
+    }
+  });
+  return text;
+}
+
+/** Read the lines of an <ab type="code">, splitting at each <lb/> */
+function teiCodeLines(ab: Element): string[] {
+  const lines: string[] = [];
+  const walk = (el: Element) => {
+    el.childNodes.forEach((node) => {
+      if (node.nodeType === 3) {
+        // Anything before the first <lb/> is indentation, not code
+        if (lines.length > 0) lines[lines.length - 1] += node.nodeValue || "";
+      } else if (node.nodeType === 1) {
+        const child = node as Element;
+        if (child.localName === "lb") {
+          lines.push("");
+        } else if (child.localName === "c" && child.getAttribute("type") === "control") {
+          if (lines.length > 0) lines[lines.length - 1] += String.fromCharCode(Number(child.getAttribute("n")));
+        } else {
+          walk(child);
+        }
+      }
+    });
+  };
+  walk(ab);
+  if (lines.length === 0) return [""];
+  // Each line but the last carries the newline written between <lb/>s
+  return lines.map((line) => (line.endsWith("\n") ? line.slice(0, -1) : line));
+}
+
+function lineFromPointer(pointer: string | null, fileId: string): number | undefined {
+  const match = pointer?.match(/^#(.+)-L(\d+)$/);
+  return match && match[1] === fileId ? Number(match[2]) : undefined;
+}
+
+/**
+ * Parse a TEI document written by generateSessionLogTEI back into a session
+ * that can be passed to importSession.
+ */
+export function importSessionLogTEI(xml: string): TEISessionImport {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid XML: the TEI file could not be parsed");
+  }
+  const root = doc.documentElement;
+  if (root.localName !== "TEI" || root.namespaceURI !== TEI_NAMESPACE) {
+    throw new Error("Not a TEI P5 document");
+  }
+
+  const header = teiFirst(doc, "teiHeader");
+  if (!header) throw new Error("TEI document has no teiHeader");
+
+  const idnos = Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "idno"));
+  const sessionId = idnos.find((el) => el.getAttribute("type") === "ccs-session-id")?.textContent?.trim();
+  if (!sessionId) throw new Error("TEI document is not a CCS session log (missing session id)");
+
+  const terms = Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "term"));
+  const term = (type: string, n?: string) =>
+    terms.find((el) => el.getAttribute("type") === type && (n === undefined || el.getAttribute("n") === n))?.textContent?.trim();
+
+  const changes = Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "change"));
+  const changeDate = (type: string) => changes.find((el) => el.getAttribute("type") === type)?.getAttribute("when") || undefined;
+
+  const publicationDate = teiFirst(header, "publicationStmt");
+  const exportedAt = (publicationDate && teiFirst(publicationDate, "date")?.getAttribute("when")) || new Date().toISOString();
+
+  // Annotator initials by xml:id
+  const annotators = new Map<string, string>();
+  for (const person of Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "person"))) {
+    if (person.getAttribute("role") === "annotator") {
+      annotators.set(`#${xmlId(person)}`, person.textContent?.trim() || "");
+    }
+  }
+  const respInitials = (el: Element) => {
+    const resp = el.getAttribute("resp");
+    return resp ? annotators.get(resp) || undefined : undefined;
+  };
+
+  // The project's annotation types, from the header taxonomy
+  const typeTaxonomy = Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "taxonomy"))
+    .find((el) => xmlId(el) === "annotation-types");
+  const annotationTaxonomy = normalizeAnnotationTaxonomy(
+    (typeTaxonomy ? teiChildren(typeTaxonomy, "category") : []).map((category) => {
+      const rend = category.getAttribute("rend") || "";
+      return {
+        id: xmlId(category).replace(/^type-/, ""),
+        label: teiChildren(category, "catDesc")[0]?.textContent?.trim(),
+        prefix: category.getAttribute("n") || undefined,
+        color: {
+          light: rend.match(/(?:^|\s)color\((#[0-9a-fA-F]{6})\)/)?.[1],
+          dark: rend.match(/dark-color\((#[0-9a-fA-F]{6})\)/)?.[1],
+        },
+        description: teiChildren(category, "desc")[0]?.textContent?.trim(),
+      };
+    })
+  );
+
+  // File metadata from sourceDesc, keyed by the <text> it describes
+  const bibls = new Map<string, Element>();
+  for (const bibl of Array.from(header.getElementsByTagNameNS(TEI_NAMESPACE, "bibl"))) {
+    const corresp = bibl.getAttribute("corresp");
+    if (corresp) bibls.set(corresp.replace(/^#/, ""), bibl);
+  }
+
+  const codeFiles: CodeReference[] = [];
+  const codeContents: Record<string, string> = {};
+  const lineAnnotations: LineAnnotation[] = [];
+  const messages: Message[] = [];
+
+  // Link pointers are resolved once every file has been read
+  const fileIdsByTextId = new Map<string, string>();
+  const pendingLinks: Array<{ annotation: LineAnnotation; target: string }> = [];
+  // Provenance pointers to messages are resolved once the conversation has been read
+  const pendingSources: Array<{ annotation: LineAnnotation; corresp: string }> = [];
+
+  const texts = Array.from(doc.getElementsByTagNameNS(TEI_NAMESPACE, "text"));
+  for (const text of texts.filter((el) => el.getAttribute("type") === "code")) {
+    const textId = xmlId(text);
+    const bibl = bibls.get(textId);
+    const biblField = (name: string) => (bibl ? teiChildren(bibl, name)[0]?.textContent?.trim() || undefined : undefined);
+    const biblNote = (type: string) =>
+      bibl ? teiChildren(bibl, "note").find((el) => el.getAttribute("type") === type)?.textContent?.trim() || undefined : undefined;
+
+    const ab = teiFirst(text, "ab");
+    const lines = ab ? teiCodeLines(ab) : [""];
+    const content = lines.join("\n");
+    const fileId = biblField("idno") || textId;
+    const measure = bibl ? teiFirst(bibl, "measure") : undefined;
+
+    codeFiles.push({
+      id: fileId,
+      name: biblField("title") || text.getAttribute("n") || textId,
+      language: biblNote("language"),
+      source: biblNote("source"),
+      size: measure ? Number(measure.getAttribute("quantity")) : content.length,
+      uploadedAt: biblNote("uploadedAt") || exportedAt,
+      author: biblField("author"),
+      date: biblField("date"),
+      platform: biblNote("platform"),
+      context: biblNote("context"),
+    });
+    codeContents[fileId] = content;
+    fileIdsByTextId.set(textId, fileId);
+
+    const back = teiChildren(text, "back")[0];
+    const annotationNotes = back
+      ? Array.from(back.getElementsByTagNameNS(TEI_NAMESPACE, "note")).filter((el) => el.getAttribute("type") !== "reply")
+      : [];
+    for (const note of annotationNotes) {
+      const lineNumber = lineFromPointer(note.getAttribute("target"), textId);
+      const type = note.getAttribute("type") as LineAnnotationType;
+      if (!lineNumber || !type) continue;
+      const endLineNumber = lineFromPointer(note.getAttribute("targetEnd"), textId);
+
+      const replies: AnnotationReplyData[] = teiChildren(note, "note")
+        .filter((el) => el.getAttribute("type") === "reply")
+        .map((reply) => ({
+          id: reply.getAttribute("n") || xmlId(reply),
+          content: teiText(teiChildren(reply, "p")[0] || reply),
+          createdAt: reply.getAttribute("when") || exportedAt,
+          addedBy: respInitials(reply),
+          profileColor: reply.getAttribute("rend")?.match(/^color\((.+)\)$/)?.[1],
+        }));
+
+      const annotation: LineAnnotation = {
+        id: note.getAttribute("n") || xmlId(note),
+        codeFileId: fileId,
+        lineNumber,
+        endLineNumber,
+        lineContent: lines.slice(lineNumber - 1, endLineNumber ?? lineNumber).join("\n"),
+        type,
+        content: teiText(teiChildren(note, "p")[0] || note),
+        createdAt: note.getAttribute("when") || exportedAt,
+        addedBy: respInitials(note),
+        replies: replies.length > 0 ? replies : undefined,
+      };
+      lineAnnotations.push(annotation);
+
+      if ((note.getAttribute("ana") || "").split(/\s+/).includes("#ai-derived")) {
+        annotation.provenance = { model: note.getAttribute("source") || undefined };
+        const corresp = note.getAttribute("corresp");
+        if (corresp) pendingSources.push({ annotation, corresp });
+      }
+
+      const linkTarget = teiChildren(note, "ptr").find((el) => el.getAttribute("type") === "link")?.getAttribute("target");
+      if (linkTarget) pendingLinks.push({ annotation, target: linkTarget });
+    }
+  }
+
+  // Resolve a "#file-2-L12 #file-2-L14" pointer to a file and the text of its range
+  const resolveRange = (target: string) => {
+    const [start, end] = target.split(/\s+/);
+    const textId = start.match(/^#(.+)-L\d+$/)?.[1];
+    const codeFileId = textId && fileIdsByTextId.get(textId);
+    const lineNumber = textId ? lineFromPointer(start, textId) : undefined;
+    if (!textId || !codeFileId || !lineNumber) return undefined;
+    const endLineNumber = lineFromPointer(end ?? null, textId);
+    return {
+      codeFileId,
+      lineNumber,
+      endLineNumber,
+      lineContent: codeContents[codeFileId].split("\n").slice(lineNumber - 1, endLineNumber ?? lineNumber).join("\n"),
+    };
+  };
+
+  for (const { annotation, target } of pendingLinks) {
+    const link = resolveRange(target);
+    if (link) annotation.link = link;
+  }
+
+  const conversation = texts.find((el) => el.getAttribute("type") === "conversation");
+  if (conversation) {
+    for (const u of Array.from(conversation.getElementsByTagNameNS(TEI_NAMESPACE, "u"))) {
+      const ana = (u.getAttribute("ana") || "").split(/\s+/);
+      const anaValue = (prefix: string) => ana.find((a) => a.startsWith(prefix))?.slice(prefix.length);
+      const phase = anaValue("#phase-") as ConversationPhase | undefined;
+      const feedbackLevel = anaValue("#feedback-") as FeedbackLevel | undefined;
+      const model = u.getAttribute("source") || undefined;
+      const anchorTarget = teiChildren(u, "ptr").find((el) => el.getAttribute("type") === "anchor")?.getAttribute("target");
+      const anchorRange = anchorTarget ? resolveRange(anchorTarget) : undefined;
+      const anchor = anchorRange && {
+        ...anchorRange,
+        fileName: codeFiles.find((f) => f.id === anchorRange.codeFileId)?.name ?? anchorRange.codeFileId,
+      };
+
+      messages.push({
+        id: u.getAttribute("n") || xmlId(u),
+        role: u.getAttribute("who") === "#analyst" ? "user" : "assistant",
+        content: teiText(utteranceText(u)),
+        timestamp: u.getAttribute("when") || exportedAt,
+        metadata: phase || feedbackLevel || model || anchor ? { phase, feedbackLevel, model, anchor } : undefined,
+        isFavourite: ana.includes("#favourite") || undefined,
+      });
+    }
+  }
+
+  const comparisonsText = texts.find((el) => el.getAttribute("type") === "model-comparisons");
+  const modelComparisons: ModelComparison[] = [];
+  if (comparisonsText) {
+    for (const div of Array.from(comparisonsText.getElementsByTagNameNS(TEI_NAMESPACE, "div"))) {
+      if (div.getAttribute("type") !== "model-comparison") continue;
+      const [question, ...answers] = teiChildren(div, "u");
+      if (!question) continue;
+      const anchorTarget = teiChildren(question, "ptr").find((el) => el.getAttribute("type") === "anchor")?.getAttribute("target");
+      const anchorRange = anchorTarget ? resolveRange(anchorTarget) : undefined;
+      const keptResultIndex = answers.findIndex((u) => (u.getAttribute("ana") || "").split(/\s+/).includes("#kept"));
+      modelComparisons.push({
+        id: div.getAttribute("n") || xmlId(div),
+        prompt: teiText(utteranceText(question)),
+        anchor: anchorRange && {
+          ...anchorRange,
+          fileName: codeFiles.find((f) => f.id === anchorRange.codeFileId)?.name ?? anchorRange.codeFileId,
+        },
+        createdAt: question.getAttribute("when") || exportedAt,
+        results: answers.map((u) => {
+          const [provider, ...model] = (u.getAttribute("n") || "").split(":");
+          const gap = teiChildren(u, "gap")[0];
+          const seconds = Number(u.getAttribute("dur")?.match(/^PT([\d.]+)S$/)?.[1] ?? 0);
+          return {
+            provider,
+            model: model.join(":"),
+            modelName: u.getAttribute("source") || model.join(":"),
+            content: gap ? "" : teiText(utteranceText(u)),
+            error: gap ? teiText(teiChildren(gap, "desc")[0] || gap) : undefined,
+            latencyMs: seconds * 1000,
+          };
+        }),
+        keptResultIndex: keptResultIndex === -1 ? undefined : keptResultIndex,
+      });
+    }
+  }
+
+  for (const { annotation, corresp } of pendingSources) {
+    const u = conversation && Array.from(conversation.getElementsByTagNameNS(TEI_NAMESPACE, "u"))
+      .find((el) => `#${xmlId(el)}` === corresp);
+    const messageId = u ? u.getAttribute("n") || xmlId(u) : undefined;
+    if (messageId) annotation.provenance = { ...annotation.provenance, messageId };
+  }
+
+  return {
+    id: sessionId,
+    mode: (term("mode") || "critique") as EntryMode,
+    experienceLevel: term("experienceLevel") as ExperienceLevel | undefined,
+    currentPhase: (term("phase") || "opening") as ConversationPhase,
+    createdAt: changeDate("created") || exportedAt,
+    lastModified: changeDate("modified") || exportedAt,
+    projectName: teiFirst(header, "title")?.textContent?.trim() || "Untitled",
+    exportedAt,
+    codeFiles,
+    codeContents,
+    lineAnnotations,
+    messages,
+    modelComparisons: modelComparisons.length > 0 ? modelComparisons : undefined,
+    annotationTaxonomy,
+    settings: {
+      beDirectMode: term("setting", "beDirectMode") === "true",
+      teachMeMode: term("setting", "teachMeMode") === "true",
+    },
+  };
+}
@@ -0,0 +1,465 @@
+/**
+ * W3C Web Annotation Export/Import
+ *
+ * Converts line annotations to and from the W3C Web Annotation Data Model
+ * (https://www.w3.org/TR/annotation-model/) serialised as JSON-LD, so they can be
+ * exchanged with Hypothes.is-style tools and archived in repositories.
+ */
+
+import type { AnnotationTypeDefinition, CodeReference, LineAnnotation, LineAnnotationType, AnnotationReplyData } from "@/types";
+import { DEFAULT_ANNOTATION_TAXONOMY } from "@/types";
+import { generateId } from "@/lib/utils";
+import { findAnnotationTypeByPrefix } from "@/lib/annotation-taxonomy";
+
+export const WEB_ANNOTATION_CONTEXT = "http://www.w3.org/ns/anno.jsonld";
+
+// Characters of surrounding text kept in TextQuoteSelector prefix/suffix
+const QUOTE_CONTEXT_LENGTH = 32;
+
+// Default annotation type -> W3C motivation (each maps to a distinct motivation so the mapping reverses).
+// Project-defined types are exported as "commenting"; their id travels in the tagging body.
+export const ANNOTATION_MOTIVATIONS: Record<LineAnnotationType, string> = {
+  observation: "commenting",
+  question: "questioning",
+  metaphor: "classifying",
+  pattern: "identifying",
+  context: "describing",
+  critique: "assessing",
+};
+
+// Motivations from other tools that have an obvious CCS equivalent
+const FOREIGN_MOTIVATIONS: Record<string, LineAnnotationType> = {
+  highlighting: "observation",
+  tagging: "observation",
+  editing: "critique",
+  moderating: "critique",
+  linking: "context",
+};
+
+interface TextPositionSelector {
+  type: "TextPositionSelector";
+  start: number;
+  end: number;
+}
+
+interface TextQuoteSelector {
+  type: "TextQuoteSelector";
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+interface FragmentSelector {
+  type: "FragmentSelector";
+  conformsTo: string;
+  value: string;
+}
+
+type WebAnnotationSelector = TextPositionSelector | TextQuoteSelector | FragmentSelector;
+
+// The analyst (Person) or, for annotations saved from an assistant reply, the model (Software)
+type WebAnnotationAgent = { type: "Person"; nickname: string } | { type: "Software"; name: string };
+
+interface TextualBody {
+  type: "TextualBody";
+  value: string;
+  format?: string;
+  purpose?: string;
+}
+
+export interface WebAnnotation {
+  "@context"?: string;
+  id: string;
+  type: "Annotation";
+  motivation: string;
+  created?: string;
+  creator?: WebAnnotationAgent | WebAnnotationAgent[];
+  body: TextualBody[];
+  target:
+    | string
+    | {
+        source: string;
+        type?: string;
+        format?: string;
+        selector: WebAnnotationSelector[];
+      };
+}
+
+export interface WebAnnotationCollection {
+  "@context": string;
+  id: string;
+  type: "AnnotationCollection";
+  label: string;
+  total: number;
+  first: {
+    id: string;
+    type: "AnnotationPage";
+    startIndex: number;
+    items: WebAnnotation[];
+  };
+}
+
+/** Annotation recovered from a Web Annotation document, ready for addLineAnnotation */
+export type ImportedWebAnnotation = Omit<LineAnnotation, "id" | "createdAt" | "codeFileId">;
+
+export interface WebAnnotationImport {
+  source?: string;   // Target source IRI of the first annotation, used to find the matching file
+  annotations: ImportedWebAnnotation[];
+  skipped: number;   // Annotations whose target could not be located in the code
+}
+
+/** IRI identifying a code file in this workbench (or its original URL if it was fetched) */
+export function webAnnotationSource(file: Pick<CodeReference, "id" | "sourceUrl">): string {
+  return file.sourceUrl || `urn:ccs-wb:file:${file.id}`;
+}
+
+function annotationIri(id: string): string {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+    ? `urn:uuid:${id}`
+    : `urn:ccs-wb:annotation:${id}`;
+}
+
+// AI-derived annotations list the model as a Software creator alongside the analyst who saved them
+function annotationCreator(ann: LineAnnotation): WebAnnotation["creator"] {
+  const person: WebAnnotationAgent | undefined = ann.addedBy ? { type: "Person", nickname: ann.addedBy } : undefined;
+  if (!ann.provenance) return person;
+  const software: WebAnnotationAgent = { type: "Software", name: ann.provenance.model || "AI assistant" };
+  return person ? [person, software] : software;
+}
+
+/** Character offset of the start of each line */
+function lineOffsets(code: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") offsets.push(i + 1);
+  }
+  return offsets;
+}
+
+function lineAtOffset(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * Generate a W3C Web Annotation collection for the annotations on one code file.
+ * Replies are exported as separate annotations with the "replying" motivation.
+ */
+export function generateWebAnnotations(
+  file: Pick<CodeReference, "id" | "name" | "sourceUrl">,
+  code: string,
+  annotations: LineAnnotation[]
+): WebAnnotationCollection {
+  const source = webAnnotationSource(file);
+  const offsets = lineOffsets(code);
+  const lineCount = offsets.length;
+  const items: WebAnnotation[] = [];
+
+  for (const ann of annotations) {
+    if (ann.lineNumber < 1 || ann.lineNumber > lineCount) continue;
+    const endLine = Math.min(ann.endLineNumber ?? ann.lineNumber, lineCount);
+    const start = offsets[ann.lineNumber - 1];
+    const end = endLine < lineCount ? offsets[endLine] - 1 : code.length;
+    const id = annotationIri(ann.id);
+    const motivation = ANNOTATION_MOTIVATIONS[ann.type] ?? "commenting";
+
+    items.push({
+      id,
+      type: "Annotation",
+      motivation,
+      created: ann.createdAt,
+      creator: annotationCreator(ann),
+      body: [
+        { type: "TextualBody", value: ann.content, format: "text/plain", purpose: motivation },
+        { type: "TextualBody", value: ann.type, purpose: "tagging" },
+      ],
+      target: {
+        source,
+        type: "Text",
+        format: "text/plain",
+        selector: [
+          { type: "TextPositionSelector", start, end },
+          {
+            type: "TextQuoteSelector",
+            exact: code.slice(start, end),
+            prefix: code.slice(Math.max(0, start - QUOTE_CONTEXT_LENGTH), start),
+            suffix: code.slice(end, end + QUOTE_CONTEXT_LENGTH),
+          },
+          // RFC 5147 line range: positions between lines, zero-based
+          { type: "FragmentSelector", conformsTo: "http://tools.ietf.org/rfc/rfc5147", value: `line=${ann.lineNumber - 1},${endLine}` },
+        ],
+      },
+    });
+
+    ann.replies?.forEach((reply) => {
+      items.push({
+        id: annotationIri(reply.id),
+        type: "Annotation",
+        motivation: "replying",
+        created: reply.createdAt,
+        creator: reply.addedBy ? { type: "Person", nickname: reply.addedBy } : undefined,
+        body: [{ type: "TextualBody", value: reply.content, format: "text/plain", purpose: "replying" }],
+        target: id,
+      });
+    });
+  }
+
+  const collectionId = `${source}#annotations`;
+  return {
+    "@context": WEB_ANNOTATION_CONTEXT,
+    id: collectionId,
+    type: "AnnotationCollection",
+    label: `Annotations on ${file.name}`,
+    total: items.length,
+    first: {
+      id: `${collectionId}-page-1`,
+      type: "AnnotationPage",
+      startIndex: 0,
+      items,
+    },
+  };
+}
+
+/**
+ * Download a file's annotations as Web Annotation JSON-LD
+ */
+export function exportWebAnnotations(
+  file: Pick<CodeReference, "id" | "name" | "sourceUrl">,
+  code: string,
+  annotations: LineAnnotation[]
+): void {
+  const collection = generateWebAnnotations(file, code, annotations);
+  const blob = new Blob([JSON.stringify(collection, null, 2)], {
+    type: "application/ld+json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${file.name.replace(/\.[^.]+$/, "")}-annotations.jsonld`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** True if parsed JSON looks like a Web Annotation, page, collection or list of annotations */
+export function isWebAnnotationDocument(data: unknown): boolean {
+  const first = Array.isArray(data) ? data[0] : data;
+  if (!first || typeof first !== "object") return false;
+  const record = first as Record<string, unknown>;
+  const context = JSON.stringify(record["@context"] ?? "");
+  return (
+    context.includes("w3.org/ns/anno") ||
+    ["Annotation", "AnnotationPage", "AnnotationCollection"].includes(String(record.type))
+  );
+}
+
+function collectItems(data: unknown): Record<string, unknown>[] {
+  if (Array.isArray(data)) return data.flatMap(collectItems);
+  if (!data || typeof data !== "object") return [];
+  const record = data as Record<string, unknown>;
+  if (record.type === "AnnotationCollection") return collectItems(record.first);
+  if (record.type === "AnnotationPage") return collectItems(record.items);
+  return record.type === "Annotation" ? [record] : [];
+}
+
+// JSON-LD allows a single value wherever a list is expected
+function asArray<T>(value: unknown): T[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]) as T[];
+}
+
+function targetOf(item: Record<string, unknown>): Record<string, unknown> | string | undefined {
+  return asArray<Record<string, unknown> | string>(item.target)[0];
+}
+
+function bodyText(item: Record<string, unknown>): string {
+  const bodies = asArray<Record<string, unknown> | string>(item.body);
+  for (const body of bodies) {
+    if (typeof body === "string") continue;
+    if (body.purpose !== "tagging" && typeof body.value === "string") return body.value;
+  }
+  // bodyValue is the JSON-LD shorthand for a single plain text body
+  return typeof item.bodyValue === "string" ? item.bodyValue : "";
+}
+
+// Type from a tag naming one of the project's types, else from the motivation; types the
+// project does not have fall back to its first type
+function typeOf(item: Record<string, unknown>, taxonomy: AnnotationTypeDefinition[]): LineAnnotationType {
+  for (const body of asArray<Record<string, unknown> | string>(item.body)) {
+    if (body && typeof body === "object" && body.purpose === "tagging" && typeof body.value === "string") {
+      const tagged = findAnnotationTypeByPrefix(taxonomy, body.value);
+      if (tagged) return tagged.id;
+    }
+  }
+  const motivation = asArray<string>(item.motivation)[0] || "";
+  const own = Object.keys(ANNOTATION_MOTIVATIONS).find(
+    (type) => ANNOTATION_MOTIVATIONS[type] === motivation
+  );
+  const mapped = own || FOREIGN_MOTIVATIONS[motivation] || "observation";
+  return taxonomy.some((t) => t.id === mapped) ? mapped : taxonomy[0]?.id ?? mapped;
+}
+
+function creatorOf(item: Record<string, unknown>): string | undefined {
+  const creator = asArray<Record<string, unknown> | string>(item.creator)
+    .find((agent) => typeof agent === "string" || agent.type !== "Software");
+  if (!creator) return undefined;
+  if (typeof creator === "string") return creator;
+  const name = creator.nickname ?? creator.name;
+  return typeof name === "string" ? name : undefined;
+}
+
+// A Software creator marks an annotation as AI-derived
+function provenanceOf(item: Record<string, unknown>): LineAnnotation["provenance"] {
+  const software = asArray<Record<string, unknown> | string>(item.creator)
+    .find((agent) => typeof agent !== "string" && agent.type === "Software");
+  if (!software || typeof software === "string") return undefined;
+  return { model: typeof software.name === "string" ? software.name : undefined };
+}
+
+/** Whether an imported annotation is already on the file: same lines, author and content */
+export function isDuplicateWebAnnotation(
+  annotation: ImportedWebAnnotation,
+  existing: Pick<LineAnnotation, "lineNumber" | "endLineNumber" | "addedBy" | "content">[]
+): boolean {
+  const endLineNumber = annotation.endLineNumber ?? annotation.lineNumber;
+  return existing.some(
+    (a) =>
+      a.lineNumber === annotation.lineNumber &&
+      (a.endLineNumber ?? a.lineNumber) === endLineNumber &&
+      (a.addedBy || "") === (annotation.addedBy || "") &&
+      a.content === annotation.content
+  );
+}
+
+/** Source IRI of the first annotation target, used to find the code file a document belongs to */
+export function getWebAnnotationSource(data: unknown): string | undefined {
+  for (const item of collectItems(data)) {
+    const target = targetOf(item);
+    if (target && typeof target !== "string" && typeof target.source === "string") return target.source;
+  }
+  return undefined;
+}
+
+/**
+ * Find the character range a target points at. The quote is preferred (it survives edits),
+ * using prefix/suffix and the recorded position to choose between repeated matches.
+ */
+function locateTarget(selectors: Record<string, unknown>[], code: string, offsets: number[]): [number, number] | null {
+  const position = selectors.find((s) => s.type === "TextPositionSelector");
+  const quote = selectors.find((s) => s.type === "TextQuoteSelector");
+  const fragment = selectors.find((s) => s.type === "FragmentSelector");
+  const hint = position && typeof position.start === "number" ? position.start : 0;
+
+  if (quote && typeof quote.exact === "string" && quote.exact.length > 0) {
+    const exact = quote.exact;
+    const prefix = typeof quote.prefix === "string" ? quote.prefix : "";
+    const suffix = typeof quote.suffix === "string" ? quote.suffix : "";
+    let best: { start: number; score: number } | null = null;
+    for (let at = code.indexOf(exact); at !== -1; at = code.indexOf(exact, at + 1)) {
+      let score = 0;
+      if (prefix && code.slice(Math.max(0, at - prefix.length), at) === prefix) score += 2;
+      if (suffix && code.slice(at + exact.length, at + exact.length + suffix.length) === suffix) score += 2;
+      score -= Math.abs(at - hint) / (code.length + 1);
+      if (!best || score > best.score) best = { start: at, score };
+    }
+    if (best) return [best.start, best.start + exact.length];
+  }
+
+  if (position && typeof position.start === "number" && typeof position.end === "number") {
+    if (position.start >= 0 && position.start <= code.length && position.end >= position.start) {
+      return [position.start, Math.min(position.end, code.length)];
+    }
+  }
+
+  const lines = typeof fragment?.value === "string" ? fragment.value.match(/^line=(\d+)(?:,(\d+))?$/) : null;
+  if (lines) {
+    const first = Number(lines[1]);
+    const last = lines[2] !== undefined ? Number(lines[2]) : first + 1;
+    if (first < offsets.length && last > first) {
+      const end = last < offsets.length ? offsets[last] - 1 : code.length;
+      return [offsets[first], end];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read Web Annotation JSON-LD (a single annotation, a list, a page or a collection)
+ * and map it onto line annotations for the given code.
+ */
+export function parseWebAnnotations(
+  data: unknown,
+  code: string,
+  taxonomy: AnnotationTypeDefinition[] = DEFAULT_ANNOTATION_TAXONOMY
+): WebAnnotationImport {
+  const items = collectItems(data);
+  const offsets = lineOffsets(code);
+  const lines = code.split("\n");
+  const byId = new Map<string, ImportedWebAnnotation>();
+  const annotations: ImportedWebAnnotation[] = [];
+  const replies: Record<string, unknown>[] = [];
+  let skipped = 0;
+
+  for (const item of items) {
+    if (asArray<string>(item.motivation).includes("replying")) {
+      replies.push(item);
+      continue;
+    }
+
+    const target = targetOf(item);
+    if (!target || typeof target === "string") {
+      skipped++;
+      continue;
+    }
+
+    const range = locateTarget(asArray<Record<string, unknown>>(target.selector), code, offsets);
+    if (!range) {
+      skipped++;
+      continue;
+    }
+
+    // A range ending just after a newline belongs to the line before it
+    const lineNumber = lineAtOffset(offsets, range[0]);
+    const endLineNumber = lineAtOffset(offsets, Math.max(range[0], range[1] - 1));
+    const annotation: ImportedWebAnnotation = {
+      lineNumber,
+      endLineNumber: endLineNumber > lineNumber ? endLineNumber : undefined,
+      lineContent: lines.slice(lineNumber - 1, endLineNumber).join("\n"),
+      type: typeOf(item, taxonomy),
+      content: bodyText(item),
+      addedBy: creatorOf(item),
+      provenance: provenanceOf(item),
+    };
+    annotations.push(annotation);
+    if (typeof item.id === "string") byId.set(item.id, annotation);
+  }
+
+  // Attach replies to the annotation they target; replies to unknown annotations are dropped
+  for (const item of replies) {
+    const target = targetOf(item);
+    const targetId = typeof target === "string" ? target : target && (target.id ?? target.source);
+    const parent = typeof targetId === "string" ? byId.get(targetId) : undefined;
+    if (!parent) {
+      skipped++;
+      continue;
+    }
+    // Fresh ids: the document's ids may already belong to replies in this project
+    const reply: AnnotationReplyData = {
+      id: generateId(),
+      content: bodyText(item),
+      createdAt: typeof item.created === "string" ? item.created : new Date().toISOString(),
+      addedBy: creatorOf(item),
+    };
+    parent.replies = [...(parent.replies || []), reply];
+  }
+
+  return { source: getWebAnnotationSource(data), annotations, skipped };
+}
@@ -0,0 +1,56 @@
+/**
+ * File Revisions
+ * Helpers for the per-file revision history: ordering a file's revisions, finding its head,
+ * and placing annotations on the revision they were written on.
+ */
+
+import type { FileRevision, LineAnnotation } from "@/types/session";
+import { reanchorAnnotations } from "@/lib/annotation-anchoring";
+
+/**
+ * A file's revisions, oldest first (revision N is at index N - 1)
+ */
+export function getFileRevisions(
+  revisions: FileRevision[] | undefined,
+  fileId: string
+): FileRevision[] {
+  return (revisions || [])
+    .filter((r) => r.codeFileId === fileId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The most recent revision of a file, if it has been committed
+ */
+export function getHeadRevision(
+  revisions: FileRevision[] | undefined,
+  fileId: string
+): FileRevision | undefined {
+  const fileRevisions = getFileRevisions(revisions, fileId);
+  return fileRevisions[fileRevisions.length - 1];
+}
+
+/**
+ * Annotations written on a revision, positioned against that revision's content.
+ * Annotations written before the file's first commit belong to its first revision.
+ * Positions are recovered from each annotation's quoted text and context fingerprint;
+ * those that no longer match anything in the revision come back orphaned.
+ */
+export function getRevisionAnnotations(
+  annotations: LineAnnotation[],
+  fileRevisions: FileRevision[],
+  revision: FileRevision
+): LineAnnotation[] {
+  const isFirst = fileRevisions[0]?.id === revision.id;
+  const written = annotations.filter(
+    (a) =>
+      a.codeFileId === revision.codeFileId &&
+      (a.revisionId === revision.id || (isFirst && !a.revisionId))
+  );
+  // Clear orphaned flags so every annotation is matched afresh against this revision
+  return reanchorAnnotations(
+    written.map((a) => (a.orphaned ? { ...a, orphaned: false } : a)),
+    undefined,
+    revision.content
+  );
+}
@@ -0,0 +1,166 @@
+// Line references in chat text ("line 42", "lines 15-20", "L15-20", "eliza.bas:42")
+// Resolved against the session's files and checked against their length, so replies
+// can link to passages and flag references that point outside a file.
+
+export interface LineReferenceFile {
+  id: string;
+  name: string;
+  lineCount: number;
+}
+
+export interface LineReference {
+  index: number;         // Offset of the reference in the text
+  length: number;
+  text: string;          // The reference as written
+  fileId: string;
+  fileName: string;
+  lineNumber: number;
+  endLineNumber?: number;
+  valid: boolean;        // false when the range lies outside the file
+}
+
+// Prefix of the link targets written by linkLineReferences
+const HREF_PREFIX = "#line-ref:";
+
+const FILE_LINE_PATTERN = /(?<![\w/.-])([\w][\w./-]*\.[A-Za-z0-9]+):L?(\d+)(?:\s?[-–]\s?L?(\d+))?(?!\w)/g;
+const LINE_WORD_PATTERN = /\b[Ll]ines?\s+(\d+)(?:\s*(?:-|–|—|to|through)\s*(\d+))?(?!\w)/g;
+const LINE_SHORT_PATTERN = /(?<![\w:])L(\d+)(?:\s?[-–]\s?L?(\d+))?(?!\w)/g;
+// "line 42 of eliza.bas" / "lines 3-5 in eliza.bas"
+const TRAILING_FILE_PATTERN = /^\s+(?:of|in)\s+`?([\w][\w./-]*)`?/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stem(name: string): string {
+  return name.replace(/\.[^.]+$/, "");
+}
+
+function matchFile(files: LineReferenceFile[], name: string): LineReferenceFile | undefined {
+  const lower = name.toLowerCase();
+  return (
+    files.find((f) => f.name.toLowerCase() === lower) ||
+    files.find((f) => stem(f.name).toLowerCase() === stem(lower))
+  );
+}
+
+// Where each file is mentioned by name, so a bare "line 42" can refer to the file last mentioned
+function findFileMentions(text: string, files: LineReferenceFile[]): Array<{ index: number; file: LineReferenceFile }> {
+  const mentions: Array<{ index: number; file: LineReferenceFile }> = [];
+  for (const file of files) {
+    const names = [file.name, stem(file.name)].filter((n, i, all) => n.length > 2 && all.indexOf(n) === i);
+    for (const name of names) {
+      const pattern = new RegExp(`(?<![\\w.-])${escapeRegExp(name)}(?![\\w-])`, "gi");
+      for (const match of text.matchAll(pattern)) {
+        mentions.push({ index: match.index, file });
+      }
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Find line references in a piece of text. References naming a file resolve to it;
+ * bare ones resolve to the file last mentioned before them, then defaultFileId,
+ * then the only file. References that cannot be tied to a file are skipped.
+ */
+export function findLineReferences(
+  text: string,
+  files: LineReferenceFile[],
+  defaultFileId?: string | null
+): LineReference[] {
+  if (files.length === 0) return [];
+  const mentions = findFileMentions(text, files);
+  const fallback = files.find((f) => f.id === defaultFileId) ?? (files.length === 1 ? files[0] : undefined);
+  const references: LineReference[] = [];
+
+  const add = (index: number, length: number, file: LineReferenceFile | undefined, start: number, end?: number) => {
+    if (!file || start < 1) return;
+    // Skip matches inside a reference already found (e.g. the "L12" of "eliza.bas:L12")
+    if (references.some((r) => index < r.index + r.length && r.index < index + length)) return;
+    const endLine = end !== undefined && end > start ? end : undefined;
+    references.push({
+      index,
+      length,
+      text: text.slice(index, index + length),
+      fileId: file.id,
+      fileName: file.name,
+      lineNumber: start,
+      endLineNumber: endLine,
+      valid: (endLine ?? start) <= file.lineCount && (end === undefined || end >= start),
+    });
+  };
+
+  const contextFile = (index: number, length: number) => {
+    const trailing = text.slice(index + length).match(TRAILING_FILE_PATTERN);
+    const named = trailing ? matchFile(files, trailing[1]) : undefined;
+    if (named) return named;
+    const previous = mentions.filter((m) => m.index < index).pop();
+    return previous?.file ?? fallback;
+  };
+
+  for (const match of text.matchAll(FILE_LINE_PATTERN)) {
+    const file = matchFile(files, match[1]);
+    if (!file) continue;
+    add(match.index, match[0].length, file, Number(match[2]), match[3] ? Number(match[3]) : undefined);
+  }
+  for (const pattern of [LINE_WORD_PATTERN, LINE_SHORT_PATTERN]) {
+    for (const match of text.matchAll(pattern)) {
+      const file = contextFile(match.index, match[0].length);
+      add(match.index, match[0].length, file, Number(match[1]), match[2] ? Number(match[2]) : undefined);
+    }
+  }
+
+  return references.sort((a, b) => a.index - b.index);
+}
+
+// Fenced code blocks, inline code and existing links are left as they are
+const PROTECTED_MARKDOWN = /```[\s\S]*?(?:```|$)|`[^`\n]*`|\[[^\]\n]*\]\([^)\n]*\)/g;
+
+/**
+ * Rewrite the line references in a markdown reply as links whose targets
+ * parseLineReferenceHref understands. Code and existing links are not touched.
+ */
+export function linkLineReferences(
+  markdown: string,
+  files: LineReferenceFile[],
+  defaultFileId?: string | null
+): string {
+  if (files.length === 0) return markdown;
+
+  const protectedRanges = [...markdown.matchAll(PROTECTED_MARKDOWN)].map((m) => [m.index, m.index + m[0].length]);
+  const isProtected = (ref: LineReference) =>
+    protectedRanges.some(([from, to]) => ref.index < to && from < ref.index + ref.length);
+
+  let result = "";
+  let last = 0;
+  for (const ref of findLineReferences(markdown, files, defaultFileId)) {
+    if (isProtected(ref)) continue;
+    const target = [
+      ref.valid ? "ok" : "invalid",
+      encodeURIComponent(ref.fileId),
+      ref.lineNumber,
+      ref.endLineNumber ?? ref.lineNumber,
+    ].join(":");
+    result += markdown.slice(last, ref.index) + `[${ref.text}](${HREF_PREFIX}${target})`;
+    last = ref.index + ref.length;
+  }
+  return result + markdown.slice(last);
+}
+
+// Read a link target written by linkLineReferences (null for ordinary links)
+export function parseLineReferenceHref(
+  href: string | undefined
+): { fileId: string; lineNumber: number; endLineNumber?: number; valid: boolean } | null {
+  if (!href?.startsWith(HREF_PREFIX)) return null;
+  const [status, fileId, start, end] = href.slice(HREF_PREFIX.length).split(":");
+  const lineNumber = Number(start);
+  const endLineNumber = Number(end);
+  if (!fileId || !Number.isInteger(lineNumber)) return null;
+  return {
+    fileId: decodeURIComponent(fileId),
+    lineNumber,
+    endLineNumber: endLineNumber > lineNumber ? endLineNumber : undefined,
+    valid: status === "ok",
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "@jest/globals";
+import type { Message } from "@/types";
+import { forkBeforeMessage, getMessageSiblings, switchToMessageBranch, withParentIds } from "./message-tree";
+
+let clock = 0;
+function message(id: string, role: Message["role"], parentId?: string | null): Message {
+  clock++;
+  return {
+    id,
+    role,
+    content: id,
+    timestamp: `2026-01-01T00:00:${String(clock).padStart(2, "0")}.000Z`,
+    ...(parentId !== undefined ? { parentId } : {}),
+  };
+}
+
+const ids = (messages: Message[]) => messages.map((m) => m.id);
+
+describe("withParentIds", () => {
+  it("links a flat thread message by message", () => {
+    const flat = [message("q1", "user"), message("r1", "assistant"), message("q2", "user")];
+    expect(withParentIds(flat).map((m) => m.parentId)).toEqual([null, "q1", "r1"]);
+  });
+
+  it("keeps parents that are already set", () => {
+    const thread = [message("q1", "user", null), message("r1", "assistant", "elsewhere")];
+    expect(withParentIds(thread)[1].parentId).toBe("elsewhere");
+  });
+});
+
+describe("branching", () => {
+  // q1 -> r1 -> q2 -> r2, then q2 is edited into q2b and answered with r2b
+  const q1 = message("q1", "user");
+  const r1 = message("r1", "assistant");
+  const q2 = message("q2", "user");
+  const r2 = message("r2", "assistant");
+  const forked = forkBeforeMessage({ messages: [q1, r1, q2, r2] }, "q2");
+  const q2b = message("q2b", "user", "r1");
+  const r2b = message("r2b", "assistant", "q2b");
+  const session = { messages: [...forked.messages, q2b, r2b], branchMessages: forked.branchMessages };
+
+  it("forks before a message, keeping it and its replies as another branch", () => {
+    expect(ids(forked.messages)).toEqual(["q1", "r1"]);
+    expect(ids(forked.branchMessages)).toEqual(["q2", "r2"]);
+    expect(forked.branchMessages[0].parentId).toBe("r1");
+  });
+
+  it("lists the alternatives to a message, oldest first", () => {
+    expect(ids(getMessageSiblings(session, "q2b"))).toEqual(["q2", "q2b"]);
+    expect(ids(getMessageSiblings(session, "r1"))).toEqual(["r1"]);
+    expect(getMessageSiblings(session, "missing")).toEqual([]);
+  });
+
+  it("switches to the branch through a message and on to its end", () => {
+    const switched = switchToMessageBranch(session, "q2");
+    expect(ids(switched.messages)).toEqual(["q1", "r1", "q2", "r2"]);
+    expect(ids(switched.branchMessages).sort()).toEqual(["q2b", "r2b"]);
+
+    const back = switchToMessageBranch(switched, "q2b");
+    expect(ids(back.messages)).toEqual(["q1", "r1", "q2b", "r2b"]);
+  });
+
+  it("follows the most recent reply when a message has several", () => {
+    const r2c = message("r2c", "assistant", "q2b");
+    const regenerated = { messages: session.messages, branchMessages: [...session.branchMessages, r2c] };
+    expect(ids(switchToMessageBranch(regenerated, "q2b").messages)).toEqual(["q1", "r1", "q2b", "r2c"]);
+  });
+
+  it("keeps every message across switches", () => {
+    const switched = switchToMessageBranch(session, "r2");
+    expect([...ids(switched.messages), ...ids(switched.branchMessages)].sort()).toEqual(
+      ["q1", "q2", "q2b", "r1", "r2", "r2b"]
+    );
+  });
+
+  it("leaves the thread as it is for unknown messages", () => {
+    expect(ids(switchToMessageBranch(session, "missing").messages)).toEqual(ids(session.messages));
+  });
+});
@@ -0,0 +1,85 @@
+// Conversation branches
+// Session.messages is the branch being shown, from the first message to the last;
+// messages on the other branches are kept in Session.branchMessages. Each message
+// names the one it follows in parentId. Messages saved before branching have no
+// parentId and follow the message before them, so flat sessions read as one branch.
+
+import type { Message } from "@/types";
+
+interface MessageBranches {
+  messages: Message[];
+  branchMessages?: Message[];
+}
+
+// Fill in parentId for messages of a flat (pre-branching) thread
+export function withParentIds(messages: Message[]): Message[] {
+  return messages.map((message, i) =>
+    message.parentId !== undefined ? message : { ...message, parentId: messages[i - 1]?.id ?? null }
+  );
+}
+
+function allMessages({ messages, branchMessages }: MessageBranches): Message[] {
+  return [...withParentIds(messages), ...(branchMessages || [])];
+}
+
+function byTimestamp(a: Message, b: Message): number {
+  return a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0;
+}
+
+/**
+ * The alternatives to a message on the shown branch: every message (itself
+ * included) that follows the same parent, oldest first.
+ */
+export function getMessageSiblings(branches: MessageBranches, messageId: string): Message[] {
+  const pool = allMessages(branches);
+  const message = pool.find((m) => m.id === messageId);
+  if (!message) return [];
+  return pool.filter((m) => m.parentId === message.parentId).sort(byTimestamp);
+}
+
+/**
+ * Start a new branch before a message: it and everything after it on the shown
+ * branch are kept as another branch, and the thread ends at its parent, ready
+ * for the replacement (an edited question or a regenerated reply).
+ */
+export function forkBeforeMessage(branches: MessageBranches, messageId: string): Required<MessageBranches> {
+  const messages = withParentIds(branches.messages);
+  const index = messages.findIndex((m) => m.id === messageId);
+  if (index === -1) return { messages, branchMessages: branches.branchMessages || [] };
+  return {
+    messages: messages.slice(0, index),
+    branchMessages: [...(branches.branchMessages || []), ...messages.slice(index)],
+  };
+}
+
+/**
+ * Show the branch that runs through a message: from the first message down to
+ * it, then on through its most recent replies to the end of that branch.
+ */
+export function switchToMessageBranch(branches: MessageBranches, messageId: string): Required<MessageBranches> {
+  const pool = allMessages(branches);
+  const byId = new Map(pool.map((m) => [m.id, m]));
+  if (!byId.has(messageId)) return { messages: withParentIds(branches.messages), branchMessages: branches.branchMessages || [] };
+
+  const children = new Map<string | null | undefined, Message[]>();
+  for (const message of [...pool].sort(byTimestamp)) {
+    children.set(message.parentId, [...(children.get(message.parentId) || []), message]);
+  }
+
+  let leaf = byId.get(messageId)!;
+  for (let next = children.get(leaf.id); next?.length; next = children.get(leaf.id)) {
+    leaf = next[next.length - 1];
+  }
+
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  for (let current: Message | undefined = leaf; current && !seen.has(current.id); current = byId.get(current.parentId ?? "")) {
+    seen.add(current.id);
+    path.unshift(current);
+  }
+
+  return {
+    messages: path,
+    branchMessages: pool.filter((m) => !seen.has(m.id)),
+  };
+}
@@ -140,6 +140,11 @@ export const RATE_LIMITS = {
     maxRequests: 15,
     windowMs: 60 * 1000,
   },
+  /** Model discovery (fetches a client-supplied URL): 10 requests per minute */
+  models: {
+    maxRequests: 10,
+    windowMs: 60 * 1000,
+  },
   /** File upload: 30 requests per minute */
   upload: {
     maxRequests: 30,
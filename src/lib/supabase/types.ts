@@ -16,14 +16,8 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[];
 
-// Annotation types matching the app's LineAnnotationType
-export type AnnotationType =
-  | "observation"
-  | "question"
-  | "metaphor"
-  | "pattern"
-  | "context"
-  | "critique";
+// Annotation type ids, defined per project in projects.annotation_taxonomy
+export type AnnotationType = string;
 
 // Collaborator roles
 export type CollaboratorRole = "viewer" | "editor" | "admin";
@@ -104,6 +98,9 @@ export interface Database {
           owner_id: string;
           mode: string;
           session_data: Json | null;
+          annotation_taxonomy: Json | null;
+          codebook: Json | null;
+          blind_annotation: Json | null;
           is_public: boolean;
           accession_status: AccessionStatus;
           submitted_at: string | null;
@@ -120,6 +117,9 @@ export interface Database {
           owner_id: string;
           mode?: string;
           session_data?: Json | null;
+          annotation_taxonomy?: Json | null;
+          codebook?: Json | null;
+          blind_annotation?: Json | null;
           is_public?: boolean;
           accession_status?: AccessionStatus;
           submitted_at?: string | null;
@@ -136,6 +136,9 @@ export interface Database {
           owner_id?: string;
           mode?: string;
           session_data?: Json | null;
+          annotation_taxonomy?: Json | null;
+          codebook?: Json | null;
+          blind_annotation?: Json | null;
           is_public?: boolean;
           accession_status?: AccessionStatus;
           submitted_at?: string | null;
@@ -204,6 +207,38 @@ export interface Database {
           updated_at?: string;
         };
       };
+      code_file_revisions: {
+        Row: {
+          id: string;
+          file_id: string;
+          project_id: string;
+          content: string;
+          message: string | null;
+          author_id: string | null;
+          author_name: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          file_id: string;
+          project_id: string;
+          content: string;
+          message?: string | null;
+          author_id?: string | null;
+          author_name?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          file_id?: string;
+          project_id?: string;
+          content?: string;
+          message?: string | null;
+          author_id?: string | null;
+          author_name?: string | null;
+          created_at?: string;
+        };
+      };
       annotations: {
         Row: {
           id: string;
@@ -212,6 +247,19 @@ export interface Database {
           line_number: number;
           end_line_number: number | null;
           line_content: string | null;
+          anchor_prefix: string | null;
+          anchor_suffix: string | null;
+          orphaned: boolean;
+          revision_id: string | null;
+          linked_file_id: string | null;
+          linked_line_number: number | null;
+          linked_end_line_number: number | null;
+          linked_line_content: string | null;
+          source_message_id: string | null;
+          source_model: string | null;
+          codes: string[] | null;
+          status: string | null;
+          status_changed_by: string | null;
           type: AnnotationType;
           content: string;
           created_at: string;
@@ -224,6 +272,19 @@ export interface Database {
           line_number: number;
           end_line_number?: number | null;
           line_content?: string | null;
+          anchor_prefix?: string | null;
+          anchor_suffix?: string | null;
+          orphaned?: boolean;
+          revision_id?: string | null;
+          linked_file_id?: string | null;
+          linked_line_number?: number | null;
+          linked_end_line_number?: number | null;
+          linked_line_content?: string | null;
+          source_message_id?: string | null;
+          source_model?: string | null;
+          codes?: string[] | null;
+          status?: string | null;
+          status_changed_by?: string | null;
           type: AnnotationType;
           content: string;
           created_at?: string;
@@ -236,6 +297,19 @@ export interface Database {
           line_number?: number;
           end_line_number?: number | null;
           line_content?: string | null;
+          anchor_prefix?: string | null;
+          anchor_suffix?: string | null;
+          orphaned?: boolean;
+          revision_id?: string | null;
+          linked_file_id?: string | null;
+          linked_line_number?: number | null;
+          linked_end_line_number?: number | null;
+          linked_line_content?: string | null;
+          source_message_id?: string | null;
+          source_model?: string | null;
+          codes?: string[] | null;
+          status?: string | null;
+          status_changed_by?: string | null;
           type?: AnnotationType;
           content?: string;
           created_at?: string;
@@ -408,7 +482,6 @@ export interface Database {
     Views: Record<string, never>;
     Functions: Record<string, never>;
     Enums: {
-      annotation_type: AnnotationType;
       collaborator_role: CollaboratorRole;
       accession_status: AccessionStatus;
     };
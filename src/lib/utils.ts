@@ -65,6 +65,13 @@ export function truncate(text: string, length: number): string {
   return text.slice(0, length) + '...';
 }
 
+/**
+ * Count the words in a piece of text
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
 /**
  * Debounce function
  */
@@ -93,11 +100,18 @@ export async function fetchWithTimeout(
   url: string,
   options: RequestInit & { timeout?: number } = {}
 ): Promise<Response> {
-  const { timeout = 30000, ...fetchOptions } = options;
+  const { timeout = 30000, signal, ...fetchOptions } = options;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+  // Forward caller aborts (e.g. a stop button); the listener stays attached so
+  // aborting also cancels reading a streamed response body
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+
   try {
     const response = await fetch(url, {
       ...fetchOptions,
@@ -5,7 +5,8 @@ export type AIProvider =
   | "openai"
   | "google"
   | "ollama"
-  | "openai-compatible";
+  | "openai-compatible"
+  | "mock";
 
 export interface ModelConfig {
   id: string;
@@ -13,9 +14,17 @@ export interface ModelConfig {
   contextWindow: number;
   maxOutputTokens: number;
   supportsStreaming: boolean;
+  supportsTools?: boolean;  // Tool calling; defaults by provider when unset (see modelSupportsTools)
   recommendedFor: ("chat" | "generation" | "analysis")[];
 }
 
+// A model reported by a provider's own endpoint (Ollama /api/tags, OpenAI-compatible /v1/models)
+export interface DiscoveredModel {
+  id: string;
+  name: string;
+  contextWindow?: number; // When the endpoint reports it
+}
+
 export interface ProviderConfig {
   id: AIProvider;
   name: string;
@@ -26,12 +35,27 @@ export interface ProviderConfig {
   defaultBaseUrl?: string;
 }
 
+// Work the app asks a model to do. Each task can be routed to its own model.
+export type AITask = "chat" | "generate" | "suggest-annotations" | "literature";
+
+// The provider and model chosen for one task. Credentials left empty are taken
+// from the main settings when the provider is the same, otherwise from the server.
+export interface TaskModelSetting {
+  provider: AIProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  customModelId?: string;
+}
+
 export interface AISettings {
   provider: AIProvider;
   model: string;
   apiKey?: string;
   baseUrl?: string; // For Ollama and OpenAI-compatible
   customModelId?: string; // For custom model names
+  taskModels?: Partial<Record<AITask, TaskModelSetting>>; // Tasks without an entry use the main provider and model
+  fallbackModels?: TaskModelSetting[]; // Tried in order when the model for a request fails
   aiEnabled: boolean; // Master toggle for AI functionality
   // Conversation style settings
   beDirectMode: boolean; // Direct feedback vs graduated Socratic approach
@@ -49,6 +73,24 @@ export interface AIRequestConfig {
   model: string;
   apiKey: string;
   baseUrl?: string;
+  contextWindow?: number; // Discovered by the client for Ollama and OpenAI-compatible models
+  fallbacks?: AIRequestConfig[]; // Tried in order if this provider fails
+}
+
+// A provider that failed before a fallback answered
+export interface AIFallbackAttempt {
+  provider: AIProvider;
+  model: string;
+  error: string;
+}
+
+// Where a request comes from. Sent to the model as provider options; the mock
+// provider matches its fixture rules against it, other providers ignore it.
+export interface AIRequestContext {
+  task?: AITask | "test-connection";
+  mode?: string;
+  phase?: string;
+  outputType?: string;
 }
 
 export interface AIValidationResult {
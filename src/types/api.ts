@@ -6,11 +6,17 @@ import type {
   AnalysisResult,
   ReferenceResult,
   Message,
+  MessageMetadata,
   CritiqueArtifact,
   CritiqueArtifactType,
   SessionSettings,
   CodeReference,
+  LineAnnotation,
+  LineAnnotationType,
+  AnnotationTypeDefinition,
+  AssistantToolCall,
 } from './session';
+import type { DiscoveredModel } from './ai-settings';
 
 // Chat API
 export interface ChatRequest {
@@ -24,15 +30,94 @@ export interface ChatRequest {
   analysisContext?: AnalysisResult[];
   literatureContext?: ReferenceResult[];  // References
   codeContext?: (CodeReference & { content?: string })[];  // Code being analysed with optional content
+  selectedFileId?: string;  // File open in the editor - given priority when the context budget is tight
+  annotationTypes?: AnnotationTypeDefinition[];  // Project's annotation taxonomy, explained to the model with the inline annotations
+  toolContext?: ChatToolContext;  // Session the assistant's tools read from (tools are offered when present and supported)
+  stream?: boolean;   // Request a streamed (NDJSON) response when the model supports it
+}
+
+// Session data for the assistant's tools. Listings are raw (no inline annotations),
+// so line numbers match the editor.
+export interface ChatToolContext {
+  files: Array<Pick<CodeReference, 'id' | 'name' | 'language'> & { content: string }>;
+  annotations: Array<Pick<LineAnnotation, 'id' | 'codeFileId' | 'lineNumber' | 'endLineNumber' | 'type' | 'content' | 'addedBy'>>;
+  annotationTypes?: AnnotationTypeDefinition[];  // Project's annotation taxonomy (default six when absent)
 }
 
 export interface ChatResponse {
   message: Message;
+  context?: ContextBudgetReport;  // What the prompt included and dropped to fit the model's context window
   suggestedActions?: string[];
   phaseTransition?: string;
   feedbackLevel?: string;
 }
 
+// Streamed chat events, sent as newline-delimited JSON when ChatRequest.stream is set.
+// "start" is sent again, before the first delta, if a fallback model takes over.
+export type ChatStreamEvent =
+  | { type: "start"; metadata: MessageMetadata; context?: ContextBudgetReport }
+  | { type: "delta"; text: string }
+  | { type: "tool"; call: AssistantToolCall }
+  | { type: "done"; message: Message }
+  | { type: "error"; message: string };
+
+// Context budget report - how a chat prompt was fitted into the model's context window
+export interface ContextFileReport {
+  name: string;
+  totalLines: number;
+  includedLines: number;
+  status: 'full' | 'partial' | 'omitted';
+  includedRanges?: Array<[number, number]>;  // 1-based inclusive ranges of the sent listing when partial
+}
+
+export interface ContextBudgetReport {
+  contextWindow: number;
+  promptBudget: number;     // Tokens available for the prompt after reserving room for the reply
+  estimatedTokens: number;  // Estimated prompt size as sent
+  methodology: 'full' | 'trimmed' | 'omitted';
+  files: ContextFileReport[];
+  retrieval?: {          // Present when code had to be selected by relevance
+    chunks: number;      // Chunks in the lexical index
+    matched: number;     // Chunks matching the question or annotations
+    included: number;    // Matching chunks that were sent
+  };
+  messages: {
+    total: number;       // Earlier messages in the conversation (excluding the new one)
+    included: number;    // Sent verbatim
+    summarised: number;  // Condensed into the earlier-conversation digest
+    dropped: number;     // Not sent at all
+  };
+}
+
+// Annotation Suggestion API
+export interface AnnotationSuggestion {
+  line: number;       // 1-based start line
+  endLine?: number;   // 1-based end line for block annotations
+  type: LineAnnotationType;
+  content: string;
+}
+
+export interface SuggestAnnotationsRequest {
+  fileName: string;
+  language?: string;
+  content: string;    // Full file content (annotations are validated against its line count)
+  mode?: string;      // Entry mode (critique, archaeology, interpret, create)
+  existingAnnotations?: Pick<AnnotationSuggestion, 'line' | 'endLine' | 'type' | 'content'>[];
+  annotationTypes?: AnnotationTypeDefinition[];  // Project's taxonomy (default six when absent)
+  messages?: Message[];  // Recent conversation, used to focus the suggestions
+}
+
+export interface SuggestAnnotationsResponse {
+  suggestions: AnnotationSuggestion[];
+  discarded: number;  // Suggestions dropped because they were malformed or out of range
+}
+
+// Model Discovery API - models served by the configured Ollama or OpenAI-compatible endpoint
+export interface ModelDiscoveryResponse {
+  models: DiscoveredModel[];
+  error?: string; // Set when the endpoint could not be reached; models is then empty
+}
+
 // Code Upload API
 export interface UploadRequest {
   file: File;
@@ -37,12 +37,53 @@ export type AnalysisType =
   | 'hermeneutic'   // Deep interpretive analysis
   | 'genealogical'; // Tracing influences and derivations
 
+// Tools the assistant can use over the session while answering
+export type AssistantToolName = 'list_files' | 'read_lines' | 'search_code' | 'list_annotations' | 'show_lines';
+
+// A line range the assistant proposes showing in the editor (run client-side when the analyst accepts)
+export interface AssistantNavigation {
+  fileId: string;
+  fileName: string;
+  lineNumber: number;
+  endLineNumber?: number;
+  reason?: string;
+}
+
+// A tool call made while generating a reply, kept so the analyst can see what the model looked at
+export interface AssistantToolCall {
+  id: string;
+  name: AssistantToolName;
+  input: Record<string, unknown>;
+  summary: string;          // e.g. "Read lines 120-140 of luminary099.agc"
+  navigation?: AssistantNavigation; // show_lines proposals
+  error?: string;           // Why the call could not be carried out (unknown file, bad range)
+}
+
+// Code a chat message is about ("Ask about selection"), kept so the conversation can be traced back to it
+export interface MessageAnchor {
+  codeFileId: string;
+  fileName: string;         // Name when asked, in case the file is later renamed or removed
+  lineNumber: number;
+  endLineNumber?: number;
+  lineContent: string;      // The quoted lines as they were when asked
+}
+
+// Set on a reply when the configured model failed and a fallback answered instead
+export interface ModelFallback {
+  requested: string;  // Display name of the model that was asked first
+  failures: Array<{ model: string; error: string }>;  // Each model that failed, in the order tried
+}
+
 export interface MessageMetadata {
   analysisTriggered?: boolean;
   literatureQueried?: boolean;
   feedbackLevel?: FeedbackLevel;
   phase?: ConversationPhase;
-  model?: string;  // Model name that generated this response (e.g., "Gemini 2.5 Pro")
+  model?: string;  // Model name that generated this response (e.g., "Gemini 2.5 Pro"), the fallback's if one answered
+  fallback?: ModelFallback;
+  toolCalls?: AssistantToolCall[];  // Session tools the assistant used, in call order
+  anchor?: MessageAnchor;  // Lines the analyst asked about
+  stopped?: boolean;  // The analyst stopped the reply before it finished
 }
 
 export interface Message {
@@ -52,6 +93,27 @@ export interface Message {
   timestamp: string;
   metadata?: MessageMetadata;
   isFavourite?: boolean;  // Heart-marked messages for export
+  parentId?: string | null; // Message this one follows (null for the first); unset in sessions saved before branching
+}
+
+// One model's answer in a model comparison
+export interface ModelComparisonResult {
+  provider: string;         // AIProvider id
+  model: string;            // Model id sent to the provider
+  modelName: string;        // Display name, as in MessageMetadata.model
+  content: string;          // The answer ('' when the request failed)
+  error?: string;
+  latencyMs: number;        // From sending the prompt to the complete answer
+}
+
+// One prompt put to several models with the same system prompt and code context
+export interface ModelComparison {
+  id: string;
+  prompt: string;
+  anchor?: MessageAnchor;   // Lines the prompt asked about
+  createdAt: string;
+  results: ModelComparisonResult[];
+  keptResultIndex?: number; // Answer kept into the conversation
 }
 
 export interface CodeReference {
@@ -70,6 +132,19 @@ export interface CodeReference {
   context?: string;       // Brief historical context
 }
 
+// A committed version of a code file - the file's revision history, oldest first.
+// Revisions are numbered by their order in the history rather than storing a number,
+// so collaborators committing at the same time cannot collide.
+export interface FileRevision {
+  id: string;
+  codeFileId: string;
+  content: string;
+  createdAt: string;
+  author?: string;        // Display name of whoever committed this revision
+  authorId?: string;      // Account of whoever committed it (unknown for revisions imported from a file)
+  message?: string;       // Optional note, e.g. "Original version" or "Restored revision 2"
+}
+
 // Kept for compatibility, may remove later
 export interface FileReference extends CodeReference {}
 
@@ -110,48 +185,91 @@ export interface AnnotationReplyData {
   profileColor?: string;    // User's chosen profile color (hex format like #FF5733), falls back to hash-based color if not set
 }
 
+// Context fingerprint used to re-anchor an annotation after its file is edited
+// (the annotated text itself is kept in lineContent)
+export interface AnnotationAnchor {
+  prefix: string;           // Lines immediately before the annotated range
+  suffix: string;           // Lines immediately after the annotated range
+}
+
+// The range in a second file that a link annotation connects its own range to (comparative reading)
+export interface AnnotationLink {
+  codeFileId: string;       // The other file
+  lineNumber: number;       // Start line in the other file
+  endLineNumber?: number;   // End line for blocks (undefined = single line)
+  lineContent: string;      // The linked line(s) in the other file
+  anchor?: AnnotationAnchor; // Context fingerprint for re-anchoring after that file is edited
+  orphaned?: boolean;       // True if the linked range could not be found after an edit
+}
+
+// Where an annotation's text came from when it was saved from the chat (AI-derived)
+export interface AnnotationProvenance {
+  messageId?: string;       // Assistant message the text was taken from (absent when imported from elsewhere)
+  model?: string;           // Model that wrote it (MessageMetadata.model)
+}
+
 export interface LineAnnotation {
   id: string;
   codeFileId: string;       // Which code file this annotation belongs to
   lineNumber: number;       // The line number being annotated (start line for blocks)
   endLineNumber?: number;   // End line for block annotations (undefined = single line)
   lineContent: string;      // The actual content of the line(s) (for reference)
-  type: 'observation' | 'question' | 'metaphor' | 'pattern' | 'context' | 'critique';
+  type: LineAnnotationType; // Id of a type in the project's annotation taxonomy
   content: string;          // The annotation text
   createdAt: string;
-  orphaned?: boolean;       // True if the annotated line was deleted during editing
+  anchor?: AnnotationAnchor; // Context fingerprint for re-anchoring after edits
+  revisionId?: string;      // File revision that was current when this was written (undefined = before any commit)
+  orphaned?: boolean;       // True if no confident new position was found after an edit
+  link?: AnnotationLink;    // Link annotations: the range in another file this one is read against
+  provenance?: AnnotationProvenance; // Set when the text was taken from an assistant reply
   addedBy?: string;         // Initials of the user who added this annotation (for future multi-user support)
   replies?: AnnotationReplyData[]; // Thread of replies to this annotation
+  codes?: string[];         // Ids of codes from the project's codebook applied to this annotation
+  status?: AnnotationStatus; // Where its discussion stands (unset = none, or open for questions)
+  statusChangedBy?: string; // Initials of the user who last set the status
 }
 
-export type LineAnnotationType = LineAnnotation['type'];
+// Whether an annotation's question or discussion still needs an answer
+export type AnnotationStatus = 'open' | 'resolved' | 'wont-fix';
+
+// Annotation types are defined per project (Session.annotationTaxonomy), so any id is valid here
+export type LineAnnotationType = string;
 
-export const LINE_ANNOTATION_TYPES: LineAnnotationType[] = [
-  'observation',
-  'question',
-  'metaphor',
-  'pattern',
-  'context',
-  'critique',
+// One category in a project's annotation taxonomy
+export interface AnnotationTypeDefinition {
+  id: LineAnnotationType;   // Stored on each annotation (stable, lower-case slug)
+  label: string;            // Shown in menus, legends and exports
+  prefix: string;           // Short tag used inline, e.g. "// An:Obs:"
+  color: { light: string; dark: string }; // Hex colours for light and dark themes
+  description?: string;     // What the category is for (shown in help and given to the assistant)
+}
+
+// The six types every project starts with
+export const DEFAULT_ANNOTATION_TAXONOMY: AnnotationTypeDefinition[] = [
+  { id: 'observation', label: 'Observation', prefix: 'Obs', color: { light: '#2563eb', dark: '#60a5fa' }, description: 'A notable feature, pattern, or detail' },
+  { id: 'question', label: 'Question', prefix: 'Q', color: { light: '#d97706', dark: '#fbbf24' }, description: 'Something to explore or understand better' },
+  { id: 'metaphor', label: 'Metaphor', prefix: 'Met', color: { light: '#9333ea', dark: '#c084fc' }, description: 'A metaphorical or figurative interpretation' },
+  { id: 'pattern', label: 'Pattern', prefix: 'Pat', color: { light: '#16a34a', dark: '#4ade80' }, description: 'A recurring structure, idiom, or convention' },
+  { id: 'context', label: 'Context', prefix: 'Ctx', color: { light: '#64748b', dark: '#94a3b8' }, description: 'Historical, cultural, or situational context' },
+  { id: 'critique', label: 'Critique', prefix: 'Crit', color: { light: '#8b2942', dark: '#c55a75' }, description: 'A critical observation or interpretive claim' },
 ];
 
-export const LINE_ANNOTATION_LABELS: Record<LineAnnotationType, string> = {
-  observation: 'Observation',
-  question: 'Question',
-  metaphor: 'Metaphor',
-  pattern: 'Pattern',
-  context: 'Context',
-  critique: 'Critique',
-};
+// One code in a project's qualitative codebook. Codes nest through parentId, and an
+// annotation can carry any number of them alongside its single type.
+export interface CodebookCode {
+  id: string;
+  name: string;
+  parentId?: string;        // Parent code (undefined = top level)
+  color?: string;           // Hex colour for chips (inherits the parent's when unset)
+  description?: string;     // When to apply the code
+}
 
-export const LINE_ANNOTATION_COLORS: Record<LineAnnotationType, string> = {
-  observation: 'bg-blue-100 border-blue-300 text-blue-800',
-  question: 'bg-amber-100 border-amber-300 text-amber-800',
-  metaphor: 'bg-purple-100 border-purple-300 text-purple-800',
-  pattern: 'bg-green-100 border-green-300 text-green-800',
-  context: 'bg-slate-100 border-slate-300 text-slate-800',
-  critique: 'bg-burgundy/10 border-burgundy/30 text-burgundy',
-};
+// Blind annotation: members annotate a file without seeing each other's annotations
+// until they submit their own reading of it
+export interface BlindAnnotationSettings {
+  enabled: boolean;
+  submissions: Record<string, string[]>;  // codeFileId -> initials of members who have submitted
+}
 
 export interface AnalysisResult {
   id: string;
@@ -249,10 +367,16 @@ export interface Session {
   mode: EntryMode;
   experienceLevel?: ExperienceLevel;  // CCS experience level (learning, practitioner, research)
   languageOverride?: string;  // Per-session language preference (overrides global default)
-  messages: Message[];
+  messages: Message[];          // The conversation branch being shown, first message to last
+  branchMessages?: Message[];   // Messages on the other branches (edited questions, regenerated replies)
+  modelComparisons?: ModelComparison[]; // Prompts answered side by side by several models
   codeFiles: CodeReference[];   // Code being analysed
   codeContents: Record<string, string>;  // Map of codeFileId -> actual code content
   lineAnnotations: LineAnnotation[];  // Line-anchored annotations for close reading
+  annotationTaxonomy?: AnnotationTypeDefinition[];  // Project's annotation types (undefined = DEFAULT_ANNOTATION_TAXONOMY)
+  codebook?: CodebookCode[];  // Project's qualitative codes, parents before children
+  blindAnnotation?: BlindAnnotationSettings;  // Hides members' annotations from each other until submitted
+  fileRevisions?: FileRevision[];  // Committed versions of each code file, oldest first
   analysisResults: AnalysisResult[];
   references: ReferenceResult[]; // Related code, scholarship
   critiqueArtifacts: CritiqueArtifact[];